@@ -125,7 +125,7 @@ const runConcurrencyDemo = Effect.gen(function* (_) {
   
   const startTime = Date.now();
   
-  yield* _(executor.run<UserService | PreferencesService | PermissionsService>());
+  yield* _(executor.run());
   
   const endTime = Date.now();
   console.log(`⏱️  Total execution time: ${endTime - startTime}ms`);
@@ -1,5 +1,6 @@
 import { pipeline } from "../src/pipes/builder";
 import { NodeKind, type Node } from "../src/core/node";
+import { sqliteCheckpointStore } from "../src/runtime/checkpoint/sqlite";
 
 // Data Processing Pipeline - demonstrates complex transformations
 const dataIngress: Node<any, any> = {
@@ -71,10 +72,12 @@ const dataOutput: Node<any, any> = {
   }
 };
 
+// Checkpoint every step so a failed run can continue with `bun run cli resume`
 export default pipeline("data-processing")
   .from(dataIngress)
   .through(filterAdults)
   .through(calculateStats)
   .through(formatOutput)
   .to(dataOutput)
+  .checkpoint(sqliteCheckpointStore({ dbPath: "data-processing-checkpoints.db" }))
   .build(); 
\ No newline at end of file
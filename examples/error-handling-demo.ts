@@ -190,7 +190,7 @@ const runWithErrorHandling = Effect.gen(function* (_) {
   // Run with proper error handling  
   const result = yield* _(
     pipe(
-      executor.run<ExternalApi | Database | Logger>(),
+      executor.run(),
       Effect.catchAll((error) => Effect.gen(function* (_) {
         console.error("💥 Pipeline failed:", error.message);
         
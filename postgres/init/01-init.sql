@@ -34,6 +34,29 @@ CREATE TABLE IF NOT EXISTS pipeline.outputs (
     processed_at TIMESTAMP WITH TIME ZONE
 );
 
+CREATE TABLE IF NOT EXISTS pipeline.checkpoints (
+    run_id VARCHAR(255) PRIMARY KEY,
+    pipeline_name VARCHAR(255) NOT NULL,
+    node_name VARCHAR(255) NOT NULL,
+    node_index INTEGER NOT NULL,
+    output JSONB,
+    completed_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS pipeline.dedupe_keys (
+    key VARCHAR(512) PRIMARY KEY,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS pipeline.node_state (
+    namespace VARCHAR(512) NOT NULL,
+    key VARCHAR(512) NOT NULL,
+    -- NULL for a value of null or undefined
+    value JSONB,
+    expires_at TIMESTAMP WITH TIME ZONE,
+    PRIMARY KEY (namespace, key)
+);
+
 -- Create indexes for better query performance
 CREATE INDEX IF NOT EXISTS idx_events_event_type ON pipeline.events(event_type);
 CREATE INDEX IF NOT EXISTS idx_events_created_at ON pipeline.events(created_at);
@@ -41,6 +64,8 @@ CREATE INDEX IF NOT EXISTS idx_events_data_gin ON pipeline.events USING gin(data
 CREATE INDEX IF NOT EXISTS idx_transformations_source_event_id ON pipeline.transformations(source_event_id);
 CREATE INDEX IF NOT EXISTS idx_outputs_status ON pipeline.outputs(status);
 CREATE INDEX IF NOT EXISTS idx_outputs_output_type ON pipeline.outputs(output_type);
+-- insertOutputs() upserts on output_id, and outbox relays finish rows by it
+CREATE UNIQUE INDEX IF NOT EXISTS idx_outputs_output_id ON pipeline.outputs(output_id);
 
 -- Create a function to update the updated_at timestamp
 CREATE OR REPLACE FUNCTION update_updated_at_column()
@@ -2,16 +2,53 @@ import { Effect, Queue, Fiber } from "effect";
 import { EventBus } from "../runtime/events/eventBus";
 import { PluginManager } from "../runtime/plugins/pluginManager";
 import { LoggingPlugin } from "../runtime/plugins/loggingPlugin";
-import { PipelineExecutor } from "../runtime/engine";
+import { PipelineExecutor, type StopOptions } from "../runtime/engine";
 import type { RuntimeEvent } from "../core/event";
 import type { Pipe } from "../core/pipe";
+import { checkPipeSchemas, formatMismatch, SchemaMismatchError } from "../pipes/schemaCheck";
+import type { Orchestrator } from "../orchestrator/orchestrator";
+import { recordPipe, recordingFromPath, replayPipe } from "../runtime/recording";
+import { onShutdownSignal } from "./shutdown";
 import { join } from "path";
-import { watch } from "fs";
+import { existsSync, watch, type FSWatcher } from "fs";
 
 const args = process.argv.slice(2);
 const command = args[0];
 
-async function runPipeline(file: string, watchMode = false) {
+/**
+ * `--drain-timeout <ms>`: how long a stopped pipeline may take to finish its
+ * items in flight.
+ */
+function stopOptions(): StopOptions {
+  const index = args.indexOf("--drain-timeout");
+  const millis = index === -1 ? NaN : Number(args[index + 1]);
+  return Number.isFinite(millis) ? { deadline: millis } : {};
+}
+
+/**
+ * The value following `flag`, if the flag is given.
+ */
+function flagValue(flag: string): string | undefined {
+  const index = args.indexOf(flag);
+  return index === -1 ? undefined : args[index + 1];
+}
+
+async function runPipeline(file: string, watchMode = false, streamMode = false, recordPath?: string) {
+  let executor: PipelineExecutor | undefined;
+  let running: Promise<void> | undefined;
+  let watcher: FSWatcher | undefined;
+
+  // Stop taking items, let the ones in flight finish, close servers, then exit
+  onShutdownSignal(async (signal) => {
+    console.log(`\n👋 ${signal} received, stopping pipeline...`);
+    watcher?.close();
+    if (executor) {
+      await Effect.runPromise(executor.stop(stopOptions()));
+    }
+    const drained = await (running ?? Promise.resolve()).then(() => true, () => false);
+    process.exit(drained ? 0 : 1);
+  });
+
   try {
     console.log(`Loading pipeline from: ${file}`);
     
@@ -29,6 +66,9 @@ async function runPipeline(file: string, watchMode = false) {
       }
       
       console.log(`Pipeline "${pipeline.name}" loaded with ${pipeline.nodes.length} nodes`);
+      if (recordPath) {
+        console.log(`Recording every node's input and output to ${recordPath}`);
+      }
       
       await Effect.runPromise(
         Effect.gen(function* (_) {
@@ -37,10 +77,22 @@ async function runPipeline(file: string, watchMode = false) {
           pluginManager.register(LoggingPlugin);
           const pluginFiber = yield* _(pluginManager.run());
 
-          const executor = new PipelineExecutor(pipeline, bus.getQueue());
+          executor = new PipelineExecutor(
+            recordPath ? recordPipe(pipeline, recordingFromPath(recordPath)) : pipeline,
+            bus.getQueue()
+          );
 
-          console.log("Starting pipeline execution...");
-          yield* _(executor.run());
+          if (streamMode) {
+            console.log("Starting streaming pipeline execution...");
+            yield* _(executor.runStream());
+          } else {
+            const runId = crypto.randomUUID();
+            console.log(`Starting pipeline execution (run ${runId})...`);
+            if (pipeline.checkpoint) {
+              console.log(`If it fails, continue with: bun run cli resume ${file} ${runId}`);
+            }
+            yield* _(executor.run({ runId }));
+          }
           console.log("Pipeline completed successfully!");
 
           yield* _(Fiber.interrupt(pluginFiber));
@@ -51,30 +103,33 @@ async function runPipeline(file: string, watchMode = false) {
     if (watchMode) {
       console.log("Starting in watch mode...");
       console.log("Press Ctrl+C to stop");
-      
-      // Run once immediately
-      await runOnce();
-      
-      // Watch for file changes
-      watch(resolvedPath, async (eventType) => {
+
+      // Watch for file changes first: a streaming run only returns once stopped
+      watcher = watch(resolvedPath, async (eventType) => {
         if (eventType === "change") {
           console.log("\n🔄 File changed, restarting pipeline...");
           try {
-            await runOnce();
+            // Let the previous run drain before starting the changed pipeline
+            if (executor) {
+              await Effect.runPromise(executor.stop(stopOptions()));
+            }
+            await (running ?? Promise.resolve()).catch(() => undefined);
+            await (running = runOnce());
           } catch (error) {
             console.error("Pipeline failed:", error);
           }
         }
       });
-      
-      // Keep the process running
-      process.on("SIGINT", () => {
-        console.log("\n👋 Stopping watch mode");
-        process.exit(0);
-      });
-      
+
+      // Run once immediately
+      running = runOnce();
+      if (streamMode) {
+        running.catch((error) => console.error("Pipeline failed:", error));
+      } else {
+        await running;
+      }
     } else {
-      await runOnce();
+      await (running = runOnce());
     }
     
   } catch (error) {
@@ -84,6 +139,20 @@ async function runPipeline(file: string, watchMode = false) {
 }
 
 async function runCluster(file: string, watchMode = false) {
+  let orchestrator: Orchestrator | undefined;
+  let running: Promise<void> | undefined;
+  let watcher: FSWatcher | undefined;
+
+  onShutdownSignal(async (signal) => {
+    console.log(`\n👋 ${signal} received, stopping deployments...`);
+    watcher?.close();
+    if (orchestrator) {
+      await Effect.runPromise(orchestrator.stop(stopOptions()));
+    }
+    const drained = await (running ?? Promise.resolve()).then(() => true, () => false);
+    process.exit(drained ? 0 : 1);
+  });
+
   try {
     console.log(`Loading cluster from: ${file}`);
 
@@ -106,9 +175,10 @@ async function runCluster(file: string, watchMode = false) {
           pluginManager.register(LoggingPlugin);
           const pluginFiber = yield* _(pluginManager.run());
 
-          const orchestrator = new Orchestrator(cluster, bus.getQueue());
+          const current = new Orchestrator(cluster, bus.getQueue());
+          orchestrator = current;
           console.log("Starting orchestrator...");
-          yield* _(orchestrator.run());
+          yield* _(current.run());
           console.log("All deployments completed!");
 
           yield* _(Fiber.interrupt(pluginFiber));
@@ -119,23 +189,19 @@ async function runCluster(file: string, watchMode = false) {
     if (watchMode) {
       console.log("Starting orchestrator in watch mode...");
       console.log("Press Ctrl+C to stop");
-      await runOnce();
-      watch(resolvedPath, async (eventType) => {
+      await (running = runOnce());
+      watcher = watch(resolvedPath, async (eventType) => {
         if (eventType === "change") {
           console.log("\n🔄 Cluster file changed, restarting orchestrator...");
           try {
-            await runOnce();
+            await (running = runOnce());
           } catch (error) {
             console.error("Orchestrator run failed:", error);
           }
         }
       });
-      process.on("SIGINT", () => {
-        console.log("\n👋 Stopping watch mode");
-        process.exit(0);
-      });
     } else {
-      await runOnce();
+      await (running = runOnce());
     }
   } catch (error) {
     console.error("Failed to run orchestrator:", error);
@@ -143,34 +209,210 @@ async function runCluster(file: string, watchMode = false) {
   }
 }
 
+async function resumePipeline(file: string, runId: string) {
+  try {
+    const resolvedPath = join(process.cwd(), file);
+    const pipeline: Pipe = (await import(resolvedPath)).default;
+
+    if (!pipeline || !pipeline.nodes) {
+      throw new Error("Invalid pipeline file: must export a default pipeline");
+    }
+
+    console.log(`Resuming run ${runId} of pipeline "${pipeline.name}"`);
+
+    await Effect.runPromise(
+      Effect.gen(function* (_) {
+        const bus = yield* _(EventBus.make());
+        const pluginManager = new PluginManager(bus);
+        pluginManager.register(LoggingPlugin);
+        const pluginFiber = yield* _(pluginManager.run());
+
+        const executor = new PipelineExecutor(pipeline, bus.getQueue());
+        yield* _(executor.resume(runId));
+        console.log("Pipeline completed successfully!");
+
+        yield* _(Fiber.interrupt(pluginFiber));
+      })
+    );
+  } catch (error) {
+    console.error("Failed to resume pipeline:", error);
+    process.exit(1);
+  }
+}
+
+async function replayRecording(recordPath: string, file: string, stub: readonly string[]) {
+  try {
+    const pipeline: Pipe = (await import(join(process.cwd(), file))).default;
+
+    if (!pipeline || !pipeline.nodes) {
+      throw new Error("Invalid pipeline file: must export a default pipeline");
+    }
+
+    await Effect.runPromise(
+      Effect.gen(function* (_) {
+        const steps = yield* _(recordingFromPath(recordPath).load());
+        const replayed = replayPipe(pipeline, steps, { stub });
+        console.log(`Replaying ${recordPath} through pipeline "${pipeline.name}"`);
+        if (stub.length > 0) {
+          console.log(`Stubbing with recorded outputs: ${stub.join(", ")}`);
+        }
+
+        const bus = yield* _(EventBus.make());
+        const pluginManager = new PluginManager(bus);
+        pluginManager.register(LoggingPlugin);
+        const pluginFiber = yield* _(pluginManager.run());
+
+        // The replayed ingress streams every recorded item, then ends
+        yield* _(new PipelineExecutor(replayed, bus.getQueue()).runStream());
+        console.log("Replay completed successfully!");
+
+        yield* _(Fiber.interrupt(pluginFiber));
+      })
+    );
+  } catch (error) {
+    console.error("Failed to replay recording:", error);
+    process.exit(1);
+  }
+}
+
+/**
+ * Type guards for what an imported pipeline or cluster file exports.
+ */
+function hasDefaultExport(module: unknown): module is { readonly default: unknown } {
+  return typeof module === "object" && module !== null && "default" in module;
+}
+
+function isPipe(value: unknown): value is Pipe {
+  return typeof value === "object" && value !== null && Array.isArray((value as { nodes?: unknown }).nodes);
+}
+
+function isCluster(value: unknown): value is { readonly deployments: readonly { readonly pipe: Pipe }[] } {
+  return typeof value === "object" && value !== null && Array.isArray((value as { deployments?: unknown }).deployments);
+}
+
+async function validateFile(file: string) {
+  const resolvedPath = join(process.cwd(), file);
+  console.log(`Validating: ${resolvedPath}`);
+
+  let module: unknown;
+  try {
+    // Importing runs the builder, which already rejects incompatible schemas
+    module = await import(resolvedPath);
+  } catch (error) {
+    if (error instanceof SchemaMismatchError) {
+      console.error(`❌ ${error.message}`);
+    } else {
+      console.error("Failed to load file:", error);
+    }
+    process.exit(1);
+  }
+
+  const target = hasDefaultExport(module) ? module.default : undefined;
+  const pipes: Pipe[] = isCluster(target)
+    ? target.deployments.map((deployment) => deployment.pipe)
+    : isPipe(target)
+    ? [target]
+    : [];
+
+  if (pipes.length === 0) {
+    console.error("Invalid file: must export a default pipeline or cluster");
+    process.exit(1);
+  }
+
+  let failed = false;
+  for (const pipe of pipes) {
+    const mismatches = checkPipeSchemas(pipe);
+    if (mismatches.length === 0) {
+      console.log(`✅ ${pipe.name}: schemas compatible`);
+      continue;
+    }
+    failed = true;
+    for (const mismatch of mismatches) {
+      console.error(`❌ ${pipe.name}: ${formatMismatch(mismatch)}`);
+    }
+  }
+
+  if (failed) {
+    process.exit(1);
+  }
+}
+
 if (command === "run") {
   const file = args[1];
   const watchMode = args.includes("--watch") || args.includes("-w");
+  const streamMode = args.includes("--stream") || args.includes("-s");
+  const recordPath = flagValue("--record");
   
   if (!file) {
     console.error("Error: Please provide a pipeline file path");
-    console.log("Usage: bun run cli run <pipeline-file> [--watch]");
+    console.log("Usage: bun run cli run <pipeline-file> [--watch] [--stream] [--record <file>] [--drain-timeout <ms>]");
+    process.exit(1);
+  }
+  if (args.includes("--record") && !recordPath) {
+    console.error("Error: --record needs a file path, e.g. --record run.ndjson");
+    process.exit(1);
+  }
+  if (recordPath && existsSync(recordPath)) {
+    console.error(`Error: Recording ${recordPath} already exists`);
     process.exit(1);
   }
   
-  runPipeline(file, watchMode);
+  runPipeline(file, watchMode, streamMode, recordPath);
 } else if (command === "orchestrator") {
   const file = args[1];
   const watchMode = args.includes("--watch") || args.includes("-w");
 
   if (!file) {
     console.error("Error: Please provide a cluster file path");
-    console.log("Usage: bun run cli orchestrator <cluster-file> [--watch]");
+    console.log("Usage: bun run cli orchestrator <cluster-file> [--watch] [--drain-timeout <ms>]");
     process.exit(1);
   }
 
   runCluster(file, watchMode);
+} else if (command === "resume") {
+  const file = args[1];
+  const runId = args[2];
+
+  if (!file || !runId) {
+    console.error("Error: Please provide a pipeline file path and a run ID");
+    console.log("Usage: bun run cli resume <pipeline-file> <run-id>");
+    process.exit(1);
+  }
+
+  resumePipeline(file, runId);
+} else if (command === "replay") {
+  const recordPath = args[1];
+  const file = args[2];
+  const stub = (flagValue("--stub") ?? "").split(",").filter((name) => name !== "");
+
+  if (!recordPath || !file) {
+    console.error("Error: Please provide a recording and a pipeline file path");
+    console.log("Usage: bun run cli replay <recording> <pipeline-file> [--stub <node>[,<node>...]]");
+    process.exit(1);
+  }
+
+  replayRecording(recordPath, file, stub);
+} else if (command === "validate") {
+  const file = args[1];
+
+  if (!file) {
+    console.error("Error: Please provide a pipeline or cluster file path");
+    console.log("Usage: bun run cli validate <file>");
+    process.exit(1);
+  }
+
+  validateFile(file);
 } else {
   console.log("Effect Pipeline CLI");
   console.log("Available commands:");
   console.log("  bun run cli run <file> [--watch]  - Run a pipeline file");
+  console.log("  bun run cli run <file> --stream   - Run a pipeline continuously");
   console.log("  bun test                          - Run tests");
   console.log("  bun run cli orchestrator <file> [--watch] - Run a cluster file");
+  console.log("  bun run cli resume <file> <run-id> - Continue a failed run from its checkpoint");
+  console.log("  bun run cli run <file> --record <recording> - Record every node's input and output");
+  console.log("  bun run cli replay <recording> <file> [--stub <nodes>] - Run a recording through a pipeline");
+  console.log("  bun run cli validate <file>       - Check node schemas without running");
   console.log("");
   console.log("Examples:");
   console.log("  bun run cli run examples/hello.pipeline.ts");
@@ -0,0 +1,28 @@
+import { describe, it, expect } from "bun:test";
+import { onShutdownSignal, type ShutdownSignal } from "./shutdown";
+
+describe("onShutdownSignal", () => {
+  it("should call shutdown with the signal received", async () => {
+    const received: ShutdownSignal[] = [];
+    const remove = onShutdownSignal(async (signal) => {
+      received.push(signal);
+    });
+
+    try {
+      process.emit("SIGTERM", "SIGTERM");
+      await Promise.resolve();
+      expect(received).toEqual(["SIGTERM"]);
+    } finally {
+      remove();
+    }
+  });
+
+  it("should stop listening once removed", () => {
+    const before = [process.listenerCount("SIGINT"), process.listenerCount("SIGTERM")];
+    const remove = onShutdownSignal(async () => {});
+
+    expect([process.listenerCount("SIGINT"), process.listenerCount("SIGTERM")]).toEqual([before[0]! + 1, before[1]! + 1]);
+    remove();
+    expect([process.listenerCount("SIGINT"), process.listenerCount("SIGTERM")]).toEqual(before);
+  });
+});
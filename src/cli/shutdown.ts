@@ -0,0 +1,30 @@
+export type ShutdownSignal = "SIGINT" | "SIGTERM";
+
+/**
+ * Call `shutdown` on the first SIGINT or SIGTERM so the caller can drain its
+ * pipelines before exiting. A second signal while shutting down exits
+ * straight away with code 130. Returns a function removing the handlers.
+ */
+export function onShutdownSignal(shutdown: (signal: ShutdownSignal) => Promise<void>): () => void {
+  let shuttingDown = false;
+
+  const handler = (signal: ShutdownSignal) => {
+    if (shuttingDown) {
+      console.log("\nForced exit");
+      process.exit(130);
+    }
+    shuttingDown = true;
+    shutdown(signal).catch((error) => {
+      console.error("Shutdown failed:", error);
+      process.exit(1);
+    });
+  };
+
+  process.on("SIGINT", handler);
+  process.on("SIGTERM", handler);
+
+  return () => {
+    process.off("SIGINT", handler);
+    process.off("SIGTERM", handler);
+  };
+}
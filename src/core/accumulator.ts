@@ -0,0 +1,31 @@
+import type { Drop } from "./drop";
+
+/**
+ * Buffers a Node's inputs across items and decides when to emit – the state
+ * behind windows and batches. A Node declares one with `accumulate`; the
+ * streaming executor opens a fresh Accumulator per run.
+ *
+ * Every method returns the outputs ready at that point, often none. An output
+ * may be `Drop` to report an input as filtered, e.g. one arriving too late.
+ * `now` is the Effect clock in epoch milliseconds.
+ */
+export interface Accumulator<I, O> {
+  /**
+   * Take in one input.
+   */
+  readonly add: (input: I, now: number) => readonly (O | Drop)[];
+  /**
+   * When buffered inputs are next due to be emitted without further input, in
+   * epoch milliseconds – `undefined` while nothing waits on the clock.
+   */
+  readonly nextDue: () => number | undefined;
+  /**
+   * Emit what is due at `now`. Called once `nextDue` has passed.
+   */
+  readonly due: (now: number) => readonly (O | Drop)[];
+  /**
+   * Emit everything still buffered. Called once the input has ended – also
+   * after `stop()`.
+   */
+  readonly flush: () => readonly (O | Drop)[];
+}
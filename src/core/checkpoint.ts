@@ -0,0 +1,35 @@
+import type { Effect, Option } from "effect";
+
+/**
+ * The last Node a run completed, together with its output, so the run can
+ * pick up after it instead of starting again from the ingress.
+ */
+export interface Checkpoint {
+  readonly runId: string;
+  readonly pipelineName: string;
+  readonly nodeName: string;
+  /**
+   * Position of the Node in the Pipe's `nodes`.
+   */
+  readonly nodeIndex: number;
+  /**
+   * The Node's output – the input of the Node after it.
+   */
+  readonly output: unknown;
+  readonly completedAt: Date;
+}
+
+/**
+ * Keeps one {@link Checkpoint} per run ID. When a Pipe declares a store, the
+ * executor saves a checkpoint after every Node of the Pipe's trunk and clears
+ * it once the run completes.
+ */
+export interface CheckpointStore<E = never, R = never> {
+  readonly name: string;
+  /**
+   * Replace the run's checkpoint.
+   */
+  readonly save: (checkpoint: Checkpoint) => Effect.Effect<void, E, R>;
+  readonly load: (runId: string) => Effect.Effect<Option.Option<Checkpoint>, E, R>;
+  readonly clear: (runId: string) => Effect.Effect<void, E, R>;
+}
@@ -0,0 +1,34 @@
+import type { Effect } from "effect";
+
+/**
+ * An item that could not be processed by a Node, together with enough context
+ * to inspect or replay it later. `I` is the Node's input type, where the sink
+ * belongs to one Node.
+ */
+export interface DeadLetter<I = unknown> {
+  readonly pipelineName: string;
+  readonly nodeName: string;
+  /**
+   * The input the Node failed on.
+   */
+  readonly input: I;
+  /**
+   * The original (typed) error produced by the Node.
+   */
+  readonly error: unknown;
+  /**
+   * How many attempts were made, including retries.
+   */
+  readonly attempts: number;
+  readonly failedAt: Date;
+}
+
+/**
+ * A destination for {@link DeadLetter}s. When a Pipe or Node declares a sink,
+ * a failing item is handed to it and the pipeline moves on to the next item
+ * instead of aborting.
+ */
+export interface DeadLetterSink<E = never, R = never, I = unknown> {
+  readonly name: string;
+  readonly send: (letter: DeadLetter<I>) => Effect.Effect<void, E, R>;
+}
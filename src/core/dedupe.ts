@@ -0,0 +1,21 @@
+import type { Effect } from "effect";
+
+/**
+ * Remembers which item keys a `dedupe` Node has seen, each until its own
+ * expiry. Backed by memory, SQLite or Postgres so the record can outlive the
+ * process that wrote it.
+ */
+export interface DedupeStore<E = never, R = never> {
+  readonly name: string;
+  /**
+   * Whether `key` is recorded with an expiry after `now`, without recording it.
+   */
+  readonly seen: (key: string, now: Date) => Effect.Effect<boolean, E, R>;
+  /**
+   * Record `key` as seen until `expiresAt` – unless it is already recorded
+   * with an expiry after `now`. Resolves `true` if the key was new (or had
+   * expired), `false` for a duplicate. Check and record happen atomically, so
+   * concurrent callers cannot both see a key as new.
+   */
+  readonly markSeen: (key: string, now: Date, expiresAt: Date) => Effect.Effect<boolean, E, R>;
+}
@@ -2,10 +2,20 @@ import type { Pipe } from "./pipe";
 
 export interface Deployment {
   readonly name: string;
-  readonly pipe: Pipe;
+  /**
+   * Any built Pipe. Deployments run without a context, so Nodes that need
+   * services must have them provided before the Pipe is deployed.
+   */
+  readonly pipe: Pipe<any, any>;
   /**
    * Execution strategy – for now we only support in-process local execution.
    * Future options: "bun-worker", "docker", "kubernetes".
    */
   readonly strategy?: "local";
+  /**
+   * Run the Pipe with `runStream()` until it ends or the Orchestrator stops,
+   * instead of a single `run()` – for Pipes fed by a continuous source, like
+   * an outbox relay.
+   */
+  readonly stream?: boolean;
 } 
\ No newline at end of file
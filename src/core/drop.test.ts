@@ -0,0 +1,15 @@
+import { describe, it, expect } from "bun:test";
+import { Drop, isDrop } from "./drop";
+
+describe("Drop", () => {
+  it("should be a globally registered symbol", () => {
+    expect(Symbol.keyFor(Drop)).toBe("effect-pipeline/Drop");
+  });
+
+  it("should only recognise the sentinel", () => {
+    expect(isDrop(Drop)).toBe(true);
+    expect(isDrop(undefined)).toBe(false);
+    expect(isDrop(null)).toBe(false);
+    expect(isDrop("Drop")).toBe(false);
+  });
+});
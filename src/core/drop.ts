@@ -0,0 +1,9 @@
+/**
+ * Sentinel a Node returns to drop the current item. The executor stops the
+ * item there – downstream Nodes never see it – and reports it with a
+ * `NodeFiltered` event rather than as a failure.
+ */
+export const Drop: unique symbol = Symbol.for("effect-pipeline/Drop");
+export type Drop = typeof Drop;
+
+export const isDrop = (value: unknown): value is Drop => value === Drop;
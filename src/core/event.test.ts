@@ -67,4 +67,127 @@ describe("RuntimeEvent", () => {
     expect(event.pipelineName).toBe("test-pipeline");
     expect(event.error).toBe(error);
   });
+
+  it("should support PipelineResumed event", () => {
+    const event: RuntimeEvent = {
+      _tag: "PipelineResumed",
+      pipelineName: "test-pipeline",
+      runId: "run-1",
+      nodeName: "test-node"
+    };
+
+    expect(event._tag).toBe("PipelineResumed");
+    expect(event.runId).toBe("run-1");
+    expect(event.nodeName).toBe("test-node");
+  });
+
+  it("should support SubPipelineEvent event", () => {
+    const event: RuntimeEvent = {
+      _tag: "SubPipelineEvent",
+      nodeName: "clean-up",
+      event: { _tag: "NodeStarted", nodeName: "trim" }
+    };
+
+    expect(event._tag).toBe("SubPipelineEvent");
+    expect(event.nodeName).toBe("clean-up");
+    expect(event.event).toEqual({ _tag: "NodeStarted", nodeName: "trim" });
+  });
+
+  it("should support QueueDepth event", () => {
+    const event: RuntimeEvent = {
+      _tag: "QueueDepth",
+      nodeName: "test-node",
+      depth: 3,
+      capacity: 16
+    };
+
+    expect(event._tag).toBe("QueueDepth");
+    expect(event.nodeName).toBe("test-node");
+    expect(event.depth).toBe(3);
+    expect(event.capacity).toBe(16);
+  });
+
+  it("should support NodeRetrying event", () => {
+    const event: RuntimeEvent = {
+      _tag: "NodeRetrying",
+      nodeName: "test-node",
+      attempt: 2,
+      error: "Test error"
+    };
+
+    expect(event._tag).toBe("NodeRetrying");
+    expect(event.nodeName).toBe("test-node");
+    expect(event.attempt).toBe(2);
+    expect(event.error).toBe("Test error");
+  });
+
+  it("should support NodeTimedOut event", () => {
+    const event: RuntimeEvent = {
+      _tag: "NodeTimedOut",
+      nodeName: "test-node",
+      elapsedMs: 1000
+    };
+
+    expect(event._tag).toBe("NodeTimedOut");
+    expect(event.nodeName).toBe("test-node");
+    expect(event.elapsedMs).toBe(1000);
+  });
+
+  it("should support ItemRouted event", () => {
+    const event: RuntimeEvent = {
+      _tag: "ItemRouted",
+      pipelineName: "test-pipeline",
+      branchName: "orders"
+    };
+
+    expect(event._tag).toBe("ItemRouted");
+    expect(event.branchName).toBe("orders");
+  });
+
+  it("should support ItemUnrouted event", () => {
+    const event: RuntimeEvent = {
+      _tag: "ItemUnrouted",
+      pipelineName: "test-pipeline"
+    };
+
+    expect(event._tag).toBe("ItemUnrouted");
+    expect(event.pipelineName).toBe("test-pipeline");
+  });
+
+  it("should support BranchErrored event", () => {
+    const event: RuntimeEvent = {
+      _tag: "BranchErrored",
+      pipelineName: "test-pipeline",
+      branchName: "store",
+      error: new Error("disk full")
+    };
+
+    expect(event._tag).toBe("BranchErrored");
+    expect(event.pipelineName).toBe("test-pipeline");
+    expect(event.branchName).toBe("store");
+  });
+
+  it("should support NodeFiltered event", () => {
+    const event: RuntimeEvent = {
+      _tag: "NodeFiltered",
+      nodeName: "test-filter"
+    };
+
+    expect(event._tag).toBe("NodeFiltered");
+    expect(event.nodeName).toBe("test-filter");
+  });
+
+  it("should support NodeDeadLettered event", () => {
+    const event: RuntimeEvent = {
+      _tag: "NodeDeadLettered",
+      nodeName: "test-node",
+      sinkName: "memory-dead-letters",
+      attempts: 3,
+      error: new Error("boom")
+    };
+
+    expect(event._tag).toBe("NodeDeadLettered");
+    expect(event.sinkName).toBe("memory-dead-letters");
+    expect(event.attempts).toBe(3);
+  });
 }); 
\ No newline at end of file
@@ -6,13 +6,28 @@ export type RuntimeEvent =
   | { _tag: "NodeStarted"; nodeName: string }
   | { _tag: "NodeCompleted"; nodeName: string }
   | { _tag: "NodeErrored"; nodeName: string; error: unknown }
+  | { _tag: "NodeRetrying"; nodeName: string; attempt: number; error: unknown }
+  | { _tag: "NodeTimedOut"; nodeName: string; elapsedMs: number }
+  | { _tag: "NodeFiltered"; nodeName: string }
+  | { _tag: "NodeThrottled"; nodeName: string; limiterName: string; waitMs: number }
+  | { _tag: "NodeDeadLettered"; nodeName: string; sinkName: string; attempts: number; error: unknown }
   | { _tag: "PipelineStarted"; pipelineName: string }
   | { _tag: "PipelineCompleted"; pipelineName: string }
   | { _tag: "PipelineErrored"; pipelineName: string; error: unknown }
+  | { _tag: "PipelineResumed"; pipelineName: string; runId: string; nodeName: string }
+  | { _tag: "ItemRouted"; pipelineName: string; branchName: string }
+  | { _tag: "ItemUnrouted"; pipelineName: string }
+  | { _tag: "BranchErrored"; pipelineName: string; branchName: string; error: unknown }
+  | { _tag: "QueueDepth"; nodeName: string; depth: number; capacity: number }
+  | { _tag: "DuplicateDropped"; nodeName: string; key: string; dropped: number }
+  | { _tag: "CircuitStateChanged"; nodeName: string; from: "closed" | "open" | "half-open"; to: "closed" | "open" | "half-open" }
+  | { _tag: "SubPipelineEvent"; nodeName: string; event: RuntimeEvent }
   // NEW events below
   | { _tag: "DeploymentStarted"; deploymentName: string }
   | { _tag: "DeploymentCompleted"; deploymentName: string }
   | { _tag: "DeploymentErrored"; deploymentName: string; error: unknown }
+  | { _tag: "DeploymentStopping"; deploymentName: string }
+  | { _tag: "DeploymentStopped"; deploymentName: string }
   | { _tag: "ClusterStarted"; clusterName: string }
   | { _tag: "ClusterCompleted"; clusterName: string }
   | { _tag: "ClusterErrored"; clusterName: string; error: unknown }; 
\ No newline at end of file
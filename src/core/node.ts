@@ -1,4 +1,8 @@
-import { Effect } from "effect";
+import { Duration, Effect, Stream } from "effect";
+import type { RetryPolicy } from "./retry";
+import type { RateLimitPolicy } from "./rateLimit";
+import type { DeadLetterSink } from "./deadLetter";
+import type { Accumulator } from "./accumulator";
 
 export enum NodeKind {
   Ingress = "ingress",
@@ -32,6 +36,52 @@ export interface Node<I = unknown, O = unknown, E = never, R = never, IS = unkno
    * - Produce a value (O)
    */
   readonly run: (input: I) => Effect.Effect<O, E, R>;
+  /**
+   * Optional continuous source for Ingress Nodes. In streaming mode the
+   * executor pulls every element from this Stream; without it, `run` is
+   * repeated until the pipeline is interrupted.
+   */
+  readonly stream?: () => Stream.Stream<O, E, R>;
+  /**
+   * Optional stateful form for Nodes whose outputs do not follow their inputs
+   * one to one – windows, batches. In streaming mode the executor feeds the
+   * Node's inputs to a fresh Accumulator per run instead of calling `run`,
+   * sending outputs downstream as it emits them. One-shot runs still use `run`.
+   */
+  readonly accumulate?: () => Accumulator<any, O>;
+  /**
+   * Capacity of the bounded queue that feeds this Node in streaming mode.
+   * When the queue is full upstream stages suspend instead of buffering.
+   */
+  readonly capacity?: number;
+  /**
+   * Optional retry policy applied by the executor when `run` fails. Each
+   * retry is reported as a `NodeRetrying` event.
+   */
+  readonly retry?: RetryPolicy;
+  /**
+   * Optional cap on how often `run` is attempted. When the budget is spent the
+   * executor waits for the next slot – emitting `NodeThrottled` – instead of
+   * failing. Retries count against the budget too.
+   */
+  readonly rateLimit?: RateLimitPolicy;
+  /**
+   * Optional upper bound for a single attempt of `run`. The executor
+   * interrupts the attempt and fails with a `NodeTimeoutError`.
+   */
+  readonly timeout?: Duration.DurationInput;
+  /**
+   * Optional sink for inputs this Node fails on once retries are exhausted.
+   * Overrides the Pipe's `deadLetter`; the item is dropped and the pipeline
+   * carries on. The sink receives the input as an `I`.
+   */
+  readonly deadLetter?: DeadLetterSink<E, R, I>;
+  /**
+   * Optional finalizer releasing what the Node holds open – servers, sockets,
+   * connection pools. The executor runs it once a streaming run ends and when
+   * a run ends after `stop()`.
+   */
+  readonly close?: () => Effect.Effect<void>;
   /**
    * Optional input schema for compile-time validation.
    */
@@ -42,5 +92,20 @@ export interface Node<I = unknown, O = unknown, E = never, R = never, IS = unkno
   readonly outputSchema?: OS;
 }
 
+/**
+ * The output type of a Node – distributes over unions of Nodes.
+ */
+export type NodeOutput<N> = N extends Node<any, infer O, any, any> ? O : never;
+
+/**
+ * The error type of a Node – distributes over unions of Nodes.
+ */
+export type NodeError<N> = N extends Node<any, any, infer E, any> ? E : never;
+
+/**
+ * The context requirements of a Node – distributes over unions of Nodes.
+ */
+export type NodeContext<N> = N extends Node<any, any, any, infer R> ? R : never;
+
 // Re-export Effect for convenience when creating nodes
 export { Effect } from "effect"; 
\ No newline at end of file
@@ -0,0 +1,64 @@
+import type { Effect } from "effect";
+
+/**
+ * A side effect an egress intends to cause – typically an HTTP call – written
+ * to the outbox in the same transaction as the egress's own data, so the two
+ * are stored together or not at all.
+ */
+export interface OutboxIntent {
+  /**
+   * Identifies the message, and is sent along as its idempotency key. Defaults
+   * to a generated UUID. An intent whose ID is already in the outbox is
+   * ignored, so writing a record again does not send its message twice.
+   */
+  readonly id?: string;
+  /**
+   * What kind of message this is, e.g. `"order.created"`.
+   */
+  readonly type: string;
+  /**
+   * Where the relay delivers it – a URL for `httpDelivery`.
+   */
+  readonly destination: string;
+  readonly payload: unknown;
+}
+
+/**
+ * An outbox row claimed by a relay for delivery.
+ */
+export interface OutboxMessage extends OutboxIntent {
+  readonly id: string;
+}
+
+/**
+ * Lifecycle of an outbox row: written `pending`, claimed as `processing`,
+ * then `processed` once delivered or `failed` once retries are exhausted.
+ */
+export type OutboxStatus = "pending" | "processing" | "processed" | "failed";
+
+/**
+ * The relay's view of an outbox table, backed by SQLite or Postgres.
+ */
+export interface OutboxStore<E = never, R = never> {
+  readonly name: string;
+  /**
+   * Mark up to `limit` rows as `processing` and resolve them, oldest first.
+   * Rows are taken from `pending` ones and from `processing` ones claimed
+   * before `staleBefore`, whose relay is presumed gone. Concurrent relays
+   * never claim the same row twice.
+   */
+  readonly claim: (limit: number, now: Date, staleBefore: Date) => Effect.Effect<readonly OutboxMessage[], E, R>;
+  /**
+   * Extend the lease of rows this relay still holds, as if claimed `at`.
+   * Rows no longer `processing` are left alone.
+   */
+  readonly renew: (ids: readonly string[], at: Date) => Effect.Effect<void, E, R>;
+  /**
+   * Mark a delivered message `processed`.
+   */
+  readonly complete: (id: string, at: Date) => Effect.Effect<void, E, R>;
+  /**
+   * Mark a message `failed`, so it is not claimed again.
+   */
+  readonly fail: (id: string, at: Date) => Effect.Effect<void, E, R>;
+}
@@ -1,4 +1,5 @@
 import { describe, it, expect } from "bun:test";
+import { Effect } from "effect";
 import type { Pipe } from "./pipe";
 import type { Node } from "./node";
 import { NodeKind } from "./node";
@@ -46,4 +47,27 @@ describe("Pipe", () => {
 
     expect(pipe.nodes).toHaveLength(0);
   });
-}); 
\ No newline at end of file
+
+  it("should support fan-out branches", () => {
+    const egress: Node<any, any> = {
+      kind: NodeKind.Egress,
+      name: "test-egress",
+      run: () => Effect.void
+    };
+
+    const pipe: Pipe = {
+      name: "forked-pipe",
+      nodes: [mockNode],
+      fork: {
+        _tag: "FanOut",
+        branches: [
+          { name: "a", nodes: [egress] },
+          { name: "b", nodes: [egress] }
+        ]
+      }
+    };
+
+    expect(pipe.fork?._tag).toBe("FanOut");
+    expect(pipe.fork?.branches.map((branch) => branch.name)).toEqual(["a", "b"]);
+  });
+});
\ No newline at end of file
@@ -1,11 +1,99 @@
+import type { Duration } from "effect";
 import type { Node } from "./node";
+import type { DeadLetterSink } from "./deadLetter";
+import type { CheckpointStore } from "./checkpoint";
+
+/**
+ * A downstream path of a fork. It receives the output of the Node before the
+ * fork as its input and ends in its own Egress Node – or forks again.
+ */
+export interface Branch<E = any, R = never> {
+  readonly name: string;
+  readonly nodes: readonly Node<any, any, E, R>[];
+  readonly fork?: PipeFork<E, R>;
+}
+
+declare const BranchInputId: unique symbol;
+
+/**
+ * A Branch built by `branch()`. Besides `E` and `R` it records – at compile
+ * time only – the input its first Node takes (`I`), so a fork only accepts
+ * branches taking what it hands them.
+ */
+export interface BuiltBranch<I = any, E = any, R = never> extends Branch<E, R> {
+  readonly [BranchInputId]?: (input: I) => void;
+}
+
+/**
+ * How an output is split after the last Node of a Pipe or Branch.
+ * `FanOut` hands every item to all branches; `Route` hands it to the one
+ * branch `select` names, or drops it when `select` returns `undefined`.
+ */
+export type PipeFork<E = any, R = never> =
+  | { readonly _tag: "FanOut"; readonly branches: readonly Branch<E, R>[] }
+  | {
+    readonly _tag: "Route";
+    readonly branches: readonly Branch<E, R>[];
+    readonly select: (input: unknown) => string | undefined;
+  };
 
 /**
  * A Pipe represents a static, ordered list of Nodes whose schemas are
  * compatible end-to-end. It is produced by the `pipeline()` builder and is used
- * by the runtime engine and deployment manifest.
+ * by the runtime engine and deployment manifest. A Pipe may `fork` after its
+ * last Node, turning it into a tree of branches.
+ *
+ * `E` and `R` are the unions of the error and context types of every Node,
+ * accumulated by the builder so the executor can infer its requirements.
  */
-export interface Pipe {
+export interface Pipe<E = any, R = never> {
   readonly name: string;
-  readonly nodes: readonly Node<any, any, any, any>[];
-} 
\ No newline at end of file
+  readonly nodes: readonly Node<any, any, E, R>[];
+  /**
+   * Optional upper bound for a whole run. The executor interrupts every
+   * running Node and fails with a `PipelineTimeoutError`.
+   */
+  readonly timeout?: Duration.DurationInput;
+  /**
+   * Optional sink for failed items of any Node without a `deadLetter` of its
+   * own. Ingress failures are never dead-lettered.
+   */
+  readonly deadLetter?: DeadLetterSink<E, R>;
+  /**
+   * Optional store for checkpoints of one-shot runs, making them resumable
+   * with `PipelineExecutor.resume(runId)`.
+   */
+  readonly checkpoint?: CheckpointStore<E, R>;
+  /**
+   * Optional fork after the last Node: its output flows into every branch.
+   */
+  readonly fork?: PipeFork<E, R>;
+}
+
+declare const SectionTypeId: unique symbol;
+
+/**
+ * A Pipe built by `pipeline()`. Besides `E` and `R` it records – at compile
+ * time only – what its ingress produces (`I`) and what its egress takes
+ * (`O`), the input and output of the Nodes in between, so `subPipeline()`
+ * can type the Node it turns the Pipe into.
+ */
+export interface BuiltPipe<I = any, O = any, E = any, R = never> extends Pipe<E, R> {
+  readonly [SectionTypeId]?: (input: I) => O;
+}
+
+/**
+ * The input of the Nodes between a built Pipe's ingress and egress – `any`
+ * for Pipes not built by `pipeline()`.
+ */
+export type SectionInput<P> = SectionTypes<P> extends (input: infer I) => any ? I : any;
+
+/**
+ * The output of the Nodes between a built Pipe's ingress and egress – `any`
+ * for Pipes not built by `pipeline()`.
+ */
+export type SectionOutput<P> = SectionTypes<P> extends (input: any) => infer O ? O : any;
+
+type SectionTypes<P> = typeof SectionTypeId extends keyof P
+  ? NonNullable<P[typeof SectionTypeId]>
+  : (input: any) => any;
@@ -0,0 +1,26 @@
+import type { Duration } from "effect";
+
+/**
+ * A throughput budget: at most `limit` items per `interval`.
+ */
+export interface RateLimitSpec {
+  readonly limit: number;
+  readonly interval: Duration.DurationInput;
+  /**
+   * `"token-bucket"` (the default) refills continuously and lets up to
+   * `burst` items through at once; `"fixed-window"` allows `limit` items in
+   * each consecutive window of `interval`.
+   */
+  readonly algorithm?: "token-bucket" | "fixed-window";
+  /**
+   * Size of the token bucket – defaults to `limit`.
+   */
+  readonly burst?: number;
+}
+
+/**
+ * How the executor caps a Node's throughput: a {@link RateLimitSpec} giving
+ * the Node a budget of its own, or the name of a limiter from the
+ * `RateLimiters` service whose budget is shared by every Node naming it.
+ */
+export type RateLimitPolicy = RateLimitSpec | string;
@@ -0,0 +1,36 @@
+import type { Effect } from "effect";
+
+/**
+ * One call of a Node in a recorded run: what it was given and what came of
+ * it. Exactly one of `output`, `dropped` and `error` describes the outcome.
+ */
+export interface RecordedStep {
+  readonly pipelineName: string;
+  readonly nodeName: string;
+  /**
+   * The Node's input – `undefined` for an ingress.
+   */
+  readonly input: unknown;
+  readonly output?: unknown;
+  /**
+   * `true` if the Node dropped the item.
+   */
+  readonly dropped?: boolean;
+  /**
+   * The error the call failed with, as text. A Node retried by the executor
+   * records every failed attempt.
+   */
+  readonly error?: string;
+  readonly recordedAt: Date;
+}
+
+/**
+ * Where a recording is kept – an NDJSON file, a SQLite table or memory. Steps
+ * are appended as Nodes finish and loaded back in the same order to replay
+ * them.
+ */
+export interface RecordingStore<E = never, R = never> {
+  readonly name: string;
+  readonly append: (step: RecordedStep) => Effect.Effect<void, E, R>;
+  readonly load: () => Effect.Effect<readonly RecordedStep[], E, R>;
+}
@@ -0,0 +1,30 @@
+import type { Duration, Schedule } from "effect";
+
+/**
+ * A declarative retry specification for Nodes that do not want to build an
+ * Effect `Schedule` by hand.
+ */
+export interface RetrySpec {
+  /**
+   * Total number of attempts, including the first one.
+   */
+  readonly maxAttempts: number;
+  /**
+   * Delay before the first retry. Without it retries happen immediately.
+   */
+  readonly delay?: Duration.DurationInput;
+  /**
+   * How the delay grows between retries – defaults to `"exponential"`.
+   */
+  readonly backoff?: "fixed" | "exponential";
+  /**
+   * Upper bound for a single delay when backing off exponentially.
+   */
+  readonly maxDelay?: Duration.DurationInput;
+}
+
+/**
+ * How the executor retries a failing Node: either a ready-made Effect
+ * `Schedule` (fed with the Node's errors) or a {@link RetrySpec}.
+ */
+export type RetryPolicy = RetrySpec | Schedule.Schedule<unknown, unknown>;
@@ -0,0 +1,19 @@
+import type { Effect, Option } from "effect";
+
+/**
+ * Where the `StateStore` service keeps its values – in memory, SQLite or
+ * Postgres. Values are addressed by a namespace, naming the pipeline and Node
+ * that own them, and a key within it.
+ */
+export interface StateBackend<E = never, R = never> {
+  readonly name: string;
+  /**
+   * Look up a value, ignoring one that expired by `now`.
+   */
+  readonly get: (namespace: string, key: string, now: Date) => Effect.Effect<Option.Option<unknown>, E, R>;
+  /**
+   * Store a value, replacing any previous one. Without `expiresAt` it never expires.
+   */
+  readonly put: (namespace: string, key: string, value: unknown, expiresAt: Date | undefined) => Effect.Effect<void, E, R>;
+  readonly delete: (namespace: string, key: string) => Effect.Effect<void, E, R>;
+}
@@ -2,4 +2,14 @@ export * from "./core/node";
 export * from "./core/pipe";
 export * from "./core/deployment";
 export * from "./core/cluster";
-export * from "./core/event"; 
\ No newline at end of file
+export * from "./core/event";
+export * from "./core/retry";
+export * from "./core/deadLetter";
+export * from "./core/drop";
+export * from "./core/checkpoint";
+export * from "./core/dedupe";
+export * from "./core/accumulator";
+export * from "./core/state";
+export * from "./core/outbox";
+export * from "./core/recording";
+export * from "./core/rateLimit";
\ No newline at end of file
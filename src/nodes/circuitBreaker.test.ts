@@ -0,0 +1,139 @@
+import { describe, it, expect } from "bun:test";
+import { Chunk, Effect, Queue, Stream, TestClock, TestContext } from "effect";
+import { NodeKind, type Node } from "../core/node";
+import type { RuntimeEvent } from "../core/event";
+import { PipelineExecutor } from "../runtime/engine/executor";
+import { memoryDeadLetterSink } from "../runtime/deadLetter/memory";
+import type { PostgresEgressError, PostgresEgressNode, WriteResult } from "./postgres/egress";
+import { circuitBreaker, CircuitOpenError } from "./circuitBreaker";
+
+// A Node whose calls fail while `down` is set, counting every call
+const flakyService = () => {
+  const state = { down: true, calls: 0 };
+  const node: Node<number, string, Error> = {
+    kind: NodeKind.Egress,
+    name: "call-service",
+    run: (input) => Effect.suspend(() => {
+      state.calls += 1;
+      return state.down ? Effect.fail(new Error("service down")) : Effect.succeed(`ok ${input}`);
+    })
+  };
+  return { state, node };
+};
+
+const runTest = <A, E>(effect: Effect.Effect<A, E>) =>
+  Effect.runPromise(effect.pipe(Effect.provide(TestContext.TestContext)));
+
+describe("circuitBreaker", () => {
+  it("should open once the failure rate is reached and reject without calling the node", async () => {
+    const { state, node } = flakyService();
+    const guarded = circuitBreaker(node, { window: 4, failureRate: 0.5, minimumCalls: 2 });
+
+    const errors = await runTest(
+      Effect.forEach([1, 2, 3], (input) => Effect.flip(guarded.run(input)))
+    );
+
+    expect(state.calls).toBe(2);
+    expect(errors[2]).toBeInstanceOf(CircuitOpenError);
+    expect(errors[2]!.message).toBe('Circuit "call-service" is open');
+    expect((errors[2] as CircuitOpenError).retryAfterMs).toBe(30000);
+  });
+
+  it("should answer with the fallback while open", async () => {
+    const { node } = flakyService();
+    const guarded = circuitBreaker(node, { window: 1, fallback: (input) => `cached ${input}` });
+
+    const output = await runTest(
+      Effect.zipRight(Effect.either(guarded.run(1)), guarded.run(2))
+    );
+
+    expect(output).toBe("cached 2");
+  });
+
+  it("should let a trial call through after resetAfter and close when it succeeds", async () => {
+    const { state, node } = flakyService();
+    const guarded = circuitBreaker(node, { window: 1, resetAfter: "10 seconds" });
+
+    const outputs = await runTest(
+      Effect.gen(function* (_) {
+        yield* _(Effect.either(guarded.run(1)));
+        const stillOpen = yield* _(Effect.either(guarded.run(2)));
+        yield* _(TestClock.adjust("10 seconds"));
+        state.down = false;
+        return [stillOpen._tag, yield* _(guarded.run(3)), yield* _(guarded.run(4))];
+      })
+    );
+
+    expect(outputs).toEqual(["Left", "ok 3", "ok 4"]);
+    expect(state.calls).toBe(3);
+  });
+
+  it("should reopen when the trial call fails", async () => {
+    const { state, node } = flakyService();
+    const guarded = circuitBreaker(node, { window: 1, resetAfter: "10 seconds" });
+
+    await runTest(
+      Effect.gen(function* (_) {
+        yield* _(Effect.either(guarded.run(1)));
+        yield* _(TestClock.adjust("10 seconds"));
+        yield* _(Effect.either(guarded.run(2)));
+        const error = yield* _(Effect.flip(guarded.run(3)));
+        expect(error).toBeInstanceOf(CircuitOpenError);
+      })
+    );
+
+    expect(state.calls).toBe(2);
+  });
+
+  it("should report state changes and dead-letter rejected items in a pipeline", async () => {
+    const { state, node } = flakyService();
+    const sink = memoryDeadLetterSink();
+    const source: Node<undefined, number> = {
+      kind: NodeKind.Ingress,
+      name: "numbers",
+      run: () => Effect.succeed(0),
+      stream: () => Stream.make(1, 2, 3, 4)
+    };
+    const eventQueue = await Effect.runPromise(Queue.unbounded<RuntimeEvent>());
+    const executor = new PipelineExecutor(
+      { name: "guarded", nodes: [source, circuitBreaker(node, { window: 2, deadLetter: sink })] },
+      eventQueue
+    );
+
+    await Effect.runPromise(executor.runStream());
+
+    expect(state.calls).toBe(2);
+    expect(sink.letters().map((letter) => (letter.error as Error).message)).toEqual([
+      "service down",
+      "service down",
+      'Circuit "call-service" is open',
+      'Circuit "call-service" is open'
+    ]);
+    const changes = Chunk.toArray(await Effect.runPromise(Queue.takeAll(eventQueue)))
+      .filter((event) => event._tag === "CircuitStateChanged");
+    expect(changes).toEqual([{ _tag: "CircuitStateChanged", nodeName: "call-service", from: "closed", to: "open" }]);
+  });
+
+  it("should guard Postgres egress nodes", async () => {
+    let calls = 0;
+    const egress: PostgresEgressNode<{ id: number }> = {
+      name: "postgres-insert-egress",
+      description: "Insert into events",
+      execute: () => Effect.suspend(() => {
+        calls += 1;
+        return Effect.fail({ _tag: "PostgresEgressError", message: "connection refused" } as PostgresEgressError);
+      })
+    };
+    const guarded: PostgresEgressNode<{ id: number }, PostgresEgressError | CircuitOpenError> =
+      circuitBreaker(egress, { window: 1, fallback: () => ({ rowsAffected: 0 }) });
+
+    // The fake never touches the connection, so none is provided
+    const execute = (id: number) =>
+      guarded.execute([{ id }]) as Effect.Effect<WriteResult, PostgresEgressError | CircuitOpenError>;
+
+    const result = await runTest(Effect.zipRight(Effect.either(execute(1)), execute(2)));
+
+    expect(result).toEqual({ rowsAffected: 0 });
+    expect(calls).toBe(1);
+  });
+});
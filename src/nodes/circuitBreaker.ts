@@ -0,0 +1,210 @@
+import { Clock, Data, Duration, Effect, Exit, FiberRef, Option } from "effect";
+import type { Node } from "../core/node";
+import type { DeadLetterSink } from "../core/deadLetter";
+import type { RuntimeEvent } from "../core/event";
+import type { PostgresEgressNode, WriteResult } from "./postgres/egress";
+import { currentEventSink } from "../runtime/engine/eventSink";
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+export interface CircuitBreakerOptions<I, O> {
+  /**
+   * Share of failed calls, from 0 to 1, that opens the circuit. Defaults to
+   * `0.5`.
+   */
+  readonly failureRate?: number;
+  /**
+   * Number of most recent calls the failure rate is measured over. Defaults
+   * to `10`.
+   */
+  readonly window?: number;
+  /**
+   * Calls needed in the window before the circuit may open. Defaults to
+   * `window`.
+   */
+  readonly minimumCalls?: number;
+  /**
+   * How long the circuit stays open before trial calls are let through.
+   * Defaults to 30 seconds.
+   */
+  readonly resetAfter?: Duration.DurationInput;
+  /**
+   * Trial calls let through while half-open. All of them must succeed to close
+   * the circuit; one failure opens it again. Defaults to `1`.
+   */
+  readonly halfOpenCalls?: number;
+  /**
+   * Output for inputs rejected while the circuit is open. Without it they fail
+   * with a `CircuitOpenError`.
+   */
+  readonly fallback?: (input: I) => O;
+  /**
+   * Name reported in events and errors. Defaults to the wrapped Node's name.
+   */
+  readonly name?: string;
+}
+
+export interface NodeCircuitBreakerOptions<I, O, DE = never, DR = never> extends CircuitBreakerOptions<I, O> {
+  /**
+   * Dead-letter sink for the wrapped Node, so inputs rejected while the
+   * circuit is open – like those the Node fails on – are parked there and the
+   * pipeline moves on.
+   */
+  readonly deadLetter?: DeadLetterSink<DE, DR>;
+}
+
+/**
+ * Raised for calls rejected while the circuit is open or its half-open trial
+ * calls are taken.
+ */
+export class CircuitOpenError extends Data.TaggedError("CircuitOpenError")<{
+  readonly message: string;
+  readonly circuitName: string;
+  /**
+   * Milliseconds until trial calls are let through again.
+   */
+  readonly retryAfterMs: number;
+}> {}
+
+/**
+ * Guard a Node – or a Postgres egress node – with a circuit breaker. While
+ * closed, calls go through and their outcomes are recorded; once the share of
+ * failures among the last `window` calls reaches `failureRate`, the circuit
+ * opens and calls are rejected straight away – with the `fallback` output, or
+ * a `CircuitOpenError`. After `resetAfter` it turns half-open and lets
+ * `halfOpenCalls` trial calls through, closing again if they all succeed.
+ *
+ * Interrupted calls – for example by the Node's `timeout` – count as
+ * failures. Every state change is reported as a `CircuitStateChanged` event
+ * when the Node runs in an executor. Each wrapper keeps its own state, so
+ * wrap a Node once and reuse the result to share a circuit.
+ */
+export function circuitBreaker<I, O, E, R, DE = never, DR = never>(
+  node: Node<I, O, E, R>,
+  options?: NodeCircuitBreakerOptions<I, O, DE, DR>
+): Node<I, O, E | CircuitOpenError | DE, R | DR>;
+export function circuitBreaker<T, E>(
+  node: PostgresEgressNode<T, E>,
+  options?: CircuitBreakerOptions<T[], WriteResult>
+): PostgresEgressNode<T, E | CircuitOpenError>;
+export function circuitBreaker(
+  node: Node<any, any, any, any> | PostgresEgressNode<any, any>,
+  options: NodeCircuitBreakerOptions<any, any, any, any> = {}
+): Node<any, any, any, any> | PostgresEgressNode<any, any> {
+  const circuit = makeCircuit(options.name ?? node.name, options);
+
+  if ("execute" in node) {
+    return {
+      ...node,
+      execute: (data) => circuit.call(node.execute(data), data)
+    };
+  }
+
+  return {
+    ...node,
+    run: (input) => circuit.call(node.run(input), input),
+    ...(options.deadLetter ? { deadLetter: options.deadLetter } : {})
+  };
+}
+
+type Outcome = "success" | "failure";
+
+function makeCircuit(name: string, options: CircuitBreakerOptions<any, any>) {
+  const failureRate = options.failureRate ?? 0.5;
+  const window = options.window ?? 10;
+  const minimumCalls = Math.min(options.minimumCalls ?? window, window);
+  const resetAfterMs = Duration.toMillis(Duration.decode(options.resetAfter ?? "30 seconds"));
+  const halfOpenCalls = options.halfOpenCalls ?? 1;
+
+  let state: CircuitState = "closed";
+  let outcomes: Outcome[] = [];
+  let openedAt = 0;
+  let trials = 0;
+  let trialSuccesses = 0;
+
+  const report = (from: CircuitState, to: CircuitState) =>
+    Effect.flatMap(FiberRef.get(currentEventSink), (sink) => {
+      const event: RuntimeEvent = { _tag: "CircuitStateChanged", nodeName: name, from, to };
+      return Option.isSome(sink) ? sink.value(event) : Effect.void;
+    });
+
+  // Move to `to`, returning the transition to report
+  const moveTo = (to: CircuitState, now: number): [CircuitState, CircuitState] => {
+    const from = state;
+    state = to;
+    outcomes = [];
+    trials = 0;
+    trialSuccesses = 0;
+    if (to === "open") {
+      openedAt = now;
+    }
+    return [from, to];
+  };
+
+  // Decide whether a call may go through; `trial` marks half-open calls
+  const admit = (now: number): { admitted: boolean; trial: boolean; transition?: [CircuitState, CircuitState] } => {
+    const transition = state === "open" && now - openedAt >= resetAfterMs ? moveTo("half-open", now) : undefined;
+    if (state === "closed") {
+      return { admitted: true, trial: false, transition };
+    }
+    if (state === "half-open" && trials < halfOpenCalls) {
+      trials += 1;
+      return { admitted: true, trial: true, transition };
+    }
+    return { admitted: false, trial: false, transition };
+  };
+
+  const record = (outcome: Outcome, trial: boolean, now: number): [CircuitState, CircuitState] | undefined => {
+    if (trial) {
+      // Outcomes of calls admitted before the circuit reopened are ignored
+      if (state !== "half-open") {
+        return undefined;
+      }
+      if (outcome === "failure") {
+        return moveTo("open", now);
+      }
+      trialSuccesses += 1;
+      return trialSuccesses >= halfOpenCalls ? moveTo("closed", now) : undefined;
+    }
+
+    if (state !== "closed") {
+      return undefined;
+    }
+    outcomes = [...outcomes, outcome].slice(-window);
+    const failures = outcomes.filter((o) => o === "failure").length;
+    return outcomes.length >= minimumCalls && failures / outcomes.length >= failureRate
+      ? moveTo("open", now)
+      : undefined;
+  };
+
+  const reportAll = (...transitions: ([CircuitState, CircuitState] | undefined)[]) =>
+    Effect.forEach(transitions, (t) => t ? report(t[0], t[1]) : Effect.void, { discard: true });
+
+  return {
+    call: <A, E, R>(effect: Effect.Effect<A, E, R>, input: unknown): Effect.Effect<A, E | CircuitOpenError, R> =>
+      Effect.gen(function* (_) {
+        const decision = admit(yield* _(Clock.currentTimeMillis));
+        yield* _(reportAll(decision.transition));
+
+        if (!decision.admitted) {
+          if (options.fallback) {
+            return options.fallback(input) as A;
+          }
+          const retryAfterMs = Math.max(openedAt + resetAfterMs - (yield* _(Clock.currentTimeMillis)), 0);
+          return yield* _(Effect.fail(new CircuitOpenError({
+            message: `Circuit "${name}" is open`,
+            circuitName: name,
+            retryAfterMs
+          })));
+        }
+
+        return yield* _(
+          Effect.onExit(effect, (exit) =>
+            Effect.flatMap(Clock.currentTimeMillis, (now) =>
+              reportAll(record(Exit.isSuccess(exit) ? "success" : "failure", decision.trial, now))
+            )
+          )
+        );
+      })
+  };
+}
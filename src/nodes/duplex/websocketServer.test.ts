@@ -6,6 +6,7 @@ import {
   type WebSocketMessage, 
   type WebSocketServerResponse 
 } from "./websocketServer";
+import { Effect } from "effect";
 import { NodeKind } from "../../core/node";
 
 describe("WebSocket Server Node", () => {
@@ -72,6 +73,17 @@ describe("WebSocket Server Node", () => {
     expect(node.kind).toBe(NodeKind.Duplex);
   });
 
+  test("should close the server it answers for when the Node closes", async () => {
+    let closed = 0;
+    const server = { server: null, clients: new Map(), close: async () => { closed += 1; } };
+
+    const node = websocketServer("closing-server", { server });
+    await Effect.runPromise(node.close!());
+
+    expect(closed).toBe(1);
+    expect(websocketServer("plain-server").close).toBeUndefined();
+  });
+
   test("should create WebSocket server context with default config", () => {
     // Test that createWebSocketServer function exists and has correct type
     expect(typeof createWebSocketServer).toBe("function");
@@ -24,9 +24,21 @@ export interface WebSocketServerResponse {
   readonly clients?: string[];
 }
 
-interface WebSocketServerContext {
+export interface WebSocketServerContext {
   server: any;
   clients: Map<string, any>;
+  /**
+   * Disconnect every client with 1001 Going Away and stop the server.
+   */
+  close?: () => Promise<void>;
+}
+
+export interface WebSocketServerNodeConfig extends WebSocketServerConfig {
+  /**
+   * The server the Node answers for, e.g. from `createWebSocketServer`. Its
+   * `close` becomes the Node's, so the server shuts down with the run.
+   */
+  readonly server?: WebSocketServerContext;
 }
 
 /**
@@ -35,8 +47,9 @@ interface WebSocketServerContext {
  */
 export function websocketServer(
   name: string,
-  config: WebSocketServerConfig = {}
+  config: WebSocketServerNodeConfig = {}
 ): Node<WebSocketMessage, WebSocketServerResponse, Error, WebSocketServerContext> {
+  const close = config.server?.close;
   const port = config.port || 3001;
   const hostname = config.hostname || "localhost";
   const path = config.path || "/ws";
@@ -66,12 +79,14 @@ export function websocketServer(
         };
 
         return response;
-      })
+      }),
+    ...(close ? { close: () => Effect.promise(close) } : {})
   };
 }
 
 /**
- * Helper function to create and start a WebSocket server
+ * Helper function to create and start a WebSocket server. Call `close()` on
+ * the returned context to shut it down, e.g. from a Node's `close` finalizer.
  */
 export function createWebSocketServer(config: WebSocketServerConfig = {}): WebSocketServerContext {
   const port = config.port || 3001;
@@ -249,5 +264,14 @@ export function createWebSocketServer(config: WebSocketServerConfig = {}): WebSo
   console.log(`WebSocket server listening on ws://${hostname}:${port}${path}`);
   console.log(`Test client available at http://${hostname}:${port}/`);
 
-  return { server, clients };
+  const close = async () => {
+    for (const ws of clients.values()) {
+      ws.close(1001, "Server shutting down");
+    }
+    clients.clear();
+    await server.stop(true);
+    console.log(`WebSocket server on ws://${hostname}:${port}${path} stopped`);
+  };
+
+  return { server, clients, close };
 }
\ No newline at end of file
@@ -7,6 +7,8 @@ export * from './duplex/index.js';
 export * from "./ingress/http";
 export { httpServer, type HttpServerConfig } from "./ingress/httpServer";
 export { sqliteIngress, sqliteSelect, type SqliteIngressConfig, type SqliteQueryResult } from "./ingress/sqlite";
+export { streamIngress } from "./ingress/stream";
+export { mergeIngress, type MergeStrategy, type MergeIngressOptions, type MergedItem } from "./ingress/merge";
 
 // PostgreSQL nodes
 export * from './postgres';
@@ -14,6 +16,30 @@ export * from './postgres';
 // Types
 export * from './types';
 
+// Resilience
+export {
+  circuitBreaker,
+  CircuitOpenError,
+  type CircuitBreakerOptions,
+  type NodeCircuitBreakerOptions,
+  type CircuitState
+} from "./circuitBreaker";
+
+// Transform nodes
+export { dedupe, type DedupeConfig } from "./transform/dedupe";
+export {
+  tumblingWindow,
+  slidingWindow,
+  sessionWindow,
+  Reducers,
+  type Reducer,
+  type WindowAggregate,
+  type WindowOptions,
+  type TumblingWindowConfig,
+  type SlidingWindowConfig,
+  type SessionWindowConfig
+} from "./transform/window";
+
 // Zod Schema Validation Transform nodes
 export { 
   validateSchema, 
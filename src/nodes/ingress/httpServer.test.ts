@@ -1,4 +1,5 @@
-import { describe, it, expect } from "bun:test";
+import { describe, it, expect, spyOn } from "bun:test";
+import { Chunk, Deferred, Effect, Exit, Fiber, FiberId, Queue } from "effect";
 import { httpServer } from "./httpServer";
 import { NodeKind } from "../../core/node";
 
@@ -50,4 +51,42 @@ describe("httpServer", () => {
 
     expect(result.query.name).toBe("world");
   });
-}); 
\ No newline at end of file
+
+  it("should answer waiting requests with 503 and stop the server on close", async () => {
+    // Watch the server the Node starts – on a free port – and the requests it queues
+    const listening = Deferred.unsafeMake<ReturnType<typeof Bun.serve>>(FiberId.none);
+    const queued = await Effect.runPromise(Queue.unbounded<string>());
+    const serve = Bun.serve;
+    const spy = spyOn(Bun, "serve").mockImplementation(((options: any) => {
+      const server = serve({
+        ...options,
+        fetch: (request: Request) => {
+          const response = options.fetch(request);
+          Queue.unsafeOffer(queued, new URL(request.url).pathname);
+          return response;
+        }
+      });
+      Deferred.unsafeDone(listening, Exit.succeed(server));
+      return server;
+    }) as typeof Bun.serve);
+
+    try {
+      const node = httpServer("closing-server", { port: 0 });
+
+      const fiber = Effect.runFork(node.run(undefined));
+      const { url } = await Effect.runPromise(Deferred.await(listening));
+      const first = fetch(new URL("/first", url)).catch(() => undefined);
+      expect((await Effect.runPromise(Fiber.join(fiber))).url).toContain("/first");
+
+      const waiting = fetch(new URL("/second", url));
+      expect(Chunk.toArray(await Effect.runPromise(Queue.takeN(queued, 2)))).toEqual(["/first", "/second"]);
+      await Effect.runPromise(node.close!());
+
+      expect((await waiting).status).toBe(503);
+      await expect(fetch(new URL("/third", url))).rejects.toThrow();
+      await first;
+    } finally {
+      spy.mockRestore();
+    }
+  });
+});
@@ -28,12 +28,14 @@ interface ServerContext {
 /**
  * An Ingress Node that starts a real HTTP server using Bun.serve.
  * It listens for incoming requests and processes them through the pipeline.
+ * Closing the Node answers requests not yet taken with 503 Service
+ * Unavailable and stops the server; the next `run` starts it again.
  */
 export function httpServer(
   name: string,
   config: HttpServerConfig = {}
 ): Node<undefined, HttpRequest> {
-  const port = config.port || 3000;
+  const port = config.port ?? 3000;
   const hostname = config.hostname || "localhost";
   const development = config.development ?? false;
 
@@ -126,6 +128,7 @@ export function httpServer(
 
       // Wait for the next request
       return yield* Effect.async<HttpRequest>((resume) => {
+        let timer: ReturnType<typeof setTimeout> | undefined;
         const checkForRequest = () => {
           if (serverContext && serverContext.requestQueue.length > 0) {
             const { request, resolve } = serverContext.requestQueue.shift()!;
@@ -181,12 +184,30 @@ export function httpServer(
             });
           } else {
             // Check again in a few milliseconds
-            setTimeout(checkForRequest, 10);
+            timer = setTimeout(checkForRequest, 10);
           }
         };
         
         checkForRequest();
+
+        // Stop polling when the wait is interrupted, e.g. on shutdown
+        return Effect.sync(() => clearTimeout(timer));
       });
+    }),
+    close: () => Effect.promise(async () => {
+      if (!serverContext) {
+        return;
+      }
+      const { server, requestQueue } = serverContext;
+      serverContext = null;
+
+      for (const { resolve } of requestQueue.splice(0)) {
+        resolve(new Response("Service Unavailable", { status: 503 }));
+      }
+      // Let responses still being written finish, then drop what is left
+      await Promise.race([server.stop(), Bun.sleep(1000)]);
+      await server.stop(true);
+      console.log(`HTTP Server "${name}" stopped`);
     })
   };
 } 
\ No newline at end of file
@@ -0,0 +1,138 @@
+import { describe, it, expect } from "bun:test";
+import { Chunk, Effect, Stream } from "effect";
+import { mergeIngress } from "./merge";
+import { streamIngress } from "./stream";
+import { NodeKind, type Node } from "../../core/node";
+import { Drop, isDrop } from "../../core/drop";
+
+const collect = <A, E>(stream: Stream.Stream<A, E>) =>
+  Effect.runPromise(Stream.runCollect(stream)).then(Chunk.toArray);
+
+const tagged = <A>(items: readonly (A | Drop)[]): A[] => items.filter((item): item is A => !isDrop(item));
+
+describe("mergeIngress", () => {
+  const letters = streamIngress("letters", Stream.make("a", "b", "c"));
+  const numbers = streamIngress("numbers", Stream.make(1, 2));
+
+  it("should create a valid ingress node", () => {
+    const node = mergeIngress("merged", [letters, numbers]);
+
+    expect(node.kind).toBe(NodeKind.Ingress);
+    expect(node.name).toBe("merged");
+    expect(node.stream).toBeDefined();
+  });
+
+  it("should reject an empty list of sources", () => {
+    expect(() => mergeIngress("merged", [])).toThrow("Merged ingress merged needs at least one source");
+  });
+
+  it("should reject non-ingress sources", () => {
+    const transform = { kind: NodeKind.Transform, name: "t", run: () => Effect.succeed(1) } as Node<undefined, number>;
+
+    expect(() => mergeIngress("merged", [transform])).toThrow("Expected ingress node, got transform");
+  });
+
+  it("should tag every item with its source when interleaving", async () => {
+    const items = await collect(mergeIngress("merged", [letters, numbers]).stream!());
+
+    expect(items).toHaveLength(5);
+    expect(tagged(items).filter((item) => item.source === "letters").map((item) => item.value)).toEqual(["a", "b", "c"]);
+    expect(tagged(items).filter((item) => item.source === "numbers").map((item) => item.value)).toEqual([1, 2]);
+  });
+
+  it("should alternate between sources with round-robin", async () => {
+    const items = await collect(mergeIngress("merged", [letters, numbers], { strategy: "round-robin" }).stream!());
+
+    expect(items).toEqual([
+      { source: "letters", value: "a" },
+      { source: "numbers", value: 1 },
+      { source: "letters", value: "b" },
+      { source: "numbers", value: 2 },
+      { source: "letters", value: "c" }
+    ]);
+  });
+
+  it("should serve earlier sources first with priority", async () => {
+    const urgent = streamIngress("urgent", Stream.make(1, 2, 3));
+    const bulk = streamIngress("bulk", Stream.make(10, 20, 30));
+    const node = mergeIngress("merged", [urgent, bulk], { strategy: "priority" });
+
+    const items = await collect(node.stream!());
+
+    expect(items).toHaveLength(6);
+    expect(tagged(items).filter((item) => item.source === "urgent").map((item) => item.value)).toEqual([1, 2, 3]);
+    expect(tagged(items).filter((item) => item.source === "bulk").map((item) => item.value)).toEqual([10, 20, 30]);
+  });
+
+  it("should prefer the higher priority source when both have items waiting", async () => {
+    const node = mergeIngress(
+      "merged",
+      [
+        streamIngress("high", Stream.make(1, 2).pipe(Stream.rechunk(1))),
+        streamIngress("low", Stream.make(10, 20).pipe(Stream.rechunk(1)))
+      ],
+      { strategy: "priority" }
+    );
+
+    const items = await collect(
+      Stream.unwrapScoped(
+        Effect.gen(function* (_) {
+          const stream = node.stream!();
+          // Let both producers fill their buffers before the first pull
+          const pull = yield* _(Stream.toPull(stream));
+          yield* _(Effect.repeatN(Effect.yieldNow(), 10));
+          return Stream.repeatEffectChunkOption(pull);
+        })
+      )
+    );
+
+    expect(tagged(items).map((item) => item.source)).toEqual(["high", "high", "low", "low"]);
+  });
+
+  it("should fail when any source fails", async () => {
+    const broken = streamIngress("broken", Stream.fail(new Error("source down")));
+
+    for (const strategy of ["interleave", "round-robin", "priority"] as const) {
+      await expect(collect(mergeIngress("merged", [letters, broken], { strategy }).stream!())).rejects.toThrow("source down");
+    }
+  });
+
+  it("should repeat run() of sources without a stream", async () => {
+    let count = 0;
+    const counter: Node<undefined, number> = {
+      kind: NodeKind.Ingress,
+      name: "counter",
+      run: () => Effect.sync(() => ++count)
+    };
+
+    const items = await collect(Stream.take(mergeIngress("merged", [counter]).stream!(), 3));
+
+    expect(items).toEqual([
+      { source: "counter", value: 1 },
+      { source: "counter", value: 2 },
+      { source: "counter", value: 3 }
+    ]);
+  });
+
+  it("should pass Drop through untagged", async () => {
+    const sparse = streamIngress("sparse", Stream.make<unknown[]>("a", Drop));
+
+    const items = await collect(mergeIngress("merged", [sparse]).stream!());
+
+    expect(items).toEqual([{ source: "sparse", value: "a" }, Drop]);
+  });
+
+  it("should deliver the first merged item from run()", async () => {
+    const result = await Effect.runPromise(mergeIngress("merged", [letters], { strategy: "round-robin" }).run(undefined));
+
+    expect(result).toEqual({ source: "letters", value: "a" });
+  });
+
+  it("should fail run() when every source is empty", async () => {
+    const empty = streamIngress("empty", Stream.empty);
+
+    await expect(Effect.runPromise(mergeIngress("merged", [empty]).run(undefined))).rejects.toThrow(
+      "Merged ingress merged produced no items"
+    );
+  });
+});
\ No newline at end of file
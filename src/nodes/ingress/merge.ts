@@ -0,0 +1,171 @@
+import { Chunk, Effect, Option, Queue, Stream, Take } from "effect";
+import { NodeKind, type Node, type NodeContext, type NodeError, type NodeOutput } from "../../core/node";
+import { isDrop, type Drop } from "../../core/drop";
+
+/**
+ * How items from several ingress Nodes are merged:
+ * - `interleave` – in arrival order, whichever source is ready first
+ * - `round-robin` – one item from each source in turn, skipping sources that ended
+ * - `priority` – earlier sources win whenever several have items waiting
+ */
+export type MergeStrategy = "interleave" | "round-robin" | "priority";
+
+export interface MergeIngressOptions {
+  readonly strategy?: MergeStrategy;
+  /**
+   * Items buffered per source with the `priority` strategy. Defaults to 16.
+   */
+  readonly capacity?: number;
+}
+
+/**
+ * An item produced by a merged ingress, tagged with the name of the ingress
+ * Node it came from.
+ */
+export interface MergedItem<O> {
+  readonly source: string;
+  readonly value: O;
+}
+
+/**
+ * An Ingress Node that merges several ingress Nodes into one source. Each
+ * source contributes its `stream()` – or `run` repeated – and every item is
+ * wrapped in a {@link MergedItem}. A one-shot `run` delivers the first merged
+ * item. `Drop` sentinels pass through untagged.
+ */
+export function mergeIngress<N extends Node<undefined, any, any, any>>(
+  name: string,
+  sources: readonly N[],
+  options: MergeIngressOptions = {}
+): Node<undefined, MergedItem<Exclude<NodeOutput<N>, Drop>> | Drop, NodeError<N> | Error, NodeContext<N>> {
+  if (sources.length === 0) {
+    throw new Error(`Merged ingress ${name} needs at least one source`);
+  }
+  for (const source of sources) {
+    if (source.kind !== NodeKind.Ingress) {
+      throw new Error(`Expected ingress node, got ${source.kind}`);
+    }
+  }
+
+  type Item = MergedItem<Exclude<NodeOutput<N>, Drop>> | Drop;
+
+  const merged = (): Stream.Stream<Item, NodeError<N>, NodeContext<N>> => {
+    const tagged = sources.map((source): Stream.Stream<Item, NodeError<N>, NodeContext<N>> => {
+      const items: Stream.Stream<Exclude<NodeOutput<N>, Drop> | Drop, NodeError<N>, NodeContext<N>> = source.stream
+        ? source.stream()
+        : Stream.repeatEffect(source.run(undefined));
+      return Stream.map(items, (value) => isDrop(value) ? value : { source: source.name, value });
+    });
+
+    switch (options.strategy ?? "interleave") {
+      case "interleave":
+        return Stream.mergeAll(tagged, { concurrency: "unbounded" });
+      case "round-robin":
+        return roundRobin(tagged);
+      case "priority":
+        return byPriority(tagged, options.capacity ?? 16);
+    }
+  };
+
+  return {
+    kind: NodeKind.Ingress,
+    name,
+    run: () => Effect.gen(function* (_) {
+      const head = yield* _(Stream.runHead(merged()));
+      if (Option.isNone(head)) {
+        return yield* _(Effect.fail(new Error(`Merged ingress ${name} produced no items`)));
+      }
+      return head.value;
+    }),
+    stream: merged
+  };
+}
+
+/**
+ * Pull one item from each stream in turn. A source that has not produced its
+ * item yet holds up the others.
+ */
+function roundRobin<A, E, R>(streams: readonly Stream.Stream<A, E, R>[]): Stream.Stream<A, E, R> {
+  return Stream.unwrapScoped(
+    Effect.gen(function* (_) {
+      const pulls = yield* _(Effect.forEach(streams, (stream) => Stream.toPull(Stream.rechunk(stream, 1))));
+      const active = [...pulls];
+      let cursor = 0;
+
+      const next = (): Effect.Effect<Chunk.Chunk<A>, Option.Option<E>, R> => {
+        if (active.length === 0) {
+          return Effect.fail(Option.none());
+        }
+        const index = cursor % active.length;
+        return Effect.matchEffect(active[index]!, {
+          onFailure: (error) => {
+            if (Option.isSome(error)) {
+              return Effect.fail(error);
+            }
+            active.splice(index, 1);
+            cursor = index;
+            return next();
+          },
+          onSuccess: (chunk) => {
+            cursor = index + 1;
+            return Chunk.isEmpty(chunk) ? next() : Effect.succeed(chunk);
+          }
+        });
+      };
+
+      return Stream.repeatEffectChunkOption(Effect.suspend(next));
+    })
+  );
+}
+
+/**
+ * Run every stream into its own bounded queue and always serve the earliest
+ * stream that has something waiting. A shared signal queue receives one entry
+ * per buffered take, so the consumer only wakes up when there is work.
+ */
+function byPriority<A, E, R>(streams: readonly Stream.Stream<A, E, R>[], capacity: number): Stream.Stream<A, E, R> {
+  return Stream.unwrapScoped(
+    Effect.gen(function* (_) {
+      const signal = yield* _(Queue.unbounded<void>());
+      const buffers = yield* _(Effect.forEach(streams, () => Queue.bounded<Take.Take<A, E>>(capacity)));
+
+      const push = (buffer: Queue.Queue<Take.Take<A, E>>, take: Take.Take<A, E>) =>
+        Effect.zipRight(Queue.offer(buffer, take), Queue.offer(signal, undefined));
+
+      yield* _(Effect.forEach(
+        streams,
+        (stream, index) => {
+          const buffer = buffers[index]!;
+          return Stream.runForEachChunk(stream, (chunk) => push(buffer, Take.chunk(chunk))).pipe(
+            Effect.zipRight(push(buffer, Take.end)),
+            Effect.catchAllCause((cause) => push(buffer, Take.failCause(cause))),
+            Effect.forkScoped
+          );
+        },
+        { discard: true }
+      ));
+
+      let remaining = streams.length;
+
+      const next: Effect.Effect<Chunk.Chunk<A>, Option.Option<E>> = Effect.gen(function* (_) {
+        while (remaining > 0) {
+          yield* _(Queue.take(signal));
+
+          for (const buffer of buffers) {
+            const polled = yield* _(Queue.poll(buffer));
+            if (Option.isSome(polled)) {
+              if (Take.isDone(polled.value)) {
+                remaining -= 1;
+                break;
+              }
+              return yield* _(Take.done(polled.value));
+            }
+          }
+        }
+        return yield* _(Effect.fail(Option.none()));
+      });
+
+      return Stream.repeatEffectChunkOption(next);
+    })
+  );
+}
\ No newline at end of file
@@ -0,0 +1,36 @@
+import { describe, it, expect } from "bun:test";
+import { Chunk, Effect, Stream } from "effect";
+import { streamIngress } from "./stream";
+import { NodeKind } from "../../core/node";
+
+describe("streamIngress", () => {
+  it("should create a valid ingress node", () => {
+    const node = streamIngress("test-stream", Stream.make(1, 2, 3));
+
+    expect(node.kind).toBe(NodeKind.Ingress);
+    expect(node.name).toBe("test-stream");
+    expect(node.stream).toBeDefined();
+  });
+
+  it("should expose every element through stream()", async () => {
+    const node = streamIngress("test-stream", Stream.make(1, 2, 3));
+    const items = await Effect.runPromise(Stream.runCollect(node.stream!()));
+
+    expect(Chunk.toArray(items)).toEqual([1, 2, 3]);
+  });
+
+  it("should deliver the first element from run()", async () => {
+    const node = streamIngress("test-stream", Stream.make("a", "b"));
+    const result = await Effect.runPromise(node.run(undefined));
+
+    expect(result).toBe("a");
+  });
+
+  it("should fail run() when the stream is empty", async () => {
+    const node = streamIngress("test-stream", Stream.empty);
+
+    await expect(Effect.runPromise(node.run(undefined))).rejects.toThrow(
+      "Stream ingress test-stream produced no items"
+    );
+  });
+});
@@ -0,0 +1,26 @@
+import { Effect, Option, Stream } from "effect";
+import { NodeKind, type Node } from "../../core/node";
+
+/**
+ * An Ingress Node backed by an Effect Stream. In streaming mode every element
+ * flows through the pipeline; a one-shot `run` delivers only the first element.
+ * Useful for wrapping continuous sources such as `createPollingIngress` or
+ * `createNotificationIngress`.
+ */
+export function streamIngress<O, E = never, R = never>(
+  name: string,
+  source: Stream.Stream<O, E, R>
+): Node<undefined, O, E | Error, R> {
+  return {
+    kind: NodeKind.Ingress,
+    name,
+    run: () => Effect.gen(function* (_) {
+      const head = yield* _(Stream.runHead(source));
+      if (Option.isNone(head)) {
+        return yield* _(Effect.fail(new Error(`Stream ingress ${name} produced no items`)));
+      }
+      return head.value;
+    }),
+    stream: () => source
+  };
+}
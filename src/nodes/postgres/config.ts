@@ -1,5 +1,5 @@
 import postgres from 'postgres';
-import { Config, ConfigError, Effect, Layer } from 'effect';
+import { Cause, Config, ConfigError, Context, Effect, Layer } from 'effect';
 
 // PostgreSQL configuration interface
 export interface PostgresConfig {
@@ -27,6 +27,18 @@ export const defaultPostgresConfig: PostgresConfig = {
   connect_timeout: 30,
 };
 
+// Service tag for PostgresConfig
+export const PostgresConfig = Context.GenericTag<PostgresConfig>('PostgresConfig');
+
+// PostgreSQL connection service
+export interface PostgresConnection {
+  readonly sql: postgres.Sql;
+  readonly close: () => Promise<void>;
+}
+
+// Service tag for PostgresConnection
+export const PostgresConnection = Context.GenericTag<PostgresConnection>('PostgresConnection');
+
 // Configuration provider that reads from environment variables
 export const PostgresConfigLive = Layer.effect(
   PostgresConfig,
@@ -73,18 +85,6 @@ export const PostgresConfigLive = Layer.effect(
   })
 );
 
-// Service tag for PostgresConfig
-export class PostgresConfig extends Config.Tag('PostgresConfig')<
-  PostgresConfig,
-  PostgresConfig
->() {}
-
-// PostgreSQL connection service
-export interface PostgresConnection {
-  readonly sql: postgres.Sql;
-  readonly close: () => Promise<void>;
-}
-
 // PostgreSQL connection layer
 export const PostgresConnectionLive = Layer.scoped(
   PostgresConnection,
@@ -106,26 +106,25 @@ export const PostgresConnectionLive = Layer.scoped(
     // Test the connection
     yield* Effect.tryPromise({
       try: () => sql`SELECT 1 as test`,
-      catch: (error) => new ConfigError.ConfigError({
-        message: `Failed to connect to PostgreSQL: ${error}`,
-      }),
+      catch: (error) => ConfigError.SourceUnavailable(
+        [],
+        `Failed to connect to PostgreSQL: ${error}`,
+        Cause.fail(error)
+      ),
     });
 
-    yield* Effect.addFinalizer(() => Effect.promise(() => sql.end()));
+    // Ending the pool waits for running queries; it runs when the layer's
+    // scope closes, e.g. once a run drained after `stop()`
+    const close = () => sql.end();
+    yield* Effect.addFinalizer(() => Effect.promise(close));
 
     return {
       sql,
-      close: () => sql.end(),
+      close,
     } satisfies PostgresConnection;
   })
 );
 
-// Service tag for PostgresConnection
-export class PostgresConnection extends Config.Tag('PostgresConnection')<
-  PostgresConnection,
-  PostgresConnection
->() {}
-
 // Helper function to create a PostgreSQL URL from config
 export const createPostgresUrl = (config: PostgresConfig): string => {
   const protocol = config.ssl ? 'postgresql' : 'postgresql';
@@ -11,10 +11,10 @@ export class PostgresEgressError extends Data.TaggedError('PostgresEgressError')
 }> {}
 
 // Base egress node interface
-export interface PostgresEgressNode<T> {
+export interface PostgresEgressNode<T, E = PostgresEgressError> {
   readonly name: string;
   readonly description: string;
-  readonly execute: (data: T[]) => Effect.Effect<WriteResult, PostgresEgressError, PostgresConnection>;
+  readonly execute: (data: T[]) => Effect.Effect<WriteResult, E, PostgresConnection>;
 }
 
 // Write result interface
@@ -405,7 +405,8 @@ export const CommonEgressPatterns = {
     ),
 };
 
-// Utility function to create a batch writer that accumulates data before writing
+// Utility function to create a batch writer that accumulates data before writing;
+// `close` writes what is left and stops the pending timer
 export const createBatchWriter = <T>(
   egress: PostgresEgressNode<T>,
   options: {
@@ -452,5 +453,5 @@ export const createBatchWriter = <T>(
       }
     });
   
-  return { write, flush };
+  return { write, flush, close: flush };
 };
\ No newline at end of file
@@ -193,55 +193,49 @@ export const createCdcIngress = <T = unknown>(
   );
 };
 
-// Create an event-based ingress that listens to PostgreSQL notifications
+// Create an event-based ingress that listens to PostgreSQL notifications;
+// the channel is unlistened once the stream ends
 export const createNotificationIngress = <T = unknown>(
   channel: string,
   transformer?: DataTransformer<string, T>
 ): Stream.Stream<T, PostgresIngressError, PostgresConnection> =>
-  Stream.async<T, PostgresIngressError>((emit) => {
+  Stream.asyncScoped<T, PostgresIngressError, PostgresConnection>((emit) =>
     Effect.gen(function* () {
       const connection = yield* PostgresConnection;
       const { sql } = connection;
-      
-      // Listen to the channel
-      yield* Effect.tryPromise({
-        try: () => sql`LISTEN ${sql(channel)}`,
-        catch: (error) =>
-          new PostgresIngressError({
-            message: `Failed to listen to channel ${channel}: ${error}`,
-            cause: error,
-          }),
-      });
-      
-      // Set up notification handler
-      sql.listen(channel, (payload) => {
-        if (transformer) {
-          Effect.runPromise(
-            transformer.transform(payload).pipe(
-              Effect.match({
-                onFailure: (error) => 
-                  emit.fail(new PostgresIngressError({
-                    message: `Notification transformation failed: ${error.message}`,
-                    cause: error,
-                  })),
-                onSuccess: (result) => emit.single(result),
-              })
-            )
-          );
-        } else {
-          emit.single(payload as T);
-        }
-      });
-      
-    }).pipe(
-      Effect.provide(PostgresConnection),
-      Effect.runCallback((exit) => {
-        if (exit._tag === 'Failure') {
-          emit.fail(exit.cause);
-        }
-      })
-    );
-  });
+
+      // Listen to the channel on a connection of its own
+      yield* Effect.acquireRelease(
+        Effect.tryPromise({
+          try: () =>
+            sql.listen(channel, (payload) => {
+              if (transformer) {
+                Effect.runPromise(
+                  transformer.transform(payload).pipe(
+                    Effect.match({
+                      onFailure: (error) =>
+                        emit.fail(new PostgresIngressError({
+                          message: `Notification transformation failed: ${error.message}`,
+                          cause: error,
+                        })),
+                      onSuccess: (result) => emit.single(result),
+                    })
+                  )
+                );
+              } else {
+                emit.single(payload as T);
+              }
+            }),
+          catch: (error) =>
+            new PostgresIngressError({
+              message: `Failed to listen to channel ${channel}: ${error}`,
+              cause: error,
+            }),
+        }),
+        (subscription) => Effect.promise(() => subscription.unlisten())
+      );
+    })
+  );
 
 // Common ingress patterns
 export const CommonIngressPatterns = {
@@ -1,6 +1,9 @@
 import { describe, it, expect } from "bun:test";
+import { Clock, Effect, Fiber, Queue, Stream, TestClock, TestContext } from "effect";
 import { batch } from "./batch";
-import { NodeKind } from "../../core/node";
+import { NodeKind, type Node } from "../../core/node";
+import type { RuntimeEvent } from "../../core/event";
+import { PipelineExecutor } from "../../runtime/engine/executor";
 
 describe("batch", () => {
   it("should create a valid transform node", () => {
@@ -12,7 +15,7 @@ describe("batch", () => {
 
   it("should return single item as array when batch size not reached", async () => {
     const node = batch("test-batch", { size: 3 });
-    const result = await node.run("item1");
+    const result = await Effect.runPromise(node.run("item1"));
 
     expect(result).toEqual(["item1"]);
   });
@@ -20,37 +23,37 @@ describe("batch", () => {
   it("should handle different input types", async () => {
     const node = batch("test-batch", { size: 2 });
 
-    const stringResult = await node.run("hello");
+    const stringResult = await Effect.runPromise(node.run("hello"));
     expect(stringResult).toEqual(["hello"]);
   });
 
   it("should handle numbers", async () => {
     const node = batch("test-batch", { size: 2 });
-    const numberResult = await node.run(42);
+    const numberResult = await Effect.runPromise(node.run(42));
     expect(numberResult).toEqual([42]);
   });
 
   it("should handle objects", async () => {
     const node = batch("test-batch", { size: 2 });
-    const objectResult = await node.run({ key: "value" });
+    const objectResult = await Effect.runPromise(node.run({ key: "value" }));
     expect(objectResult).toEqual([{ key: "value" }]);
   });
 
   it("should handle null inputs", async () => {
     const node = batch("test-batch", { size: 2 });
-    const nullResult = await node.run(null);
+    const nullResult = await Effect.runPromise(node.run(null));
     expect(nullResult).toEqual([null]);
   });
 
   it("should handle undefined inputs", async () => {
     const node = batch("test-batch", { size: 2 });
-    const undefinedResult = await node.run(undefined);
+    const undefinedResult = await Effect.runPromise(node.run(undefined));
     expect(undefinedResult).toEqual([undefined]);
   });
 
   it("should work with timeout configuration", async () => {
     const node = batch("test-batch", { size: 3, timeout: 100 });
-    const result = await node.run("item1");
+    const result = await Effect.runPromise(node.run("item1"));
 
     expect(result).toEqual(["item1"]);
   });
@@ -63,7 +66,83 @@ describe("batch", () => {
       data: [1, 2, 3, 4, 5]
     };
 
-    const result = await node.run(complexObject);
+    const result = await Effect.runPromise(node.run(complexObject));
     expect(result).toEqual([complexObject]);
   });
-}); 
\ No newline at end of file
+});
+
+describe("batch in streaming runs", () => {
+  const numbers = (stream: Stream.Stream<number>): Node<undefined, number> => ({
+    kind: NodeKind.Ingress,
+    name: "numbers",
+    run: () => Effect.succeed(0),
+    stream: () => stream
+  });
+
+  // Run a Pipe of `source → batch → collect`, returning each batch with the time it arrived
+  const collect = async (
+    source: Node<undefined, number>,
+    node: Node<number, number[]>,
+    drive: (executor: PipelineExecutor<never, never>) => Effect.Effect<void> = () => TestClock.adjust("1 hour")
+  ) => {
+    const received: [number, number[]][] = [];
+    const sink: Node<number[], void> = {
+      kind: NodeKind.Egress,
+      name: "collect",
+      run: (items) => Effect.map(Clock.currentTimeMillis, (now) => { received.push([now, items]); })
+    };
+    const eventQueue = await Effect.runPromise(Queue.unbounded<RuntimeEvent>());
+    const executor = new PipelineExecutor({ name: "batches", nodes: [source, node, sink] }, eventQueue);
+
+    await Effect.runPromise(
+      Effect.gen(function* (_) {
+        const fiber = yield* _(Effect.fork(executor.runStream()));
+        yield* _(drive(executor));
+        yield* _(Fiber.join(fiber));
+      }).pipe(Effect.provide(TestContext.TestContext))
+    );
+    return received;
+  };
+
+  it("should emit full batches and flush the rest when the stream ends", async () => {
+    const received = await collect(numbers(Stream.make(1, 2, 3, 4, 5)), batch("batch", { size: 2 }));
+
+    expect(received.map(([, items]) => items)).toEqual([[1, 2], [3, 4], [5]]);
+  });
+
+  it("should emit a partial batch once its timeout passes", async () => {
+    // 1 and 2 arrive straight away, 3 after ten seconds
+    const source = numbers(Stream.concat(
+      Stream.make(1, 2),
+      Stream.fromEffect(Effect.as(Effect.sleep("10 seconds"), 3))
+    ));
+
+    const received = await collect(source, batch("batch", { size: 5, timeout: "1 second" }));
+
+    expect(received).toEqual([[1000, [1, 2]], [10000, [3]]]);
+  });
+
+  it("should flush leftovers when the pipeline is stopped", async () => {
+    const source = numbers(Stream.concat(Stream.make(1, 2, 3), Stream.never));
+
+    const received = await collect(source, batch("batch", { size: 2 }), (executor) =>
+      Effect.zipRight(TestClock.adjust("1 second"), executor.stop())
+    );
+
+    expect(received.map(([, items]) => items)).toEqual([[1, 2], [3]]);
+  });
+
+  it("should keep a separate buffer per run", async () => {
+    const node = batch<number>("batch", { size: 2 });
+
+    const first = await collect(numbers(Stream.make(1)), node);
+    const second = await collect(numbers(Stream.make(2, 3)), node);
+
+    expect(first.map(([, items]) => items)).toEqual([[1]]);
+    expect(second.map(([, items]) => items)).toEqual([[2, 3]]);
+  });
+
+  it("should reject a size below 1", () => {
+    expect(() => batch("batch", { size: 0 })).toThrow('Batch "batch" needs a size of at least 1');
+  });
+});
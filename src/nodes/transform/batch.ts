@@ -1,46 +1,66 @@
-import { Effect } from "effect";
+import { Duration, Effect } from "effect";
 import { NodeKind, type Node } from "../../core/node";
+import type { Accumulator } from "../../core/accumulator";
 
 export interface BatchConfig {
+  /**
+   * Emit a batch as soon as it holds this many items.
+   */
   readonly size: number;
-  readonly timeout?: number;
+  /**
+   * Emit a partial batch once its first item has waited this long –
+   * milliseconds or a Duration. Without it, partial batches wait for `size`
+   * or the end of the stream.
+   */
+  readonly timeout?: Duration.DurationInput;
 }
 
 /**
- * A Transform Node that batches individual items into arrays.
- * Useful for processing data in chunks for efficiency.
+ * A Transform Node that batches individual items into arrays – e.g. to write
+ * them with one `sqliteInsert`.
+ *
+ * In streaming runs a batch is emitted exactly when it reaches `size` or its
+ * `timeout` passes, and the leftovers are flushed when the input ends – also
+ * after `stop()`. Every run keeps its own buffer. A one-shot run has a single
+ * item and emits it as a batch of one.
  */
-export function batch(
+export function batch<T = unknown>(
   name: string,
   config: BatchConfig
-): Node<unknown, unknown[]> {
-  let batchBuffer: unknown[] = [];
-  let timeoutId: NodeJS.Timeout | null = null;
+): Node<T, T[]> {
+  if (!(config.size >= 1)) {
+    throw new Error(`Batch "${name}" needs a size of at least 1`);
+  }
+  const timeoutMs = config.timeout === undefined ? undefined : Duration.toMillis(Duration.decode(config.timeout));
+
+  const accumulate = (): Accumulator<T, T[]> => {
+    let buffer: T[] = [];
+    let openedAt = 0;
+
+    const take = (): T[][] => {
+      const full = buffer;
+      buffer = [];
+      return full.length > 0 ? [full] : [];
+    };
+
+    return {
+      add: (input, now) => {
+        if (buffer.length === 0) {
+          openedAt = now;
+        }
+        buffer.push(input);
+        return buffer.length >= config.size ? take() : [];
+      },
+      nextDue: () => timeoutMs === undefined || buffer.length === 0 ? undefined : openedAt + timeoutMs,
+      due: take,
+      flush: take
+    };
+  };
 
   return {
     kind: NodeKind.Transform,
     name,
-    run: (input) => Effect.gen(function* () {
-      batchBuffer.push(input);
-      
-      // If we have enough items, emit the batch
-      if (batchBuffer.length >= config.size) {
-        const currentBatch = [...batchBuffer];
-        batchBuffer = [];
-        if (timeoutId) {
-          clearTimeout(timeoutId);
-          timeoutId = null;
-        }
-        console.log(`Batch "${name}" emitting full batch of ${currentBatch.length} items`);
-        return currentBatch;
-      }
-      
-      // For immediate processing in Effect pipelines, return current single item as batch
-      // In a real streaming implementation, this would handle partial batches differently
-      console.log(`Batch "${name}" buffering item (${batchBuffer.length}/${config.size})`);
-      
-      // Return a single-item batch for now to keep the pipeline flowing
-      return [input];
-    })
+    run: (input) => Effect.succeed([input]),
+    accumulate
   };
-} 
\ No newline at end of file
+}
@@ -0,0 +1,130 @@
+import { describe, it, expect } from "bun:test";
+import { Chunk, Effect, Queue, Stream, TestClock, TestContext } from "effect";
+import { NodeKind, type Node } from "../../core/node";
+import type { RuntimeEvent } from "../../core/event";
+import { Drop } from "../../core/drop";
+import { PipelineExecutor } from "../../runtime/engine/executor";
+import { memoryDedupeStore } from "../../runtime/dedupe/memory";
+import { dedupe } from "./dedupe";
+
+interface Delivery {
+  readonly id: string;
+  readonly body: string;
+}
+
+const runTest = <A, E>(effect: Effect.Effect<A, E>) =>
+  Effect.runPromise(effect.pipe(Effect.provide(TestContext.TestContext)));
+
+describe("dedupe", () => {
+  it("should create a transform node", () => {
+    const node = dedupe<Delivery>("dedupe-deliveries", { key: (d) => d.id, ttl: "1 hour" });
+
+    expect(node.kind).toBe(NodeKind.Transform);
+    expect(node.name).toBe("dedupe-deliveries");
+  });
+
+  it("should drop items whose key was seen within the ttl", async () => {
+    const node = dedupe<Delivery>("dedupe-deliveries", { key: (d) => d.id, ttl: "1 minute" });
+
+    const outputs = await runTest(
+      Effect.gen(function* (_) {
+        const first = yield* _(node.run({ id: "1", body: "a" }));
+        const repeat = yield* _(node.run({ id: "1", body: "a again" }));
+        yield* _(TestClock.adjust("1 minute"));
+        const expired = yield* _(node.run({ id: "1", body: "a later" }));
+        return [first, repeat, expired] as unknown[];
+      })
+    );
+
+    expect(outputs).toEqual([{ id: "1", body: "a" }, Drop, { id: "1", body: "a later" }]);
+  });
+
+  it("should namespace keys so nodes can share a store", async () => {
+    const store = memoryDedupeStore();
+    const orders = dedupe<Delivery>("orders", { key: (d) => d.id, ttl: "1 hour", store });
+    const refunds = dedupe<Delivery>("refunds", { key: (d) => d.id, ttl: "1 hour", store });
+
+    const outputs = await runTest(Effect.all([orders.run({ id: "1", body: "" }), refunds.run({ id: "1", body: "" })]));
+
+    expect(outputs).not.toContain(Drop);
+    expect(store.keys()).toEqual(["orders:1", "refunds:1"]);
+  });
+
+  it("should report dropped duplicates with a running count", async () => {
+    const source: Node<undefined, Delivery> = {
+      kind: NodeKind.Ingress,
+      name: "webhooks",
+      run: () => Effect.succeed({ id: "", body: "" }),
+      stream: () => Stream.make(
+        { id: "1", body: "a" },
+        { id: "1", body: "a" },
+        { id: "2", body: "b" },
+        { id: "1", body: "a" }
+      )
+    };
+    const eventQueue = await Effect.runPromise(Queue.unbounded<RuntimeEvent>());
+    const executor = new PipelineExecutor(
+      { name: "deliveries", nodes: [source, dedupe<Delivery>("dedupe-deliveries", { key: (d) => d.id, ttl: "1 hour" })] },
+      eventQueue
+    );
+
+    await Effect.runPromise(executor.runStream());
+
+    const events = Chunk.toArray(await Effect.runPromise(Queue.takeAll(eventQueue)));
+    expect(events.filter((event) => event._tag === "DuplicateDropped")).toEqual([
+      { _tag: "DuplicateDropped", nodeName: "dedupe-deliveries", key: "1", dropped: 1 },
+      { _tag: "DuplicateDropped", nodeName: "dedupe-deliveries", key: "1", dropped: 2 }
+    ]);
+    expect(events.filter((event) => event._tag === "NodeFiltered")).toHaveLength(2);
+  });
+
+  it("should record a key only once its item has completed", async () => {
+    const store = memoryDedupeStore();
+    let failing = true;
+    const source: Node<undefined, Delivery> = {
+      kind: NodeKind.Ingress,
+      name: "cdc",
+      run: () => Effect.succeed({ id: "1", body: "a" }),
+      stream: () => Stream.make({ id: "1", body: "a" })
+    };
+    const save: Node<Delivery, void, Error> = {
+      kind: NodeKind.Egress,
+      name: "save",
+      run: () => Effect.suspend(() => failing ? Effect.fail(new Error("down")) : Effect.void)
+    };
+    const pipe = {
+      name: "deliveries",
+      nodes: [source, dedupe<Delivery>("dedupe-deliveries", { key: (d) => d.id, ttl: "1 hour", store }), save]
+    };
+    const eventQueue = await Effect.runPromise(Queue.unbounded<RuntimeEvent>());
+
+    const failed = await Effect.runPromise(Effect.either(new PipelineExecutor(pipe, eventQueue).runStream()));
+    const keysAfterFailure = store.keys();
+    failing = false;
+    const redelivered = await Effect.runPromise(new PipelineExecutor(pipe, eventQueue).run());
+
+    expect(failed._tag).toBe("Left");
+    expect(keysAfterFailure).toEqual([]);
+    expect(redelivered.completed).toBe(true);
+    expect(store.keys()).toEqual(["dedupe-deliveries:1"]);
+  });
+
+  it("should count dropped duplicates per run", async () => {
+    const store = memoryDedupeStore();
+    const node = dedupe<Delivery>("dedupe-deliveries", { key: (d) => d.id, ttl: "1 hour", store });
+    const source: Node<undefined, Delivery> = {
+      kind: NodeKind.Ingress,
+      name: "webhooks",
+      run: () => Effect.succeed({ id: "", body: "" }),
+      stream: () => Stream.make({ id: "1", body: "a" }, { id: "1", body: "a" })
+    };
+    const eventQueue = await Effect.runPromise(Queue.unbounded<RuntimeEvent>());
+    const executor = new PipelineExecutor({ name: "deliveries", nodes: [source, node] }, eventQueue);
+
+    await Effect.runPromise(Effect.zipRight(executor.runStream(), executor.runStream()));
+
+    const events = Chunk.toArray(await Effect.runPromise(Queue.takeAll(eventQueue)));
+    expect(events.filter((event) => event._tag === "DuplicateDropped").map((event) => "dropped" in event && event.dropped))
+      .toEqual([1, 1, 2]);
+  });
+});
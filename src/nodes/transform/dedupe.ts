@@ -0,0 +1,87 @@
+import { Clock, Duration, Effect, FiberRef, Option } from "effect";
+import { NodeKind, type Node } from "../../core/node";
+import type { DedupeStore } from "../../core/dedupe";
+import type { RuntimeEvent } from "../../core/event";
+import { Drop } from "../../core/drop";
+import { currentEventSink } from "../../runtime/engine/eventSink";
+import { onItemSettled } from "../../runtime/engine/itemSettled";
+import { runLocal } from "../../runtime/engine/runLocal";
+import { memoryDedupeStore } from "../../runtime/dedupe/memory";
+
+export interface DedupeConfig<T, E = never, R = never> {
+  /**
+   * Identifies an item – two items with the same key are duplicates, e.g.
+   * an event ID or a webhook delivery ID.
+   */
+  readonly key: (input: T) => string;
+  /**
+   * How long a key is remembered. A duplicate arriving later than this
+   * passes through again.
+   */
+  readonly ttl: Duration.DurationInput;
+  /**
+   * Where seen keys are kept. Defaults to a fresh in-memory store.
+   */
+  readonly store?: DedupeStore<E, R>;
+  /**
+   * Prefix for this Node's keys, so Nodes sharing a store do not see each
+   * other's keys. Defaults to the Node's name.
+   */
+  readonly namespace?: string;
+}
+
+/**
+ * A Transform Node that drops items whose key was seen within `ttl`, for
+ * at-least-once sources such as `createCdcIngress` re-reading after a restart
+ * or webhooks retried by their sender.
+ *
+ * Duplicates are dropped with `Drop`, so the executor reports them as
+ * `NodeFiltered`; each one is also reported as a `DuplicateDropped` event
+ * carrying its key and the run's running total. A key is recorded only once
+ * its item has completed – see `onItemSettled` – so an item failing further
+ * down passes again when redelivered. Until then, later items with the same
+ * key are dropped within the run.
+ */
+export function dedupe<T, E = never, R = never>(
+  name: string,
+  config: DedupeConfig<T, E, R>
+): Node<T, T | Drop, E, R> {
+  const store: DedupeStore<E, R> = config.store ?? memoryDedupeStore(`${name}-dedupe`);
+  const namespace = config.namespace ?? name;
+  const ttlMs = Duration.toMillis(Duration.decode(config.ttl));
+  const run = runLocal(() => ({ dropped: 0, inFlight: new Set<string>() }));
+
+  const report = (key: string, dropped: number) =>
+    Effect.flatMap(FiberRef.get(currentEventSink), (sink) => {
+      const event: RuntimeEvent = { _tag: "DuplicateDropped", nodeName: name, key, dropped };
+      return Option.isSome(sink) ? sink.value(event) : Effect.void;
+    });
+
+  const record = (key: string) =>
+    Effect.flatMap(Clock.currentTimeMillis, (now) =>
+      Effect.asVoid(store.markSeen(key, new Date(now), new Date(now + ttlMs)))
+    );
+
+  return {
+    kind: NodeKind.Transform,
+    name,
+    run: (input) =>
+      Effect.gen(function* (_) {
+        const key = config.key(input);
+        const stored = `${namespace}:${key}`;
+        const state = yield* _(run.get);
+        const now = yield* _(Clock.currentTimeMillis);
+        const duplicate = state.inFlight.has(stored) || (yield* _(store.seen(stored, new Date(now))));
+        if (!duplicate) {
+          state.inFlight.add(stored);
+          yield* _(onItemSettled((completed) =>
+            Effect.zipRight(Effect.sync(() => state.inFlight.delete(stored)), completed ? record(stored) : Effect.void)
+          ));
+          return input;
+        }
+
+        yield* _(report(key, ++state.dropped));
+        return Drop;
+      })
+  };
+}
@@ -1,6 +1,8 @@
 import { describe, it, expect } from "bun:test";
+import { Effect } from "effect";
 import { filter } from "./filter";
 import { NodeKind } from "../../core/node";
+import { Drop } from "../../core/drop";
 
 describe("filter", () => {
   it("should create a valid transform node", () => {
@@ -17,16 +19,16 @@ describe("filter", () => {
       predicate: (input: unknown) => (input as number) > 5
     });
 
-    const result = await node.run(10);
+    const result = await Effect.runPromise(node.run(10));
     expect(result).toBe(10);
   });
 
-  it("should filter out data when predicate is false", async () => {
+  it("should drop data when predicate is false", async () => {
     const node = filter("test-filter", {
       predicate: (input: unknown) => (input as number) > 5
     });
 
-    await expect(node.run(3)).rejects.toThrow("Data filtered out by test-filter");
+    expect(await Effect.runPromise(node.run(3))).toBe(Drop);
   });
 
   it("should handle object filtering", async () => {
@@ -37,10 +39,10 @@ describe("filter", () => {
     const activeUser = { id: 1, name: "John", active: true };
     const inactiveUser = { id: 2, name: "Jane", active: false };
 
-    const activeResult = await node.run(activeUser);
+    const activeResult = await Effect.runPromise(node.run(activeUser));
     expect(activeResult).toEqual(activeUser);
 
-    await expect(node.run(inactiveUser)).rejects.toThrow("Data filtered out by test-filter");
+    expect(await Effect.runPromise(node.run(inactiveUser))).toBe(Drop);
   });
 
   it("should handle array filtering", async () => {
@@ -51,10 +53,10 @@ describe("filter", () => {
     const nonEmptyArray = [1, 2, 3];
     const emptyArray: any[] = [];
 
-    const nonEmptyResult = await node.run(nonEmptyArray);
+    const nonEmptyResult = await Effect.runPromise(node.run(nonEmptyArray));
     expect(nonEmptyResult).toEqual(nonEmptyArray);
 
-    await expect(node.run(emptyArray)).rejects.toThrow("Data filtered out by test-filter");
+    expect(await Effect.runPromise(node.run(emptyArray))).toBe(Drop);
   });
 
   it("should handle complex predicate logic", async () => {
@@ -68,9 +70,9 @@ describe("filter", () => {
     const validUser = { name: "John", age: 25, score: 85 };
     const invalidUser = { name: "Jane", age: 16, score: 90 };
 
-    const validResult = await node.run(validUser);
+    const validResult = await Effect.runPromise(node.run(validUser));
     expect(validResult).toEqual(validUser);
 
-    await expect(node.run(invalidUser)).rejects.toThrow("Data filtered out by test-filter");
+    expect(await Effect.runPromise(node.run(invalidUser))).toBe(Drop);
   });
 }); 
\ No newline at end of file
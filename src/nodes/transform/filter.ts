@@ -1,28 +1,23 @@
 import { Effect } from "effect";
 import { NodeKind, type Node } from "../../core/node";
+import { Drop } from "../../core/drop";
 
-export interface FilterConfig {
-  readonly predicate: (input: unknown) => boolean;
+export interface FilterConfig<T = unknown> {
+  readonly predicate: (input: T) => boolean;
 }
 
 /**
  * A Transform Node that filters data based on a predicate function.
- * Only data that passes the predicate continues to the next Node.
+ * Only data that passes the predicate continues to the next Node; anything
+ * else is dropped and reported as filtered, not failed.
  */
-export function filter(
+export function filter<T = unknown>(
   name: string,
-  config: FilterConfig
-): Node<unknown, unknown> {
+  config: FilterConfig<T>
+): Node<T, T | Drop> {
   return {
     kind: NodeKind.Transform,
     name,
-    run: (input) => Effect.gen(function* () {
-      if (config.predicate(input)) {
-        return input;
-      } else {
-        // Filter out by failing with an error
-        return yield* Effect.fail(new Error(`Data filtered out by ${name}`));
-      }
-    })
+    run: (input) => Effect.sync(() => config.predicate(input) ? input : Drop)
   };
 } 
\ No newline at end of file
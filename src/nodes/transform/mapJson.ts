@@ -1,18 +1,18 @@
 import { Effect } from "effect";
 import { NodeKind, type Node } from "../../core/node";
 
-export interface MapJsonConfig {
-  readonly transform: (input: unknown) => unknown;
+export interface MapJsonConfig<I = unknown, O = unknown> {
+  readonly transform: (input: I) => O;
 }
 
 /**
  * A Transform Node that applies a function to its input and returns the result.
  * This is the most basic transformation - it can be used to map, filter, or enrich data.
  */
-export function mapJson(
+export function mapJson<I = unknown, O = unknown>(
   name: string,
-  config: MapJsonConfig
-): Node<unknown, unknown> {
+  config: MapJsonConfig<I, O>
+): Node<I, O, Error> {
   return {
     kind: NodeKind.Transform,
     name,
@@ -11,6 +11,7 @@ export interface ParseSchemaConfig<T, U> {
 /**
  * A Transform Node that parses input with one schema, optionally transforms it,
  * and validates the output with another schema. Useful for data conversion pipelines.
+ * The output schema doubles as the Node's `outputSchema`.
  */
 export function parseSchema<T, U>(
   name: string,
@@ -19,6 +20,7 @@ export function parseSchema<T, U>(
   return {
     kind: NodeKind.Transform,
     name,
+    outputSchema: config.outputSchema,
     run: (input) => Effect.tryPromise({
       try: async () => {
         // Preprocess input if preprocessor is provided
@@ -55,6 +57,7 @@ export function parseWithSchema<T>(
   return {
     kind: NodeKind.Transform,
     name,
+    outputSchema: schema,
     run: (input) => Effect.sync(() => {
       try {
         const preprocessed = options?.preprocessor ? options.preprocessor(input) : input;
@@ -9,6 +9,7 @@ export interface ValidateSchemaConfig<T> {
 /**
  * A Transform Node that validates input data against a Zod schema.
  * Throws an error if validation fails, otherwise passes through the validated data.
+ * The schema doubles as the Node's `outputSchema`.
  */
 export function validateSchema<T>(
   name: string,
@@ -17,6 +18,7 @@ export function validateSchema<T>(
   return {
     kind: NodeKind.Transform,
     name,
+    outputSchema: config.schema,
     run: (input) => Effect.sync(() => {
       try {
         return config.schema.parse(input);
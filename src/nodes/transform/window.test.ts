@@ -0,0 +1,138 @@
+import { describe, it, expect } from "bun:test";
+import { Chunk, Clock, Effect, Fiber, Queue, Stream, TestClock, TestContext } from "effect";
+import { NodeKind, type Node } from "../../core/node";
+import type { RuntimeEvent } from "../../core/event";
+import { Drop } from "../../core/drop";
+import { PipelineExecutor } from "../../runtime/engine/executor";
+import { Reducers, sessionWindow, slidingWindow, tumblingWindow, type WindowAggregate } from "./window";
+
+interface Click {
+  readonly user: string;
+  readonly at: number;
+  readonly amount: number;
+}
+
+const click = (user: string, at: number, amount = 1): Click => ({ user, at, amount });
+
+// Feed inputs at their event times and collect everything the accumulator emits
+const feed = <A>(node: Node<Click, WindowAggregate<A>>, clicks: Click[]) => {
+  const accumulator = node.accumulate!();
+  const outputs = clicks.flatMap((c) => accumulator.add(c, c.at));
+  return [...outputs, ...accumulator.flush()].map((output) =>
+    output === Drop ? output : { key: output.key, start: output.start.getTime(), end: output.end.getTime(), value: output.value }
+  );
+};
+
+describe("window nodes", () => {
+  it("should count per tumbling window and key in processing time", () => {
+    const node = tumblingWindow<Click, number>("clicks-per-minute", {
+      size: "1 minute",
+      key: (c) => c.user,
+      reducer: Reducers.count()
+    });
+
+    expect(feed(node, [click("a", 1000), click("b", 2000), click("a", 59999), click("a", 60000)])).toEqual([
+      { key: "a", start: 0, end: 60000, value: 2 },
+      { key: "b", start: 0, end: 60000, value: 1 },
+      { key: "a", start: 60000, end: 120000, value: 1 }
+    ]);
+  });
+
+  it("should count items in every sliding window covering them", () => {
+    const node = slidingWindow<Click, number>("sum-last-two-minutes", {
+      size: "2 minutes",
+      slide: "1 minute",
+      reducer: Reducers.sum((c) => c.amount)
+    });
+
+    expect(feed(node, [click("a", 30000, 1), click("a", 90000, 2)])).toEqual([
+      { key: "", start: -60000, end: 60000, value: 1 },
+      { key: "", start: 0, end: 120000, value: 3 },
+      { key: "", start: 60000, end: 180000, value: 2 }
+    ]);
+  });
+
+  it("should reject a slide longer than the window", () => {
+    expect(() => slidingWindow("bad", { size: "1 minute", slide: "2 minutes", reducer: Reducers.count() }))
+      .toThrow('Sliding window "bad" cannot slide further than its size');
+  });
+
+  it("should merge sessions bridged by an out-of-order event", () => {
+    const node = sessionWindow<Click, number>("spend-per-session", {
+      gap: "10 seconds",
+      key: (c) => c.user,
+      eventTime: (c) => c.at,
+      allowedLateness: "30 seconds",
+      reducer: Reducers.max((c) => c.amount)
+    });
+
+    expect(feed(node, [click("a", 0, 5), click("a", 16000, 3), click("a", 8000, 7), click("a", 60000, 1)])).toEqual([
+      { key: "a", start: 0, end: 26000, value: 7 },
+      { key: "a", start: 60000, end: 70000, value: 1 }
+    ]);
+  });
+
+  it("should drop events behind the watermark in event time", () => {
+    const node = tumblingWindow<Click, number>("clicks-per-minute", {
+      size: "1 minute",
+      eventTime: (c) => new Date(c.at),
+      reducer: Reducers.min((c) => c.amount)
+    });
+
+    expect(feed(node, [click("a", 1000, 4), click("a", 61000, 2), click("a", 2000, 1)])).toEqual([
+      { key: "", start: 0, end: 60000, value: 4 },
+      Drop,
+      { key: "", start: 60000, end: 120000, value: 2 }
+    ]);
+  });
+
+  it("should aggregate a single input in a one-shot run", async () => {
+    const node = tumblingWindow<Click, number>("clicks-per-minute", { size: "1 minute", reducer: Reducers.count() });
+
+    const output = await Effect.runPromise(node.run(click("a", 0)).pipe(Effect.provide(TestContext.TestContext)));
+
+    expect(output).toEqual({ key: "", start: new Date(0), end: new Date(60000), value: 1, count: 1 });
+  });
+
+  it("should close processing-time windows on the clock while streaming", async () => {
+    // Clicks arrive 20 seconds apart; the source then idles for five minutes
+    const source: Node<undefined, Click> = {
+      kind: NodeKind.Ingress,
+      name: "clicks",
+      run: () => Effect.succeed(click("a", 0)),
+      stream: () => Stream.concat(
+        Stream.fromIterable([0, 20, 40, 60]).pipe(
+          Stream.mapEffect((seconds) => Effect.as(Effect.sleep(seconds === 0 ? 0 : "20 seconds"), click("a", seconds * 1000)))
+        ),
+        Stream.execute(Effect.sleep("5 minutes"))
+      )
+    };
+    const received: [number, WindowAggregate<number>][] = [];
+    const sink: Node<WindowAggregate<number>, void> = {
+      kind: NodeKind.Egress,
+      name: "collect",
+      run: (aggregate) => Effect.map(Clock.currentTimeMillis, (now) => { received.push([now, aggregate]); })
+    };
+    const eventQueue = await Effect.runPromise(Queue.unbounded<RuntimeEvent>());
+    const executor = new PipelineExecutor(
+      {
+        name: "clicks-per-minute",
+        nodes: [source, tumblingWindow<Click, number>("per-minute", { size: "1 minute", reducer: Reducers.count() }), sink]
+      },
+      eventQueue
+    );
+
+    await Effect.runPromise(
+      Effect.gen(function* (_) {
+        const fiber = yield* _(Effect.fork(executor.runStream()));
+        yield* _(TestClock.adjust("10 minutes"));
+        yield* _(Fiber.join(fiber));
+      }).pipe(Effect.provide(TestContext.TestContext))
+    );
+
+    expect(received.map(([at, aggregate]) => [at, aggregate.value])).toEqual([[60000, 3], [120000, 1]]);
+    const events = Chunk.toArray(await Effect.runPromise(Queue.takeAll(eventQueue)))
+      .filter((event) => "nodeName" in event && event.nodeName === "per-minute" && event._tag !== "QueueDepth");
+    expect(events.map((event) => event._tag)).toEqual(["NodeStarted", "NodeCompleted"]);
+  });
+});
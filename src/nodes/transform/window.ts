@@ -0,0 +1,317 @@
+import { Clock, Duration, Effect } from "effect";
+import { NodeKind, type Node } from "../../core/node";
+import type { Accumulator } from "../../core/accumulator";
+import { Drop, isDrop } from "../../core/drop";
+
+/**
+ * Folds the items of a window into one value. `combine` merges two partial
+ * results – needed when an item bridges two sessions.
+ */
+export interface Reducer<T, A> {
+  readonly initial: () => A;
+  readonly add: (accumulated: A, input: T) => A;
+  readonly combine: (left: A, right: A) => A;
+}
+
+/**
+ * Built-in reducers. Write a {@link Reducer} for anything else.
+ */
+export const Reducers = {
+  count: <T>(): Reducer<T, number> => ({
+    initial: () => 0,
+    add: (count) => count + 1,
+    combine: (left, right) => left + right
+  }),
+  sum: <T>(value: (input: T) => number): Reducer<T, number> => ({
+    initial: () => 0,
+    add: (sum, input) => sum + value(input),
+    combine: (left, right) => left + right
+  }),
+  min: <T>(value: (input: T) => number): Reducer<T, number> => ({
+    initial: () => Infinity,
+    add: (min, input) => Math.min(min, value(input)),
+    combine: Math.min
+  }),
+  max: <T>(value: (input: T) => number): Reducer<T, number> => ({
+    initial: () => -Infinity,
+    add: (max, input) => Math.max(max, value(input)),
+    combine: Math.max
+  })
+};
+
+/**
+ * What a window Node emits once a window closes.
+ */
+export interface WindowAggregate<A> {
+  /**
+   * The key the window's items share – `""` without a `key` extractor.
+   */
+  readonly key: string;
+  readonly start: Date;
+  /**
+   * Exclusive end of the window. For sessions, the last item's time plus the gap.
+   */
+  readonly end: Date;
+  readonly value: A;
+  /**
+   * Number of items that went into `value`.
+   */
+  readonly count: number;
+}
+
+export interface WindowOptions<T, A> {
+  readonly reducer: Reducer<T, A>;
+  /**
+   * Splits items into independent windows per key. Defaults to one key for all items.
+   */
+  readonly key?: (input: T) => string;
+  /**
+   * Place items by a time they carry instead of when they arrive. Windows then
+   * close as later items move the watermark past their end, and stragglers
+   * for closed windows are dropped.
+   */
+  readonly eventTime?: (input: T) => Date | number;
+  /**
+   * With `eventTime`, how far behind the latest item's time the watermark
+   * trails – how late an item may be and still count. Defaults to 0.
+   */
+  readonly allowedLateness?: Duration.DurationInput;
+}
+
+export interface TumblingWindowConfig<T, A> extends WindowOptions<T, A> {
+  readonly size: Duration.DurationInput;
+}
+
+export interface SlidingWindowConfig<T, A> extends WindowOptions<T, A> {
+  readonly size: Duration.DurationInput;
+  /**
+   * How far apart windows start. Items fall into every window covering them.
+   */
+  readonly slide: Duration.DurationInput;
+}
+
+export interface SessionWindowConfig<T, A> extends WindowOptions<T, A> {
+  /**
+   * A session closes once no item for its key arrived for this long.
+   */
+  readonly gap: Duration.DurationInput;
+}
+
+/**
+ * Back-to-back windows of `size`, aligned to the epoch – "count per minute".
+ */
+export function tumblingWindow<T, A>(
+  name: string,
+  config: TumblingWindowConfig<T, A>
+): Node<T, WindowAggregate<A>> {
+  const size = millis(config.size);
+  return windowNode(name, config, () => fixedWindows(config.reducer, size, size));
+}
+
+/**
+ * Overlapping windows of `size` starting every `slide` – "count over the last
+ * five minutes, every minute". An item counts in every window covering it.
+ */
+export function slidingWindow<T, A>(
+  name: string,
+  config: SlidingWindowConfig<T, A>
+): Node<T, WindowAggregate<A>> {
+  const size = millis(config.size);
+  const slide = millis(config.slide);
+  if (slide > size) {
+    throw new Error(`Sliding window "${name}" cannot slide further than its size`);
+  }
+  return windowNode(name, config, () => fixedWindows(config.reducer, size, slide));
+}
+
+/**
+ * Windows per key that stay open while items keep arriving within `gap` of
+ * each other – "sum per session".
+ */
+export function sessionWindow<T, A>(
+  name: string,
+  config: SessionWindowConfig<T, A>
+): Node<T, WindowAggregate<A>> {
+  const gap = millis(config.gap);
+  return windowNode(name, config, () => sessions(config.reducer, gap));
+}
+
+interface OpenWindow<A> {
+  readonly key: string;
+  readonly start: number;
+  readonly end: number;
+  readonly value: A;
+  readonly count: number;
+}
+
+/**
+ * The open windows of one run, whatever their shape.
+ */
+interface Windows<T, A> {
+  /**
+   * End of the last window an item at `time` could fall into.
+   */
+  readonly latestEnd: (time: number) => number;
+  /**
+   * Add an item to its open windows, ignoring those ending by `closedUntil`.
+   */
+  readonly add: (key: string, time: number, input: T, closedUntil: number) => void;
+  /**
+   * Remove and return the windows ending by `until`.
+   */
+  readonly close: (until: number) => OpenWindow<A>[];
+  readonly nextEnd: () => number | undefined;
+}
+
+const millis = (duration: Duration.DurationInput) => Duration.toMillis(Duration.decode(duration));
+
+/**
+ * Windows of `size` starting at every multiple of `slide` – tumbling when the
+ * two are equal.
+ */
+function fixedWindows<T, A>(reducer: Reducer<T, A>, size: number, slide: number): Windows<T, A> {
+  const open = new Map<string, OpenWindow<A>>();
+
+  return {
+    latestEnd: (time) => Math.floor(time / slide) * slide + size,
+    add: (key, time, input, closedUntil) => {
+      // Later starts end later, so stop at the first closed window
+      for (let start = Math.floor(time / slide) * slide; start > time - size; start -= slide) {
+        if (start + size <= closedUntil) {
+          break;
+        }
+        const id = `${key}\u0000${start}`;
+        const window = open.get(id) ?? { key, start, end: start + size, value: reducer.initial(), count: 0 };
+        open.set(id, { ...window, value: reducer.add(window.value, input), count: window.count + 1 });
+      }
+    },
+    close: (until) => {
+      const closed = [...open.entries()].filter(([, window]) => window.end <= until);
+      closed.forEach(([id]) => open.delete(id));
+      return closed.map(([, window]) => window);
+    },
+    nextEnd: () => minEnd(open.values())
+  };
+}
+
+/**
+ * Sessions per key. An item opens a session of its own, merged with every
+ * session it falls within `gap` of.
+ */
+function sessions<T, A>(reducer: Reducer<T, A>, gap: number): Windows<T, A> {
+  const open = new Map<string, OpenWindow<A>[]>();
+
+  return {
+    latestEnd: (time) => time + gap,
+    add: (key, time, input) => {
+      const item: OpenWindow<A> = { key, start: time, end: time + gap, value: reducer.add(reducer.initial(), input), count: 1 };
+      const existing = open.get(key) ?? [];
+      const touching = existing.filter((session) => session.start < item.end && item.start < session.end);
+      const merged = [...touching, item]
+        .sort((left, right) => left.start - right.start)
+        .reduce((left, right) => ({
+          key,
+          start: Math.min(left.start, right.start),
+          end: Math.max(left.end, right.end),
+          value: reducer.combine(left.value, right.value),
+          count: left.count + right.count
+        }));
+      open.set(key, [...existing.filter((session) => !touching.includes(session)), merged]);
+    },
+    close: (until) => {
+      const closed: OpenWindow<A>[] = [];
+      for (const [key, list] of open) {
+        const remaining = list.filter((session) => session.end > until);
+        closed.push(...list.filter((session) => session.end <= until));
+        if (remaining.length > 0) {
+          open.set(key, remaining);
+        } else {
+          open.delete(key);
+        }
+      }
+      return closed;
+    },
+    nextEnd: () => minEnd([...open.values()].flat())
+  };
+}
+
+function minEnd(windows: Iterable<OpenWindow<unknown>>): number | undefined {
+  let min: number | undefined;
+  for (const window of windows) {
+    min = min === undefined ? window.end : Math.min(min, window.end);
+  }
+  return min;
+}
+
+/**
+ * A Transform Node aggregating its inputs into `windows`. In streaming runs it
+ * emits one aggregate per window as it closes – by the clock in processing
+ * time, by the watermark in event time – and flushes open windows when the
+ * input ends. A one-shot run aggregates its single input into the first
+ * window covering it.
+ */
+function windowNode<T, A>(
+  name: string,
+  options: WindowOptions<T, A>,
+  windows: () => Windows<T, A>
+): Node<T, WindowAggregate<A>> {
+  const lateness = options.allowedLateness === undefined ? 0 : millis(options.allowedLateness);
+
+  const accumulate = (): Accumulator<T, WindowAggregate<A>> => {
+    const open = windows();
+    let watermark = -Infinity;
+
+    const emit = (until: number): WindowAggregate<A>[] =>
+      open.close(until)
+        .sort((left, right) => left.end - right.end || left.start - right.start || left.key.localeCompare(right.key))
+        .map((window) => ({
+          key: window.key,
+          start: new Date(window.start),
+          end: new Date(window.end),
+          value: window.value,
+          count: window.count
+        }));
+
+    if (!options.eventTime) {
+      return {
+        // Close what is due first, so the input lands in the current windows
+        add: (input, now) => {
+          const closed = emit(now);
+          open.add(options.key?.(input) ?? "", now, input, now);
+          return closed;
+        },
+        nextDue: open.nextEnd,
+        due: emit,
+        flush: () => emit(Infinity)
+      };
+    }
+
+    const eventTime = options.eventTime;
+    return {
+      add: (input, _now) => {
+        const time = new Date(eventTime(input)).getTime();
+        watermark = Math.max(watermark, time - lateness);
+        if (open.latestEnd(time) <= watermark) {
+          return [Drop];
+        }
+        open.add(options.key?.(input) ?? "", time, input, watermark);
+        return emit(watermark);
+      },
+      nextDue: () => undefined,
+      due: () => [],
+      flush: () => emit(Infinity)
+    };
+  };
+
+  return {
+    kind: NodeKind.Transform,
+    name,
+    run: (input) =>
+      Effect.map(Clock.currentTimeMillis, (now) => {
+        const accumulator = accumulate();
+        const [first] = [...accumulator.add(input, now), ...accumulator.flush()].filter((output) => !isDrop(output));
+        return first as WindowAggregate<A>;
+      }),
+    accumulate
+  };
+}
@@ -1,6 +1,8 @@
 // Ingress nodes
 export { httpIngress, type HttpIngressConfig, type HttpRequest } from "./ingress/http";
 export { httpServer, type HttpServerConfig } from "./ingress/httpServer";
+export { streamIngress } from "./ingress/stream";
+export { mergeIngress } from "./ingress/merge";
 
 // Transform nodes  
 export { filter } from "./transform/filter";
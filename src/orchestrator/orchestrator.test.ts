@@ -1,5 +1,5 @@
 import { describe, it, expect } from "bun:test";
-import { Queue, Effect } from "effect";
+import { Queue, Effect, Fiber, Chunk, Stream } from "effect";
 import type { Node } from "../core/node";
 import { NodeKind } from "../core/node";
 import type { Pipe } from "../core/pipe";
@@ -42,4 +42,60 @@ describe("Orchestrator", () => {
 
     await expect(Effect.runPromise(orchestrator.run())).resolves.toBeUndefined();
   });
-}); 
\ No newline at end of file
+
+  it("should stop running deployments and report them stopped", async () => {
+    let closed = false;
+    const waiting: Node<undefined, string> = {
+      kind: NodeKind.Ingress,
+      name: "waiting-node",
+      run: () => Effect.never,
+      close: () => Effect.sync(() => { closed = true; })
+    };
+    const cluster: Cluster = {
+      name: "test-cluster",
+      deployments: [{ name: "W", pipe: { name: "W-pipe", nodes: [waiting] } }]
+    };
+
+    const eventQueue = await Effect.runPromise(Queue.unbounded<RuntimeEvent>());
+    const orchestrator = new Orchestrator(cluster, eventQueue);
+
+    await Effect.runPromise(
+      Effect.gen(function* (_) {
+        const fiber = yield* _(Effect.fork(orchestrator.run()));
+        yield* _(Effect.yieldNow());
+        yield* _(orchestrator.stop());
+        yield* _(Fiber.join(fiber));
+      })
+    );
+
+    const tags = Chunk.toArray(await Effect.runPromise(Queue.takeAll(eventQueue)))
+      .map((event) => event._tag)
+      .filter((tag) => tag.startsWith("Deployment") || tag.startsWith("Cluster"));
+    expect(tags).toEqual(["ClusterStarted", "DeploymentStarted", "DeploymentStopping", "DeploymentStopped", "ClusterCompleted"]);
+    expect(closed).toBe(true);
+  });
+
+  it("should stream deployments marked stream", async () => {
+    const received: number[] = [];
+    const source: Node<undefined, number> = {
+      kind: NodeKind.Ingress,
+      name: "numbers",
+      run: () => Effect.succeed(0),
+      stream: () => Stream.make(1, 2, 3)
+    };
+    const sink: Node<number, void> = {
+      kind: NodeKind.Egress,
+      name: "collect",
+      run: (input) => Effect.sync(() => { received.push(input); })
+    };
+    const cluster: Cluster = {
+      name: "test-cluster",
+      deployments: [{ name: "S", pipe: { name: "S-pipe", nodes: [source, sink] }, stream: true }]
+    };
+
+    const eventQueue = await Effect.runPromise(Queue.unbounded<RuntimeEvent>());
+    await Effect.runPromise(new Orchestrator(cluster, eventQueue).run());
+
+    expect(received).toEqual([1, 2, 3]);
+  });
+});
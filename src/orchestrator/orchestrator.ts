@@ -1,7 +1,8 @@
-import { Effect, Queue, Fiber } from "effect";
+import { Effect, Queue, Fiber, Deferred, FiberId } from "effect";
 import type { Cluster } from "../core/cluster";
 import type { RuntimeEvent } from "../core/event";
-import { PipelineExecutor } from "../runtime/engine";
+import type { Pipe } from "../core/pipe";
+import { PipelineExecutor, type StopOptions } from "../runtime/engine";
 
 /**
  * The Orchestrator wires together all deployments inside a {@link Cluster}
@@ -12,10 +13,23 @@ import { PipelineExecutor } from "../runtime/engine";
  * cluster execution lifecycle.
  */
 export class Orchestrator {
+  private readonly executors: ReadonlyMap<string, PipelineExecutor>;
+  private readonly running = new Set<string>();
+  private readonly finished = Deferred.unsafeMake<void>(FiberId.none);
+  private started = false;
+  private stopping = false;
+
   constructor(
     private readonly cluster: Cluster,
     private readonly eventQueue: Queue.Queue<RuntimeEvent>
-  ) {}
+  ) {
+    this.executors = new Map(
+      cluster.deployments.map((deployment) => [
+        deployment.name,
+        new PipelineExecutor(deployment.pipe as Pipe, eventQueue)
+      ])
+    );
+  }
 
   /**
    * Execute every deployment pipeline in its own fiber and wait for all of
@@ -26,6 +40,7 @@ export class Orchestrator {
     const self = this;
     return Effect.gen(function* (_) {
       const fibers: Fiber.RuntimeFiber<unknown, unknown>[] = [];
+      self.started = true;
 
       // Emit cluster start
       yield* _(Queue.offer(self.eventQueue, {
@@ -41,15 +56,15 @@ export class Orchestrator {
           deploymentName: deployment.name
         }));
 
-        const executor = new PipelineExecutor(deployment.pipe, self.eventQueue);
+        const executor = self.executors.get(deployment.name)!;
+        self.running.add(deployment.name);
         const fiber = yield* _(
           Effect.fork(
             Effect.catchAll(
-              Effect.flatMap(executor.run(), () =>
-                Queue.offer(self.eventQueue, {
-                  _tag: "DeploymentCompleted",
-                  deploymentName: deployment.name
-                })
+              Effect.flatMap(deployment.stream ? executor.runStream() : executor.run(), () =>
+                Queue.offer(self.eventQueue, self.stopping
+                  ? { _tag: "DeploymentStopped", deploymentName: deployment.name }
+                  : { _tag: "DeploymentCompleted", deploymentName: deployment.name })
               ),
               (error) =>
                 Queue.offer(self.eventQueue, {
@@ -57,7 +72,7 @@ export class Orchestrator {
                   deploymentName: deployment.name,
                   error
                 })
-            )
+            ).pipe(Effect.ensuring(Effect.sync(() => self.running.delete(deployment.name))))
           )
         );
         fibers.push(fiber);
@@ -73,6 +88,39 @@ export class Orchestrator {
         _tag: "ClusterCompleted",
         clusterName: self.cluster.name
       }));
+    }).pipe(Effect.ensuring(Deferred.succeed(this.finished, undefined)));
+  }
+
+  /**
+   * Shut the cluster down gracefully: every deployment still running emits
+   * `DeploymentStopping` and its executor is stopped, so ingress stops taking
+   * items and items in flight finish within the `deadline`. A deployment that
+   * drains emits `DeploymentStopped`; one that misses the deadline emits
+   * `DeploymentErrored` with a `DrainTimeoutError`.
+   *
+   * Resolves once `run()` has finished. Calling it again has no effect.
+   */
+  stop(options: StopOptions = {}): Effect.Effect<void> {
+    const self = this;
+    return Effect.gen(function* (_) {
+      if (self.stopping) {
+        return;
+      }
+      self.stopping = true;
+
+      for (const deployment of self.cluster.deployments) {
+        if (self.running.has(deployment.name)) {
+          yield* _(Queue.offer(self.eventQueue, {
+            _tag: "DeploymentStopping",
+            deploymentName: deployment.name
+          }));
+        }
+        yield* _(self.executors.get(deployment.name)!.stop(options));
+      }
+
+      if (self.started) {
+        yield* _(Deferred.await(self.finished));
+      }
     });
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,69 @@
+import { describe, it, expect } from "bun:test";
+import { Effect } from "effect";
+import { branch } from "./branch";
+import { NodeKind, type Node } from "../core/node";
+
+describe("BranchBuilder", () => {
+  const transform: Node<unknown, unknown> = {
+    kind: NodeKind.Transform,
+    name: "transform",
+    run: (input) => Effect.succeed(input)
+  };
+
+  const egress: Node<unknown, void> = {
+    kind: NodeKind.Egress,
+    name: "egress",
+    run: () => Effect.void
+  };
+
+  const ingress: Node<undefined, unknown> = {
+    kind: NodeKind.Ingress,
+    name: "ingress",
+    run: () => Effect.succeed(1)
+  };
+
+  it("should build a branch ending in an egress node", () => {
+    const built = branch("store").through(transform).to(egress).build();
+
+    expect(built).toEqual({ name: "store", nodes: [transform, egress] });
+  });
+
+  it("should reject an ingress node", () => {
+    expect(() => branch<undefined>("store").through(ingress)).toThrow("Expected transform or duplex node, got ingress");
+    expect(() => branch<undefined>("store").to(ingress)).toThrow("Expected egress node, got ingress");
+  });
+
+  it("should reject an empty branch", () => {
+    expect(() => branch("store").build()).toThrow("Branch \"store\" must have at least one node");
+  });
+
+  it("should reject a branch without egress", () => {
+    expect(() => branch("store").through(transform).build()).toThrow("Branch \"store\" must end with an egress node");
+  });
+
+  it("should support nested fan-outs", () => {
+    const built = branch("outer")
+      .through(transform)
+      .fanOut(branch("a").to(egress), branch("b").to(egress))
+      .build();
+
+    expect(built.nodes).toEqual([transform]);
+    expect(built.fork?.branches.map((b) => b.name)).toEqual(["a", "b"]);
+  });
+
+  it("should reject nodes after a nested fan-out", () => {
+    expect(() =>
+      branch("outer").through(transform).fanOut(branch("a").to(egress)).to(egress)
+    ).toThrow("Branch \"outer\" already forked; add nodes to its branches instead");
+  });
+
+  it("should support routing", () => {
+    const built = branch("outer")
+      .through(transform)
+      .route({ key: (input) => String(input), cases: { a: branch("a").to(egress) } })
+      .build();
+
+    expect(built.fork?._tag).toBe("Route");
+    expect(built.fork?.branches.map((b) => b.name)).toEqual(["a"]);
+  });
+});
\ No newline at end of file
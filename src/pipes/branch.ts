@@ -0,0 +1,112 @@
+import type { Node } from "../core/node";
+import type { Drop } from "../core/drop";
+import type { BuiltBranch, PipeFork } from "../core/pipe";
+import {
+  fanOut,
+  route,
+  type BranchContext,
+  type BranchError,
+  type BranchLike,
+  type RouteBranches,
+  type RouteSpec
+} from "./fork";
+
+/**
+ * A fluent builder for one branch of a fork. A branch has no Ingress of its
+ * own: it starts with the forked output and runs Transform → Egress, or forks
+ * again.
+ *
+ * Like `PipelineBuilder`, it tracks the current output type `O` and the
+ * accumulated error and context types `E` and `R`. `O` starts as the input
+ * `I` given to `branch<I>()`, which the built branch records so forks can
+ * check it against what they hand out.
+ */
+export class BranchBuilder<O, E = never, R = never, I = O> {
+  private nodes: Node<any, any, any, any>[] = [];
+  private fork?: PipeFork<any, any>;
+
+  constructor(private readonly name: string) {}
+
+  /**
+   * Add a Transform or Duplex Node to the branch. A Node that may return
+   * `Drop` feeds the next one everything else.
+   */
+  through<O2, E2, R2>(node: Node<O, O2, E2, R2>): BranchBuilder<Exclude<O2, Drop>, E | E2, R | R2, I> {
+    if (node.kind !== "transform" && node.kind !== "duplex") {
+      throw new Error(`Expected transform or duplex node, got ${node.kind}`);
+    }
+    this.assertOpen();
+    this.nodes.push(node);
+    return this as unknown as BranchBuilder<Exclude<O2, Drop>, E | E2, R | R2, I>;
+  }
+
+  /**
+   * Add an Egress Node to end the branch.
+   */
+  to<O2, E2, R2>(node: Node<O, O2, E2, R2>): BranchBuilder<Exclude<O2, Drop>, E | E2, R | R2, I> {
+    if (node.kind !== "egress") {
+      throw new Error(`Expected egress node, got ${node.kind}`);
+    }
+    this.assertOpen();
+    this.nodes.push(node);
+    return this as unknown as BranchBuilder<Exclude<O2, Drop>, E | E2, R | R2, I>;
+  }
+
+  /**
+   * Split this branch further into branches that each take its output; no
+   * Nodes can follow.
+   */
+  fanOut<B extends BranchLike<any, any, O>[]>(
+    ...branches: B
+  ): BranchBuilder<never, E | BranchError<B[number]>, R | BranchContext<B[number]>, I> {
+    this.assertOpen();
+    this.fork = fanOut(branches);
+    return this as unknown as BranchBuilder<never, E | BranchError<B[number]>, R | BranchContext<B[number]>, I>;
+  }
+
+  /**
+   * Send each item down one of several branches; no Nodes can follow.
+   */
+  route<S extends RouteSpec<O>>(
+    spec: S
+  ): BranchBuilder<never, E | BranchError<RouteBranches<S>>, R | BranchContext<RouteBranches<S>>, I> {
+    this.assertOpen();
+    this.fork = route<O, S>(spec);
+    return this as unknown as BranchBuilder<never, E | BranchError<RouteBranches<S>>, R | BranchContext<RouteBranches<S>>, I>;
+  }
+
+  /**
+   * Build the final Branch.
+   */
+  build(): BuiltBranch<I, E, R> {
+    if (this.nodes.length === 0) {
+      throw new Error(`Branch "${this.name}" must have at least one node`);
+    }
+
+    const lastNode = this.nodes[this.nodes.length - 1];
+    if (!this.fork && lastNode && lastNode.kind !== "egress") {
+      throw new Error(`Branch "${this.name}" must end with an egress node`);
+    }
+
+    return {
+      name: this.name,
+      nodes: this.nodes,
+      ...(this.fork ? { fork: this.fork } : {})
+    };
+  }
+
+  private assertOpen(): void {
+    if (this.fork) {
+      throw new Error(`Branch "${this.name}" already forked; add nodes to its branches instead`);
+    }
+  }
+}
+
+/**
+ * Start building a new branch with the given name, taking `I`. The first
+ * Node must accept `I`, and a fork only takes the branch if its output is an
+ * `I`; without `I` the branch takes `unknown`.
+ */
+export function branch<I>(name: string): BranchBuilder<I> {
+  return new BranchBuilder<I>(name);
+}
\ No newline at end of file
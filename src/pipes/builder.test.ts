@@ -1,6 +1,17 @@
 import { describe, it, expect } from "bun:test";
 import { pipeline } from "./builder";
+import { branch } from "./branch";
+import { Chunk, Context, Effect, Schema, Stream } from "effect";
+import { z } from "zod";
+import { streamIngress } from "../nodes/ingress/stream";
+import { filter } from "../nodes/transform/filter";
+import type { MergedItem } from "../nodes/ingress/merge";
 import { NodeKind, type Node } from "../core/node";
+import type { Pipe } from "../core/pipe";
+import type { DeadLetterSink } from "../core/deadLetter";
+import type { CheckpointStore } from "../core/checkpoint";
+import { memoryDeadLetterSink } from "../runtime/deadLetter/memory";
+import { memoryCheckpointStore } from "../runtime/checkpoint/memory";
 
 describe("PipelineBuilder", () => {
   const mockIngress: Node<any, any> = {
@@ -78,4 +89,325 @@ describe("PipelineBuilder", () => {
         .build();
     }).toThrow("Expected egress node, got transform");
   });
-}); 
\ No newline at end of file
+
+  describe("fanOut", () => {
+    it("should build a pipe that forks into branches", () => {
+      const pipe = pipeline("fan-out")
+        .from(mockIngress)
+        .through(mockTransform)
+        .fanOut(
+          branch("store").to(mockEgress),
+          branch("respond").through(mockTransform).to(mockEgress)
+        )
+        .build();
+
+      expect(pipe.nodes).toEqual([mockIngress, mockTransform]);
+      expect(pipe.fork?._tag).toBe("FanOut");
+      expect(pipe.fork?.branches.map((b) => b.name)).toEqual(["store", "respond"]);
+      expect(pipe.fork?.branches[1]?.nodes).toEqual([mockTransform, mockEgress]);
+    });
+
+    it("should allow fanning out straight from the ingress", () => {
+      const pipe = pipeline("fan-out")
+        .from(mockIngress)
+        .fanOut(branch("a").to(mockEgress), { name: "b", nodes: [mockEgress] })
+        .build();
+
+      expect(pipe.nodes).toEqual([mockIngress]);
+      expect(pipe.fork?.branches).toHaveLength(2);
+    });
+
+    it("should leave linear pipes without a fork", () => {
+      const pipe = pipeline("linear").from(mockIngress).to(mockEgress).build();
+
+      expect(pipe.fork).toBeUndefined();
+    });
+
+    it("should reject nodes after a fan-out", () => {
+      expect(() => {
+        pipeline("fan-out")
+          .from(mockIngress)
+          .fanOut(branch("a").to(mockEgress))
+          .to(mockEgress);
+      }).toThrow("Pipeline already forked; add nodes to its branches instead");
+    });
+
+    it("should reject a fan-out without branches", () => {
+      expect(() => {
+        pipeline("fan-out").from(mockIngress).fanOut();
+      }).toThrow("fanOut needs at least one branch");
+    });
+  });
+
+  describe("route", () => {
+    it("should build a pipe that routes into branches", () => {
+      const pipe = pipeline("routed")
+        .from(mockIngress)
+        .route({
+          key: (input: string) => input,
+          cases: { hello: branch("greetings").to(mockEgress) },
+          default: branch("rest").to(mockEgress)
+        })
+        .build();
+
+      expect(pipe.nodes).toEqual([mockIngress]);
+      expect(pipe.fork?._tag).toBe("Route");
+      expect(pipe.fork?.branches.map((b) => b.name)).toEqual(["greetings", "rest"]);
+    });
+
+    it("should reject nodes after a route", () => {
+      expect(() => {
+        pipeline("routed")
+          .from(mockIngress)
+          .route({ cases: [{ when: () => true, to: branch("a").to(mockEgress) }] })
+          .through(mockTransform);
+      }).toThrow("Pipeline already forked; add nodes to its branches instead");
+    });
+  });
+
+  describe("pipe settings", () => {
+    it("should set the pipe timeout", () => {
+      const pipe = pipeline("timed").from(mockIngress).to(mockEgress).timeout("1 minute").build();
+
+      expect(pipe.timeout).toBe("1 minute");
+    });
+
+    it("should set the pipe dead-letter sink, also after a fork", () => {
+      const sink = memoryDeadLetterSink();
+      const pipe = pipeline("parking")
+        .from(mockIngress)
+        .fanOut(branch("only").to(mockEgress))
+        .deadLetter(sink)
+        .build();
+
+      expect(pipe.deadLetter).toBe(sink);
+    });
+
+    it("should set the pipe checkpoint store", () => {
+      const store = memoryCheckpointStore();
+      const pipe = pipeline("resumable").from(mockIngress).to(mockEgress).checkpoint(store).build();
+
+      expect(pipe.checkpoint).toBe(store);
+    });
+
+    it("should leave settings unset by default", () => {
+      const pipe = pipeline("plain").from(mockIngress).to(mockEgress).build();
+
+      expect(pipe.timeout).toBeUndefined();
+      expect(pipe.deadLetter).toBeUndefined();
+      expect(pipe.checkpoint).toBeUndefined();
+    });
+  });
+
+  describe("multiple ingress nodes", () => {
+    const http = streamIngress("http", Stream.make("GET /"));
+    const notifications = streamIngress("notifications", Stream.make("row changed"));
+
+    it("should merge several ingress nodes into one", async () => {
+      const pipe = pipeline("fan-in")
+        .from([http, notifications], { strategy: "round-robin" })
+        .to(mockEgress)
+        .build();
+
+      expect(pipe.nodes).toHaveLength(2);
+      expect(pipe.nodes[0]?.name).toBe("fan-in-ingress");
+      expect(pipe.nodes[0]?.kind).toBe(NodeKind.Ingress);
+
+      const source = pipe.nodes[0]!.stream!() as Stream.Stream<unknown>;
+      const items = await Effect.runPromise(Stream.runCollect(source));
+      expect(Chunk.toArray(items)).toEqual([
+        { source: "http", value: "GET /" },
+        { source: "notifications", value: "row changed" }
+      ]);
+    });
+
+    it("should reject non-ingress nodes in the list", () => {
+      expect(() => {
+        pipeline("fan-in").from([http, mockTransform]);
+      }).toThrow("Expected ingress node, got transform");
+    });
+
+    it("should reject an empty list", () => {
+      expect(() => {
+        pipeline("fan-in").from([]);
+      }).toThrow("Merged ingress fan-in-ingress needs at least one source");
+    });
+  });
+
+  describe("type inference", () => {
+    interface User {
+      readonly id: string;
+    }
+
+    class Greeter extends Context.Tag("Greeter")<Greeter, { readonly greet: (user: User) => string }>() {}
+
+    const users: Node<undefined, User, Error> = {
+      kind: NodeKind.Ingress,
+      name: "users",
+      run: () => Effect.succeed({ id: "42" })
+    };
+
+    const greet: Node<User, string, never, Greeter> = {
+      kind: NodeKind.Transform,
+      name: "greet",
+      run: (user) => Effect.map(Greeter, (greeter) => greeter.greet(user))
+    };
+
+    const print: Node<string, void> = {
+      kind: NodeKind.Egress,
+      name: "print",
+      run: () => Effect.void
+    };
+
+    const numbers: Node<undefined, number> = {
+      kind: NodeKind.Ingress,
+      name: "numbers",
+      run: () => Effect.succeed(1)
+    };
+
+    it("should accumulate error and context types on the pipe", () => {
+      const pipe: Pipe<Error, Greeter> = pipeline("typed").from(users).through(greet).to(print).build();
+
+      expect(pipe.nodes).toHaveLength(3);
+    });
+
+    it("should add the dead-letter sink's types to the pipe", () => {
+      const parked: DeadLetterSink<Error, Greeter> = { name: "parked", send: () => Effect.void };
+      const ignore: Node<number, void> = { kind: NodeKind.Egress, name: "ignore", run: () => Effect.void };
+
+      const pipe: Pipe<Error, Greeter> = pipeline("parking").from(numbers).to(ignore).deadLetter(parked).build();
+      // @ts-expect-error the sink needs a Greeter
+      const unprovided: Pipe<Error, never> = pipeline("parking").from(numbers).to(ignore).deadLetter(parked).build();
+
+      expect(pipe.deadLetter).toBe(parked);
+      expect(unprovided).toBeDefined();
+    });
+
+    it("should add the checkpoint store's types to the pipe", () => {
+      const saved: CheckpointStore<Error, Greeter> = {
+        name: "saved",
+        save: () => Effect.void,
+        load: () => Effect.succeedNone,
+        clear: () => Effect.void
+      };
+      const ignore: Node<number, void> = { kind: NodeKind.Egress, name: "ignore", run: () => Effect.void };
+
+      const pipe: Pipe<Error, Greeter> = pipeline("resumable").from(numbers).to(ignore).checkpoint(saved).build();
+      // @ts-expect-error the store needs a Greeter
+      const unprovided: Pipe<Error, never> = pipeline("resumable").from(numbers).to(ignore).checkpoint(saved).build();
+
+      expect(pipe.checkpoint).toBe(saved);
+      expect(unprovided).toBeDefined();
+    });
+
+    it("should only accept nodes whose input matches the current output", () => {
+      const builder = pipeline("mismatch").from(numbers);
+
+      // @ts-expect-error greet expects a User, not a number
+      builder.through(greet);
+      // @ts-expect-error print expects a string, not a number
+      builder.to(print);
+
+      expect(builder).toBeDefined();
+    });
+
+    it("should hand the next node everything but Drop", () => {
+      const nonEmpty = filter("non-empty", { predicate: (text: string) => text.length > 0 });
+
+      const pipe: Pipe<Error, Greeter> = pipeline("greeted").from(users).through(greet).through(nonEmpty).to(print).build();
+      const fanned = pipeline("fanned")
+        .from(users)
+        .fanOut(branch<User>("greeted").through(greet).through(nonEmpty).to(print))
+        .build();
+
+      expect(pipe.nodes).toHaveLength(4);
+      expect(fanned.fork?.branches).toHaveLength(1);
+    });
+
+    it("should carry branch types through fan-outs and routes", () => {
+      const discard: Node<unknown, void> = { kind: NodeKind.Egress, name: "discard", run: () => Effect.void };
+      const fanned: Pipe<Error, Greeter> = pipeline("fanned")
+        .from(users)
+        .fanOut(branch<User>("greeting").through(greet).to(print), branch("ignored").to(discard))
+        .build();
+
+      const routed: Pipe<Error, Greeter> = pipeline("routed")
+        .from(users)
+        .route({
+          key: (user) => user.id,
+          cases: { "42": branch<User>("answer").through(greet).to(print) }
+        })
+        .build();
+
+      expect(fanned.fork?.branches).toHaveLength(2);
+      expect(routed.fork?.branches).toHaveLength(1);
+    });
+
+    it("should only fork into branches taking the current output", () => {
+      const builder = () => pipeline("mismatch").from(numbers);
+      const strings = branch<string>("strings").to(print);
+
+      // @ts-expect-error the branch takes a string, not a number
+      builder().fanOut(strings);
+      // @ts-expect-error the branch takes a string, not a number
+      builder().route({ key: String, cases: { one: strings } });
+      // @ts-expect-error the branch takes a string, not a number
+      builder().route({ cases: [{ when: (n) => n > 0, to: strings }] });
+      // @ts-expect-error nested branches must take the branch's output too
+      branch<User>("nested").through(greet).fanOut(branch<User>("again").through(greet).to(print));
+
+      expect(strings.build().name).toBe("strings");
+    });
+
+    it("should type merged ingress items", () => {
+      const sink: Node<MergedItem<User | number>, void> = {
+        kind: NodeKind.Egress,
+        name: "sink",
+        run: () => Effect.void
+      };
+      const strings: Node<MergedItem<string>, void> = { kind: NodeKind.Egress, name: "strings", run: () => Effect.void };
+
+      const pipe = pipeline("merged").from([users, numbers]).to(sink).build();
+      // @ts-expect-error merged items carry Users and numbers, not strings
+      pipeline("merged").from([users, numbers]).to(strings);
+
+      expect(pipe.nodes).toHaveLength(2);
+    });
+  });
+
+  const schemaNode = (kind: NodeKind, name: string, schemas: { inputSchema?: unknown; outputSchema?: unknown }): Node<any, any> => ({
+    kind,
+    name,
+    run: (input) => Effect.succeed(input),
+    ...schemas
+  });
+
+  describe("schema compatibility", () => {
+    it("rejects incompatible adjacent nodes at build time", () => {
+      expect(() =>
+        pipeline("mismatch")
+          .from(schemaNode(NodeKind.Ingress, "source", { outputSchema: Schema.Struct({ id: Schema.String }) }))
+          .to(schemaNode(NodeKind.Egress, "sink", { inputSchema: Schema.Struct({ id: Schema.Number }) }))
+          .build()
+      ).toThrow('Schema mismatch between "source" and "sink": id: expected number, got string');
+    });
+
+    it("rejects incompatible branches at build time", () => {
+      expect(() =>
+        pipeline("mismatch")
+          .from(schemaNode(NodeKind.Ingress, "source", { outputSchema: z.object({ id: z.number() }) }))
+          .fanOut(branch("bad").to(schemaNode(NodeKind.Egress, "sink", { inputSchema: z.object({ ok: z.boolean() }) })))
+          .build()
+      ).toThrow('Schema mismatch between "source" and "sink": ok: expected boolean, got missing');
+    });
+
+    it("builds compatible pipelines", () => {
+      const pipe = pipeline("match")
+        .from(schemaNode(NodeKind.Ingress, "source", { outputSchema: z.object({ id: z.number(), name: z.string() }) }))
+        .to(schemaNode(NodeKind.Egress, "sink", { inputSchema: Schema.Struct({ id: Schema.Number }) }))
+        .build();
+
+      expect(pipe.nodes).toHaveLength(2);
+    });
+  });
+});
\ No newline at end of file
@@ -1,52 +1,152 @@
-import type { Node } from "../core/node";
-import type { Pipe } from "../core/pipe";
+import type { Duration } from "effect";
+import type { Node, NodeContext, NodeError, NodeOutput } from "../core/node";
+import type { DeadLetterSink } from "../core/deadLetter";
+import type { CheckpointStore } from "../core/checkpoint";
+import type { BuiltPipe, Pipe, PipeFork } from "../core/pipe";
+import type { Drop } from "../core/drop";
+import {
+  fanOut,
+  route,
+  type BranchContext,
+  type BranchError,
+  type BranchLike,
+  type RouteBranches,
+  type RouteSpec
+} from "./fork";
+import { mergeIngress, type MergedItem, type MergeIngressOptions } from "../nodes/ingress/merge";
+import { assertPipeSchemas } from "./schemaCheck";
 
 /**
  * A fluent builder for creating Pipes. It enforces that Nodes are connected
- * in a valid sequence: Ingress → Transform → Egress.
+ * in a valid sequence: Ingress → Transform → Egress, optionally fanning out
+ * into several branches that each end in their own Egress.
+ *
+ * The builder is generic over the current output type `O`, so `through()`
+ * and `to()` only accept Nodes whose input matches it. The error and context
+ * types `E` and `R` of every Node accumulate and end up on the built Pipe,
+ * along with what the ingress produces (`I`) and what the egress takes (`T`).
  */
-export class PipelineBuilder {
+export class PipelineBuilder<O = never, E = never, R = never, I = never, T = never> {
   private nodes: Node<any, any, any, any>[] = [];
+  private fork?: PipeFork<any, any>;
+  private settings: Pick<Pipe<any, any>, "timeout" | "deadLetter" | "checkpoint"> = {};
 
   constructor(private readonly name: string) {}
 
   /**
-   * Add an Ingress Node to start the pipeline.
+   * Add an Ingress Node to start the pipeline. Given several Ingress Nodes,
+   * their outputs are merged into one source – see `mergeIngress` – and every
+   * item is tagged with the ingress it came from. An ingress that may return
+   * `Drop` feeds the next Node everything else.
    */
-  from(node: Node<any, any, any, any>): PipelineBuilder {
-    if (node.kind !== "ingress") {
-      throw new Error(`Expected ingress node, got ${node.kind}`);
+  from<O2, E2, R2>(
+    node: Node<undefined, O2, E2, R2>
+  ): PipelineBuilder<Exclude<O2, Drop>, E | E2, R | R2, Exclude<O2, Drop>, T>;
+  from<N extends Node<undefined, any, any, any>>(
+    nodes: readonly N[],
+    options?: MergeIngressOptions
+  ): PipelineBuilder<MergedItem<NodeOutput<N>>, E | NodeError<N> | Error, R | NodeContext<N>, MergedItem<NodeOutput<N>>, T>;
+  from(
+    node: Node<any, any, any, any> | readonly Node<any, any, any, any>[],
+    options: MergeIngressOptions = {}
+  ): PipelineBuilder<any, any, any, any, any> {
+    if (!Array.isArray(node)) {
+      const single = node as Node<any, any, any, any>;
+      if (single.kind !== "ingress") {
+        throw new Error(`Expected ingress node, got ${single.kind}`);
+      }
+      this.nodes.push(single);
+      return this;
     }
-    this.nodes.push(node);
+
+    this.nodes.push(mergeIngress(`${this.name}-ingress`, node, options));
     return this;
   }
 
   /**
-   * Add a Transform or Duplex Node to process data in the middle.
+   * Add a Transform or Duplex Node to process data in the middle. A Node that
+   * may return `Drop` feeds the next one everything else.
    */
-  through(node: Node<any, any, any, any>): PipelineBuilder {
+  through<O2, E2, R2>(node: Node<O, O2, E2, R2>): PipelineBuilder<Exclude<O2, Drop>, E | E2, R | R2, I, T> {
     if (node.kind !== "transform" && node.kind !== "duplex") {
       throw new Error(`Expected transform or duplex node, got ${node.kind}`);
     }
+    this.assertOpen();
     this.nodes.push(node);
-    return this;
+    return this as unknown as PipelineBuilder<Exclude<O2, Drop>, E | E2, R | R2, I, T>;
   }
 
   /**
    * Add an Egress Node to end the pipeline.
    */
-  to(node: Node<any, any, any, any>): PipelineBuilder {
+  to<O2, E2, R2>(node: Node<O, O2, E2, R2>): PipelineBuilder<Exclude<O2, Drop>, E | E2, R | R2, I, O> {
     if (node.kind !== "egress") {
       throw new Error(`Expected egress node, got ${node.kind}`);
     }
+    this.assertOpen();
     this.nodes.push(node);
+    return this as unknown as PipelineBuilder<Exclude<O2, Drop>, E | E2, R | R2, I, O>;
+  }
+
+  /**
+   * Send the output of the last Node to every branch. Each branch runs – and
+   * can fail – independently. No Nodes can follow a fan-out.
+   */
+  fanOut<B extends BranchLike<any, any, O>[]>(
+    ...branches: B
+  ): PipelineBuilder<never, E | BranchError<B[number]>, R | BranchContext<B[number]>, I, T> {
+    this.assertOpen();
+    this.fork = fanOut(branches);
+    return this as unknown as PipelineBuilder<never, E | BranchError<B[number]>, R | BranchContext<B[number]>, I, T>;
+  }
+
+  /**
+   * Send each item down exactly one branch, picked by predicates or by a key
+   * looked up in a map, with an optional default branch. Every decision is
+   * reported as an `ItemRouted` event. No Nodes can follow a route.
+   */
+  route<S extends RouteSpec<O>>(
+    spec: S
+  ): PipelineBuilder<never, E | BranchError<RouteBranches<S>>, R | BranchContext<RouteBranches<S>>, I, T> {
+    this.assertOpen();
+    this.fork = route<O, S>(spec);
+    return this as unknown as PipelineBuilder<never, E | BranchError<RouteBranches<S>>, R | BranchContext<RouteBranches<S>>, I, T>;
+  }
+
+  /**
+   * Bound every run of the Pipe – in streaming mode, the whole stream – by
+   * `duration`. See `Pipe.timeout`.
+   */
+  timeout(duration: Duration.DurationInput): PipelineBuilder<O, E, R, I, T> {
+    this.settings = { ...this.settings, timeout: duration };
     return this;
   }
 
   /**
-   * Build the final Pipe.
+   * Hand items that any Node without a `deadLetter` of its own fails on to
+   * `sink`. The sink's error and context types join the Pipe's.
    */
-  build(): Pipe {
+  deadLetter<E2, R2>(sink: DeadLetterSink<E2, R2>): PipelineBuilder<O, E | E2, R | R2, I, T> {
+    this.settings = { ...this.settings, deadLetter: sink };
+    return this as unknown as PipelineBuilder<O, E | E2, R | R2, I, T>;
+  }
+
+  /**
+   * Checkpoint one-shot runs in `store`, making them resumable with
+   * `PipelineExecutor.resume(runId)`. The store's error and context types
+   * join the Pipe's.
+   */
+  checkpoint<E2, R2>(store: CheckpointStore<E2, R2>): PipelineBuilder<O, E | E2, R | R2, I, T> {
+    this.settings = { ...this.settings, checkpoint: store };
+    return this as unknown as PipelineBuilder<O, E | E2, R | R2, I, T>;
+  }
+
+  /**
+   * Build the final Pipe. Adjacent Nodes that both declare schemas – an
+   * `outputSchema` followed by an `inputSchema` – must be compatible, or a
+   * `SchemaMismatchError` is thrown.
+   */
+  build(): BuiltPipe<I, T, E, R> {
     if (this.nodes.length === 0) {
       throw new Error("Pipeline must have at least one node");
     }
@@ -57,14 +157,24 @@ export class PipelineBuilder {
     }
     
     const lastNode = this.nodes[this.nodes.length - 1];
-    if (lastNode && lastNode.kind !== "egress") {
+    if (!this.fork && lastNode && lastNode.kind !== "egress") {
       throw new Error("Pipeline must end with an egress node");
     }
 
-    return {
+    const pipe: BuiltPipe<I, T, E, R> = {
       name: this.name,
-      nodes: this.nodes
+      nodes: this.nodes,
+      ...this.settings,
+      ...(this.fork ? { fork: this.fork } : {})
     };
+    assertPipeSchemas(pipe);
+    return pipe;
+  }
+
+  private assertOpen(): void {
+    if (this.fork) {
+      throw new Error("Pipeline already forked; add nodes to its branches instead");
+    }
   }
 }
 
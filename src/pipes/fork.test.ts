@@ -0,0 +1,109 @@
+import { describe, it, expect } from "bun:test";
+import { Effect } from "effect";
+import { fanOut, route } from "./fork";
+import { branch } from "./branch";
+import { NodeKind, type Node } from "../core/node";
+import type { PipeFork } from "../core/pipe";
+
+const egress: Node<unknown, void> = {
+  kind: NodeKind.Egress,
+  name: "egress",
+  run: () => Effect.void
+};
+
+const select = (fork: PipeFork<any, any>, input: unknown): string | undefined =>
+  fork._tag === "Route" ? fork.select(input) : undefined;
+
+describe("fanOut", () => {
+  it("should accept built branches and builders", () => {
+    const fork = fanOut([branch("a").to(egress), { name: "b", nodes: [egress] }]);
+
+    expect(fork._tag).toBe("FanOut");
+    expect(fork.branches).toEqual([
+      { name: "a", nodes: [egress] },
+      { name: "b", nodes: [egress] }
+    ]);
+  });
+
+  it("should reject duplicate branch names", () => {
+    expect(() => fanOut([branch("a").to(egress), branch("a").to(egress)])).toThrow("Duplicate branch name \"a\"");
+  });
+
+  it("should reject an empty list of branches", () => {
+    expect(() => fanOut([])).toThrow("fanOut needs at least one branch");
+  });
+});
+
+describe("route", () => {
+  describe("with predicates", () => {
+    const fork = route<{ type: string; amount: number }>({
+      cases: [
+        { when: (event) => event.type === "refund", to: branch("refunds").to(egress) },
+        { when: (event) => event.amount > 100, to: branch("large").to(egress) }
+      ],
+      default: branch("other").to(egress)
+    });
+
+    it("should list every branch including the default", () => {
+      expect(fork._tag).toBe("Route");
+      expect(fork.branches.map((b) => b.name)).toEqual(["refunds", "large", "other"]);
+    });
+
+    it("should pick the first matching case", () => {
+      expect(select(fork, { type: "refund", amount: 500 })).toBe("refunds");
+      expect(select(fork, { type: "order", amount: 500 })).toBe("large");
+    });
+
+    it("should fall back to the default branch", () => {
+      expect(select(fork, { type: "order", amount: 5 })).toBe("other");
+    });
+
+    it("should select nothing without a default branch", () => {
+      const strict = route<number>({ cases: [{ when: (n) => n > 0, to: branch("positive").to(egress) }] });
+
+      expect(select(strict, 1)).toBe("positive");
+      expect(select(strict, -1)).toBeUndefined();
+    });
+  });
+
+  describe("with a key map", () => {
+    const fork = route<{ event_type: string }>({
+      key: (event) => event.event_type,
+      cases: {
+        order: branch("orders").to(egress),
+        refund: { name: "refunds", nodes: [egress] }
+      },
+      default: branch("unknown").to(egress)
+    });
+
+    it("should list every branch including the default", () => {
+      expect(fork.branches.map((b) => b.name)).toEqual(["orders", "refunds", "unknown"]);
+    });
+
+    it("should look up the branch by key", () => {
+      expect(select(fork, { event_type: "order" })).toBe("orders");
+      expect(select(fork, { event_type: "refund" })).toBe("refunds");
+    });
+
+    it("should fall back to the default branch for unknown keys", () => {
+      expect(select(fork, { event_type: "signup" })).toBe("unknown");
+    });
+
+    it("should select nothing for unknown keys without a default branch", () => {
+      const strict = route<string>({ key: (s) => s, cases: { a: branch("a").to(egress) } });
+
+      expect(select(strict, "b")).toBeUndefined();
+    });
+  });
+
+  it("should reject routes without cases", () => {
+    expect(() => route({ cases: [] })).toThrow("route needs at least one case");
+    expect(() => route({ key: String, cases: {} })).toThrow("route needs at least one case");
+  });
+
+  it("should reject duplicate branch names", () => {
+    expect(() =>
+      route({ key: String, cases: { a: branch("same").to(egress) }, default: branch("same").to(egress) })
+    ).toThrow("Duplicate branch name \"same\"");
+  });
+});
\ No newline at end of file
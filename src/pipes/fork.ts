@@ -0,0 +1,122 @@
+import type { Branch, BuiltBranch, PipeFork } from "../core/pipe";
+
+/**
+ * A built Branch, or a builder that produces one (such as `BranchBuilder`),
+ * taking `I`. Branches not built by `branch()` take anything.
+ */
+export type BranchLike<E = any, R = any, I = any> = BuiltBranch<I, E, R> | { build(): BuiltBranch<I, E, R> };
+
+/**
+ * The error type of a branch – distributes over unions of branches.
+ */
+export type BranchError<B> = B extends BranchLike<infer E, any> ? E : never;
+
+/**
+ * The context requirements of a branch – distributes over unions of branches.
+ */
+export type BranchContext<B> = B extends BranchLike<any, infer R> ? R : never;
+
+/**
+ * A `route()` with one predicate per branch. The first matching case wins.
+ */
+export interface PredicateRoute<I = any> {
+  readonly cases: readonly { readonly when: (input: I) => boolean; readonly to: BranchLike<any, any, I> }[];
+  /**
+   * Branch for items no case matches. Without one, such items are dropped.
+   */
+  readonly default?: BranchLike<any, any, I>;
+}
+
+/**
+ * A `route()` that derives a key per item and looks the branch up in `cases`.
+ */
+export interface KeyRoute<I = any> {
+  readonly key: (input: I) => string;
+  readonly cases: Readonly<Record<string, BranchLike<any, any, I>>>;
+  /**
+   * Branch for items whose key has no case. Without one, such items are dropped.
+   */
+  readonly default?: BranchLike<any, any, I>;
+}
+
+export type RouteSpec<I = any> = PredicateRoute<I> | KeyRoute<I>;
+
+/**
+ * Every branch a route may pick, including its default.
+ */
+export type RouteBranches<S> =
+  | (S extends { readonly key: unknown; readonly cases: infer C } ? C[keyof C] : never)
+  | (S extends { readonly cases: readonly (infer C)[] } ? (C extends { readonly to: infer B } ? B : never) : never)
+  | (S extends { readonly default?: infer D } ? Exclude<D, undefined> : never);
+
+/**
+ * Create a `FanOut` fork from built or unbuilt branches. Branch names must be
+ * unique within the fork.
+ */
+export function fanOut<B extends BranchLike>(
+  branches: readonly B[]
+): PipeFork<BranchError<B>, BranchContext<B>> {
+  if (branches.length === 0) {
+    throw new Error("fanOut needs at least one branch");
+  }
+
+  return { _tag: "FanOut", branches: buildBranches(branches) };
+}
+
+/**
+ * Create a `Route` fork that sends each item down exactly one branch – the
+ * first matching predicate, or the case for the item's key – falling back to
+ * the `default` branch.
+ */
+export function route<I, S extends RouteSpec<I> = RouteSpec<I>>(
+  spec: S
+): PipeFork<BranchError<RouteBranches<S>>, BranchContext<RouteBranches<S>>> {
+  const fallback = spec.default ? buildBranches([spec.default])[0] : undefined;
+
+  if ("key" in spec) {
+    const keyed = spec as KeyRoute<I>;
+    const keys = Object.keys(keyed.cases);
+    if (keys.length === 0) {
+      throw new Error("route needs at least one case");
+    }
+
+    const cased = buildBranches(keys.map((key) => keyed.cases[key]!));
+    const branches = buildBranches(fallback ? [...cased, fallback] : cased);
+    const byKey = new Map(keys.map((key, index) => [key, cased[index]!.name]));
+
+    return {
+      _tag: "Route",
+      branches,
+      select: (input) => byKey.get(keyed.key(input as I)) ?? fallback?.name
+    };
+  }
+
+  const predicates = spec as PredicateRoute<I>;
+  if (predicates.cases.length === 0) {
+    throw new Error("route needs at least one case");
+  }
+
+  const cased = buildBranches(predicates.cases.map(({ to }) => to));
+  const branches = buildBranches(fallback ? [...cased, fallback] : cased);
+
+  return {
+    _tag: "Route",
+    branches,
+    select: (input) => {
+      const index = predicates.cases.findIndex(({ when }) => when(input as I));
+      return index === -1 ? fallback?.name : cased[index]!.name;
+    }
+  };
+}
+
+function buildBranches(branches: readonly BranchLike[]): Branch<any, any>[] {
+  const built = branches.map((b) => "build" in b ? b.build() : b);
+  const names = new Set<string>();
+  for (const { name } of built) {
+    if (names.has(name)) {
+      throw new Error(`Duplicate branch name "${name}"`);
+    }
+    names.add(name);
+  }
+  return built;
+}
\ No newline at end of file
@@ -1 +1,6 @@
-export * from "./builder"; 
\ No newline at end of file
+export * from "./builder";
+export * from "./branch";
+export * from "./fork";
+export * from "./schemaCheck";
+export * from "./subPipeline";
+export * from "./mapNodes";
@@ -0,0 +1,52 @@
+import { describe, it, expect } from "bun:test";
+import { Effect } from "effect";
+import { NodeKind, type Node } from "../core/node";
+import type { Pipe } from "../core/pipe";
+import { mapNodes } from "./mapNodes";
+
+const node = (name: string, kind = NodeKind.Transform): Node<unknown, unknown> => ({
+  kind,
+  name,
+  run: Effect.succeed
+});
+
+const renamed = <E, R>(n: Node<any, any, E, R>): Node<any, any, E, R> => ({ ...n, name: `${n.name}'` });
+
+describe("mapNodes", () => {
+  it("should replace the Nodes of the trunk and keep the Pipe's settings", () => {
+    const pipe: Pipe = { name: "orders", nodes: [node("read", NodeKind.Ingress), node("save", NodeKind.Egress)], timeout: "1 second" };
+
+    const mapped = mapNodes(pipe, renamed);
+
+    expect(mapped.name).toBe("orders");
+    expect(mapped.timeout).toBe("1 second");
+    expect(mapped.nodes.map((n) => n.name)).toEqual(["read'", "save'"]);
+  });
+
+  it("should replace the Nodes of nested branches and keep a route's select", () => {
+    const select = () => "a";
+    const pipe: Pipe = {
+      name: "orders",
+      nodes: [node("read", NodeKind.Ingress)],
+      fork: {
+        _tag: "Route",
+        select,
+        branches: [
+          {
+            name: "a",
+            nodes: [node("enrich")],
+            fork: { _tag: "FanOut", branches: [{ name: "b", nodes: [node("save", NodeKind.Egress)] }] }
+          }
+        ]
+      }
+    };
+
+    const mapped = mapNodes(pipe, renamed);
+
+    expect(mapped.fork?._tag).toBe("Route");
+    expect(mapped.fork?._tag === "Route" && mapped.fork.select).toBe(select);
+    const branch = mapped.fork!.branches[0]!;
+    expect(branch.nodes.map((n) => n.name)).toEqual(["enrich'"]);
+    expect(branch.fork!.branches[0]!.nodes.map((n) => n.name)).toEqual(["save'"]);
+  });
+});
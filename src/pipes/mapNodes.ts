@@ -0,0 +1,33 @@
+import type { Node } from "../core/node";
+import type { Branch, Pipe, PipeFork } from "../core/pipe";
+
+/**
+ * Rebuild a Pipe with every Node – of the trunk and of each branch – replaced
+ * by `f(node)`. The Pipe's other settings carry over, so wrappers such as
+ * recording or test doubles can be slipped in without rebuilding it. Its
+ * dead-letter sink and checkpoint store keep their types, so the result still
+ * carries `E` and `R`.
+ */
+export function mapNodes<E, R, E2, R2>(
+  pipe: Pipe<E, R>,
+  f: (node: Node<any, any, E, R>) => Node<any, any, E2, R2>
+): Pipe<E | E2, R | R2> {
+  const { fork, ...rest } = pipe;
+  return {
+    ...rest,
+    nodes: pipe.nodes.map(f),
+    ...(fork ? { fork: mapFork(fork, f) } : {})
+  };
+}
+
+function mapFork<E, R, E2, R2>(
+  fork: PipeFork<E, R>,
+  f: (node: Node<any, any, E, R>) => Node<any, any, E2, R2>
+): PipeFork<E2, R2> {
+  const branches = fork.branches.map((branch): Branch<E2, R2> => ({
+    name: branch.name,
+    nodes: branch.nodes.map(f),
+    ...(branch.fork ? { fork: mapFork(branch.fork, f) } : {})
+  }));
+  return fork._tag === "Route" ? { ...fork, branches } : { _tag: "FanOut", branches };
+}
@@ -0,0 +1,148 @@
+import { describe, it, expect } from "bun:test";
+import { Effect, Schema } from "effect";
+import { z } from "zod";
+import { NodeKind, type Node } from "../core/node";
+import {
+  assertPipeSchemas,
+  checkPipeSchemas,
+  compareSchemas,
+  describeSchema,
+  SchemaMismatchError,
+  type SchemaShape
+} from "./schemaCheck";
+
+const node = (kind: NodeKind, name: string, schemas: { inputSchema?: unknown; outputSchema?: unknown } = {}): Node<any, any> => ({
+  kind,
+  name,
+  run: (input) => Effect.succeed(input),
+  ...schemas
+});
+
+const compare = (output: unknown, input: unknown) =>
+  compareSchemas(describeSchema(output, "output") as SchemaShape, describeSchema(input, "input") as SchemaShape);
+
+describe("describeSchema", () => {
+  it("describes zod objects, arrays and optional fields", () => {
+    const shape = describeSchema(z.object({ id: z.number(), tags: z.array(z.string()), note: z.string().optional() }), "input");
+
+    expect(shape).toEqual({
+      kind: "object",
+      fields: {
+        id: { shape: { kind: "number" }, optional: false },
+        tags: { shape: { kind: "array", element: { kind: "string" } }, optional: false },
+        note: { shape: { kind: "union", options: [{ kind: "string" }, { kind: "undefined" }] }, optional: true }
+      }
+    });
+  });
+
+  it("describes Effect Schema structs", () => {
+    const shape = describeSchema(Schema.Struct({ id: Schema.Number, note: Schema.optional(Schema.String) }), "input");
+
+    expect(shape).toEqual({
+      kind: "object",
+      fields: {
+        id: { shape: { kind: "number" }, optional: false },
+        note: { shape: { kind: "union", options: [{ kind: "string" }, { kind: "undefined" }] }, optional: true }
+      }
+    });
+  });
+
+  it("uses the encoded side of transformations for inputs", () => {
+    expect(describeSchema(Schema.NumberFromString, "input")).toEqual({ kind: "string" });
+    expect(describeSchema(Schema.NumberFromString, "output")).toEqual({ kind: "number" });
+  });
+
+  it("ignores values that are not schemas", () => {
+    expect(describeSchema({ type: "object" }, "input")).toBeUndefined();
+    expect(describeSchema(undefined, "output")).toBeUndefined();
+  });
+});
+
+describe("compareSchemas", () => {
+  it("accepts outputs with extra fields", () => {
+    expect(compare(z.object({ id: z.number(), extra: z.string() }), z.object({ id: z.number() }))).toEqual([]);
+  });
+
+  it("reports nested paths that differ", () => {
+    const output = z.object({ user: z.object({ id: z.string(), emails: z.array(z.number()) }) });
+    const input = z.object({ user: z.object({ id: z.number(), emails: z.array(z.string()) }) });
+
+    expect(compare(output, input)).toEqual([
+      { path: "user.id", expected: "number", actual: "string" },
+      { path: "user.emails[]", expected: "string", actual: "number" }
+    ]);
+  });
+
+  it("reports missing and optional fields the input requires", () => {
+    const output = Schema.Struct({ name: Schema.optional(Schema.String) });
+    const input = Schema.Struct({ id: Schema.Number, name: Schema.String });
+
+    expect(compare(output, input)).toEqual([
+      { path: "id", expected: "number", actual: "missing" },
+      { path: "name", expected: "string", actual: "string | undefined" }
+    ]);
+  });
+
+  it("checks literals and unions", () => {
+    expect(compare(z.enum(["a", "b"]), z.string())).toEqual([]);
+    expect(compare(z.enum(["a", "b"]), z.literal("a"))).toHaveLength(1);
+    expect(compare(z.string(), z.string().nullable())).toEqual([]);
+    expect(compare(z.string().nullable(), z.string())).toEqual([
+      { path: "(root)", expected: "string", actual: "null" }
+    ]);
+  });
+
+  it("compares zod against Effect Schema", () => {
+    expect(compare(z.object({ id: z.number() }), Schema.Struct({ id: Schema.Number }))).toEqual([]);
+  });
+});
+
+describe("checkPipeSchemas", () => {
+  it("skips nodes without schemas", () => {
+    const pipe = {
+      nodes: [
+        node(NodeKind.Ingress, "source", { outputSchema: z.string() }),
+        node(NodeKind.Transform, "no-schemas"),
+        node(NodeKind.Egress, "sink", { inputSchema: z.number() })
+      ]
+    };
+
+    expect(checkPipeSchemas(pipe)).toEqual([]);
+  });
+
+  it("checks the last trunk node against each branch", () => {
+    const pipe = {
+      nodes: [node(NodeKind.Ingress, "source", { outputSchema: z.object({ id: z.number() }) })],
+      fork: {
+        _tag: "FanOut" as const,
+        branches: [
+          { name: "ok", nodes: [node(NodeKind.Egress, "ok-sink", { inputSchema: z.object({ id: z.number() }) })] },
+          { name: "bad", nodes: [node(NodeKind.Egress, "bad-sink", { inputSchema: z.object({ id: z.string() }) })] }
+        ]
+      }
+    };
+
+    expect(checkPipeSchemas(pipe)).toEqual([
+      { from: "source", to: "bad-sink", issues: [{ path: "id", expected: "string", actual: "number" }] }
+    ]);
+  });
+
+  it("throws a SchemaMismatchError naming both nodes and the paths", () => {
+    const pipe = {
+      nodes: [
+        node(NodeKind.Ingress, "source", { outputSchema: z.object({ id: z.string() }) }),
+        node(NodeKind.Egress, "sink", { inputSchema: z.object({ id: z.number(), name: z.string() }) })
+      ]
+    };
+
+    try {
+      assertPipeSchemas(pipe);
+      throw new Error("expected a mismatch");
+    } catch (error) {
+      expect(error).toBeInstanceOf(SchemaMismatchError);
+      expect((error as SchemaMismatchError).message).toBe(
+        'Schema mismatch between "source" and "sink": id: expected number, got string; name: expected string, got missing'
+      );
+    }
+  });
+});
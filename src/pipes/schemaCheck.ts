@@ -0,0 +1,300 @@
+import { Data, Schema, SchemaAST } from "effect";
+import type { z } from "zod";
+import type { Node } from "../core/node";
+import type { Branch, Pipe } from "../core/pipe";
+
+/**
+ * A library-neutral description of what a schema accepts, reduced to what
+ * the compatibility check compares. Anything it cannot describe – `any`,
+ * `unknown`, custom declarations, lazy schemas – becomes `unknown` and is
+ * compatible with everything.
+ */
+export type SchemaShape =
+  | { readonly kind: "unknown" }
+  | { readonly kind: "string" | "number" | "boolean" | "bigint" | "date" | "null" | "undefined" }
+  | { readonly kind: "literal"; readonly values: readonly unknown[] }
+  | { readonly kind: "object"; readonly fields: Readonly<Record<string, SchemaField>> }
+  | { readonly kind: "array"; readonly element: SchemaShape }
+  | { readonly kind: "union"; readonly options: readonly SchemaShape[] };
+
+export interface SchemaField {
+  readonly shape: SchemaShape;
+  readonly optional: boolean;
+}
+
+/**
+ * One incompatible field: `path` is dotted, with `[]` for array elements and
+ * `(root)` for the value itself.
+ */
+export interface SchemaIssue {
+  readonly path: string;
+  readonly expected: string;
+  readonly actual: string;
+}
+
+/**
+ * The issues found between one Node's `outputSchema` and the `inputSchema`
+ * of the Node it feeds.
+ */
+export interface SchemaMismatch {
+  readonly from: string;
+  readonly to: string;
+  readonly issues: readonly SchemaIssue[];
+}
+
+/**
+ * Raised by `build()` when a Node's `outputSchema` cannot satisfy the
+ * `inputSchema` of the Node after it.
+ */
+export class SchemaMismatchError extends Data.TaggedError("SchemaMismatchError")<{
+  readonly message: string;
+  readonly from: string;
+  readonly to: string;
+  readonly issues: readonly SchemaIssue[];
+}> {}
+
+const unknownShape: SchemaShape = { kind: "unknown" };
+
+/**
+ * Describe a zod (v4) or Effect schema. An output schema is described by the
+ * values it produces, an input schema by the values it accepts – so for
+ * transforming schemas the two sides differ. Returns `undefined` for values
+ * that are not a recognised schema.
+ */
+export function describeSchema(schema: unknown, side: "input" | "output"): SchemaShape | undefined {
+  if (Schema.isSchema(schema)) {
+    return describeAst(schema.ast, side);
+  }
+  if (typeof schema === "object" && schema !== null && "_zod" in schema) {
+    return describeZod(schema as z.core.$ZodType, side);
+  }
+  return undefined;
+}
+
+function describeAst(ast: SchemaAST.AST, side: "input" | "output"): SchemaShape {
+  switch (ast._tag) {
+    case "StringKeyword":
+    case "TemplateLiteral":
+      return { kind: "string" };
+    case "NumberKeyword":
+      return { kind: "number" };
+    case "BooleanKeyword":
+      return { kind: "boolean" };
+    case "BigIntKeyword":
+      return { kind: "bigint" };
+    case "UndefinedKeyword":
+    case "VoidKeyword":
+      return { kind: "undefined" };
+    case "Literal":
+      return ast.literal === null ? { kind: "null" } : { kind: "literal", values: [ast.literal] };
+    case "Enums":
+      return { kind: "literal", values: ast.enums.map(([, value]) => value) };
+    case "Union":
+      return { kind: "union", options: ast.types.map((type) => describeAst(type, side)) };
+    case "TypeLiteral":
+      return {
+        kind: "object",
+        fields: Object.fromEntries(
+          ast.propertySignatures.map((signature) => [
+            String(signature.name),
+            { shape: describeAst(signature.type, side), optional: signature.isOptional }
+          ])
+        )
+      };
+    case "TupleType":
+      return ast.elements.length === 0 && ast.rest.length === 1
+        ? { kind: "array", element: describeAst(ast.rest[0]!.type, side) }
+        : unknownShape;
+    case "Refinement":
+      return describeAst(ast.from, side);
+    case "Transformation":
+      return describeAst(side === "input" ? ast.from : ast.to, side);
+    default:
+      return unknownShape;
+  }
+}
+
+function describeZod(schema: z.core.$ZodType, side: "input" | "output"): SchemaShape {
+  // Every built-in zod type, so the switch narrows `def` to its kind's
+  const def = (schema as z.core.$ZodTypes)._zod.def;
+  switch (def.type) {
+    case "string":
+    case "number":
+    case "boolean":
+    case "bigint":
+    case "date":
+    case "null":
+    case "undefined":
+      return { kind: def.type };
+    case "literal":
+      return { kind: "literal", values: [...def.values] };
+    case "enum":
+      return { kind: "literal", values: Object.values(def.entries) };
+    case "object":
+      return {
+        kind: "object",
+        fields: Object.fromEntries(
+          Object.entries(def.shape).map(([key, field]) => [
+            key,
+            { shape: describeZod(field, side), optional: isOptionalZod(field, side) }
+          ])
+        )
+      };
+    case "array":
+      return { kind: "array", element: describeZod(def.element, side) };
+    case "union":
+      return { kind: "union", options: def.options.map((option) => describeZod(option, side)) };
+    case "nullable":
+      return { kind: "union", options: [describeZod(def.innerType, side), { kind: "null" }] };
+    case "optional":
+      return { kind: "union", options: [describeZod(def.innerType, side), { kind: "undefined" }] };
+    case "default":
+    case "prefault":
+    case "catch":
+    case "readonly":
+    case "nonoptional":
+      return describeZod(def.innerType, side);
+    case "pipe":
+      return describeZod(side === "input" ? def.in : def.out, side);
+    default:
+      return unknownShape;
+  }
+}
+
+function isOptionalZod(field: z.core.$ZodType, side: "input" | "output"): boolean {
+  return (side === "input" ? field._zod.optin : field._zod.optout) === "optional";
+}
+
+/**
+ * Compare what an output schema produces with what an input schema accepts.
+ * Extra output fields are fine; missing, optional or differently typed
+ * fields the input requires are reported.
+ */
+export function compareSchemas(output: SchemaShape, input: SchemaShape, path = ""): SchemaIssue[] {
+  if (output.kind === "unknown" || input.kind === "unknown") {
+    return [];
+  }
+
+  if (output.kind === "union") {
+    return output.options.flatMap((option) => compareSchemas(option, input, path));
+  }
+
+  if (input.kind === "union") {
+    const fits = input.options.some((option) => compareSchemas(output, option, path).length === 0);
+    return fits ? [] : [issue(path, input, output)];
+  }
+
+  if (output.kind === "literal") {
+    const fits = input.kind === "literal"
+      ? output.values.every((value) => input.values.includes(value))
+      : output.values.every((value) => typeof value === input.kind);
+    return fits ? [] : [issue(path, input, output)];
+  }
+
+  if (output.kind !== input.kind) {
+    return [issue(path, input, output)];
+  }
+
+  if (output.kind === "array" && input.kind === "array") {
+    return compareSchemas(output.element, input.element, `${path}[]`);
+  }
+
+  if (output.kind === "object" && input.kind === "object") {
+    return Object.entries(input.fields).flatMap(([key, expected]) => {
+      const fieldPath = path ? `${path}.${key}` : key;
+      const actual = output.fields[key];
+      if (!actual) {
+        return expected.optional ? [] : [{ path: fieldPath, expected: formatShape(expected.shape), actual: "missing" }];
+      }
+      if (actual.optional && !expected.optional) {
+        return [{ path: fieldPath, expected: formatShape(expected.shape), actual: formatShape(actual.shape) }];
+      }
+      return compareSchemas(actual.shape, expected.shape, fieldPath);
+    });
+  }
+
+  return [];
+}
+
+function issue(path: string, expected: SchemaShape, actual: SchemaShape): SchemaIssue {
+  return { path: path || "(root)", expected: formatShape(expected), actual: formatShape(actual) };
+}
+
+function formatShape(shape: SchemaShape): string {
+  switch (shape.kind) {
+    case "literal":
+      return shape.values.map((value) => JSON.stringify(value)).join(" | ");
+    case "object":
+      return "object";
+    case "array":
+      return `${formatShape(shape.element)}[]`;
+    case "union":
+      return shape.options.map(formatShape).join(" | ");
+    default:
+      return shape.kind;
+  }
+}
+
+/**
+ * Check every pair of adjacent Nodes in a Pipe – including the last trunk
+ * Node and the first Node of each branch – whose `outputSchema` and
+ * `inputSchema` are both set.
+ */
+export function checkPipeSchemas(pipe: Pick<Pipe<any, any>, "nodes" | "fork">): SchemaMismatch[] {
+  return checkSegment(pipe.nodes, pipe.fork?.branches ?? []);
+}
+
+function checkSegment(
+  nodes: readonly Node<any, any, any, any>[],
+  branches: readonly Branch<any, any>[]
+): SchemaMismatch[] {
+  const mismatches: SchemaMismatch[] = [];
+
+  for (let index = 1; index < nodes.length; index++) {
+    const mismatch = checkPair(nodes[index - 1]!, nodes[index]!);
+    if (mismatch) {
+      mismatches.push(mismatch);
+    }
+  }
+
+  const last = nodes[nodes.length - 1];
+  for (const branch of branches) {
+    const first = branch.nodes[0];
+    const mismatch = last && first ? checkPair(last, first) : undefined;
+    if (mismatch) {
+      mismatches.push(mismatch);
+    }
+    mismatches.push(...checkSegment(branch.nodes, branch.fork?.branches ?? []));
+  }
+
+  return mismatches;
+}
+
+function checkPair(from: Node<any, any, any, any>, to: Node<any, any, any, any>): SchemaMismatch | undefined {
+  const output = describeSchema(from.outputSchema, "output");
+  const input = describeSchema(to.inputSchema, "input");
+  if (!output || !input) {
+    return undefined;
+  }
+
+  const issues = compareSchemas(output, input);
+  return issues.length > 0 ? { from: from.name, to: to.name, issues } : undefined;
+}
+
+/**
+ * Describe a mismatch in one line, naming both Nodes and every field path.
+ */
+export function formatMismatch({ from, to, issues }: SchemaMismatch): string {
+  const details = issues.map(({ path, expected, actual }) => `${path}: expected ${expected}, got ${actual}`);
+  return `Schema mismatch between "${from}" and "${to}": ${details.join("; ")}`;
+}
+
+/**
+ * Throw a `SchemaMismatchError` for the first incompatible pair of Nodes.
+ */
+export function assertPipeSchemas(pipe: Pick<Pipe<any, any>, "nodes" | "fork">): void {
+  const [mismatch] = checkPipeSchemas(pipe);
+  if (mismatch) {
+    throw new SchemaMismatchError({ ...mismatch, message: formatMismatch(mismatch) });
+  }
+}
@@ -0,0 +1,152 @@
+import { describe, it, expect } from "bun:test";
+import { Chunk, Context, Effect, Queue } from "effect";
+import { NodeKind, type Node } from "../core/node";
+import type { RuntimeEvent } from "../core/event";
+import { Drop } from "../core/drop";
+import { PipelineExecutor } from "../runtime/engine/executor";
+import { NodeFailure } from "../runtime/engine/errors";
+import { pipeline } from "./builder";
+import { subPipeline } from "./subPipeline";
+
+const transform = <I, O>(name: string, f: (input: I) => O): Node<I, O> => ({
+  kind: NodeKind.Transform,
+  name,
+  run: (input) => Effect.sync(() => f(input))
+});
+
+const placeholderIngress: Node<undefined, any> = { kind: NodeKind.Ingress, name: "in", run: () => Effect.succeed(undefined) };
+const placeholderEgress: Node<any, void> = { kind: NodeKind.Egress, name: "out", run: () => Effect.void };
+
+const cleanUp = pipeline("clean-up")
+  .from(placeholderIngress)
+  .through(transform("trim", (s: string) => s.trim()))
+  .through(transform("upper", (s: string) => s.toUpperCase()))
+  .to(placeholderEgress)
+  .build();
+
+describe("subPipeline", () => {
+  it("should run the middle section on its input", async () => {
+    const node = subPipeline(cleanUp);
+
+    expect(node.name).toBe("clean-up");
+    expect(node.kind).toBe(NodeKind.Transform);
+    expect(await Effect.runPromise(node.run("  hello "))).toBe("HELLO");
+  });
+
+  it("should accept pipes of transforms only", async () => {
+    const node = subPipeline(
+      { name: "double", nodes: [transform("double", (n: number) => n * 2)] },
+      { name: "doubler" }
+    );
+
+    expect(node.name).toBe("doubler");
+    expect(await Effect.runPromise(node.run(21))).toBe(42);
+  });
+
+  it("should reject pipes it cannot embed", () => {
+    expect(() => subPipeline({ name: "empty", nodes: [placeholderIngress, placeholderEgress] })).toThrow(
+      'Sub-pipeline "empty" has no nodes between its ingress and egress'
+    );
+    expect(() =>
+      subPipeline({ name: "forked", nodes: [transform("t", (x) => x)], fork: { _tag: "FanOut", branches: [] } })
+    ).toThrow('Sub-pipeline "forked" cannot fork');
+  });
+
+  it("should drop the item when the section drops it", async () => {
+    const node = subPipeline({ name: "gate", nodes: [transform("gate", () => Drop)] });
+
+    expect(await Effect.runPromise(node.run("x"))).toBe(Drop);
+  });
+
+  it("should fail with the error of a failing node of the section", async () => {
+    const boom = new Error("nope");
+    const node = subPipeline({
+      name: "broken",
+      nodes: [{ kind: NodeKind.Transform, name: "boom", run: () => Effect.fail(boom) }]
+    });
+
+    expect(await Effect.runPromise(Effect.flip(node.run("x")))).toBe(boom);
+  });
+
+  it("should fail the parent run with one NodeFailure, not one nested in another", async () => {
+    const boom = new Error("nope");
+    const parent = pipeline("parent")
+      .from({ kind: NodeKind.Ingress, name: "source", run: () => Effect.succeed("x") } as Node<undefined, string>)
+      .through(subPipeline({
+        name: "broken",
+        nodes: [{ kind: NodeKind.Transform, name: "boom", run: () => Effect.fail(boom) }]
+      }))
+      .to(placeholderEgress)
+      .build();
+
+    const eventQueue = await Effect.runPromise(Queue.unbounded<RuntimeEvent>());
+    const failure = await Effect.runPromise(Effect.flip(new PipelineExecutor(parent, eventQueue).run()));
+
+    expect(failure).toBeInstanceOf(NodeFailure);
+    expect(failure).toMatchObject({ nodeName: "broken", cause: boom });
+  });
+
+  it("should nest the section's events under the parent run", async () => {
+    const received: string[] = [];
+    const parent = pipeline("parent")
+      .from({ kind: NodeKind.Ingress, name: "source", run: () => Effect.succeed(" hi ") } as Node<undefined, string>)
+      .through(subPipeline(cleanUp))
+      .to({ kind: NodeKind.Egress, name: "collect", run: (s: string) => Effect.sync(() => { received.push(s); }) })
+      .build();
+
+    const eventQueue = await Effect.runPromise(Queue.unbounded<RuntimeEvent>());
+    await Effect.runPromise(new PipelineExecutor(parent, eventQueue).run());
+
+    expect(received).toEqual(["HI"]);
+
+    const events = Chunk.toArray(await Effect.runPromise(Queue.takeAll(eventQueue)));
+    const subStart = events.findIndex((e) => e._tag === "NodeStarted" && e.nodeName === "clean-up");
+    const subEnd = events.findIndex((e) => e._tag === "NodeCompleted" && e.nodeName === "clean-up");
+    const nested = events.slice(subStart + 1, subEnd);
+
+    expect(nested.every((e) => e._tag === "SubPipelineEvent" && e.nodeName === "clean-up")).toBe(true);
+    expect(nested.map((e) => e._tag === "SubPipelineEvent" ? e.event : e)).toEqual([
+      { _tag: "PipelineStarted", pipelineName: "clean-up" },
+      { _tag: "NodeStarted", nodeName: "trim" },
+      { _tag: "NodeCompleted", nodeName: "trim" },
+      { _tag: "NodeStarted", nodeName: "upper" },
+      { _tag: "NodeCompleted", nodeName: "upper" },
+      { _tag: "PipelineCompleted", pipelineName: "clean-up" }
+    ]);
+  });
+
+  it("should carry the section's requirements", async () => {
+    class Suffix extends Context.Tag("Suffix")<Suffix, string>() {}
+
+    const section = pipeline("suffixing")
+      .from(placeholderIngress)
+      .through({
+        kind: NodeKind.Transform,
+        name: "suffix",
+        run: (s: string) => Effect.map(Suffix, (suffix) => s + suffix)
+      } as Node<string, string, never, Suffix>)
+      .to(placeholderEgress)
+      .build();
+
+    const node = subPipeline(section);
+    const program: Effect.Effect<unknown, Error, Suffix> = node.run("a");
+
+    expect(await Effect.runPromise(Effect.provideService(program, Suffix, "!"))).toBe("a!");
+  });
+
+  it("should take and produce what the section's nodes do", () => {
+    const lengths = pipeline("lengths")
+      .from({ kind: NodeKind.Ingress, name: "words", run: () => Effect.succeed("word") } as Node<undefined, string>)
+      .through(transform("length", (s: string) => s.length))
+      .to({ kind: NodeKind.Egress, name: "ignore", run: () => Effect.void } as Node<number, void>)
+      .build();
+    const numbers = pipeline("numbers")
+      .from({ kind: NodeKind.Ingress, name: "numbers", run: () => Effect.succeed(1) } as Node<undefined, number>);
+
+    const node: Node<string, number | Drop, Error> = subPipeline(lengths);
+    // @ts-expect-error the section takes strings, not numbers
+    numbers.through(subPipeline(lengths));
+
+    expect(node.name).toBe("lengths");
+  });
+});
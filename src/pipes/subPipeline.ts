@@ -0,0 +1,100 @@
+import { Effect, Fiber, FiberRef, Option, Queue } from "effect";
+import { NodeKind, type Node } from "../core/node";
+import type { Pipe, SectionInput, SectionOutput } from "../core/pipe";
+import type { RuntimeEvent } from "../core/event";
+import { Drop } from "../core/drop";
+import { PipelineExecutor } from "../runtime/engine/executor";
+import { currentEventSink } from "../runtime/engine/eventSink";
+
+type PipeError<P> = P extends Pipe<infer E, any> ? E : never;
+type PipeContext<P> = P extends Pipe<any, infer R> ? R : never;
+
+export interface SubPipelineOptions {
+  /**
+   * Name of the Node in the parent Pipe. Defaults to the Pipe's name.
+   */
+  readonly name?: string;
+}
+
+/**
+ * A Transform Node that runs the middle section of a Pipe – everything
+ * between its ingress and egress, if it has them – on each input. Reusable
+ * chains such as validate → enrich → normalize can be built once as a Pipe
+ * and dropped into other Pipes with `through(subPipeline(pipe))`.
+ *
+ * The section runs on its own executor, so retries, timeouts, dead-letter
+ * sinks and dropped items work as in the Pipe itself; an item dropped inside
+ * is dropped by this Node. Its events reach the parent run wrapped in
+ * `SubPipelineEvent`s naming this Node. The Pipe's `R` carries over, and so
+ * do – for Pipes built with `pipeline()` – the section's input and output
+ * types. A failing Node of the section fails this Node with its own error, so
+ * the parent reports one `NodeFailure` rather than one nested in another.
+ * Closing this Node closes the section's Nodes.
+ */
+export function subPipeline<P extends Pipe<any, any>>(
+  pipe: P,
+  options: SubPipelineOptions = {}
+): Node<SectionInput<P>, SectionOutput<P> | Drop, PipeError<P> | Error, PipeContext<P>> {
+  const name = options.name ?? pipe.name;
+
+  if (pipe.fork) {
+    throw new Error(`Sub-pipeline "${name}" cannot fork`);
+  }
+
+  const start = pipe.nodes[0]?.kind === NodeKind.Ingress ? 1 : 0;
+  const end = pipe.nodes[pipe.nodes.length - 1]?.kind === NodeKind.Egress ? pipe.nodes.length - 1 : pipe.nodes.length;
+  const nodes = pipe.nodes.slice(start, end);
+
+  if (nodes.length === 0) {
+    throw new Error(`Sub-pipeline "${name}" has no nodes between its ingress and egress`);
+  }
+  for (const node of nodes) {
+    if (node.kind !== NodeKind.Transform && node.kind !== NodeKind.Duplex) {
+      throw new Error(`Sub-pipeline "${name}" can only contain transform or duplex nodes, got ${node.kind}`);
+    }
+  }
+
+  const section: Pipe<PipeError<P>, PipeContext<P>> = {
+    name: pipe.name,
+    nodes,
+    ...(pipe.timeout !== undefined ? { timeout: pipe.timeout } : {}),
+    ...(pipe.deadLetter ? { deadLetter: pipe.deadLetter } : {})
+  };
+
+  return {
+    kind: NodeKind.Transform,
+    name,
+    run: (input) =>
+      Effect.gen(function* (_) {
+        const sink = yield* _(FiberRef.get(currentEventSink));
+        const events = yield* _(Queue.unbounded<RuntimeEvent>());
+        const forward = (event: RuntimeEvent) =>
+          Option.isSome(sink) ? sink.value({ _tag: "SubPipelineEvent", nodeName: name, event }) : Effect.void;
+
+        // Relay events as they happen; a taken event is always forwarded
+        const relay = yield* _(
+          Effect.fork(
+            Effect.forever(
+              Effect.uninterruptibleMask((restore) => Effect.flatMap(restore(Queue.take(events)), forward))
+            )
+          )
+        );
+
+        const result = yield* _(
+          new PipelineExecutor(section, events).run({ input }).pipe(
+            Effect.catchTag("NodeFailure", (failure) => Effect.fail(failure.cause)),
+            Effect.ensuring(
+              Effect.zipRight(
+                Fiber.interrupt(relay),
+                Effect.flatMap(Queue.takeAll(events), (rest) => Effect.forEach(rest, forward, { discard: true }))
+              )
+            )
+          )
+        );
+
+        // A run's output is untyped; a section's is what its egress would take
+        return result.completed ? result.output as SectionOutput<P> : Drop;
+      }),
+    close: () => Effect.forEach(nodes, (node) => node.close ? node.close() : Effect.void, { discard: true })
+  };
+}
@@ -0,0 +1,9 @@
+import { describe, it, expect } from "bun:test";
+import * as checkpoint from "./index";
+
+describe("checkpoint index", () => {
+  it("should load the stores without the Postgres nodes", () => {
+    expect(checkpoint.memoryCheckpointStore).toBeFunction();
+    expect(checkpoint.sqliteCheckpointStore).toBeFunction();
+  });
+});
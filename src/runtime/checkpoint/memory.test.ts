@@ -0,0 +1,40 @@
+import { describe, it, expect } from "bun:test";
+import { Effect, Option } from "effect";
+import { memoryCheckpointStore } from "./memory";
+import type { Checkpoint } from "../../core/checkpoint";
+
+const checkpoint: Checkpoint = {
+  runId: "run-1",
+  pipelineName: "orders",
+  nodeName: "enrich",
+  nodeIndex: 1,
+  output: { id: 1 },
+  completedAt: new Date("2024-01-01T00:00:00Z")
+};
+
+describe("memoryCheckpointStore", () => {
+  it("should use a default name", () => {
+    expect(memoryCheckpointStore().name).toBe("memory-checkpoints");
+    expect(memoryCheckpointStore("custom").name).toBe("custom");
+  });
+
+  it("should keep the latest checkpoint per run", async () => {
+    const store = memoryCheckpointStore();
+    await Effect.runPromise(store.save(checkpoint));
+    await Effect.runPromise(store.save({ ...checkpoint, nodeName: "store", nodeIndex: 2 }));
+
+    const loaded = await Effect.runPromise(store.load("run-1"));
+
+    expect(Option.getOrThrow(loaded).nodeName).toBe("store");
+    expect(store.checkpoints()).toHaveLength(1);
+  });
+
+  it("should load nothing for unknown or cleared runs", async () => {
+    const store = memoryCheckpointStore();
+    await Effect.runPromise(store.save(checkpoint));
+    await Effect.runPromise(store.clear("run-1"));
+
+    expect(Option.isNone(await Effect.runPromise(store.load("run-1")))).toBe(true);
+    expect(Option.isNone(await Effect.runPromise(store.load("other")))).toBe(true);
+  });
+});
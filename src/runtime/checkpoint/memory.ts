@@ -0,0 +1,30 @@
+import { Effect, Option } from "effect";
+import type { Checkpoint, CheckpointStore } from "../../core/checkpoint";
+
+export interface MemoryCheckpointStore extends CheckpointStore {
+  /**
+   * Checkpoints of runs that have not completed yet.
+   */
+  readonly checkpoints: () => readonly Checkpoint[];
+}
+
+/**
+ * A checkpoint store that keeps checkpoints in process memory. It survives a
+ * failed run but not the process, so it suits tests and retry-in-process
+ * setups.
+ */
+export function memoryCheckpointStore(name: string = "memory-checkpoints"): MemoryCheckpointStore {
+  const checkpoints = new Map<string, Checkpoint>();
+
+  return {
+    name,
+    save: (checkpoint) => Effect.sync(() => {
+      checkpoints.set(checkpoint.runId, checkpoint);
+    }),
+    load: (runId) => Effect.sync(() => Option.fromNullable(checkpoints.get(runId))),
+    clear: (runId) => Effect.sync(() => {
+      checkpoints.delete(runId);
+    }),
+    checkpoints: () => [...checkpoints.values()]
+  };
+}
@@ -0,0 +1,76 @@
+import { describe, it, expect, afterAll } from "bun:test";
+import { Effect, Option } from "effect";
+import { postgresCheckpointStore } from "./postgres";
+import type { Checkpoint } from "../../core/checkpoint";
+import { PostgresConnection } from "../../nodes/postgres/config";
+import { postgresAvailable, postgresTestConnection } from "../../testing/postgres";
+
+describe.skipIf(!(await postgresAvailable()))("postgresCheckpointStore", () => {
+  const store = postgresCheckpointStore();
+  const runIds: string[] = [];
+
+  const checkpoint = (): Checkpoint => {
+    const runId = `run-${crypto.randomUUID()}`;
+    runIds.push(runId);
+    return {
+      runId,
+      pipelineName: "orders",
+      nodeName: "enrich",
+      nodeIndex: 1,
+      output: { id: 1, tags: ["a"] },
+      completedAt: new Date("2024-01-01T00:00:00Z")
+    };
+  };
+
+  const run = <A, E>(effect: Effect.Effect<A, E, PostgresConnection>) =>
+    Effect.runPromise(effect.pipe(Effect.provide(postgresTestConnection)));
+
+  afterAll(() =>
+    run(
+      Effect.flatMap(PostgresConnection, ({ sql }) =>
+        Effect.promise(() => sql`DELETE FROM pipeline.checkpoints WHERE run_id IN ${sql(runIds)}`)
+      )
+    )
+  );
+
+  it("should round-trip checkpoints through JSONB", async () => {
+    const saved = checkpoint();
+    await run(store.save(saved));
+
+    const loaded = await run(store.load(saved.runId));
+
+    expect(Option.getOrThrow(loaded)).toEqual(saved);
+  });
+
+  it("should replace the checkpoint of a run", async () => {
+    const saved = checkpoint();
+    await run(store.save(saved));
+    await run(store.save({ ...saved, nodeName: "store", nodeIndex: 2, output: "done" }));
+
+    const rows = await run(
+      Effect.flatMap(PostgresConnection, ({ sql }) =>
+        Effect.promise(() => sql`SELECT node_name, output FROM pipeline.checkpoints WHERE run_id = ${saved.runId}`)
+      )
+    );
+
+    expect(store.name).toBe("postgres-checkpoints:pipeline.checkpoints");
+    expect([...rows]).toEqual([{ node_name: "store", output: "done" }]);
+  });
+
+  it("should load an output of undefined as undefined", async () => {
+    const saved = { ...checkpoint(), output: undefined };
+    await run(store.save(saved));
+
+    const loaded = await run(store.load(saved.runId));
+
+    expect(Option.getOrThrow(loaded).output).toBeUndefined();
+  });
+
+  it("should clear checkpoints", async () => {
+    const saved = checkpoint();
+    await run(store.save(saved));
+    await run(store.clear(saved.runId));
+
+    expect(Option.isNone(await run(store.load(saved.runId)))).toBe(true);
+  });
+});
@@ -0,0 +1,81 @@
+import { Effect, Option } from "effect";
+import type postgres from "postgres";
+import type { Checkpoint, CheckpointStore } from "../../core/checkpoint";
+import { PostgresConnection } from "../../nodes/postgres/config";
+import { createQueryIngress, type PostgresIngressError } from "../../nodes/postgres/ingress";
+import { createQueryEgress, createUpsertEgress, type PostgresEgressError } from "../../nodes/postgres/egress";
+
+export interface PostgresCheckpointConfig {
+  /**
+   * Table holding one row per run. Defaults to `pipeline.checkpoints`, created
+   * by `postgres/init/01-init.sql`.
+   */
+  readonly table?: string;
+}
+
+interface CheckpointRow {
+  readonly run_id: string;
+  readonly pipeline_name: string;
+  readonly node_name: string;
+  readonly node_index: number;
+  readonly output: unknown;
+  readonly completed_at: Date | string;
+}
+
+/**
+ * A checkpoint store backed by a Postgres table, with outputs in a JSONB
+ * column – an output of `null` loads as `undefined`. Saving upserts on
+ * `run_id`.
+ */
+export function postgresCheckpointStore(
+  config: PostgresCheckpointConfig = {}
+): CheckpointStore<PostgresEgressError | PostgresIngressError, PostgresConnection> {
+  const table = config.table ?? "pipeline.checkpoints";
+
+  const upsert = createUpsertEgress({
+    table,
+    columns: ["run_id", "pipeline_name", "node_name", "node_index", "output", "completed_at"],
+    conflictColumns: ["run_id"]
+  });
+  const remove = createQueryEgress<string>(`DELETE FROM ${table} WHERE run_id = $1`, (runId) => [runId]);
+
+  return {
+    name: `postgres-checkpoints:${table}`,
+    save: (checkpoint) =>
+      Effect.flatMap(PostgresConnection, ({ sql }) =>
+        Effect.asVoid(
+          upsert.execute([
+            {
+              run_id: checkpoint.runId,
+              pipeline_name: checkpoint.pipelineName,
+              node_name: checkpoint.nodeName,
+              node_index: checkpoint.nodeIndex,
+              // Passed as a string, the driver would store it as a JSON string
+              output: sql.json((checkpoint.output ?? null) as postgres.JSONValue),
+              completed_at: checkpoint.completedAt.toISOString()
+            }
+          ])
+        )
+      ),
+    load: (runId) =>
+      Effect.map(
+        createQueryIngress<CheckpointRow>({
+          sql: `SELECT run_id, pipeline_name, node_name, node_index, output, completed_at FROM ${table} WHERE run_id = $1`,
+          parameters: [runId]
+        }).execute(),
+        (rows) => Option.map(Option.fromNullable(rows[0]), fromRow)
+      ),
+    clear: (runId) => Effect.asVoid(remove.execute([runId]))
+  };
+}
+
+function fromRow(row: CheckpointRow): Checkpoint {
+  return {
+    runId: row.run_id,
+    pipelineName: row.pipeline_name,
+    nodeName: row.node_name,
+    nodeIndex: row.node_index,
+    output: row.output ?? undefined,
+    completedAt: new Date(row.completed_at)
+  };
+}
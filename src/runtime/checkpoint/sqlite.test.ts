@@ -0,0 +1,70 @@
+import { describe, it, expect, beforeEach, afterAll } from "bun:test";
+import { Database } from "bun:sqlite";
+import { unlinkSync, existsSync } from "fs";
+import { Effect, Option } from "effect";
+import { sqliteCheckpointStore } from "./sqlite";
+import type { Checkpoint } from "../../core/checkpoint";
+
+describe("sqliteCheckpointStore", () => {
+  const testDbPath = "test-checkpoints.db";
+
+  const checkpoint: Checkpoint = {
+    runId: "run-1",
+    pipelineName: "orders",
+    nodeName: "enrich",
+    nodeIndex: 1,
+    output: { id: 1, tags: ["a"] },
+    completedAt: new Date("2024-01-01T00:00:00Z")
+  };
+
+  beforeEach(() => {
+    const db = new Database(testDbPath);
+    db.exec("DROP TABLE IF EXISTS checkpoints");
+    db.exec("DROP TABLE IF EXISTS runs");
+    db.close();
+  });
+
+  afterAll(() => {
+    if (existsSync(testDbPath)) {
+      unlinkSync(testDbPath);
+    }
+  });
+
+  it("should round-trip checkpoints through JSON", async () => {
+    const store = sqliteCheckpointStore({ dbPath: testDbPath });
+    await Effect.runPromise(store.save(checkpoint));
+
+    const loaded = await Effect.runPromise(store.load("run-1"));
+
+    expect(Option.getOrThrow(loaded)).toEqual(checkpoint);
+  });
+
+  it("should replace the checkpoint of a run", async () => {
+    const store = sqliteCheckpointStore({ dbPath: testDbPath, table: "runs" });
+    await Effect.runPromise(store.save(checkpoint));
+    await Effect.runPromise(store.save({ ...checkpoint, nodeName: "store", nodeIndex: 2, output: "done" }));
+
+    const db = new Database(testDbPath);
+    const rows = db.prepare("SELECT * FROM runs").all() as any[];
+    db.close();
+
+    expect(store.name).toBe("sqlite-checkpoints:runs");
+    expect(rows).toHaveLength(1);
+    expect(rows[0].node_name).toBe("store");
+    expect(JSON.parse(rows[0].output)).toBe("done");
+  });
+
+  it("should clear checkpoints", async () => {
+    const store = sqliteCheckpointStore({ dbPath: testDbPath });
+    await Effect.runPromise(store.save(checkpoint));
+    await Effect.runPromise(store.clear("run-1"));
+
+    expect(Option.isNone(await Effect.runPromise(store.load("run-1")))).toBe(true);
+  });
+
+  it("should fail with a descriptive error", async () => {
+    const store = sqliteCheckpointStore({ dbPath: "/nonexistent/dir/checkpoints.db" });
+
+    await expect(Effect.runPromise(store.load("run-1"))).rejects.toThrow("SQLite checkpoint error");
+  });
+});
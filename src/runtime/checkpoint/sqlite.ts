@@ -0,0 +1,89 @@
+import { Database } from "bun:sqlite";
+import { Effect, Option } from "effect";
+import type { Checkpoint, CheckpointStore } from "../../core/checkpoint";
+
+export interface SqliteCheckpointConfig {
+  readonly dbPath: string;
+  /**
+   * Table holding one row per run – created on first use. Defaults to `checkpoints`.
+   */
+  readonly table?: string;
+}
+
+interface CheckpointRow {
+  readonly run_id: string;
+  readonly pipeline_name: string;
+  readonly node_name: string;
+  readonly node_index: number;
+  readonly output: string | null;
+  readonly completed_at: string;
+}
+
+/**
+ * A checkpoint store backed by a SQLite table. Outputs are stored as JSON
+ * text, so they must be JSON-serialisable to resume faithfully.
+ */
+export function sqliteCheckpointStore(config: SqliteCheckpointConfig): CheckpointStore<Error> {
+  const table = config.table ?? "checkpoints";
+
+  const withDb = <A>(use: (db: Database) => A): Effect.Effect<A, Error> =>
+    Effect.try({
+      try: () => {
+        const db = new Database(config.dbPath);
+
+        try {
+          db.exec(`
+            CREATE TABLE IF NOT EXISTS ${table} (
+              run_id TEXT PRIMARY KEY,
+              pipeline_name TEXT NOT NULL,
+              node_name TEXT NOT NULL,
+              node_index INTEGER NOT NULL,
+              output TEXT,
+              completed_at TEXT NOT NULL
+            )
+          `);
+          return use(db);
+        } finally {
+          db.close();
+        }
+      },
+      catch: (error) => new Error(`SQLite checkpoint error: ${error}`)
+    });
+
+  return {
+    name: `sqlite-checkpoints:${table}`,
+    save: (checkpoint) =>
+      withDb((db) => {
+        db.prepare(
+          `INSERT OR REPLACE INTO ${table} (run_id, pipeline_name, node_name, node_index, output, completed_at) VALUES (?, ?, ?, ?, ?, ?)`
+        ).run(
+          checkpoint.runId,
+          checkpoint.pipelineName,
+          checkpoint.nodeName,
+          checkpoint.nodeIndex,
+          JSON.stringify(checkpoint.output) ?? null,
+          checkpoint.completedAt.toISOString()
+        );
+      }),
+    load: (runId) =>
+      withDb((db) => {
+        const row = db.prepare(`SELECT * FROM ${table} WHERE run_id = ?`).get(runId) as CheckpointRow | null;
+        return Option.map(Option.fromNullable(row), fromRow);
+      }),
+    clear: (runId) =>
+      withDb((db) => {
+        db.prepare(`DELETE FROM ${table} WHERE run_id = ?`).run(runId);
+      })
+  };
+}
+
+function fromRow(row: CheckpointRow): Checkpoint {
+  return {
+    runId: row.run_id,
+    pipelineName: row.pipeline_name,
+    nodeName: row.node_name,
+    nodeIndex: row.node_index,
+    output: row.output === null ? undefined : JSON.parse(row.output),
+    completedAt: new Date(row.completed_at)
+  };
+}
@@ -0,0 +1,10 @@
+import { describe, it, expect } from "bun:test";
+import * as deadLetter from "./index";
+
+describe("deadLetter index", () => {
+  it("should load the sinks without the Postgres nodes", () => {
+    expect(deadLetter.memoryDeadLetterSink).toBeFunction();
+    expect(deadLetter.sqliteDeadLetterSink).toBeFunction();
+    expect(deadLetter.serializeError).toBeFunction();
+  });
+});
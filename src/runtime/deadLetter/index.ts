@@ -0,0 +1,5 @@
+// postgresDeadLetterSink is imported from "./postgres" itself, so using the
+// other sinks does not load the Postgres nodes
+export * from "./memory";
+export * from "./sqlite";
+export * from "./serialize";
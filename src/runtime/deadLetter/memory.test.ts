@@ -0,0 +1,39 @@
+import { describe, it, expect } from "bun:test";
+import { Effect } from "effect";
+import { memoryDeadLetterSink } from "./memory";
+import type { DeadLetter } from "../../core/deadLetter";
+
+const letter: DeadLetter = {
+  pipelineName: "orders",
+  nodeName: "enrich",
+  input: { id: 1 },
+  error: new Error("boom"),
+  attempts: 3,
+  failedAt: new Date("2024-01-01T00:00:00Z")
+};
+
+describe("memoryDeadLetterSink", () => {
+  it("should use a default name", () => {
+    expect(memoryDeadLetterSink().name).toBe("memory-dead-letters");
+    expect(memoryDeadLetterSink("custom").name).toBe("custom");
+  });
+
+  it("should keep letters in order", async () => {
+    const sink = memoryDeadLetterSink();
+    await Effect.runPromise(sink.send(letter));
+    await Effect.runPromise(sink.send({ ...letter, input: { id: 2 } }));
+
+    expect(sink.letters().map((l) => l.input)).toEqual([{ id: 1 }, { id: 2 }]);
+  });
+
+  it("should return a snapshot and support clearing", async () => {
+    const sink = memoryDeadLetterSink();
+    await Effect.runPromise(sink.send(letter));
+
+    const snapshot = sink.letters();
+    sink.clear();
+
+    expect(snapshot).toHaveLength(1);
+    expect(sink.letters()).toHaveLength(0);
+  });
+});
@@ -0,0 +1,29 @@
+import { Effect } from "effect";
+import type { DeadLetter, DeadLetterSink } from "../../core/deadLetter";
+
+export interface MemoryDeadLetterSink extends DeadLetterSink {
+  /**
+   * Letters received so far, oldest first.
+   */
+  readonly letters: () => readonly DeadLetter[];
+  readonly clear: () => void;
+}
+
+/**
+ * A dead-letter sink that keeps letters in process memory. Handy for tests
+ * and for short-lived pipelines that report failures at the end of a run.
+ */
+export function memoryDeadLetterSink(name: string = "memory-dead-letters"): MemoryDeadLetterSink {
+  let letters: DeadLetter[] = [];
+
+  return {
+    name,
+    send: (letter) => Effect.sync(() => {
+      letters.push(letter);
+    }),
+    letters: () => [...letters],
+    clear: () => {
+      letters = [];
+    }
+  };
+}
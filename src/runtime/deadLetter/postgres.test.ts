@@ -0,0 +1,71 @@
+import { describe, it, expect, afterAll } from "bun:test";
+import { Effect } from "effect";
+import { postgresDeadLetterSink } from "./postgres";
+import type { DeadLetter } from "../../core/deadLetter";
+import { PostgresConnection } from "../../nodes/postgres/config";
+import { postgresAvailable, postgresTestConnection } from "../../testing/postgres";
+
+describe.skipIf(!(await postgresAvailable()))("postgresDeadLetterSink", () => {
+  // Rows of this run only, so runs against a shared database stay apart
+  const outputType = `dead_letter_test_${crypto.randomUUID()}`;
+
+  const letter: DeadLetter = {
+    pipelineName: "orders",
+    nodeName: "enrich",
+    input: { id: 1 },
+    error: new Error("boom"),
+    attempts: 2,
+    failedAt: new Date("2024-01-01T00:00:00Z")
+  };
+
+  const rows = () =>
+    Effect.runPromise(
+      Effect.flatMap(PostgresConnection, ({ sql }) =>
+        Effect.promise(async () => [
+          ...await sql`SELECT data, destination, status FROM pipeline.outputs WHERE output_type = ${outputType} ORDER BY id`
+        ])
+      ).pipe(Effect.provide(postgresTestConnection))
+    );
+
+  afterAll(() =>
+    Effect.runPromise(
+      Effect.flatMap(PostgresConnection, ({ sql }) =>
+        Effect.promise(() => sql`DELETE FROM pipeline.outputs WHERE output_type = ${outputType}`)
+      ).pipe(Effect.provide(postgresTestConnection))
+    )
+  );
+
+  it("should store letters in pipeline.outputs with their data as JSONB", async () => {
+    const sink = postgresDeadLetterSink({ outputType, status: "parked" });
+    await Effect.runPromise(sink.send(letter).pipe(Effect.provide(postgresTestConnection)));
+
+    expect(await rows()).toEqual([
+      {
+        data: {
+          pipelineName: "orders",
+          input: { id: 1 },
+          error: { name: "Error", message: "boom" },
+          attempts: 2,
+          failedAt: "2024-01-01T00:00:00.000Z"
+        },
+        destination: "enrich",
+        status: "parked"
+      }
+    ]);
+  });
+
+  it("should fail with a PostgresEgressError on an input JSON cannot represent", async () => {
+    const input: Record<string, unknown> = { id: 2 };
+    input.self = input;
+    const sink = postgresDeadLetterSink({ outputType });
+    const stored = (await rows()).length;
+
+    const error = await Effect.runPromise(
+      Effect.flip(sink.send({ ...letter, input })).pipe(Effect.provide(postgresTestConnection))
+    );
+
+    expect(error._tag).toBe("PostgresEgressError");
+    expect(error.message).toContain("Cannot serialize dead letter from enrich");
+    expect(await rows()).toHaveLength(stored);
+  });
+});
@@ -0,0 +1,68 @@
+import { Effect } from "effect";
+import type postgres from "postgres";
+import type { DeadLetterSink } from "../../core/deadLetter";
+import { PostgresConnection } from "../../nodes/postgres/config";
+import { createInsertEgress, PostgresEgressError } from "../../nodes/postgres/egress";
+import { serializeError } from "./serialize";
+
+export interface PostgresDeadLetterConfig {
+  /**
+   * Value written to `pipeline.outputs.output_type`. Defaults to `dead_letter`.
+   */
+  readonly outputType?: string;
+  /**
+   * Value written to `pipeline.outputs.status`. Defaults to `dead_letter`.
+   */
+  readonly status?: string;
+}
+
+/**
+ * A dead-letter sink that records letters in the existing `pipeline.outputs`
+ * table. The failing Node is stored as the `destination`; the pipeline name,
+ * input, error, and attempt count go into the JSONB `data` column. An input
+ * that cannot be serialized – a circular one, say – fails the sink.
+ */
+export function postgresDeadLetterSink(
+  config: PostgresDeadLetterConfig = {}
+): DeadLetterSink<PostgresEgressError, PostgresConnection> {
+  const egress = createInsertEgress({
+    table: "pipeline.outputs",
+    columns: ["output_type", "data", "destination", "status"]
+  });
+
+  return {
+    name: "postgres-dead-letters",
+    send: (letter) =>
+      Effect.gen(function* (_) {
+        // Round-trip through JSON first, so an input it cannot represent fails
+        // here rather than in the driver
+        const data = yield* _(
+          Effect.try({
+            try: () =>
+              JSON.parse(
+                JSON.stringify({
+                  pipelineName: letter.pipelineName,
+                  input: letter.input,
+                  error: serializeError(letter.error),
+                  attempts: letter.attempts,
+                  failedAt: letter.failedAt.toISOString()
+                })
+              ) as postgres.JSONValue,
+            catch: (cause) =>
+              new PostgresEgressError({ message: `Cannot serialize dead letter from ${letter.nodeName}: ${cause}`, cause })
+          })
+        );
+        const { sql } = yield* _(PostgresConnection);
+        yield* _(
+          egress.execute([
+            {
+              output_type: config.outputType ?? "dead_letter",
+              data: sql.json(data),
+              destination: letter.nodeName,
+              status: config.status ?? "dead_letter"
+            }
+          ])
+        );
+      })
+  };
+}
@@ -0,0 +1,25 @@
+import { describe, it, expect } from "bun:test";
+import { Data } from "effect";
+import { serializeError } from "./serialize";
+
+class TestError extends Data.TaggedError("TestError")<{
+  readonly message: string;
+  readonly code: number;
+}> {}
+
+describe("serializeError", () => {
+  it("should keep name and message of plain errors", () => {
+    expect(serializeError(new Error("boom"))).toEqual({ name: "Error", message: "boom" });
+  });
+
+  it("should keep the tag and fields of tagged errors", () => {
+    const serialized = serializeError(new TestError({ message: "bad input", code: 42 }));
+
+    expect(serialized).toMatchObject({ _tag: "TestError", message: "bad input", code: 42 });
+  });
+
+  it("should pass through non-error values", () => {
+    expect(serializeError("boom")).toBe("boom");
+    expect(serializeError({ reason: "boom" })).toEqual({ reason: "boom" });
+  });
+});
@@ -0,0 +1,14 @@
+/**
+ * Convert a dead-letter error into a JSON-friendly value. `Error` instances
+ * keep their name, message, and any own fields such as a `_tag`.
+ */
+export function serializeError(error: unknown): unknown {
+  if (error instanceof Error) {
+    return {
+      ...Object.fromEntries(Object.entries(error)),
+      name: error.name,
+      message: error.message
+    };
+  }
+  return error;
+}
@@ -0,0 +1,68 @@
+import { describe, it, expect, beforeEach, afterAll } from "bun:test";
+import { Database } from "bun:sqlite";
+import { unlinkSync, existsSync } from "fs";
+import { Effect } from "effect";
+import { sqliteDeadLetterSink } from "./sqlite";
+import type { DeadLetter } from "../../core/deadLetter";
+
+describe("sqliteDeadLetterSink", () => {
+  const testDbPath = "test-dead-letters.db";
+
+  const letter: DeadLetter = {
+    pipelineName: "orders",
+    nodeName: "enrich",
+    input: { id: 1 },
+    error: new Error("boom"),
+    attempts: 2,
+    failedAt: new Date("2024-01-01T00:00:00Z")
+  };
+
+  beforeEach(() => {
+    const db = new Database(testDbPath);
+    db.exec("DROP TABLE IF EXISTS dead_letters");
+    db.exec("DROP TABLE IF EXISTS failures");
+    db.close();
+  });
+
+  afterAll(() => {
+    if (existsSync(testDbPath)) {
+      unlinkSync(testDbPath);
+    }
+  });
+
+  it("should create the table and store letters as JSON", async () => {
+    const sink = sqliteDeadLetterSink({ dbPath: testDbPath });
+    await Effect.runPromise(sink.send(letter));
+
+    const db = new Database(testDbPath);
+    const rows = db.prepare("SELECT * FROM dead_letters").all() as any[];
+    db.close();
+
+    expect(rows).toHaveLength(1);
+    expect(rows[0].pipeline_name).toBe("orders");
+    expect(rows[0].node_name).toBe("enrich");
+    expect(JSON.parse(rows[0].input)).toEqual({ id: 1 });
+    expect(JSON.parse(rows[0].error)).toEqual({ name: "Error", message: "boom" });
+    expect(rows[0].attempts).toBe(2);
+    expect(rows[0].failed_at).toBe("2024-01-01T00:00:00.000Z");
+  });
+
+  it("should support a custom table name", async () => {
+    const sink = sqliteDeadLetterSink({ dbPath: testDbPath, table: "failures" });
+    await Effect.runPromise(sink.send(letter));
+    await Effect.runPromise(sink.send({ ...letter, input: undefined }));
+
+    const db = new Database(testDbPath);
+    const rows = db.prepare("SELECT input FROM failures ORDER BY id").all() as any[];
+    db.close();
+
+    expect(sink.name).toBe("sqlite-dead-letters:failures");
+    expect(rows.map((row) => row.input)).toEqual(['{"id":1}', null]);
+  });
+
+  it("should fail with a descriptive error when the database is unusable", async () => {
+    const sink = sqliteDeadLetterSink({ dbPath: "/nonexistent/dir/dead.db" });
+
+    await expect(Effect.runPromise(sink.send(letter))).rejects.toThrow("SQLite dead-letter error");
+  });
+});
@@ -0,0 +1,57 @@
+import { Database } from "bun:sqlite";
+import { Effect } from "effect";
+import type { DeadLetterSink } from "../../core/deadLetter";
+import { serializeError } from "./serialize";
+
+export interface SqliteDeadLetterConfig {
+  readonly dbPath: string;
+  /**
+   * Table receiving the letters – created on first use. Defaults to `dead_letters`.
+   */
+  readonly table?: string;
+}
+
+/**
+ * A dead-letter sink that appends letters to a SQLite table. Inputs and errors
+ * are stored as JSON text.
+ */
+export function sqliteDeadLetterSink(config: SqliteDeadLetterConfig): DeadLetterSink<Error> {
+  const table = config.table ?? "dead_letters";
+
+  return {
+    name: `sqlite-dead-letters:${table}`,
+    send: (letter) =>
+      Effect.try({
+        try: () => {
+          const db = new Database(config.dbPath);
+
+          try {
+            db.exec(`
+              CREATE TABLE IF NOT EXISTS ${table} (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                pipeline_name TEXT NOT NULL,
+                node_name TEXT NOT NULL,
+                input TEXT,
+                error TEXT,
+                attempts INTEGER NOT NULL,
+                failed_at TEXT NOT NULL
+              )
+            `);
+            db.prepare(
+              `INSERT INTO ${table} (pipeline_name, node_name, input, error, attempts, failed_at) VALUES (?, ?, ?, ?, ?, ?)`
+            ).run(
+              letter.pipelineName,
+              letter.nodeName,
+              JSON.stringify(letter.input) ?? null,
+              JSON.stringify(serializeError(letter.error)) ?? null,
+              letter.attempts,
+              letter.failedAt.toISOString()
+            );
+          } finally {
+            db.close();
+          }
+        },
+        catch: (error) => new Error(`SQLite dead-letter error: ${error}`)
+      })
+  };
+}
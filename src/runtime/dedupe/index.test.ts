@@ -0,0 +1,9 @@
+import { describe, it, expect } from "bun:test";
+import * as dedupe from "./index";
+
+describe("dedupe index", () => {
+  it("should load the stores without the Postgres nodes", () => {
+    expect(dedupe.memoryDedupeStore).toBeFunction();
+    expect(dedupe.sqliteDedupeStore).toBeFunction();
+  });
+});
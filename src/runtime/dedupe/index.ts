@@ -0,0 +1,4 @@
+// postgresDedupeStore is imported from "./postgres" itself, so using the
+// other stores does not load the Postgres nodes
+export * from "./memory";
+export * from "./sqlite";
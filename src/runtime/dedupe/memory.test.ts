@@ -0,0 +1,56 @@
+import { describe, it, expect } from "bun:test";
+import { Effect } from "effect";
+import { memoryDedupeStore } from "./memory";
+
+const at = (ms: number) => new Date(ms);
+
+describe("memoryDedupeStore", () => {
+  it("should use a default name", () => {
+    expect(memoryDedupeStore().name).toBe("memory-dedupe");
+    expect(memoryDedupeStore("custom").name).toBe("custom");
+  });
+
+  it("should report a key as new only until it expires", async () => {
+    const store = memoryDedupeStore();
+
+    const seen = await Effect.runPromise(
+      Effect.all([
+        store.markSeen("a", at(0), at(100)),
+        store.markSeen("a", at(50), at(150)),
+        store.markSeen("b", at(50), at(150)),
+        store.markSeen("a", at(100), at(200)),
+        store.markSeen("a", at(150), at(250))
+      ])
+    );
+
+    expect(seen).toEqual([true, false, true, true, false]);
+  });
+
+  it("should tell recorded keys without recording them", async () => {
+    const store = memoryDedupeStore();
+
+    const seen = await Effect.runPromise(
+      Effect.all([
+        store.seen("a", at(0)),
+        store.markSeen("a", at(0), at(100)),
+        store.seen("a", at(50)),
+        store.seen("a", at(100))
+      ])
+    );
+
+    expect(seen).toEqual([false, true, true, false]);
+    expect(store.keys()).toEqual(["a"]);
+  });
+
+  it("should sweep expired keys as it records new ones", async () => {
+    const store = memoryDedupeStore();
+
+    await Effect.runPromise(
+      Effect.forEach(Array.from({ length: 1000 }, (_, i) => i), (i) =>
+        store.markSeen(`key-${i}`, at(i), at(i + 10))
+      )
+    );
+
+    expect(store.keys()).toHaveLength(10);
+  });
+});
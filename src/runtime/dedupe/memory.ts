@@ -0,0 +1,45 @@
+import { Effect } from "effect";
+import type { DedupeStore } from "../../core/dedupe";
+
+export interface MemoryDedupeStore extends DedupeStore {
+  /**
+   * Keys currently recorded, including expired ones not yet swept.
+   */
+  readonly keys: () => readonly string[];
+}
+
+// Expired keys are swept once this many keys have been recorded since the last sweep
+const SWEEP_EVERY = 1000;
+
+/**
+ * A dedupe store that keeps keys in process memory. Duplicates delivered
+ * after a restart are not recognised, so it suits tests and sources that
+ * only redeliver within a process.
+ */
+export function memoryDedupeStore(name: string = "memory-dedupe"): MemoryDedupeStore {
+  const expiries = new Map<string, number>();
+  let sinceSweep = 0;
+
+  return {
+    name,
+    seen: (key, now) => Effect.sync(() => (expiries.get(key) ?? -Infinity) > now.getTime()),
+    markSeen: (key, now, expiresAt) => Effect.sync(() => {
+      const expiry = expiries.get(key);
+      if (expiry !== undefined && expiry > now.getTime()) {
+        return false;
+      }
+
+      expiries.set(key, expiresAt.getTime());
+      if (++sinceSweep >= SWEEP_EVERY) {
+        sinceSweep = 0;
+        for (const [recorded, until] of expiries) {
+          if (until <= now.getTime()) {
+            expiries.delete(recorded);
+          }
+        }
+      }
+      return true;
+    }),
+    keys: () => [...expiries.keys()]
+  };
+}
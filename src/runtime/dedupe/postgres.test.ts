@@ -0,0 +1,78 @@
+import { describe, it, expect, afterAll } from "bun:test";
+import { Effect } from "effect";
+import { postgresDedupeStore } from "./postgres";
+import { PostgresConnection } from "../../nodes/postgres/config";
+import { postgresAvailable, postgresTestConnection } from "../../testing/postgres";
+
+const at = (ms: number) => new Date(ms);
+
+describe.skipIf(!(await postgresAvailable()))("postgresDedupeStore", () => {
+  // Keys of this run only, so runs against a shared database stay apart
+  const prefix = `dedupe-test-${crypto.randomUUID()}`;
+  const key = (name: string) => `${prefix}:${name}`;
+
+  const run = <A, E>(effect: Effect.Effect<A, E, PostgresConnection>) =>
+    Effect.runPromise(effect.pipe(Effect.provide(postgresTestConnection)));
+
+  afterAll(() =>
+    run(
+      Effect.flatMap(PostgresConnection, ({ sql }) =>
+        Effect.promise(() => sql`DELETE FROM pipeline.dedupe_keys WHERE key LIKE ${`${prefix}:%`}`)
+      )
+    )
+  );
+
+  it("should report a key as new only until it expires", async () => {
+    const store = postgresDedupeStore();
+
+    const seen = await run(
+      Effect.all([
+        store.markSeen(key("a"), at(0), at(100)),
+        store.markSeen(key("a"), at(50), at(150)),
+        store.markSeen(key("b"), at(50), at(150)),
+        store.markSeen(key("a"), at(100), at(200)),
+        store.markSeen(key("a"), at(150), at(250))
+      ])
+    );
+
+    expect(seen).toEqual([true, false, true, true, false]);
+  });
+
+  it("should tell recorded keys without recording them", async () => {
+    const store = postgresDedupeStore();
+
+    const seen = await run(
+      Effect.all([
+        store.seen(key("c"), at(0)),
+        store.markSeen(key("c"), at(0), at(100)),
+        store.seen(key("c"), at(50)),
+        store.seen(key("c"), at(100)),
+        store.seen(key("d"), at(50))
+      ])
+    );
+
+    expect(seen).toEqual([false, true, true, false, false]);
+  });
+
+  it("should share keys between store instances", async () => {
+    await run(postgresDedupeStore().markSeen(key("e"), at(0), at(100)));
+
+    const seen = await run(postgresDedupeStore().markSeen(key("e"), at(10), at(110)));
+
+    expect(seen).toBe(false);
+  });
+
+  it("should keep one row per key", async () => {
+    const store = postgresDedupeStore();
+    await run(Effect.all([store.markSeen(key("f"), at(0), at(100)), store.markSeen(key("f"), at(100), at(200))]));
+
+    const rows = await run(
+      Effect.flatMap(PostgresConnection, ({ sql }) =>
+        Effect.promise(() => sql`SELECT expires_at FROM pipeline.dedupe_keys WHERE key = ${key("f")}`)
+      )
+    );
+
+    expect(store.name).toBe("postgres-dedupe:pipeline.dedupe_keys");
+    expect(rows.map((row) => row.expires_at)).toEqual([at(200)]);
+  });
+});
@@ -0,0 +1,44 @@
+import { Effect } from "effect";
+import type { DedupeStore } from "../../core/dedupe";
+import type { PostgresConnection } from "../../nodes/postgres/config";
+import { createQueryEgress, type PostgresEgressError } from "../../nodes/postgres/egress";
+import { createQueryIngress, type PostgresIngressError } from "../../nodes/postgres/ingress";
+
+export interface PostgresDedupeConfig {
+  /**
+   * Table holding one row per key. Defaults to `pipeline.dedupe_keys`, created
+   * by `postgres/init/01-init.sql`.
+   */
+  readonly table?: string;
+}
+
+/**
+ * A dedupe store backed by a Postgres table, shared by every process using
+ * the database. A key is recorded with an upsert that only overwrites
+ * expired rows; the affected row count tells new keys from duplicates.
+ */
+export function postgresDedupeStore(
+  config: PostgresDedupeConfig = {}
+): DedupeStore<PostgresEgressError | PostgresIngressError, PostgresConnection> {
+  const table = config.table ?? "pipeline.dedupe_keys";
+
+  const mark = createQueryEgress<{ key: string; now: Date; expiresAt: Date }>(
+    `INSERT INTO ${table} (key, expires_at) VALUES ($1, $2)
+     ON CONFLICT (key) DO UPDATE SET expires_at = EXCLUDED.expires_at WHERE ${table}.expires_at <= $3`,
+    ({ key, now, expiresAt }) => [key, expiresAt.toISOString(), now.toISOString()]
+  );
+
+  return {
+    name: `postgres-dedupe:${table}`,
+    seen: (key, now) =>
+      Effect.map(
+        createQueryIngress<{ readonly key: string }>({
+          sql: `SELECT key FROM ${table} WHERE key = $1 AND expires_at > $2`,
+          parameters: [key, now.toISOString()]
+        }).execute(),
+        (rows) => rows.length > 0
+      ),
+    markSeen: (key, now, expiresAt) =>
+      Effect.map(mark.execute([{ key, now, expiresAt }]), ({ rowsAffected }) => rowsAffected > 0)
+  };
+}
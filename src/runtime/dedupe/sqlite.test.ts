@@ -0,0 +1,76 @@
+import { describe, it, expect, beforeEach, afterAll } from "bun:test";
+import { Database } from "bun:sqlite";
+import { unlinkSync, existsSync } from "fs";
+import { Effect } from "effect";
+import { sqliteDedupeStore } from "./sqlite";
+
+const at = (ms: number) => new Date(ms);
+
+describe("sqliteDedupeStore", () => {
+  const testDbPath = "test-dedupe.db";
+
+  beforeEach(() => {
+    const db = new Database(testDbPath);
+    db.exec("DROP TABLE IF EXISTS dedupe_keys");
+    db.close();
+  });
+
+  afterAll(() => {
+    if (existsSync(testDbPath)) {
+      unlinkSync(testDbPath);
+    }
+  });
+
+  it("should report a key as new only until it expires", async () => {
+    const store = sqliteDedupeStore({ dbPath: testDbPath });
+
+    const seen = await Effect.runPromise(
+      Effect.all([
+        store.markSeen("a", at(0), at(100)),
+        store.markSeen("a", at(50), at(150)),
+        store.markSeen("b", at(50), at(150)),
+        store.markSeen("a", at(100), at(200)),
+        store.markSeen("a", at(150), at(250))
+      ])
+    );
+
+    expect(seen).toEqual([true, false, true, true, false]);
+  });
+
+  it("should tell recorded keys without recording them", async () => {
+    const store = sqliteDedupeStore({ dbPath: testDbPath });
+
+    const seen = await Effect.runPromise(
+      Effect.all([
+        store.seen("a", at(0)),
+        store.markSeen("a", at(0), at(100)),
+        store.seen("a", at(50)),
+        store.seen("a", at(100)),
+        store.seen("b", at(50))
+      ])
+    );
+
+    expect(seen).toEqual([false, true, true, false, false]);
+  });
+
+  it("should remember keys across store instances", async () => {
+    await Effect.runPromise(sqliteDedupeStore({ dbPath: testDbPath }).markSeen("a", at(0), at(100)));
+
+    const seen = await Effect.runPromise(sqliteDedupeStore({ dbPath: testDbPath }).markSeen("a", at(10), at(110)));
+
+    expect(seen).toBe(false);
+  });
+
+  it("should use a custom table", async () => {
+    const store = sqliteDedupeStore({ dbPath: testDbPath, table: "webhook_deliveries" });
+    await Effect.runPromise(store.markSeen("a", at(0), at(100)));
+
+    const db = new Database(testDbPath);
+    const rows = db.query("SELECT key, expires_at FROM webhook_deliveries").all();
+    db.exec("DROP TABLE webhook_deliveries");
+    db.close();
+
+    expect(store.name).toBe("sqlite-dedupe:webhook_deliveries");
+    expect(rows).toEqual([{ key: "a", expires_at: 100 }]);
+  });
+});
@@ -0,0 +1,56 @@
+import { Database } from "bun:sqlite";
+import { Effect } from "effect";
+import type { DedupeStore } from "../../core/dedupe";
+
+export interface SqliteDedupeConfig {
+  readonly dbPath: string;
+  /**
+   * Table holding one row per key – created on first use. Defaults to `dedupe_keys`.
+   */
+  readonly table?: string;
+}
+
+/**
+ * A dedupe store backed by a SQLite table. A key is recorded with an upsert
+ * that only overwrites expired rows, so the number of changed rows tells new
+ * keys from duplicates.
+ */
+export function sqliteDedupeStore(config: SqliteDedupeConfig): DedupeStore<Error> {
+  const table = config.table ?? "dedupe_keys";
+
+  const withDb = <A>(use: (db: Database) => A): Effect.Effect<A, Error> =>
+    Effect.try({
+      try: () => {
+        const db = new Database(config.dbPath);
+
+        try {
+          db.exec(`
+            CREATE TABLE IF NOT EXISTS ${table} (
+              key TEXT PRIMARY KEY,
+              expires_at INTEGER NOT NULL
+            )
+          `);
+          return use(db);
+        } finally {
+          db.close();
+        }
+      },
+      catch: (error) => new Error(`SQLite dedupe error: ${error}`)
+    });
+
+  return {
+    name: `sqlite-dedupe:${table}`,
+    seen: (key, now) =>
+      withDb((db) =>
+        db.prepare(`SELECT 1 FROM ${table} WHERE key = ? AND expires_at > ?`).get(key, now.getTime()) !== null
+      ),
+    markSeen: (key, now, expiresAt) =>
+      withDb((db) => {
+        const { changes } = db.prepare(
+          `INSERT INTO ${table} (key, expires_at) VALUES (?, ?)
+           ON CONFLICT(key) DO UPDATE SET expires_at = excluded.expires_at WHERE ${table}.expires_at <= ?`
+        ).run(key, expiresAt.getTime(), now.getTime());
+        return changes > 0;
+      })
+  };
+}
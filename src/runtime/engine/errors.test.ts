@@ -0,0 +1,60 @@
+import { describe, it, expect } from "bun:test";
+import { Effect } from "effect";
+import { NodeFailure, NodeTimeoutError, PipelineTimeoutError } from "./errors";
+import { NodeKind } from "../../core/node";
+
+describe("engine errors", () => {
+  it("should tag NodeTimeoutError with the node and elapsed time", () => {
+    const error = new NodeTimeoutError({
+      message: "Node slow timed out after 500ms",
+      nodeName: "slow",
+      elapsedMs: 500
+    });
+
+    expect(error._tag).toBe("NodeTimeoutError");
+    expect(error).toBeInstanceOf(Error);
+    expect(error.message).toBe("Node slow timed out after 500ms");
+    expect(error.nodeName).toBe("slow");
+    expect(error.elapsedMs).toBe(500);
+  });
+
+  it("should tag PipelineTimeoutError with the pipeline and elapsed time", () => {
+    const error = new PipelineTimeoutError({
+      message: "Pipeline \"p\" timed out after 1000ms",
+      pipelineName: "p",
+      elapsedMs: 1000
+    });
+
+    expect(error._tag).toBe("PipelineTimeoutError");
+    expect(error.pipelineName).toBe("p");
+    expect(error.elapsedMs).toBe(1000);
+  });
+
+  it("should tag NodeFailure with the node, its cause and input", () => {
+    const cause = new Error("connection refused");
+    const error = new NodeFailure({
+      message: "Node store failed: Error: connection refused",
+      nodeName: "store",
+      nodeKind: NodeKind.Egress,
+      cause,
+      input: { id: 1 }
+    });
+
+    expect(error._tag).toBe("NodeFailure");
+    expect(error).toBeInstanceOf(Error);
+    expect(error.message).toBe("Node store failed: Error: connection refused");
+    expect(error.nodeKind).toBe(NodeKind.Egress);
+    expect(error.cause).toBe(cause);
+    expect(error.input).toEqual({ id: 1 });
+  });
+
+  it("should be catchable by tag", async () => {
+    const result = await Effect.runPromise(
+      Effect.fail(new NodeTimeoutError({ message: "timeout", nodeName: "n", elapsedMs: 1 })).pipe(
+        Effect.catchTag("NodeTimeoutError", (error) => Effect.succeed(error.nodeName))
+      )
+    );
+
+    expect(result).toBe("n");
+  });
+});
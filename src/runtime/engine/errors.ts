@@ -0,0 +1,69 @@
+import { Data } from "effect";
+import type { NodeKind } from "../../core/node";
+
+/**
+ * Raised when a single Node attempt exceeds the Node's `timeout`. The
+ * attempt's fiber is interrupted before this error is produced.
+ */
+export class NodeTimeoutError extends Data.TaggedError("NodeTimeoutError")<{
+  readonly message: string;
+  readonly nodeName: string;
+  readonly elapsedMs: number;
+}> {}
+
+/**
+ * Raised when a whole pipeline run exceeds the Pipe's `timeout`. Every
+ * running stage is interrupted before this error is produced.
+ */
+export class PipelineTimeoutError extends Data.TaggedError("PipelineTimeoutError")<{
+  readonly message: string;
+  readonly pipelineName: string;
+  readonly elapsedMs: number;
+}> {}
+
+/**
+ * Raised when a pipeline asked to stop still has items in flight once the
+ * drain deadline passes. The remaining stages are interrupted first.
+ */
+export class DrainTimeoutError extends Data.TaggedError("DrainTimeoutError")<{
+  readonly message: string;
+  readonly pipelineName: string;
+  readonly elapsedMs: number;
+}> {}
+
+/**
+ * Raised when a Node's `rateLimit` names a limiter that no `RateLimiters`
+ * service provides. It fails the run before the Node is attempted, so the
+ * item is neither retried nor dead-lettered.
+ */
+export class RateLimiterNotProvidedError extends Data.TaggedError("RateLimiterNotProvidedError")<{
+  readonly message: string;
+  readonly nodeName: string;
+  readonly limiterName: string;
+}> {}
+
+/**
+ * Raised when a Node fails for good – after its retries, without a dead-letter
+ * sink to take the item. `cause` is the Node's own error, so callers can
+ * match on it; `input` is the item it failed on, as `redactInput` left it.
+ */
+export class NodeFailure<E = unknown> extends Data.TaggedError("NodeFailure")<{
+  readonly message: string;
+  readonly nodeName: string;
+  readonly nodeKind: NodeKind;
+  readonly cause: E;
+  readonly input: unknown;
+}> {}
+
+/**
+ * Everything a pipeline run fails with. Node failures carry the Nodes' error
+ * union `E`; plain `Error`s report a misconfigured run – an unknown route
+ * branch, a missing checkpoint, a failing checkpoint store.
+ */
+export type PipelineError<E = never> =
+  | NodeFailure<E>
+  | NodeTimeoutError
+  | PipelineTimeoutError
+  | DrainTimeoutError
+  | RateLimiterNotProvidedError
+  | Error;
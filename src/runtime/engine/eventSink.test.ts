@@ -0,0 +1,39 @@
+import { describe, it, expect } from "bun:test";
+import { Chunk, Effect, FiberRef, Option, Queue } from "effect";
+import { currentEventSink } from "./eventSink";
+import { PipelineExecutor } from "./executor";
+import { NodeKind } from "../../core/node";
+import type { RuntimeEvent } from "../../core/event";
+
+describe("currentEventSink", () => {
+  it("should be empty outside of an executor", async () => {
+    const sink = await Effect.runPromise(FiberRef.get(currentEventSink));
+
+    expect(Option.isNone(sink)).toBe(true);
+  });
+
+  it("should emit into the run's queue while a node runs", async () => {
+    const eventQueue = await Effect.runPromise(Queue.unbounded<RuntimeEvent>());
+    const executor = new PipelineExecutor(
+      {
+        name: "reporting",
+        nodes: [
+          {
+            kind: NodeKind.Ingress,
+            name: "reporter",
+            run: () =>
+              Effect.flatMap(FiberRef.get(currentEventSink), (sink) =>
+                Option.isSome(sink) ? sink.value({ _tag: "NodeFiltered", nodeName: "custom" }) : Effect.void
+              )
+          }
+        ]
+      },
+      eventQueue
+    );
+
+    await Effect.runPromise(executor.run());
+
+    const events = Chunk.toArray(await Effect.runPromise(Queue.takeAll(eventQueue)));
+    expect(events).toContainEqual({ _tag: "NodeFiltered", nodeName: "custom" });
+  });
+});
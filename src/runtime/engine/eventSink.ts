@@ -0,0 +1,11 @@
+import { Effect, FiberRef, Option } from "effect";
+import type { RuntimeEvent } from "../../core/event";
+
+/**
+ * Emits into the event queue of the run executing the current Node. The
+ * executor sets it around every Node attempt, so a Node that runs a Pipe of
+ * its own – see `subPipeline` – can report that Pipe's events to the parent
+ * run. `None` outside of an executor.
+ */
+export const currentEventSink: FiberRef.FiberRef<Option.Option<(event: RuntimeEvent) => Effect.Effect<void>>> =
+  FiberRef.unsafeMake(Option.none());
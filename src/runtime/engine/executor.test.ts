@@ -1,9 +1,18 @@
 import { describe, it, expect } from "bun:test";
-import { Effect, Queue, Fiber } from "effect";
+import { Effect, Queue, Fiber, Stream, Deferred, Chunk, Schedule, Exit, Duration, TestClock, TestContext, Context, Data } from "effect";
 import { PipelineExecutor } from "./executor";
+import { DrainTimeoutError, NodeFailure, NodeTimeoutError, PipelineTimeoutError, RateLimiterNotProvidedError } from "./errors";
+import { rateLimitersLayer } from "./rateLimit";
+import type { RunResult } from "./runResult";
 import { NodeKind, type Node } from "../../core/node";
 import type { Pipe } from "../../core/pipe";
 import type { RuntimeEvent } from "../../core/event";
+import type { DeadLetterSink } from "../../core/deadLetter";
+import { memoryDeadLetterSink } from "../deadLetter/memory";
+import { memoryCheckpointStore } from "../checkpoint/memory";
+import { Drop } from "../../core/drop";
+import { filter } from "../../nodes/transform/filter";
+import { pipeline } from "../../pipes/builder";
 
 describe("PipelineExecutor", () => {
   const mockIngress: Node<undefined, { message: string }> = {
@@ -90,4 +99,1378 @@ describe("PipelineExecutor", () => {
 
     await expect(Effect.runPromise(executor.run())).rejects.toThrow("Node error-node failed: Test error");
   });
+  describe("runStream", () => {
+    const collectEvents = (queue: Queue.Queue<RuntimeEvent>) =>
+      Effect.map(Queue.takeAll(queue), (events) => Chunk.toArray(events).map((e) => e._tag));
+
+    it("should push every streamed item through the pipeline", async () => {
+      const received: unknown[] = [];
+      const streamIngress: Node<undefined, number> = {
+        kind: NodeKind.Ingress,
+        name: "stream-ingress",
+        run: () => Effect.succeed(0),
+        stream: () => Stream.make(1, 2, 3)
+      };
+      const double: Node<number, number> = {
+        kind: NodeKind.Transform,
+        name: "double",
+        run: (input) => Effect.succeed(input * 2)
+      };
+      const capture: Node<number, void> = {
+        kind: NodeKind.Egress,
+        name: "capture",
+        run: (input) => Effect.sync(() => { received.push(input); })
+      };
+
+      const eventQueue = await Effect.runPromise(Queue.unbounded<RuntimeEvent>());
+      const executor = new PipelineExecutor(
+        { name: "stream-pipeline", nodes: [streamIngress, double, capture] },
+        eventQueue
+      );
+
+      await Effect.runPromise(executor.runStream());
+      const events = await Effect.runPromise(collectEvents(eventQueue));
+
+      expect(received).toEqual([2, 4, 6]);
+      expect(events[0]).toBe("PipelineStarted");
+      expect(events.filter((tag) => tag === "NodeCompleted")).toHaveLength(7);
+      expect(events[events.length - 1]).toBe("PipelineCompleted");
+    });
+
+    it("should repeat run() for ingress nodes without a stream until interrupted", async () => {
+      let produced = 0;
+      const counter: Node<undefined, number> = {
+        kind: NodeKind.Ingress,
+        name: "counter",
+        run: () => Effect.sync(() => ++produced)
+      };
+
+      const eventQueue = await Effect.runPromise(Queue.unbounded<RuntimeEvent>());
+
+      await Effect.runPromise(
+        Effect.gen(function* (_) {
+          const done = yield* _(Deferred.make<void>());
+          const stopAtThree: Node<number, void> = {
+            kind: NodeKind.Egress,
+            name: "stop-at-three",
+            run: (input) => input >= 3 ? Deferred.succeed(done, undefined) : Effect.void
+          };
+
+          const executor = new PipelineExecutor(
+            { name: "endless-pipeline", nodes: [counter, stopAtThree] },
+            eventQueue
+          );
+          const fiber = yield* _(Effect.fork(executor.runStream()));
+          yield* _(Deferred.await(done));
+          yield* _(Fiber.interrupt(fiber));
+        })
+      );
+
+      expect(produced).toBeGreaterThanOrEqual(3);
+    });
+
+    it("should fail and emit PipelineErrored when the source fails", async () => {
+      const failing: Node<undefined, number, string> = {
+        kind: NodeKind.Ingress,
+        name: "failing-source",
+        run: () => Effect.succeed(0),
+        stream: () => Stream.concat(Stream.make(1), Stream.fail("boom"))
+      };
+
+      const eventQueue = await Effect.runPromise(Queue.unbounded<RuntimeEvent>());
+      const executor = new PipelineExecutor(
+        { name: "failing-stream", nodes: [failing, mockEgress] },
+        eventQueue
+      );
+
+      await expect(Effect.runPromise(executor.runStream())).rejects.toThrow("Node failing-source failed: boom");
+      const events = await Effect.runPromise(collectEvents(eventQueue));
+      expect(events).toContain("NodeErrored");
+      expect(events[events.length - 1]).toBe("PipelineErrored");
+    });
+
+    it("should suspend the ingress when a slow stage fills its bounded queue", async () => {
+      let produced = 0;
+      const counter: Node<undefined, number> = {
+        kind: NodeKind.Ingress,
+        name: "counter",
+        run: () => Effect.sync(() => ++produced)
+      };
+
+      const eventQueue = await Effect.runPromise(Queue.unbounded<RuntimeEvent>());
+
+      await Effect.runPromise(
+        Effect.gen(function* (_) {
+          const started = yield* _(Deferred.make<void>());
+          const release = yield* _(Deferred.make<void>());
+          const slowEgress: Node<number, void> = {
+            kind: NodeKind.Egress,
+            name: "slow-egress",
+            capacity: 2,
+            run: () => Effect.zipRight(Deferred.succeed(started, undefined), Deferred.await(release))
+          };
+
+          const executor = new PipelineExecutor(
+            { name: "backpressure-pipeline", nodes: [counter, slowEgress] },
+            eventQueue
+          );
+          const fiber = yield* _(Effect.fork(executor.runStream()));
+          yield* _(Deferred.await(started));
+          yield* _(Effect.repeatN(Effect.yieldNow(), 100));
+          yield* _(Fiber.interrupt(fiber));
+        })
+      );
+
+      // one item in flight, two queued and one suspended on offer
+      expect(produced).toBeLessThanOrEqual(4);
+
+      const depths = Chunk.toArray(await Effect.runPromise(Queue.takeAll(eventQueue)))
+        .filter((event) => event._tag === "QueueDepth");
+      expect(depths.length).toBeGreaterThan(0);
+      for (const event of depths) {
+        expect(event).toMatchObject({ nodeName: "slow-egress", capacity: 2 });
+        expect((event as { depth: number }).depth).toBeLessThanOrEqual(2);
+      }
+    });
+
+    it("should use the executor queue capacity for nodes without their own", async () => {
+      const eventQueue = await Effect.runPromise(Queue.unbounded<RuntimeEvent>());
+      const executor = new PipelineExecutor(
+        {
+          name: "capacity-pipeline",
+          nodes: [
+            { kind: NodeKind.Ingress, name: "source", run: () => Effect.succeed(0), stream: () => Stream.make(1, 2) },
+            { kind: NodeKind.Egress, name: "sink", run: () => Effect.void }
+          ]
+        },
+        eventQueue,
+        { queueCapacity: 5 }
+      );
+
+      await Effect.runPromise(executor.runStream());
+      const depths = Chunk.toArray(await Effect.runPromise(Queue.takeAll(eventQueue)))
+        .filter((event) => event._tag === "QueueDepth");
+
+      expect(depths.length).toBeGreaterThan(0);
+      expect(depths.every((event) => (event as { capacity: number }).capacity === 5)).toBe(true);
+    });
+
+    it("should preserve item order across stages", async () => {
+      const received: number[] = [];
+      const eventQueue = await Effect.runPromise(Queue.unbounded<RuntimeEvent>());
+      const executor = new PipelineExecutor(
+        {
+          name: "ordered-pipeline",
+          nodes: [
+            { kind: NodeKind.Ingress, name: "source", run: () => Effect.succeed(0), stream: () => Stream.range(1, 50) },
+            { kind: NodeKind.Transform, name: "increment", capacity: 1, run: (n: number) => Effect.succeed(n + 1) },
+            { kind: NodeKind.Egress, name: "sink", capacity: 1, run: (n: number) => Effect.sync(() => { received.push(n); }) }
+          ]
+        },
+        eventQueue
+      );
+
+      await Effect.runPromise(executor.runStream());
+
+      expect(received).toEqual(Array.from({ length: 50 }, (_, i) => i + 2));
+    });
+  });
+
+  describe("retry policies", () => {
+    const flakyNode = (failures: number, retry?: Node["retry"]): Node<unknown, string, string> => {
+      let attempts = 0;
+      return {
+        kind: NodeKind.Transform,
+        name: "flaky",
+        retry,
+        run: () => Effect.suspend(() => {
+          attempts += 1;
+          return attempts <= failures ? Effect.fail(`failure ${attempts}`) : Effect.succeed("ok");
+        })
+      };
+    };
+
+    it("should retry a failing node and emit NodeRetrying per attempt", async () => {
+      const eventQueue = await Effect.runPromise(Queue.unbounded<RuntimeEvent>());
+      const executor = new PipelineExecutor(
+        { name: "retry-pipeline", nodes: [mockIngress, flakyNode(2, { maxAttempts: 3 })] },
+        eventQueue
+      );
+
+      await Effect.runPromise(executor.run());
+      const retries = Chunk.toArray(await Effect.runPromise(Queue.takeAll(eventQueue)))
+        .filter((event) => event._tag === "NodeRetrying");
+
+      expect(retries).toEqual([
+        { _tag: "NodeRetrying", nodeName: "flaky", attempt: 2, error: "failure 1" },
+        { _tag: "NodeRetrying", nodeName: "flaky", attempt: 3, error: "failure 2" }
+      ]);
+    });
+
+    it("should fail once the policy is exhausted", async () => {
+      const eventQueue = await Effect.runPromise(Queue.unbounded<RuntimeEvent>());
+      const executor = new PipelineExecutor(
+        { name: "retry-pipeline", nodes: [mockIngress, flakyNode(5, Schedule.recurs(1))] },
+        eventQueue
+      );
+
+      await expect(Effect.runPromise(executor.run())).rejects.toThrow("Node flaky failed: failure 2");
+    });
+
+    it("should not retry nodes without a policy", async () => {
+      const eventQueue = await Effect.runPromise(Queue.unbounded<RuntimeEvent>());
+      const executor = new PipelineExecutor(
+        { name: "retry-pipeline", nodes: [mockIngress, flakyNode(1)] },
+        eventQueue
+      );
+
+      await expect(Effect.runPromise(executor.run())).rejects.toThrow("Node flaky failed: failure 1");
+      const events = Chunk.toArray(await Effect.runPromise(Queue.takeAll(eventQueue)));
+      expect(events.some((event) => event._tag === "NodeRetrying")).toBe(false);
+    });
+  });
+
+  describe("timeouts", () => {
+    const hangingNode = (name: string, onInterrupt: () => void, timeout?: Duration.DurationInput): Node<unknown, never> => ({
+      kind: NodeKind.Transform,
+      name,
+      timeout,
+      run: () => Effect.never.pipe(Effect.onInterrupt(() => Effect.sync(onInterrupt)))
+    });
+
+    it("should interrupt a node that exceeds its timeout", async () => {
+      let interrupted = false;
+      const eventQueue = await Effect.runPromise(Queue.unbounded<RuntimeEvent>());
+      const executor = new PipelineExecutor(
+        { name: "timeout-pipeline", nodes: [mockIngress, hangingNode("hanging", () => { interrupted = true; }, "1 second")] },
+        eventQueue
+      );
+
+      const exit = await Effect.runPromise(
+        Effect.gen(function* (_) {
+          const fiber = yield* _(Effect.fork(executor.run()));
+          yield* _(TestClock.adjust("1 second"));
+          return yield* _(Fiber.await(fiber));
+        }).pipe(Effect.provide(TestContext.TestContext))
+      );
+
+      expect(interrupted).toBe(true);
+      expect(Exit.isFailure(exit)).toBe(true);
+      const error = Exit.isFailure(exit) ? exit.cause : undefined;
+      expect(JSON.stringify(error)).toContain("NodeTimeoutError");
+
+      const events = Chunk.toArray(await Effect.runPromise(Queue.takeAll(eventQueue)));
+      expect(events).toContainEqual({ _tag: "NodeTimedOut", nodeName: "hanging", elapsedMs: 1000 });
+    });
+
+    it("should fail with a typed NodeTimeoutError", async () => {
+      const eventQueue = await Effect.runPromise(Queue.unbounded<RuntimeEvent>());
+      const executor = new PipelineExecutor(
+        { name: "timeout-pipeline", nodes: [mockIngress, hangingNode("hanging", () => {}, "250 millis")] },
+        eventQueue
+      );
+
+      const error = await Effect.runPromise(
+        Effect.gen(function* (_) {
+          const fiber = yield* _(Effect.fork(Effect.flip(executor.run())));
+          yield* _(TestClock.adjust("250 millis"));
+          return yield* _(Fiber.join(fiber));
+        }).pipe(Effect.provide(TestContext.TestContext))
+      );
+
+      expect(error).toBeInstanceOf(NodeTimeoutError);
+      expect(error).toMatchObject({ nodeName: "hanging", elapsedMs: 250 });
+      expect(error.message).toBe("Node hanging timed out after 250ms");
+    });
+
+    it("should retry timed out attempts when the node has a retry policy", async () => {
+      let attempts = 0;
+      const slowOnce: Node<unknown, string> = {
+        kind: NodeKind.Transform,
+        name: "slow-once",
+        timeout: "1 second",
+        retry: { maxAttempts: 2 },
+        run: () => Effect.suspend(() => {
+          attempts += 1;
+          return attempts === 1 ? Effect.never : Effect.succeed("done");
+        })
+      };
+      const eventQueue = await Effect.runPromise(Queue.unbounded<RuntimeEvent>());
+      const executor = new PipelineExecutor({ name: "timeout-pipeline", nodes: [mockIngress, slowOnce] }, eventQueue);
+
+      await Effect.runPromise(
+        Effect.gen(function* (_) {
+          const fiber = yield* _(Effect.fork(executor.run()));
+          yield* _(TestClock.adjust("1 second"));
+          yield* _(Fiber.join(fiber));
+        }).pipe(Effect.provide(TestContext.TestContext))
+      );
+
+      const tags = Chunk.toArray(await Effect.runPromise(Queue.takeAll(eventQueue))).map((e) => e._tag);
+      expect(attempts).toBe(2);
+      expect(tags).toContain("NodeTimedOut");
+      expect(tags).toContain("NodeRetrying");
+      expect(tags[tags.length - 1]).toBe("PipelineCompleted");
+    });
+
+    it("should interrupt the whole run when the pipe timeout elapses", async () => {
+      let interrupted = false;
+      const eventQueue = await Effect.runPromise(Queue.unbounded<RuntimeEvent>());
+      const executor = new PipelineExecutor(
+        {
+          name: "slow-pipeline",
+          timeout: "5 seconds",
+          nodes: [mockIngress, hangingNode("hanging", () => { interrupted = true; })]
+        },
+        eventQueue
+      );
+
+      const error = await Effect.runPromise(
+        Effect.gen(function* (_) {
+          const fiber = yield* _(Effect.fork(Effect.flip(executor.run())));
+          yield* _(TestClock.adjust("5 seconds"));
+          return yield* _(Fiber.join(fiber));
+        }).pipe(Effect.provide(TestContext.TestContext))
+      );
+
+      expect(interrupted).toBe(true);
+      expect(error).toBeInstanceOf(PipelineTimeoutError);
+      expect(error.message).toBe("Pipeline \"slow-pipeline\" timed out after 5000ms");
+
+      const tags = Chunk.toArray(await Effect.runPromise(Queue.takeAll(eventQueue))).map((e) => e._tag);
+      expect(tags[tags.length - 1]).toBe("PipelineErrored");
+    });
+  });
+
+  describe("dead-letter sinks", () => {
+    const streamOf = (items: number[]): Node<undefined, number> => ({
+      kind: NodeKind.Ingress,
+      name: "numbers",
+      run: () => Effect.succeed(0),
+      stream: () => Stream.fromIterable(items)
+    });
+
+    const flaky: Node<number, number, Error> = {
+      kind: NodeKind.Transform,
+      name: "flaky",
+      run: (n) => n % 2 === 0 ? Effect.fail(new Error(`even ${n}`)) : Effect.succeed(n * 10)
+    };
+
+    const collect = (into: number[]): Node<number, void> => ({
+      kind: NodeKind.Egress,
+      name: "collect",
+      run: (n) => Effect.sync(() => { into.push(n); })
+    });
+
+    it("should dead-letter failing items and keep streaming", async () => {
+      const sink = memoryDeadLetterSink();
+      const received: number[] = [];
+      const eventQueue = await Effect.runPromise(Queue.unbounded<RuntimeEvent>());
+      const executor = new PipelineExecutor(
+        {
+          name: "dlq-pipeline",
+          deadLetter: sink,
+          nodes: [streamOf([1, 2, 3, 4, 5]), flaky, collect(received)]
+        },
+        eventQueue
+      );
+
+      await Effect.runPromise(executor.runStream());
+
+      expect(received).toEqual([10, 30, 50]);
+      expect(sink.letters().map((l) => l.input)).toEqual([2, 4]);
+
+      const [letter] = sink.letters();
+      expect(letter?.pipelineName).toBe("dlq-pipeline");
+      expect(letter?.nodeName).toBe("flaky");
+      expect(letter?.error).toEqual(new Error("even 2"));
+      expect(letter?.attempts).toBe(1);
+
+      const events = Chunk.toArray(await Effect.runPromise(Queue.takeAll(eventQueue)));
+      const deadLettered = events.filter((e) => e._tag === "NodeDeadLettered");
+      expect(deadLettered).toHaveLength(2);
+      expect(deadLettered[0]).toMatchObject({ nodeName: "flaky", sinkName: "memory-dead-letters", attempts: 1 });
+      expect(events[events.length - 1]?._tag).toBe("PipelineCompleted");
+    });
+
+    it("should count retries as attempts", async () => {
+      const sink = memoryDeadLetterSink();
+      const eventQueue = await Effect.runPromise(Queue.unbounded<RuntimeEvent>());
+      const executor = new PipelineExecutor(
+        {
+          name: "retry-dlq-pipeline",
+          nodes: [
+            streamOf([2]),
+            { ...flaky, retry: { maxAttempts: 3 }, deadLetter: sink }
+          ]
+        },
+        eventQueue
+      );
+
+      await Effect.runPromise(executor.runStream());
+
+      expect(sink.letters().map((l) => l.attempts)).toEqual([3]);
+    });
+
+    it("should prefer the node sink over the pipe sink", async () => {
+      const pipeSink = memoryDeadLetterSink("pipe");
+      const nodeSink = memoryDeadLetterSink("node");
+      const eventQueue = await Effect.runPromise(Queue.unbounded<RuntimeEvent>());
+      const executor = new PipelineExecutor(
+        {
+          name: "override-pipeline",
+          deadLetter: pipeSink,
+          nodes: [streamOf([2]), { ...flaky, deadLetter: nodeSink }]
+        },
+        eventQueue
+      );
+
+      await Effect.runPromise(executor.runStream());
+
+      expect(pipeSink.letters()).toHaveLength(0);
+      expect(nodeSink.letters()).toHaveLength(1);
+    });
+
+    it("should stamp letters with the time of the Clock", async () => {
+      const sink = memoryDeadLetterSink();
+      const eventQueue = await Effect.runPromise(Queue.unbounded<RuntimeEvent>());
+      const executor = new PipelineExecutor(
+        { name: "clocked-dlq-pipeline", deadLetter: sink, nodes: [streamOf([2]), flaky] },
+        eventQueue
+      );
+
+      await Effect.runPromise(
+        Effect.gen(function* (_) {
+          yield* _(TestClock.adjust("5 seconds"));
+          yield* _(executor.runStream());
+        }).pipe(Effect.provide(TestContext.TestContext))
+      );
+
+      expect(sink.letters().map((l) => l.failedAt)).toEqual([new Date(5000)]);
+    });
+
+    it("should stop a single run without failing it", async () => {
+      const sink = memoryDeadLetterSink();
+      const received: number[] = [];
+      const eventQueue = await Effect.runPromise(Queue.unbounded<RuntimeEvent>());
+      const executor = new PipelineExecutor(
+        {
+          name: "single-dlq-pipeline",
+          deadLetter: sink,
+          nodes: [
+            { kind: NodeKind.Ingress, name: "two", run: () => Effect.succeed(2) },
+            flaky,
+            collect(received)
+          ]
+        },
+        eventQueue
+      );
+
+      await Effect.runPromise(executor.run());
+
+      expect(received).toEqual([]);
+      expect(sink.letters()).toHaveLength(1);
+    });
+
+    it("should fail the node when the sink itself fails", async () => {
+      const brokenSink: DeadLetterSink<Error> = {
+        name: "broken",
+        send: () => Effect.fail(new Error("sink down"))
+      };
+      const eventQueue = await Effect.runPromise(Queue.unbounded<RuntimeEvent>());
+      const executor = new PipelineExecutor(
+        { name: "broken-dlq-pipeline", deadLetter: brokenSink, nodes: [streamOf([2]), flaky] },
+        eventQueue
+      );
+
+      const error = await Effect.runPromise(Effect.flip(executor.runStream()));
+
+      expect(error.message).toBe("Node flaky failed: Error: even 2");
+    });
+
+    it("should never dead-letter ingress failures", async () => {
+      const sink = memoryDeadLetterSink();
+      const eventQueue = await Effect.runPromise(Queue.unbounded<RuntimeEvent>());
+      const executor = new PipelineExecutor(
+        {
+          name: "ingress-dlq-pipeline",
+          deadLetter: sink,
+          nodes: [{ kind: NodeKind.Ingress, name: "broken", run: () => Effect.fail(new Error("no data")) }]
+        },
+        eventQueue
+      );
+
+      const error = await Effect.runPromise(Effect.flip(executor.run()));
+
+      expect(error.message).toBe("Node broken failed: Error: no data");
+      expect(sink.letters()).toHaveLength(0);
+    });
+  });
+
+  describe("dropped items", () => {
+    const numbers: Node<undefined, number> = {
+      kind: NodeKind.Ingress,
+      name: "numbers",
+      run: () => Effect.succeed(1),
+      stream: () => Stream.make(1, 2, 3, 4)
+    };
+    const odd = filter("odd", { predicate: (n) => (n as number) % 2 === 1 });
+
+    it("should skip downstream nodes for dropped items while streaming", async () => {
+      const received: unknown[] = [];
+      const eventQueue = await Effect.runPromise(Queue.unbounded<RuntimeEvent>());
+      const executor = new PipelineExecutor(
+        {
+          name: "filter-pipeline",
+          nodes: [
+            numbers,
+            odd,
+            { kind: NodeKind.Egress, name: "collect", run: (n: unknown) => Effect.sync(() => { received.push(n); }) }
+          ]
+        },
+        eventQueue
+      );
+
+      await Effect.runPromise(executor.runStream());
+
+      expect(received).toEqual([1, 3]);
+
+      const tags = Chunk.toArray(await Effect.runPromise(Queue.takeAll(eventQueue))).map((e) => e._tag);
+      expect(tags.filter((tag) => tag === "NodeFiltered")).toHaveLength(2);
+      expect(tags).not.toContain("NodeErrored");
+      expect(tags).not.toContain("PipelineErrored");
+      expect(tags[tags.length - 1]).toBe("PipelineCompleted");
+    });
+
+    it("should complete a single run when an item is dropped", async () => {
+      let reached = false;
+      const eventQueue = await Effect.runPromise(Queue.unbounded<RuntimeEvent>());
+      const executor = new PipelineExecutor(
+        {
+          name: "drop-pipeline",
+          nodes: [
+            { kind: NodeKind.Ingress, name: "two", run: () => Effect.succeed(2) },
+            odd,
+            { kind: NodeKind.Egress, name: "never", run: () => Effect.sync(() => { reached = true; }) }
+          ]
+        },
+        eventQueue
+      );
+
+      await Effect.runPromise(executor.run());
+
+      expect(reached).toBe(false);
+      const events = Chunk.toArray(await Effect.runPromise(Queue.takeAll(eventQueue)));
+      expect(events).toContainEqual({ _tag: "NodeFiltered", nodeName: "odd" });
+      expect(events[events.length - 1]?._tag).toBe("PipelineCompleted");
+    });
+
+    it("should let an ingress drop items from its source", async () => {
+      const received: unknown[] = [];
+      const eventQueue = await Effect.runPromise(Queue.unbounded<RuntimeEvent>());
+      const executor = new PipelineExecutor(
+        {
+          name: "ingress-drop-pipeline",
+          nodes: [
+            {
+              kind: NodeKind.Ingress,
+              name: "sparse",
+              run: () => Effect.succeed(Drop),
+              stream: () => Stream.make<unknown[]>("a", Drop, "b")
+            },
+            { kind: NodeKind.Egress, name: "collect", run: (s: unknown) => Effect.sync(() => { received.push(s); }) }
+          ]
+        },
+        eventQueue
+      );
+
+      await Effect.runPromise(executor.runStream());
+
+      expect(received).toEqual(["a", "b"]);
+      const events = Chunk.toArray(await Effect.runPromise(Queue.takeAll(eventQueue)));
+      expect(events).toContainEqual({ _tag: "NodeFiltered", nodeName: "sparse" });
+    });
+  });
+
+  describe("fan-out", () => {
+    const numbers: Node<undefined, number> = {
+      kind: NodeKind.Ingress,
+      name: "numbers",
+      run: () => Effect.succeed(1),
+      stream: () => Stream.range(1, 9)
+    };
+
+    const collect = (name: string, into: unknown[]): Node<unknown, void> => ({
+      kind: NodeKind.Egress,
+      name,
+      run: (item) => Effect.sync(() => { into.push(item); })
+    });
+
+    const failOn = (name: string, bad: number): Node<number, number, Error> => ({
+      kind: NodeKind.Transform,
+      name,
+      capacity: 1,
+      run: (n) => n === bad ? Effect.fail(new Error(`bad ${n}`)) : Effect.succeed(n)
+    });
+
+    it("should hand the output to every branch in a single run", async () => {
+      const store: unknown[] = [];
+      const respond: unknown[] = [];
+      const eventQueue = await Effect.runPromise(Queue.unbounded<RuntimeEvent>());
+      const executor = new PipelineExecutor(
+        {
+          name: "fan-out-pipeline",
+          nodes: [mockIngress, mockTransform],
+          fork: {
+            _tag: "FanOut",
+            branches: [
+              { name: "store", nodes: [collect("store-egress", store)] },
+              { name: "respond", nodes: [collect("respond-egress", respond)] }
+            ]
+          }
+        },
+        eventQueue
+      );
+
+      await Effect.runPromise(executor.run());
+
+      expect(store).toEqual([{ message: "hello", transformed: true }]);
+      expect(respond).toEqual([{ message: "hello", transformed: true }]);
+    });
+
+    it("should let a branch fail without interrupting its siblings", async () => {
+      const healthy: unknown[] = [];
+      const eventQueue = await Effect.runPromise(Queue.unbounded<RuntimeEvent>());
+      const executor = new PipelineExecutor(
+        {
+          name: "isolated-pipeline",
+          nodes: [{ kind: NodeKind.Ingress, name: "one", run: () => Effect.succeed(1) }],
+          fork: {
+            _tag: "FanOut",
+            branches: [
+              { name: "broken", nodes: [failOn("reject", 1), collect("never", [])] },
+              {
+                name: "healthy",
+                nodes: [
+                  { kind: NodeKind.Transform, name: "slow", run: (n: unknown) => Effect.as(Effect.yieldNow(), n) },
+                  collect("healthy-egress", healthy)
+                ]
+              }
+            ]
+          }
+        },
+        eventQueue
+      );
+
+      const error = await Effect.runPromise(Effect.flip(executor.run()));
+
+      expect(error.message).toBe("Node reject failed: Error: bad 1");
+      expect(healthy).toEqual([1]);
+
+      const events = Chunk.toArray(await Effect.runPromise(Queue.takeAll(eventQueue)));
+      expect(events).toContainEqual({
+        _tag: "BranchErrored",
+        pipelineName: "isolated-pipeline",
+        branchName: "broken",
+        error
+      });
+      expect(events[events.length - 1]?._tag).toBe("PipelineErrored");
+    });
+
+    it("should stream every item into each branch", async () => {
+      const left: unknown[] = [];
+      const right: unknown[] = [];
+      const eventQueue = await Effect.runPromise(Queue.unbounded<RuntimeEvent>());
+      const executor = new PipelineExecutor(
+        {
+          name: "stream-fan-out",
+          nodes: [numbers],
+          fork: {
+            _tag: "FanOut",
+            branches: [
+              { name: "left", nodes: [collect("left-egress", left)] },
+              { name: "right", nodes: [collect("right-egress", right)] }
+            ]
+          }
+        },
+        eventQueue,
+        { queueCapacity: 1 }
+      );
+
+      await Effect.runPromise(executor.runStream());
+
+      expect(left).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9]);
+      expect(right).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9]);
+    });
+
+    it("should keep streaming to healthy branches after one fails", async () => {
+      const healthy: unknown[] = [];
+      const eventQueue = await Effect.runPromise(Queue.unbounded<RuntimeEvent>());
+      const executor = new PipelineExecutor(
+        {
+          name: "stream-isolated",
+          nodes: [numbers],
+          fork: {
+            _tag: "FanOut",
+            branches: [
+              { name: "broken", nodes: [failOn("reject", 2), collect("never", [])] },
+              { name: "healthy", nodes: [collect("healthy-egress", healthy)] }
+            ]
+          }
+        },
+        eventQueue,
+        { queueCapacity: 1 }
+      );
+
+      const error = await Effect.runPromise(Effect.flip(executor.runStream()));
+
+      expect(error.message).toBe("Node reject failed: Error: bad 2");
+      expect(healthy).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9]);
+
+      const branchErrors = Chunk.toArray(await Effect.runPromise(Queue.takeAll(eventQueue)))
+        .filter((e) => e._tag === "BranchErrored");
+      expect(branchErrors).toHaveLength(1);
+    });
+
+    it("should support nested fan-outs", async () => {
+      const a: unknown[] = [];
+      const b: unknown[] = [];
+      const c: unknown[] = [];
+      const eventQueue = await Effect.runPromise(Queue.unbounded<RuntimeEvent>());
+      const executor = new PipelineExecutor(
+        {
+          name: "nested-fan-out",
+          nodes: [numbers],
+          fork: {
+            _tag: "FanOut",
+            branches: [
+              {
+                name: "outer",
+                nodes: [{ kind: NodeKind.Transform, name: "double", run: (n: unknown) => Effect.succeed((n as number) * 2) }],
+                fork: {
+                  _tag: "FanOut",
+                  branches: [
+                    { name: "a", nodes: [collect("a-egress", a)] },
+                    { name: "b", nodes: [collect("b-egress", b)] }
+                  ]
+                }
+              },
+              { name: "c", nodes: [collect("c-egress", c)] }
+            ]
+          }
+        },
+        eventQueue
+      );
+
+      await Effect.runPromise(executor.runStream());
+
+      expect(a).toEqual([2, 4, 6, 8, 10, 12, 14, 16, 18]);
+      expect(b).toEqual(a);
+      expect(c).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9]);
+    });
+  });
+
+  describe("routing", () => {
+    const collect = (name: string, into: unknown[]): Node<unknown, void> => ({
+      kind: NodeKind.Egress,
+      name,
+      run: (item) => Effect.sync(() => { into.push(item); })
+    });
+
+    const routed = (evens: unknown[], odds: unknown[], select?: (n: unknown) => string | undefined): Pipe => ({
+      name: "routed-pipeline",
+      nodes: [
+        {
+          kind: NodeKind.Ingress,
+          name: "numbers",
+          run: () => Effect.succeed(4),
+          stream: () => Stream.range(1, 5)
+        }
+      ],
+      fork: {
+        _tag: "Route",
+        branches: [
+          { name: "evens", nodes: [collect("evens-egress", evens)] },
+          { name: "odds", nodes: [collect("odds-egress", odds)] }
+        ],
+        select: select ?? ((n) => (n as number) % 2 === 0 ? "evens" : "odds")
+      }
+    });
+
+    it("should run only the selected branch in a single run", async () => {
+      const evens: unknown[] = [];
+      const odds: unknown[] = [];
+      const eventQueue = await Effect.runPromise(Queue.unbounded<RuntimeEvent>());
+      const executor = new PipelineExecutor(routed(evens, odds), eventQueue);
+
+      await Effect.runPromise(executor.run());
+
+      expect(evens).toEqual([4]);
+      expect(odds).toEqual([]);
+
+      const events = Chunk.toArray(await Effect.runPromise(Queue.takeAll(eventQueue)));
+      expect(events).toContainEqual({ _tag: "ItemRouted", pipelineName: "routed-pipeline", branchName: "evens" });
+    });
+
+    it("should route every streamed item", async () => {
+      const evens: unknown[] = [];
+      const odds: unknown[] = [];
+      const eventQueue = await Effect.runPromise(Queue.unbounded<RuntimeEvent>());
+      const executor = new PipelineExecutor(routed(evens, odds), eventQueue, { queueCapacity: 1 });
+
+      await Effect.runPromise(executor.runStream());
+
+      expect(evens).toEqual([2, 4]);
+      expect(odds).toEqual([1, 3, 5]);
+
+      const routedTo = Chunk.toArray(await Effect.runPromise(Queue.takeAll(eventQueue)))
+        .flatMap((e) => e._tag === "ItemRouted" ? [e.branchName] : []);
+      expect(routedTo).toEqual(["odds", "evens", "odds", "evens", "odds"]);
+    });
+
+    it("should report items no branch matches", async () => {
+      const evens: unknown[] = [];
+      const odds: unknown[] = [];
+      const eventQueue = await Effect.runPromise(Queue.unbounded<RuntimeEvent>());
+      const executor = new PipelineExecutor(
+        routed(evens, odds, (n) => (n as number) > 3 ? "evens" : undefined),
+        eventQueue
+      );
+
+      await Effect.runPromise(executor.runStream());
+
+      expect(evens).toEqual([4, 5]);
+      const tags = Chunk.toArray(await Effect.runPromise(Queue.takeAll(eventQueue))).map((e) => e._tag);
+      expect(tags.filter((tag) => tag === "ItemUnrouted")).toHaveLength(3);
+      expect(tags[tags.length - 1]).toBe("PipelineCompleted");
+    });
+
+    it("should fail when the selector throws", async () => {
+      const eventQueue = await Effect.runPromise(Queue.unbounded<RuntimeEvent>());
+      const executor = new PipelineExecutor(
+        routed([], [], () => { throw new Error("bad key"); }),
+        eventQueue
+      );
+
+      const error = await Effect.runPromise(Effect.flip(executor.run()));
+
+      expect(error.message).toBe("Routing failed: Error: bad key");
+    });
+
+    it("should fail when the selector names an unknown branch", async () => {
+      const eventQueue = await Effect.runPromise(Queue.unbounded<RuntimeEvent>());
+      const executor = new PipelineExecutor(routed([], [], () => "missing"), eventQueue);
+
+      const error = await Effect.runPromise(Effect.flip(executor.runStream()));
+
+      expect(error.message).toBe("Route selected unknown branch \"missing\"");
+    });
+  });
+
+  describe("run results", () => {
+    const double: Node<number, number> = {
+      kind: NodeKind.Transform,
+      name: "double",
+      run: (n) => Effect.succeed(n * 2)
+    };
+    const label: Node<number, string> = {
+      kind: NodeKind.Egress,
+      name: "label",
+      run: (n) => Effect.succeed(`#${n}`)
+    };
+    const numbersPipe: Pipe = {
+      name: "numbers",
+      nodes: [{ kind: NodeKind.Ingress, name: "seven", run: () => Effect.succeed(7) }, double, label]
+    };
+
+    it("should resolve with the final output, timings and a run ID", async () => {
+      const eventQueue = await Effect.runPromise(Queue.unbounded<RuntimeEvent>());
+      const result = await Effect.runPromise(new PipelineExecutor(numbersPipe, eventQueue).run());
+
+      expect(result.output).toBe("#14");
+      expect(result.pipelineName).toBe("numbers");
+      expect(result.runId).toMatch(/^[0-9a-f-]{36}$/);
+      expect(result.outputs).toBeUndefined();
+      expect(result.timings.map((timing) => timing.nodeName)).toEqual(["seven", "double", "label"]);
+      expect(result.startedAt).toBeInstanceOf(Date);
+    });
+
+    it("should keep every node's output with recordOutputs", async () => {
+      const eventQueue = await Effect.runPromise(Queue.unbounded<RuntimeEvent>());
+      const executor = new PipelineExecutor(numbersPipe, eventQueue, { recordOutputs: true });
+
+      const result = await Effect.runPromise(executor.run({ runId: "run-1" }));
+
+      expect(result.runId).toBe("run-1");
+      expect(result.outputs).toEqual({ seven: 7, double: 14, label: "#14" });
+    });
+
+    it("should measure timings on the Effect clock", async () => {
+      const slow: Node<number, number> = {
+        kind: NodeKind.Transform,
+        name: "slow",
+        run: (n) => Effect.as(Effect.sleep("1 second"), n)
+      };
+      const eventQueue = await Effect.runPromise(Queue.unbounded<RuntimeEvent>());
+      const executor = new PipelineExecutor(
+        { name: "slow", nodes: [numbersPipe.nodes[0]!, slow, label] },
+        eventQueue
+      );
+
+      const result = await Effect.runPromise(
+        Effect.gen(function* (_) {
+          const fiber = yield* _(Effect.fork(executor.run()));
+          yield* _(TestClock.adjust("1 second"));
+          return yield* _(Fiber.join(fiber));
+        }).pipe(Effect.provide(TestContext.TestContext))
+      );
+
+      expect(result.durationMs).toBe(1000);
+      expect(result.timings.find((timing) => timing.nodeName === "slow")?.durationMs).toBe(1000);
+    });
+
+    it("should resolve with undefined output when the item is dropped", async () => {
+      const eventQueue = await Effect.runPromise(Queue.unbounded<RuntimeEvent>());
+      const executor = new PipelineExecutor(
+        {
+          name: "dropping",
+          nodes: [numbersPipe.nodes[0]!, filter("even", { predicate: (n) => (n as number) % 2 === 0 }), label]
+        },
+        eventQueue,
+        { recordOutputs: true }
+      );
+
+      const result = await Effect.runPromise(executor.run());
+
+      expect(result.output).toBeUndefined();
+      expect(result.outputs).toEqual({ seven: 7 });
+      expect(result.timings.map((timing) => timing.nodeName)).toEqual(["seven", "even"]);
+    });
+
+    it("should key the output of a fork by branch name", async () => {
+      const eventQueue = await Effect.runPromise(Queue.unbounded<RuntimeEvent>());
+      const executor = new PipelineExecutor(
+        {
+          name: "forked",
+          nodes: [numbersPipe.nodes[0]!],
+          fork: {
+            _tag: "FanOut",
+            branches: [
+              { name: "doubled", nodes: [double, label] },
+              { name: "labelled", nodes: [label] }
+            ]
+          }
+        },
+        eventQueue
+      );
+
+      const result = await Effect.runPromise(executor.run());
+
+      expect(result.output).toEqual({ doubled: "#14", labelled: "#7" });
+    });
+  });
+
+  describe("checkpoints", () => {
+    const steps = (calls: string[], failAt?: { fail: boolean }): Node<any, any, Error>[] => [
+      { kind: NodeKind.Ingress, name: "load", run: () => Effect.sync(() => { calls.push("load"); return 2; }) },
+      { kind: NodeKind.Transform, name: "square", run: (n: number) => Effect.sync(() => { calls.push("square"); return n * n; }) },
+      {
+        kind: NodeKind.Transform,
+        name: "flaky",
+        run: (n: number) => failAt?.fail
+          ? Effect.fail(new Error("crashed"))
+          : Effect.sync(() => { calls.push("flaky"); return n + 1; })
+      },
+      { kind: NodeKind.Egress, name: "save", run: (n: number) => Effect.sync(() => { calls.push("save"); return `saved ${n}`; }) }
+    ];
+
+    it("should save a checkpoint per node and clear it on completion", async () => {
+      const store = memoryCheckpointStore();
+      const saved: string[] = [];
+      const eventQueue = await Effect.runPromise(Queue.unbounded<RuntimeEvent>());
+      const executor = new PipelineExecutor(
+        {
+          name: "jobs",
+          nodes: steps([]),
+          checkpoint: {
+            ...store,
+            save: (checkpoint) => Effect.zipRight(Effect.sync(() => { saved.push(checkpoint.nodeName); }), store.save(checkpoint))
+          }
+        },
+        eventQueue
+      );
+
+      const result = await Effect.runPromise(executor.run({ runId: "run-1" }));
+
+      expect(result.output).toBe("saved 5");
+      expect(saved).toEqual(["load", "square", "flaky", "save"]);
+      expect(store.checkpoints()).toEqual([]);
+    });
+
+    it("should resume a failed run after the last completed node", async () => {
+      const store = memoryCheckpointStore();
+      const calls: string[] = [];
+      const failAt = { fail: true };
+      const eventQueue = await Effect.runPromise(Queue.unbounded<RuntimeEvent>());
+      const executor = new PipelineExecutor({ name: "jobs", nodes: steps(calls, failAt), checkpoint: store }, eventQueue);
+
+      await expect(Effect.runPromise(executor.run({ runId: "run-1" }))).rejects.toThrow("Node flaky failed");
+      expect(store.checkpoints()).toMatchObject([{ runId: "run-1", nodeName: "square", nodeIndex: 1, output: 4 }]);
+      await Effect.runPromise(Queue.takeAll(eventQueue));
+
+      failAt.fail = false;
+      const result = await Effect.runPromise(executor.resume("run-1"));
+
+      expect(result.runId).toBe("run-1");
+      expect(result.output).toBe("saved 5");
+      expect(result.timings.map((timing) => timing.nodeName)).toEqual(["flaky", "save"]);
+      expect(calls).toEqual(["load", "square", "flaky", "save"]);
+      expect(store.checkpoints()).toEqual([]);
+
+      const tags = Chunk.toArray(await Effect.runPromise(Queue.takeAll(eventQueue))).map((event) => event._tag);
+      expect(tags.slice(0, 2)).toEqual(["PipelineStarted", "PipelineResumed"]);
+    });
+
+    it("should stamp checkpoints with the Effect clock", async () => {
+      const store = memoryCheckpointStore();
+      const eventQueue = await Effect.runPromise(Queue.unbounded<RuntimeEvent>());
+      const executor = new PipelineExecutor({ name: "jobs", nodes: steps([], { fail: true }), checkpoint: store }, eventQueue);
+
+      await Effect.runPromiseExit(executor.run({ runId: "run-1" }).pipe(Effect.provide(TestContext.TestContext)));
+
+      expect(store.checkpoints()).toMatchObject([{ nodeName: "square", completedAt: new Date(0) }]);
+    });
+
+    it("should run the fork when resuming after the last trunk node", async () => {
+      const store = memoryCheckpointStore();
+      const received: unknown[] = [];
+      const eventQueue = await Effect.runPromise(Queue.unbounded<RuntimeEvent>());
+      const executor = new PipelineExecutor(
+        {
+          name: "forked-jobs",
+          nodes: steps([]).slice(0, 2),
+          checkpoint: store,
+          fork: {
+            _tag: "FanOut",
+            branches: [
+              { name: "out", nodes: [{ kind: NodeKind.Egress, name: "collect", run: (n: unknown) => Effect.sync(() => { received.push(n); }) }] }
+            ]
+          }
+        },
+        eventQueue
+      );
+      await Effect.runPromise(store.save({
+        runId: "run-2",
+        pipelineName: "forked-jobs",
+        nodeName: "square",
+        nodeIndex: 1,
+        output: 9,
+        completedAt: new Date()
+      }));
+
+      await Effect.runPromise(executor.resume("run-2"));
+
+      expect(received).toEqual([9]);
+    });
+
+    it("should refuse to resume without a matching checkpoint", async () => {
+      const store = memoryCheckpointStore();
+      const eventQueue = await Effect.runPromise(Queue.unbounded<RuntimeEvent>());
+      const executor = new PipelineExecutor({ name: "jobs", nodes: steps([]), checkpoint: store }, eventQueue);
+      await Effect.runPromise(store.save({
+        runId: "other",
+        pipelineName: "other-pipeline",
+        nodeName: "square",
+        nodeIndex: 1,
+        output: 4,
+        completedAt: new Date()
+      }));
+
+      await expect(Effect.runPromise(executor.resume("missing"))).rejects.toThrow('No checkpoint for run "missing"');
+      await expect(Effect.runPromise(executor.resume("other"))).rejects.toThrow(
+        'Checkpoint for run "other" does not match pipeline "jobs"'
+      );
+      await expect(
+        Effect.runPromise(new PipelineExecutor({ name: "plain", nodes: steps([]) }, eventQueue).resume("run-1"))
+      ).rejects.toThrow('Pipeline "plain" has no checkpoint store');
+    });
+  });
+
+  describe("rate limits", () => {
+    const limited = (name: string, rateLimit: Node["rateLimit"]): Node<number, number> => ({
+      kind: NodeKind.Transform,
+      name,
+      rateLimit,
+      run: (input) => Effect.succeed(input)
+    });
+
+    it("should wait for the next slot and emit NodeThrottled", async () => {
+      const eventQueue = await Effect.runPromise(Queue.unbounded<RuntimeEvent>());
+      const executor = new PipelineExecutor(
+        { name: "limited-pipeline", nodes: [limited("call-api", { limit: 1, interval: "1 second" })] },
+        eventQueue
+      );
+
+      const outputs = await Effect.runPromise(
+        Effect.gen(function* (_) {
+          yield* _(executor.run({ input: 1 }));
+          const fiber = yield* _(Effect.fork(executor.run({ input: 2 })));
+          yield* _(TestClock.adjust("999 millis"));
+          const early = yield* _(Fiber.poll(fiber));
+          yield* _(TestClock.adjust("1 millis"));
+          return [early._tag, (yield* _(Fiber.join(fiber))).output];
+        }).pipe(Effect.provide(TestContext.TestContext))
+      );
+
+      expect(outputs).toEqual(["None", 2]);
+      const throttled = Chunk.toArray(await Effect.runPromise(Queue.takeAll(eventQueue)))
+        .filter((event) => event._tag === "NodeThrottled");
+      expect(throttled).toEqual([{ _tag: "NodeThrottled", nodeName: "call-api", limiterName: "call-api", waitMs: 1000 }]);
+    });
+
+    it("should share a named limiter across pipelines", async () => {
+      const eventQueue = await Effect.runPromise(Queue.unbounded<RuntimeEvent>());
+      const first = new PipelineExecutor({ name: "a", nodes: [limited("write-a", "shared-db")] }, eventQueue);
+      const second = new PipelineExecutor({ name: "b", nodes: [limited("write-b", "shared-db")] }, eventQueue);
+
+      await Effect.runPromise(
+        Effect.gen(function* (_) {
+          yield* _(first.run({ input: 1 }));
+          const fiber = yield* _(Effect.fork(second.run({ input: 2 })));
+          yield* _(TestClock.adjust("1 minute"));
+          yield* _(Fiber.join(fiber));
+        }).pipe(
+          Effect.provide(rateLimitersLayer({ "shared-db": { limit: 1, interval: "1 minute", algorithm: "fixed-window" } })),
+          Effect.provide(TestContext.TestContext)
+        )
+      );
+
+      const throttled = Chunk.toArray(await Effect.runPromise(Queue.takeAll(eventQueue)))
+        .filter((event) => event._tag === "NodeThrottled");
+      expect(throttled).toEqual([{ _tag: "NodeThrottled", nodeName: "write-b", limiterName: "shared-db", waitMs: 60000 }]);
+    });
+
+    it("should fail the run without retrying or dead-lettering when a named limiter is not provided", async () => {
+      const eventQueue = await Effect.runPromise(Queue.unbounded<RuntimeEvent>());
+      const sink = memoryDeadLetterSink();
+      let calls = 0;
+      const write: Node<number, number> = {
+        ...limited("write", "unknown"),
+        run: (input) => Effect.sync(() => (calls += 1, input)),
+        retry: { maxAttempts: 3 },
+        deadLetter: sink
+      };
+      const executor = new PipelineExecutor({ name: "p", nodes: [write] }, eventQueue);
+
+      const error = await Effect.runPromise(Effect.flip(executor.run({ input: 1 })));
+
+      expect(error).toBeInstanceOf(RateLimiterNotProvidedError);
+      expect(error.message).toBe('Rate limiter "unknown" is not provided');
+      expect(calls).toBe(0);
+      expect(sink.letters()).toEqual([]);
+    });
+
+    it("should keep a node's own budget per executor", async () => {
+      const node = limited("call-api", { limit: 1, interval: "1 second" });
+      const eventQueue = await Effect.runPromise(Queue.unbounded<RuntimeEvent>());
+
+      await Effect.runPromise(
+        Effect.all([
+          new PipelineExecutor({ name: "a", nodes: [node] }, eventQueue).run({ input: 1 }),
+          new PipelineExecutor({ name: "b", nodes: [node] }, eventQueue).run({ input: 2 })
+        ]).pipe(Effect.provide(TestContext.TestContext))
+      );
+
+      const throttled = Chunk.toArray(await Effect.runPromise(Queue.takeAll(eventQueue)))
+        .filter((event) => event._tag === "NodeThrottled");
+      expect(throttled).toEqual([]);
+    });
+  });
+
+  describe("graceful shutdown", () => {
+    const closable = <I, O>(node: Node<I, O>, onClose: () => void): Node<I, O> => ({
+      ...node,
+      close: () => Effect.sync(onClose)
+    });
+
+    it("should stop the source, finish items in flight and close nodes", async () => {
+      let produced = 0;
+      const processed: number[] = [];
+      const closed: string[] = [];
+      const eventQueue = await Effect.runPromise(Queue.unbounded<RuntimeEvent>());
+
+      await Effect.runPromise(
+        Effect.gen(function* (_) {
+          const counter = closable<undefined, number>(
+            { kind: NodeKind.Ingress, name: "counter", run: () => Effect.sync(() => ++produced) },
+            () => closed.push("counter")
+          );
+          let executor: PipelineExecutor | undefined;
+          const sink = closable<number, void>(
+            {
+              kind: NodeKind.Egress,
+              name: "sink",
+              run: (input) => Effect.suspend(() => {
+                processed.push(input);
+                return input === 3 ? executor!.stop() : Effect.void;
+              })
+            },
+            () => closed.push("sink")
+          );
+
+          executor = new PipelineExecutor({ name: "endless-pipeline", nodes: [counter, sink] }, eventQueue);
+          yield* _(executor.runStream());
+        })
+      );
+
+      expect(processed.slice(0, 3)).toEqual([1, 2, 3]);
+      expect(processed.length).toBeLessThanOrEqual(produced);
+      expect(closed).toEqual(["counter", "sink"]);
+
+      const tags = Chunk.toArray(await Effect.runPromise(Queue.takeAll(eventQueue))).map((e) => e._tag);
+      expect(tags[tags.length - 1]).toBe("PipelineCompleted");
+    });
+
+    it("should end a single run waiting for its ingress without an item", async () => {
+      let closed = false;
+      const eventQueue = await Effect.runPromise(Queue.unbounded<RuntimeEvent>());
+      const waiting = closable<undefined, string>(
+        { kind: NodeKind.Ingress, name: "waiting", run: () => Effect.never },
+        () => { closed = true; }
+      );
+      const executor = new PipelineExecutor({ name: "idle-pipeline", nodes: [waiting, mockTransform] }, eventQueue);
+
+      const result = await Effect.runPromise(
+        Effect.gen(function* (_) {
+          const fiber = yield* _(Effect.fork(executor.run()));
+          yield* _(Effect.yieldNow());
+          yield* _(executor.stop());
+          return yield* _(Fiber.join(fiber));
+        })
+      );
+
+      expect(result.completed).toBe(false);
+      expect(closed).toBe(true);
+      expect((await Effect.runPromise(executor.run())).completed).toBe(false);
+    });
+
+    it("should interrupt items still in flight after the deadline", async () => {
+      let interrupted = false;
+      const eventQueue = await Effect.runPromise(Queue.unbounded<RuntimeEvent>());
+      const hanging: Node<unknown, never> = {
+        kind: NodeKind.Transform,
+        name: "hanging",
+        run: () => Effect.never.pipe(Effect.onInterrupt(() => Effect.sync(() => { interrupted = true; })))
+      };
+      const executor = new PipelineExecutor({ name: "stuck-pipeline", nodes: [mockIngress, hanging] }, eventQueue);
+
+      const error = await Effect.runPromise(
+        Effect.gen(function* (_) {
+          const fiber = yield* _(Effect.fork(Effect.flip(executor.run())));
+          yield* _(TestClock.adjust("1 second"));
+          yield* _(executor.stop({ deadline: "5 seconds" }));
+          yield* _(TestClock.adjust("5 seconds"));
+          return yield* _(Fiber.join(fiber));
+        }).pipe(Effect.provide(TestContext.TestContext))
+      );
+
+      expect(interrupted).toBe(true);
+      expect(error).toBeInstanceOf(DrainTimeoutError);
+      expect(error.message).toBe("Pipeline \"stuck-pipeline\" did not drain within 5000ms");
+    });
+  });
+
+  describe("node failures", () => {
+    class LookupError extends Data.TaggedError("LookupError")<{ readonly id: number }> {}
+    class QuotaError extends Data.TaggedError("QuotaError")<{ readonly limit: number }> {}
+
+    const lookup: Node<{ id: number; email: string }, string, LookupError> = {
+      kind: NodeKind.Transform,
+      name: "lookup",
+      run: (user) => Effect.fail(new LookupError({ id: user.id }))
+    };
+    const charge: Node<string, void, QuotaError> = {
+      kind: NodeKind.Egress,
+      name: "charge",
+      run: () => Effect.fail(new QuotaError({ limit: 10 }))
+    };
+    const users = pipeline("users")
+      .from({ kind: NodeKind.Ingress, name: "user", run: () => Effect.succeed({ id: 7, email: "ada@example.com" }) } as Node<undefined, { id: number; email: string }>)
+      .through(lookup)
+      .to(charge)
+      .build();
+
+    it("should fail with a NodeFailure carrying the node, its typed error and the input", async () => {
+      const eventQueue = await Effect.runPromise(Queue.unbounded<RuntimeEvent>());
+      const executor = new PipelineExecutor(users, eventQueue);
+
+      const error = await Effect.runPromise(Effect.flip(executor.run()));
+
+      expect(error).toBeInstanceOf(NodeFailure);
+      const failure = error as NodeFailure<LookupError | QuotaError>;
+      expect(failure.message).toBe("Node lookup failed: LookupError");
+      expect(failure.nodeName).toBe("lookup");
+      expect(failure.nodeKind).toBe(NodeKind.Transform);
+      expect(failure.cause).toEqual(new LookupError({ id: 7 }));
+      expect(failure.input).toEqual({ id: 7, email: "ada@example.com" });
+    });
+
+    it("should let callers catch the node errors of the pipe by tag", async () => {
+      const eventQueue = await Effect.runPromise(Queue.unbounded<RuntimeEvent>());
+      const executor = new PipelineExecutor(users, eventQueue);
+
+      const handled = await Effect.runPromise(
+        executor.run().pipe(
+          Effect.map(() => "completed"),
+          Effect.catchTag("NodeFailure", (failure) =>
+            Effect.succeed(failure.cause._tag === "LookupError" ? `unknown user ${failure.cause.id}` : "over quota")
+          )
+        )
+      );
+
+      expect(handled).toBe("unknown user 7");
+    });
+
+    it("should redact the input with redactInput", async () => {
+      const eventQueue = await Effect.runPromise(Queue.unbounded<RuntimeEvent>());
+      const executor = new PipelineExecutor(users, eventQueue, {
+        redactInput: (input, nodeName) => ({ ...(input as object), email: "***", nodeName })
+      });
+
+      const error = await Effect.runPromise(Effect.flip(executor.run()));
+
+      expect((error as NodeFailure).input).toEqual({ id: 7, email: "***", nodeName: "lookup" });
+    });
+  });
+
+  describe("context inference", () => {
+    class Prefix extends Context.Tag("Prefix")<Prefix, string>() {}
+
+    const greet: Node<string, string, never, Prefix> = {
+      kind: NodeKind.Transform,
+      name: "greet",
+      run: (name) => Effect.map(Prefix, (prefix) => `${prefix} ${name}`)
+    };
+
+    it("should infer the requirements of run() from the pipe", async () => {
+      const received: string[] = [];
+      const pipe = pipeline("inferred")
+        .from({ kind: NodeKind.Ingress, name: "name", run: () => Effect.succeed("Ada") } as Node<undefined, string>)
+        .through(greet)
+        .to({ kind: NodeKind.Egress, name: "collect", run: (s: string) => Effect.sync(() => { received.push(s); }) })
+        .build();
+
+      const eventQueue = await Effect.runPromise(Queue.unbounded<RuntimeEvent>());
+      const executor = new PipelineExecutor(pipe, eventQueue);
+      const program: Effect.Effect<RunResult, Error, Prefix> = executor.run();
+
+      // @ts-expect-error Prefix has not been provided
+      const unprovided = () => Effect.runPromise(executor.run());
+
+      await Effect.runPromise(Effect.provideService(program, Prefix, "Hello"));
+
+      expect(unprovided).toBeFunction();
+      expect(received).toEqual(["Hello Ada"]);
+    });
+  });
 }); 
\ No newline at end of file
@@ -1,75 +1,1091 @@
-import { Effect, Queue } from "effect";
-import type { Node } from "../../core/node";
-import type { Pipe } from "../../core/pipe";
+import { Clock, Deferred, Duration, Effect, Either, FiberId, FiberRef, Option, Queue, Stream } from "effect";
+import { NodeKind, type Node } from "../../core/node";
+import type { Branch, Pipe, PipeFork } from "../../core/pipe";
 import type { RuntimeEvent } from "../../core/event";
+import type { DeadLetterSink } from "../../core/deadLetter";
+import type { CheckpointStore } from "../../core/checkpoint";
+import { isDrop } from "../../core/drop";
+import { retryWithPolicy } from "./retry";
+import type { RateLimitSpec } from "../../core/rateLimit";
+import { resolveRateLimiter, type RateLimiter } from "./rateLimit";
+import { DrainTimeoutError, NodeFailure, NodeTimeoutError, PipelineTimeoutError, type PipelineError } from "./errors";
+import type { NodeTiming, RunOptions, RunResult } from "./runResult";
+import { currentEventSink } from "./eventSink";
+import { currentNodeScope } from "./nodeScope";
+import { currentItemSettled, type ItemSettledHook } from "./itemSettled";
+import { withRunLocals } from "./runLocal";
+
+/**
+ * Capacity used for a stage's inbound queue when its Node does not declare one.
+ */
+export const DEFAULT_QUEUE_CAPACITY = 16;
+
+/**
+ * How long a stopped pipeline may take to finish its items in flight when
+ * `stop()` is called without a `deadline`.
+ */
+export const DEFAULT_DRAIN_DEADLINE: Duration.DurationInput = "30 seconds";
+
+/**
+ * A run of Nodes followed by an optional fork – the trunk of a Pipe after its
+ * ingress, or a Branch.
+ */
+type Segment = Pick<Branch<any, any>, "nodes" | "fork">;
+
+type Route = Extract<PipeFork<any, any>, { readonly _tag: "Route" }>;
+
+/**
+ * An `onItemSettled` hook as the executor keeps it: failures already turned
+ * into the failure of the Node that registered it.
+ */
+type SettledHook<E> = (completed: boolean) => Effect.Effect<void, PipelineError<E>>;
+
+/**
+ * What a one-shot run collects while it walks the Nodes.
+ */
+interface RunRecord<E> {
+  readonly timings: NodeTiming[];
+  readonly outputs?: Record<string, unknown>;
+  readonly hooks: SettledHook<E>[];
+}
+
+/**
+ * An item travelling through a streaming run, with the hooks its Nodes
+ * registered so far.
+ */
+interface Item<E> {
+  readonly value: unknown;
+  readonly hooks: readonly SettledHook<E>[];
+}
+
+/**
+ * The queues and fibers of a Segment wired for streaming.
+ */
+interface Wiring<E, R> {
+  /**
+   * Feed the Segment's first stage. `None` marks the end of the stream.
+   */
+  readonly offer: (item: Option.Option<Item<E>>) => Effect.Effect<void, PipelineError<E>>;
+  /**
+   * Discard whatever is still offered until the end of the stream, so a failed
+   * branch does not block the stages feeding it.
+   */
+  readonly drain: Effect.Effect<void>;
+  readonly run: Effect.Effect<void, PipelineError<E>, R>;
+}
+
+export interface ExecutorOptions {
+  /**
+   * Inbound queue capacity for stages whose Node has no `capacity` of its own.
+   */
+  readonly queueCapacity?: number;
+  /**
+   * Keep every Node's output in the `RunResult` of `run()`. Off by default
+   * because outputs can be large.
+   */
+  readonly recordOutputs?: boolean;
+  /**
+   * Turn the input a Node failed on into what its `NodeFailure` carries – e.g.
+   * to mask personal data before failures are logged. Inputs are kept as they
+   * are by default.
+   */
+  readonly redactInput?: (input: unknown, nodeName: string) => unknown;
+}
+
+export interface StopOptions {
+  /**
+   * How long items in flight may take to finish before the remaining stages
+   * are interrupted. Defaults to `DEFAULT_DRAIN_DEADLINE`.
+   */
+  readonly deadline?: Duration.DurationInput;
+}
 
 /**
  * The runtime engine that executes a Pipe by wiring its Nodes together.
- * Each Node runs in its own Effect fiber with back-pressure handling.
- * 
+ * In streaming mode each Node runs in its own Effect fiber, joined to the
+ * next stage by a bounded queue for back-pressure handling.
+ *
  * The executor automatically propagates context requirements from all nodes
- * to the final Effect, enabling dependency injection.
+ * to the final Effect, enabling dependency injection: `E` and `R` are taken
+ * from the Pipe, so `run()` needs no type arguments.
  */
-export class PipelineExecutor {
+export class PipelineExecutor<E = any, R = never> {
+  /**
+   * Completed with the drain deadline once `stop()` is called.
+   */
+  private readonly stopping = Deferred.unsafeMake<Duration.Duration>(FiberId.none);
+  /**
+   * The limiters of Nodes with a `rateLimit` spec of their own, shared by all
+   * runs of this executor.
+   */
+  private readonly ownLimiters = new Map<RateLimitSpec, RateLimiter>();
+
   constructor(
-    private readonly pipe: Pipe,
-    private readonly eventQueue: Queue.Queue<RuntimeEvent>
+    private readonly pipe: Pipe<E, R>,
+    private readonly eventQueue: Queue.Queue<RuntimeEvent>,
+    private readonly options: ExecutorOptions = {}
   ) {}
 
+  /**
+   * Ask running pipelines to shut down gracefully. The ingress stops taking
+   * items – a one-shot run still waiting for its item ends without one – and
+   * items already in flight finish. If they have not finished once the
+   * `deadline` passes, the remaining stages are interrupted and the run fails
+   * with a `DrainTimeoutError`. Finally every Node's `close` finalizer runs.
+   *
+   * Returns without waiting for the runs to end. Stopping is permanent: runs
+   * started afterwards end before their ingress. Calling it again has no
+   * effect.
+   */
+  stop(options: StopOptions = {}): Effect.Effect<void> {
+    return Effect.asVoid(Deferred.succeed(this.stopping, Duration.decode(options.deadline ?? DEFAULT_DRAIN_DEADLINE)));
+  }
+
   /**
    * Execute the pipeline by running each Node in sequence.
    * Ingress Nodes start the flow, Transform Nodes process data,
-   * and Egress Nodes handle final output.
-   * 
+   * and Egress Nodes handle final output. A dropped or dead-lettered item ends
+   * the run early without failing it.
+   *
+   * When the Pipe fans out, the branches run concurrently. A failing branch
+   * does not interrupt its siblings; the run fails once all of them have
+   * finished. A route runs only the branch it selects.
+   *
+   * Resolves with a `RunResult`: the final output, per-Node timings and – with
+   * `recordOutputs` – every Node's output.
+   *
+   * If the Pipe has a `checkpoint` store, every Node of the trunk saves a
+   * checkpoint once it completes, and the checkpoint is cleared when the run
+   * completes. A failed run can then be continued with `resume(runId)`.
+   *
+   * A Node failing for good fails the run with a `NodeFailure` whose `cause`
+   * is typed as the union of the Nodes' errors `E`, so callers can
+   * `catchTag("NodeFailure")` and match on the cause's own tag.
+   *
    * The return type automatically infers the union of all context requirements
    * from the nodes in the pipeline, enabling type-safe dependency injection.
    */
-  run<R = never>(): Effect.Effect<void, Error, R> {
+  run(options: RunOptions = {}): Effect.Effect<RunResult, PipelineError<E>, R> {
+    return this.execute(options.runId ?? crypto.randomUUID(), { nodeIndex: -1, output: options.input });
+  }
+
+  /**
+   * Continue a failed run after the last Node it checkpointed, feeding that
+   * Node's saved output to the next one. Nodes before it – including the
+   * ingress – do not run again. Emits `PipelineResumed` after `PipelineStarted`.
+   *
+   * Fails if the Pipe has no `checkpoint` store, the run has no checkpoint
+   * (it never started, or already completed), or the checkpoint belongs to a
+   * different Pipe.
+   */
+  resume(runId: string): Effect.Effect<RunResult, PipelineError<E>, R> {
     const self = this;
     return Effect.gen(function* (_) {
-      yield* _(Queue.offer(self.eventQueue, {
+      const store = self.pipe.checkpoint;
+      if (!store) {
+        return yield* _(Effect.fail(new Error(`Pipeline "${self.pipe.name}" has no checkpoint store`)));
+      }
+
+      const saved = yield* _(self.checkpointed(store, store.load(runId)));
+      if (Option.isNone(saved)) {
+        return yield* _(Effect.fail(new Error(`No checkpoint for run "${runId}"`)));
+      }
+
+      const { pipelineName, nodeIndex, nodeName, output } = saved.value;
+      if (pipelineName !== self.pipe.name || self.pipe.nodes[nodeIndex]?.name !== nodeName) {
+        return yield* _(
+          Effect.fail(new Error(`Checkpoint for run "${runId}" does not match pipeline "${self.pipe.name}"`))
+        );
+      }
+
+      return yield* _(self.execute(runId, { nodeIndex, output }, nodeName));
+    });
+  }
+
+  /**
+   * Walk the trunk for one run, feeding `start.output` to the Node after
+   * `start.nodeIndex`, and collect its `RunResult`. `resumedAfter` names the
+   * checkpointed Node a resumed run continues from.
+   */
+  private execute(
+    runId: string,
+    start: { readonly nodeIndex: number; readonly output: unknown },
+    resumedAfter?: string
+  ): Effect.Effect<RunResult, PipelineError<E>, R> {
+    const self = this;
+    return Effect.gen(function* (_) {
+      const startedAt = yield* _(Clock.currentTimeMillis);
+      const record: RunRecord<E> = {
+        timings: [],
+        ...(self.options.recordOutputs ? { outputs: {} } : {}),
+        hooks: []
+      };
+      const offset = start.nodeIndex + 1;
+      const store = self.pipe.checkpoint;
+
+      const trunk = self.runSegment(
+        { nodes: self.pipe.nodes.slice(offset), fork: self.pipe.fork },
+        start.output,
+        record,
+        store && ((index, node, output) => self.checkpointed(store, Effect.flatMap(Clock.currentTimeMillis, (now) =>
+          store.save({
+            runId,
+            pipelineName: self.pipe.name,
+            nodeName: node.name,
+            nodeIndex: offset + index,
+            output,
+            completedAt: new Date(now)
+          })
+        )))
+      );
+
+      const output = yield* _(
+        self.lifecycle(
+          Effect.gen(function* (_) {
+            if (resumedAfter) {
+              yield* _(self.emit({
+                _tag: "PipelineResumed",
+                pipelineName: self.pipe.name,
+                runId,
+                nodeName: resumedAfter
+              }));
+            }
+            const output = yield* _(trunk);
+            if (store) {
+              yield* _(self.checkpointed(store, store.clear(runId)));
+            }
+            yield* _(self.settleRun(record.hooks, Option.isSome(output)));
+            return output;
+          })
+        ).pipe(
+          Effect.ensuring(Effect.whenEffect(self.closeNodes(), Deferred.isDone(self.stopping))),
+          withRunLocals
+        )
+      );
+      const finishedAt = yield* _(Clock.currentTimeMillis);
+
+      return {
+        runId,
+        pipelineName: self.pipe.name,
+        output: Option.getOrUndefined(output),
+        completed: Option.isSome(output),
+        ...(record.outputs ? { outputs: record.outputs } : {}),
+        timings: record.timings,
+        startedAt: new Date(startedAt),
+        durationMs: finishedAt - startedAt
+      };
+    });
+  }
+
+  /**
+   * Execute the pipeline continuously. The ingress Node produces a Stream of
+   * items – its `stream` source, or `run` repeated forever – and every element
+   * flows through the remaining Nodes until the source ends or the returned
+   * Effect is interrupted.
+   *
+   * Every stage runs in its own fiber and reads from a bounded queue sized by
+   * the Node's `capacity`, so a slow stage suspends the stages feeding it
+   * instead of letting items pile up in memory. Queue depths are reported as
+   * `QueueDepth` events. If any stage fails, the remaining fibers are
+   * interrupted and the run fails – unless a dead-letter sink takes the item,
+   * in which case the stage moves on to the next one. Items a Node drops
+   * (see `Drop`) are not forwarded either.
+   *
+   * A fork hands every item to each branch's first queue in turn, so the
+   * slowest branch paces the fork. A failing branch emits `BranchErrored` and
+   * stops taking items while its siblings keep streaming; the run fails once
+   * the stream has ended. A route offers each item to the selected branch only.
+   *
+   * The ingress emits `NodeStarted` once when the source is opened and
+   * `NodeCompleted` once it ends; downstream Nodes emit their events per item.
+   *
+   * After `stop()` the source is closed, the items already taken travel to
+   * the end of the Pipe and the run completes. Every Node's `close` finalizer
+   * runs once the run ends, however it ends.
+   */
+  runStream(): Effect.Effect<void, PipelineError<E>, R> {
+    const self = this;
+    const [source, ...stages] = this.pipe.nodes;
+
+    if (!source) {
+      return this.lifecycle(Effect.void);
+    }
+
+    return this.lifecycle(
+      Effect.gen(function* (_) {
+        const trunk = yield* _(self.wire({ nodes: stages, fork: self.pipe.fork }));
+
+        const producer = Effect.zipRight(
+          Stream.runForEach(self.source(source), (item) =>
+            isDrop(item)
+              ? self.emit({ _tag: "NodeFiltered", nodeName: source.name })
+              : trunk.offer(Option.some({ value: item, hooks: [] }))
+          ),
+          trunk.offer(Option.none())
+        );
+
+        yield* _(
+          Effect.all([producer, trunk.run], {
+            concurrency: "unbounded",
+            discard: true
+          })
+        );
+      })
+    ).pipe(Effect.ensuring(this.closeNodes()), withRunLocals);
+  }
+
+  /**
+   * Run a Segment's Nodes in sequence against one input, then its fork.
+   * Returns the last output – per branch name if the Segment forks – or
+   * `None` when the item stopped early. `onCompleted` is called after each of
+   * the Segment's own Nodes, not for its branches.
+   */
+  private runSegment(
+    segment: Segment,
+    input: unknown,
+    record: RunRecord<E>,
+    onCompleted?: (index: number, node: Node<any, any, any, any>, output: unknown) => Effect.Effect<void, PipelineError<E>, R>
+  ): Effect.Effect<Option.Option<unknown>, PipelineError<E>, R> {
+    const self = this;
+    return Effect.gen(function* (_) {
+      let currentInput = input;
+
+      for (const [index, node] of segment.nodes.entries()) {
+        const attempt = self.timed(node, currentInput, record);
+        const output = yield* _(node.kind === NodeKind.Ingress ? self.unlessStopped(attempt) : attempt);
+        if (Option.isNone(output)) {
+          return output;
+        }
+        if (onCompleted) {
+          yield* _(onCompleted(index, node, output.value));
+        }
+        currentInput = output.value;
+      }
+
+      if (!segment.fork) {
+        return Option.some(currentInput);
+      }
+
+      const output = currentInput;
+      const branches = segment.fork._tag === "FanOut"
+        ? segment.fork.branches
+        : yield* _(Effect.map(self.route(segment.fork, output), (branch) => branch ? [branch] : []));
+
+      if (branches.length === 0) {
+        return Option.none();
+      }
+
+      const results = yield* _(self.joinBranches(branches, (branch) => self.runSegment(branch, output, record)));
+      return Option.some(
+        Object.fromEntries(branches.map((branch, index) => [branch.name, Option.getOrUndefined(results[index]!)]))
+      );
+    });
+  }
+
+  /**
+   * Run a Node for a one-shot run, recording its timing and output.
+   */
+  private timed(
+    node: Node<any, any, any, any>,
+    input: unknown,
+    record: RunRecord<E>
+  ): Effect.Effect<Option.Option<unknown>, PipelineError<E>, R> {
+    const self = this;
+    return Effect.gen(function* (_) {
+      const startedAt = yield* _(Clock.currentTimeMillis);
+      const output = yield* _(
+        Effect.ensuring(
+          self.runNode(node, input, record.hooks),
+          Effect.map(Clock.currentTimeMillis, (finishedAt) => {
+            record.timings.push({ nodeName: node.name, startedAt: new Date(startedAt), durationMs: finishedAt - startedAt });
+          })
+        )
+      );
+
+      if (record.outputs && Option.isSome(output)) {
+        record.outputs[node.name] = output.value;
+      }
+      return output;
+    });
+  }
+
+  /**
+   * Pick the branch an item is routed to, emitting `ItemRouted` – or
+   * `ItemUnrouted` when no branch matches.
+   */
+  private route(fork: Route, input: unknown): Effect.Effect<Branch<any, any> | undefined, PipelineError<E>> {
+    const self = this;
+    return Effect.gen(function* (_) {
+      const name = yield* _(
+        Effect.try({
+          try: () => fork.select(input),
+          catch: (error) => new Error(`Routing failed: ${error}`)
+        })
+      );
+
+      if (name === undefined) {
+        yield* _(self.emit({ _tag: "ItemUnrouted", pipelineName: self.pipe.name }));
+        return undefined;
+      }
+
+      const branch = fork.branches.find((candidate) => candidate.name === name);
+      if (!branch) {
+        return yield* _(Effect.fail(new Error(`Route selected unknown branch "${name}"`)));
+      }
+
+      yield* _(self.emit({ _tag: "ItemRouted", pipelineName: self.pipe.name, branchName: name }));
+      return branch;
+    });
+  }
+
+  /**
+   * Run every branch of a fork concurrently and isolated from each other,
+   * emitting `BranchErrored` per failure. Fails with the first branch error
+   * once all branches have finished; otherwise returns each branch's result.
+   */
+  private joinBranches<A>(
+    branches: readonly Branch<any, any>[],
+    runBranch: (branch: Branch<any, any>, index: number) => Effect.Effect<A, PipelineError<E>, R>
+  ): Effect.Effect<A[], PipelineError<E>, R> {
+    const self = this;
+    return Effect.gen(function* (_) {
+      const results = yield* _(
+        Effect.forEach(
+          branches,
+          (branch, index) =>
+            Effect.either(
+              Effect.tapError(runBranch(branch, index), (error) =>
+                self.emit({
+                  _tag: "BranchErrored",
+                  pipelineName: self.pipe.name,
+                  branchName: branch.name,
+                  error
+                })
+              )
+            ),
+          { concurrency: "unbounded" }
+        )
+      );
+
+      const failure = results.find(Either.isLeft);
+      if (failure) {
+        return yield* _(Effect.fail(failure.left));
+      }
+      return results.flatMap((result) => Either.isRight(result) ? [result.right] : []);
+    });
+  }
+
+  /**
+   * Connect a Segment's Nodes – and the branches of its fork – with bounded
+   * queues, one fiber per stage.
+   */
+  private wire(segment: Segment): Effect.Effect<Wiring<E, R>> {
+    const self = this;
+    return Effect.gen(function* (_) {
+      const inboxes = yield* _(
+        Effect.forEach(segment.nodes, (node) => Queue.bounded<Option.Option<Item<E>>>(self.capacityOf(node)))
+      );
+      const fork = segment.fork ? yield* _(self.wireFork(segment.fork)) : undefined;
+      let ended = false;
+
+      const forward = (index: number, item: Option.Option<Item<E>>): Effect.Effect<void, PipelineError<E>> => {
+        const inbox = inboxes[index];
+        const node = segment.nodes[index];
+        if (!inbox || !node) {
+          if (fork) {
+            return fork.offer(item);
+          }
+          // Past the last Node: the item has completed
+          return Option.isSome(item) ? settle(item.value.hooks, true) : Effect.void;
+        }
+        return Effect.zipRight(Queue.offer(inbox, item), self.reportDepth(node, inbox));
+      };
+
+      const stage = (node: Node<any, any, any, any>, index: number): Effect.Effect<void, PipelineError<E>, R> =>
+        Effect.gen(function* (_) {
+          const inbox = inboxes[index]!;
+          let open = true;
+
+          if (node.accumulate) {
+            yield* _(self.accumulate(node, inbox, (output, hooks) => forward(index + 1, Option.some({ value: output, hooks }))));
+            open = false;
+            ended = ended || index === 0;
+          }
+
+          while (open) {
+            const next = yield* _(Queue.take(inbox));
+            yield* _(self.reportDepth(node, inbox));
+
+            if (Option.isNone(next)) {
+              open = false;
+              ended = ended || index === 0;
+            } else {
+              const hooks = [...next.value.hooks];
+              const output = yield* _(self.runNode(node, next.value.value, hooks));
+              yield* _(
+                Option.isSome(output)
+                  ? forward(index + 1, Option.some({ value: output.value, hooks }))
+                  : settle(hooks, false)
+              );
+            }
+          }
+
+          yield* _(forward(index + 1, Option.none()));
+        });
+
+      const entry = inboxes[0];
+      const drain: Effect.Effect<void> = Effect.suspend(() =>
+        !entry || ended
+          ? Effect.void
+          : Effect.flatMap(Queue.take(entry), (item) => {
+            ended = Option.isNone(item);
+            return drain;
+          })
+      );
+
+      return {
+        offer: (item) => forward(0, item),
+        drain,
+        run: Effect.all([...segment.nodes.map(stage), ...(fork ? [fork.run] : [])], {
+          concurrency: "unbounded",
+          discard: true
+        })
+      };
+    });
+  }
+
+  /**
+   * Wire every branch of a fork. The end of the stream reaches every branch;
+   * items reach all branches of a fan-out, or the one a route selects. A
+   * failed branch is drained so the fork keeps feeding its siblings.
+   */
+  private wireFork(fork: PipeFork<any, any>): Effect.Effect<Wiring<E, R>> {
+    const self = this;
+    return Effect.gen(function* (_) {
+      const branches = yield* _(Effect.forEach(fork.branches, (branch) => self.wire(branch)));
+
+      return {
+        offer: (item) => {
+          if (Option.isNone(item)) {
+            return Effect.forEach(branches, (branch) => branch.offer(item), { discard: true });
+          }
+          if (fork._tag === "FanOut") {
+            const shares = share(item.value.hooks, branches.length);
+            return Effect.forEach(
+              branches,
+              (branch, index) => branch.offer(Option.some({ value: item.value.value, hooks: shares[index]! })),
+              { discard: true }
+            );
+          }
+          return Effect.flatMap(self.route(fork, item.value.value), (selected) =>
+            selected ? branches[fork.branches.indexOf(selected)]!.offer(item) : settle(item.value.hooks, false)
+          );
+        },
+        drain: Effect.forEach(branches, (branch) => branch.drain, { discard: true }),
+        run: Effect.asVoid(self.joinBranches(fork.branches, (_, index) => {
+          const branch = branches[index]!;
+          return Effect.catchAll(branch.run, (error) => Effect.zipRight(branch.drain, Effect.fail(error)));
+        }))
+      };
+    });
+  }
+
+  /**
+   * Wrap a pipeline body with the Pipeline* lifecycle events.
+   */
+  private lifecycle<A>(body: Effect.Effect<A, PipelineError<E>, R>): Effect.Effect<A, PipelineError<E>, R> {
+    const self = this;
+    return Effect.gen(function* (_) {
+      yield* _(self.emit({
         _tag: "PipelineStarted",
         pipelineName: self.pipe.name
       }));
 
-      let currentInput: unknown = undefined;
+      const result = yield* _(
+        Effect.tapError(self.withDrainDeadline(self.withPipeTimeout(body)), (error) =>
+          self.emit({
+            _tag: "PipelineErrored",
+            pipelineName: self.pipe.name,
+            error
+          })
+        )
+      );
 
-      for (const node of self.pipe.nodes) {
-        yield* _(Queue.offer(self.eventQueue, {
-          _tag: "NodeStarted",
-          nodeName: node.name
+      yield* _(self.emit({
+        _tag: "PipelineCompleted",
+        pipelineName: self.pipe.name
+      }));
+
+      return result;
+    });
+  }
+
+  /**
+   * Interrupt the run once the Pipe's `timeout` elapses.
+   */
+  private withPipeTimeout<A>(body: Effect.Effect<A, PipelineError<E>, R>): Effect.Effect<A, PipelineError<E>, R> {
+    const timeout = this.pipe.timeout;
+    if (timeout === undefined) {
+      return body;
+    }
+
+    const pipelineName = this.pipe.name;
+    const elapsedMs = Duration.toMillis(Duration.decode(timeout));
+    return Effect.timeoutFail(body, {
+      duration: timeout,
+      onTimeout: () =>
+        new PipelineTimeoutError({
+          message: `Pipeline "${pipelineName}" timed out after ${elapsedMs}ms`,
+          pipelineName,
+          elapsedMs
+        })
+    });
+  }
+
+  /**
+   * Once `stop()` is called, interrupt the run after the drain deadline.
+   */
+  private withDrainDeadline<A>(body: Effect.Effect<A, PipelineError<E>, R>): Effect.Effect<A, PipelineError<E>, R> {
+    const pipelineName = this.pipe.name;
+    const deadline = Effect.flatMap(Deferred.await(this.stopping), (deadline) =>
+      Effect.zipRight(
+        Effect.sleep(deadline),
+        Effect.fail(
+          new DrainTimeoutError({
+            message: `Pipeline "${pipelineName}" did not drain within ${Duration.toMillis(deadline)}ms`,
+            pipelineName,
+            elapsedMs: Duration.toMillis(deadline)
+          })
+        )
+      )
+    );
+    return Effect.raceFirst(body, deadline);
+  }
+
+  /**
+   * Wait for an ingress item unless `stop()` is called first; a stopped
+   * ingress yields no item.
+   */
+  private unlessStopped(
+    attempt: Effect.Effect<Option.Option<unknown>, PipelineError<E>, R>
+  ): Effect.Effect<Option.Option<unknown>, PipelineError<E>, R> {
+    const stopped = Effect.as(Deferred.await(this.stopping), Option.none());
+    return Effect.flatMap(Deferred.isDone(this.stopping), (done) =>
+      done ? Effect.succeed(Option.none()) : Effect.raceFirst(attempt, stopped)
+    );
+  }
+
+  /**
+   * Find the limiter of a Node with a `rateLimit`. Runs once per item, before
+   * the Node's attempts, so a limiter that is not provided fails the run
+   * instead of being retried or dead-lettered.
+   */
+  private limiter(node: Node<any, any, any, any>): Effect.Effect<Option.Option<RateLimiter>, PipelineError<E>> {
+    return node.rateLimit
+      ? Effect.asSome(resolveRateLimiter(node.rateLimit, node.name, this.ownLimiters))
+      : Effect.succeedNone;
+  }
+
+  /**
+   * Wait for a slot of the Node's rate limit, emitting `NodeThrottled` when
+   * the budget is spent. The wait does not count towards the Node's timeout.
+   */
+  private throttle(node: Node<any, any, any, any>, limiter: RateLimiter): Effect.Effect<void> {
+    const self = this;
+    return Effect.gen(function* (_) {
+      const waitMs = yield* _(limiter.reserve);
+      if (waitMs > 0) {
+        yield* _(self.emit({
+          _tag: "NodeThrottled",
+          nodeName: node.name,
+          limiterName: limiter.name,
+          waitMs
         }));
+        yield* _(Effect.sleep(Duration.millis(waitMs)));
+      }
+    });
+  }
 
-        // Catch and wrap node errors with context, preserving the context requirements
-        const result = yield* _(
-          Effect.catchAll(
-            node.run(currentInput) as Effect.Effect<any, any, R>,
-            (error) => {
-              // Emit error event before failing
-              return Effect.gen(function* (_) {
-                yield* _(Queue.offer(self.eventQueue, {
-                  _tag: "NodeErrored", 
-                  nodeName: node.name,
-                  error
-                }));
-                return yield* _(Effect.fail(new Error(`Node ${node.name} failed: ${error}`)));
-              });
+  /**
+   * Run the `close` finalizer of every Node in the Pipe, branches included.
+   */
+  private closeNodes(): Effect.Effect<void> {
+    const nodes: Node<any, any, any, any>[] = [];
+    const collect = (segment: Segment) => {
+      nodes.push(...segment.nodes);
+      segment.fork?.branches.forEach(collect);
+    };
+    collect(this.pipe);
+
+    return Effect.forEach(nodes, (node) => node.close ? node.close() : Effect.void, { discard: true });
+  }
+
+  /**
+   * Run a single Node against one input, emitting its lifecycle events.
+   * Returns `None` when the item was dropped or handed to a dead-letter sink
+   * and must not travel further.
+   */
+  private runNode(
+    node: Node<any, any, any, any>,
+    input: unknown,
+    hooks: SettledHook<E>[] = []
+  ): Effect.Effect<Option.Option<unknown>, PipelineError<E>, R> {
+    const self = this;
+    return Effect.gen(function* (_) {
+      yield* _(self.emit({
+        _tag: "NodeStarted",
+        nodeName: node.name
+      }));
+
+      const limiter = yield* _(self.limiter(node));
+      let attempts = 0;
+      // Hooks of the attempt that succeeds join the item's
+      const registered: SettledHook<E>[] = [];
+      const register = (hook: ItemSettledHook) =>
+        Effect.sync(() => {
+          registered.push((completed) => Effect.catchAll(hook(completed), (error) => self.fail(node, error, input)));
+        });
+
+      // Catch and wrap node errors with context, preserving the context requirements
+      const result = yield* _(
+        Effect.catchAll(
+          Effect.map(
+            self.attempt(node, input, limiter, () => { attempts += 1; registered.length = 0; }, register),
+            (output) => {
+              hooks.push(...registered);
+              return Option.some(output);
             }
-          )
-        );
+          ),
+          (error) => self.deadLetter(node, input, error, attempts)
+        )
+      );
 
-        yield* _(Queue.offer(self.eventQueue, {
-          _tag: "NodeCompleted",
+      if (Option.isNone(result)) {
+        return result;
+      }
+
+      if (isDrop(result.value)) {
+        yield* _(self.emit({
+          _tag: "NodeFiltered",
           nodeName: node.name
         }));
+        return Option.none();
+      }
+
+      yield* _(self.emit({
+        _tag: "NodeCompleted",
+        nodeName: node.name
+      }));
+
+      return result;
+    });
+  }
 
-        currentInput = result;
+  /**
+   * Feed a stage's inputs to a fresh Accumulator of the Node until its input
+   * ends, sending outputs on as they are emitted – on input, once due by the
+   * clock and when flushed at the end. `NodeStarted` is emitted once the stage
+   * opens and `NodeCompleted` once it has flushed; dropped outputs are
+   * reported as `NodeFiltered`.
+   *
+   * The hooks of the inputs taken since the last output are shared by the
+   * next outputs; those still waiting once the stage has flushed settle as
+   * not completed.
+   */
+  private accumulate(
+    node: Node<any, any, any, any>,
+    inbox: Queue.Dequeue<Option.Option<Item<E>>>,
+    send: (output: unknown, hooks: readonly SettledHook<E>[]) => Effect.Effect<void, PipelineError<E>>
+  ): Effect.Effect<void, PipelineError<E>, R> {
+    const self = this;
+    return Effect.gen(function* (_) {
+      const accumulator = node.accumulate!();
+      let pending: SettledHook<E>[] = [];
+      const emitAll = (outputs: () => readonly unknown[], input?: unknown) =>
+        Effect.try({ try: outputs, catch: (error) => error }).pipe(
+          Effect.catchAll((error) => self.fail(node, error, input)),
+          Effect.flatMap((values) => {
+            const kept = values.filter((output) => !isDrop(output)).length;
+            const shares = kept > 0 ? share(pending, kept) : [];
+            if (kept > 0) {
+              pending = [];
+            }
+            let next = 0;
+            return Effect.forEach(values, (output) =>
+              isDrop(output) ? self.emit({ _tag: "NodeFiltered", nodeName: node.name }) : send(output, shares[next++]!),
+              { discard: true }
+            );
+          })
+        );
+      const taken = Effect.tap(Effect.map(Queue.take(inbox), Option.some), () => self.reportDepth(node, inbox));
+
+      yield* _(self.emit({ _tag: "NodeStarted", nodeName: node.name }));
+
+      let open = true;
+      while (open) {
+        const dueAt = accumulator.nextDue();
+        // `None` when the clock reached `dueAt` before the next input
+        const next = dueAt === undefined
+          ? yield* _(taken)
+          : yield* _(Effect.raceFirst(
+            taken,
+            Effect.flatMap(Clock.currentTimeMillis, (now) =>
+              Effect.as(Effect.sleep(Duration.millis(Math.max(dueAt - now, 0))), Option.none())
+            )
+          ));
+        const now = yield* _(Clock.currentTimeMillis);
+
+        if (Option.isNone(next)) {
+          yield* _(emitAll(() => accumulator.due(now)));
+        } else if (Option.isNone(next.value)) {
+          open = false;
+        } else {
+          const { value: input, hooks } = next.value.value;
+          pending.push(...hooks);
+          yield* _(emitAll(() => accumulator.add(input, now), input));
+        }
       }
 
-      yield* _(Queue.offer(self.eventQueue, {
-        _tag: "PipelineCompleted",
-        pipelineName: self.pipe.name
+      yield* _(emitAll(() => accumulator.flush()));
+      yield* _(settle(pending, false));
+      yield* _(self.emit({ _tag: "NodeCompleted", nodeName: node.name }));
+    });
+  }
+
+  /**
+   * Hand a failed item to the Node's (or Pipe's) dead-letter sink. Without a
+   * sink – or if the sink itself fails – the Node fails as usual.
+   */
+  private deadLetter(
+    node: Node<any, any, any, any>,
+    input: unknown,
+    error: unknown,
+    attempts: number
+  ): Effect.Effect<Option.Option<unknown>, PipelineError<E>, R> {
+    const self = this;
+    const sink: DeadLetterSink<E, R> | undefined = node.kind === NodeKind.Ingress
+      ? undefined
+      : node.deadLetter ?? this.pipe.deadLetter;
+    if (!sink) {
+      return this.fail(node, error, input);
+    }
+
+    const send = Effect.flatMap(Clock.currentTimeMillis, (now) =>
+      sink.send({
+        pipelineName: this.pipe.name,
+        nodeName: node.name,
+        input,
+        error,
+        attempts,
+        failedAt: new Date(now)
+      })
+    );
+
+    return send.pipe(
+      Effect.zipRight(self.emit({
+        _tag: "NodeDeadLettered",
+        nodeName: node.name,
+        sinkName: sink.name,
+        attempts,
+        error
+      })),
+      Effect.as(Option.none()),
+      Effect.catchAll(() => self.fail(node, error, input))
+    );
+  }
+
+  /**
+   * Invoke a Node's handler, bounding every attempt by its `timeout` and
+   * retrying according to its `retry` policy. The handler sees this run's
+   * event queue as `currentEventSink`, itself as `currentNodeScope` and
+   * `register` as `currentItemSettled`.
+   */
+  private attempt(
+    node: Node<any, any, any, any>,
+    input: unknown,
+    limiter: Option.Option<RateLimiter>,
+    onAttempt: () => void = () => {},
+    register?: (hook: ItemSettledHook) => Effect.Effect<void>
+  ): Effect.Effect<unknown, unknown, R> {
+    const self = this;
+    const attempt = this.withNodeTimeout(
+      node,
+      Effect.suspend(() => {
+        onAttempt();
+        return node.run(input).pipe(
+          Effect.locally(currentEventSink, Option.some((event: RuntimeEvent) => self.emit(event))),
+          Effect.locally(currentNodeScope, Option.some({ pipelineName: self.pipe.name, nodeName: node.name })),
+          Effect.locally(currentItemSettled, Option.fromNullable(register))
+        ) as Effect.Effect<unknown, unknown, R>;
+      })
+    );
+    const effect = Option.isSome(limiter) ? Effect.zipRight(this.throttle(node, limiter.value), attempt) : attempt;
+    if (!node.retry) {
+      return effect;
+    }
+
+    return retryWithPolicy(effect, node.retry, (attempt, error) =>
+      self.emit({
+        _tag: "NodeRetrying",
+        nodeName: node.name,
+        attempt,
+        error
+      })
+    );
+  }
+
+  /**
+   * Interrupt a Node attempt once its `timeout` elapses, emitting `NodeTimedOut`.
+   */
+  private withNodeTimeout(
+    node: Node<any, any, any, any>,
+    effect: Effect.Effect<unknown, unknown, R>
+  ): Effect.Effect<unknown, unknown, R> {
+    const self = this;
+    if (node.timeout === undefined) {
+      return effect;
+    }
+
+    const elapsedMs = Duration.toMillis(Duration.decode(node.timeout));
+    return Effect.timeoutFail(effect, {
+      duration: node.timeout,
+      onTimeout: () =>
+        new NodeTimeoutError({
+          message: `Node ${node.name} timed out after ${elapsedMs}ms`,
+          nodeName: node.name,
+          elapsedMs
+        })
+    }).pipe(
+      Effect.tapError((error) =>
+        error instanceof NodeTimeoutError
+          ? self.emit({ _tag: "NodeTimedOut", nodeName: node.name, elapsedMs })
+          : Effect.void
+      )
+    );
+  }
+
+  /**
+   * Open the ingress Node as a Stream of items.
+   */
+  private source(node: Node<any, any, any, any>): Stream.Stream<unknown, PipelineError<E>, R> {
+    const self = this;
+    const stopped = Deferred.await(this.stopping);
+    // haltWhen ends sources that never suspend, interruptWhen a pull that waits
+    const items = (limiter: Option.Option<RateLimiter>) => (
+      node.stream
+        ? node.stream() as Stream.Stream<unknown, unknown, R>
+        : Stream.repeatEffect(this.attempt(node, undefined, limiter))
+    ).pipe(Stream.haltWhen(stopped), Stream.interruptWhen(stopped));
+
+    return Stream.execute(this.emit({ _tag: "NodeStarted", nodeName: node.name })).pipe(
+      Stream.concat(Stream.unwrap(Effect.map(this.limiter(node), (limiter) =>
+        Stream.catchAll(items(limiter), (error) => Stream.fromEffect(self.fail(node, error, undefined)))
+      ))),
+      Stream.concat(Stream.execute(this.emit({ _tag: "NodeCompleted", nodeName: node.name })))
+    );
+  }
+
+  /**
+   * Emit a `NodeErrored` event and fail with a `NodeFailure` wrapping the
+   * Node's error and the input it failed on. Timeouts keep their typed
+   * `NodeTimeoutError`.
+   */
+  private fail(node: Node<any, any, any, any>, error: unknown, input: unknown): Effect.Effect<never, PipelineError<E>> {
+    const self = this;
+    return Effect.gen(function* (_) {
+      yield* _(self.emit({
+        _tag: "NodeErrored",
+        nodeName: node.name,
+        error
       }));
+      if (error instanceof NodeTimeoutError) {
+        return yield* _(Effect.fail(error));
+      }
+      const redact = self.options.redactInput ?? ((value: unknown) => value);
+      return yield* _(Effect.fail(new NodeFailure({
+        message: `Node ${node.name} failed: ${error}`,
+        nodeName: node.name,
+        nodeKind: node.kind,
+        cause: error as E,
+        input: redact(input, node.name)
+      })));
     });
   }
-} 
\ No newline at end of file
+
+  /**
+   * Run a checkpoint store operation, turning store failures into an `Error`
+   * naming the store.
+   */
+  private checkpointed<A>(store: CheckpointStore<E, R>, effect: Effect.Effect<A, E, R>): Effect.Effect<A, PipelineError<E>, R> {
+    return Effect.mapError(
+      effect,
+      (error) => new Error(`Checkpoint store ${store.name} failed: ${error}`)
+    );
+  }
+
+  /**
+   * Settle the hooks of a one-shot run's item – unless the run is itself
+   * part of an item of a parent run, whose hooks they then join.
+   */
+  private settleRun(hooks: readonly SettledHook<E>[], completed: boolean): Effect.Effect<void, PipelineError<E>> {
+    return Effect.flatMap(FiberRef.get(currentItemSettled), (parent) =>
+      Option.isSome(parent)
+        ? Effect.forEach(hooks, (hook) => parent.value(hook), { discard: true })
+        : settle(hooks, completed)
+    );
+  }
+
+  private capacityOf(node: Node<any, any, any, any>): number {
+    return node.capacity ?? this.options.queueCapacity ?? DEFAULT_QUEUE_CAPACITY;
+  }
+
+  /**
+   * Emit the number of items buffered in a stage's inbound queue. `Queue.size`
+   * also counts suspended takers (negative) and offerers (beyond capacity), so
+   * the value is clamped to what is actually buffered.
+   */
+  private reportDepth(node: Node<any, any, any, any>, inbox: Queue.Dequeue<unknown>): Effect.Effect<void> {
+    const self = this;
+    const capacity = Queue.capacity(inbox);
+    return Effect.flatMap(Queue.size(inbox), (size) =>
+      self.emit({
+        _tag: "QueueDepth",
+        nodeName: node.name,
+        depth: Math.min(Math.max(size, 0), capacity),
+        capacity
+      })
+    );
+  }
+
+  private emit(event: RuntimeEvent): Effect.Effect<void> {
+    return Queue.offer(this.eventQueue, event);
+  }
+}
+
+/**
+ * Run the hooks of a settled item in the order they were registered.
+ */
+function settle<E>(hooks: readonly SettledHook<E>[], completed: boolean): Effect.Effect<void, PipelineError<E>> {
+  return Effect.forEach(hooks, (hook) => hook(completed), { discard: true });
+}
+
+/**
+ * Split an item's hooks between the `count` items it turns into – its copies
+ * down the branches of a fan-out, the outputs of an accumulating Node. The
+ * hooks run once all of those have settled, as completed if any of them did.
+ */
+function share<E>(hooks: readonly SettledHook<E>[], count: number): SettledHook<E>[][] {
+  if (hooks.length === 0) {
+    return Array.from({ length: count }, () => []);
+  }
+
+  let left = count;
+  let completedAny = false;
+  const part: SettledHook<E> = (completed) =>
+    Effect.suspend(() => {
+      completedAny = completedAny || completed;
+      left -= 1;
+      return left === 0 ? settle(hooks, completedAny) : Effect.void;
+    });
+  return Array.from({ length: count }, () => [part]);
+}
@@ -1 +1,9 @@
-export * from "./executor"; 
\ No newline at end of file
+export * from "./executor";
+export * from "./errors";
+export * from "./retry";
+export * from "./rateLimit";
+export * from "./runResult";
+export * from "./eventSink";
+export * from "./nodeScope";
+export * from "./itemSettled";
+export * from "./runLocal";
@@ -0,0 +1,110 @@
+import { describe, it, expect } from "bun:test";
+import { Effect, FiberRef, Option, Queue, Stream } from "effect";
+import { currentItemSettled, onItemSettled } from "./itemSettled";
+import { PipelineExecutor } from "./executor";
+import { NodeKind, type Node } from "../../core/node";
+import type { Pipe } from "../../core/pipe";
+import type { RuntimeEvent } from "../../core/event";
+import { Drop } from "../../core/drop";
+
+// A Transform that registers a hook logging how each item settled
+const tracked = (log: string[]): Node<number, number> => ({
+  kind: NodeKind.Transform,
+  name: "tracked",
+  run: (input) =>
+    Effect.as(onItemSettled((completed) => Effect.sync(() => log.push(`${input} ${completed ? "completed" : "settled"}`))), input)
+});
+
+const logging = (log: string[], name: string, run: (input: number) => Effect.Effect<unknown, Error> = Effect.succeed): Node<number, unknown, Error> => ({
+  kind: NodeKind.Egress,
+  name,
+  run: (input) => Effect.tap(run(input), () => Effect.sync(() => log.push(`${name} ${input}`)))
+});
+
+const numbers = (...items: number[]): Node<undefined, number> => ({
+  kind: NodeKind.Ingress,
+  name: "numbers",
+  run: () => Effect.succeed(items[0]!),
+  stream: () => Stream.fromIterable(items)
+});
+
+const execute = <E>(pipe: Pipe<E>, mode: "run" | "runStream") =>
+  Effect.runPromise(
+    Effect.flatMap(Queue.unbounded<RuntimeEvent>(), (eventQueue) => {
+      const executor = new PipelineExecutor(pipe, eventQueue);
+      return Effect.either(mode === "run" ? executor.run() : executor.runStream());
+    })
+  );
+
+describe("onItemSettled", () => {
+  it("should be unset outside of an executor, running hooks right away", async () => {
+    const log: string[] = [];
+
+    await Effect.runPromise(tracked(log).run(1));
+
+    expect(Option.isNone(await Effect.runPromise(FiberRef.get(currentItemSettled)))).toBe(true);
+    expect(log).toEqual(["1 completed"]);
+  });
+
+  it("should run hooks once the item has passed the last node", async () => {
+    const log: string[] = [];
+    const pipe: Pipe<Error> = { name: "settling", nodes: [numbers(1, 2), tracked(log), logging(log, "save")] };
+
+    await execute(pipe, "runStream");
+    const streamed = log.splice(0);
+    await execute(pipe, "run");
+
+    // Stages run side by side, so only each item's own order is fixed
+    expect(streamed.filter((entry) => entry.startsWith("1") || entry.endsWith("1"))).toEqual(["save 1", "1 completed"]);
+    expect(streamed.filter((entry) => entry.startsWith("2") || entry.endsWith("2"))).toEqual(["save 2", "2 completed"]);
+    expect(log).toEqual(["save 1", "1 completed"]);
+  });
+
+  it("should settle dropped items as not completed", async () => {
+    const log: string[] = [];
+    const odd: Node<number, number | Drop> = {
+      kind: NodeKind.Transform,
+      name: "odd",
+      run: (input) => Effect.succeed(input % 2 === 1 ? input : Drop)
+    };
+    const pipe: Pipe<Error> = { name: "settling", nodes: [numbers(1, 2), tracked(log), odd, logging(log, "save")] };
+
+    await execute(pipe, "runStream");
+
+    expect([...log].sort()).toEqual(["1 completed", "2 settled", "save 1"]);
+    expect(log.indexOf("1 completed")).toBeGreaterThan(log.indexOf("save 1"));
+  });
+
+  it("should not settle items of a run that fails", async () => {
+    const log: string[] = [];
+    const pipe: Pipe<Error> = {
+      name: "settling",
+      nodes: [numbers(1), tracked(log), logging(log, "save", () => Effect.fail(new Error("down")))]
+    };
+
+    const result = await execute(pipe, "runStream");
+
+    expect(result._tag).toBe("Left");
+    expect(log).toEqual([]);
+  });
+
+  it("should run hooks once every branch of a fan-out has the item", async () => {
+    const log: string[] = [];
+    const pipe: Pipe<Error> = {
+      name: "settling",
+      nodes: [numbers(1), tracked(log)],
+      fork: {
+        _tag: "FanOut",
+        branches: [
+          { name: "a", nodes: [logging(log, "a")] },
+          { name: "b", nodes: [logging(log, "b")] }
+        ]
+      }
+    };
+
+    await execute(pipe, "runStream");
+
+    expect(log).toHaveLength(3);
+    expect(log[2]).toBe("1 completed");
+  });
+});
@@ -0,0 +1,33 @@
+import { Effect, FiberRef, Option } from "effect";
+
+/**
+ * Work to do once an item has settled – `completed` is `true` if it reached
+ * the end of the Pipe, `false` if it was dropped or dead-lettered before.
+ */
+export type ItemSettledHook = (completed: boolean) => Effect.Effect<void, unknown>;
+
+/**
+ * Registers hooks for the item the current Node is running on. The executor
+ * sets it around every Node attempt and carries the hooks along with the
+ * item – through queues, branches and accumulating Nodes – until the item
+ * settles. `None` outside of an executor.
+ */
+export const currentItemSettled: FiberRef.FiberRef<Option.Option<(hook: ItemSettledHook) => Effect.Effect<void>>> =
+  FiberRef.unsafeMake(Option.none());
+
+/**
+ * Run `hook` once the current item has settled: after the Pipe's last Node –
+ * with a fork, after the last Node of the branches it went down – or once it
+ * is dropped or dead-lettered. A hook failing fails the Node that registered
+ * it. Items of a run that fails never settle.
+ *
+ * Outside of an executor the item counts as completed right away.
+ */
+export const onItemSettled = <E, R>(hook: (completed: boolean) => Effect.Effect<void, E, R>): Effect.Effect<void, E, R> =>
+  Effect.flatMap(FiberRef.get(currentItemSettled), (register) =>
+    Option.isNone(register)
+      ? hook(true)
+      : Effect.flatMap(Effect.context<R>(), (context) =>
+        register.value((completed) => Effect.provide(hook(completed), context))
+      )
+  );
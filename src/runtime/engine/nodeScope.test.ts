@@ -0,0 +1,37 @@
+import { describe, it, expect } from "bun:test";
+import { Effect, FiberRef, Option, Queue } from "effect";
+import { currentNodeScope, withNodeScope } from "./nodeScope";
+import { PipelineExecutor } from "./executor";
+import { NodeKind } from "../../core/node";
+import type { RuntimeEvent } from "../../core/event";
+
+describe("currentNodeScope", () => {
+  it("should be empty outside of an executor", async () => {
+    const scope = await Effect.runPromise(FiberRef.get(currentNodeScope));
+
+    expect(Option.isNone(scope)).toBe(true);
+  });
+
+  it("should name the pipeline and node while a node runs", async () => {
+    const eventQueue = await Effect.runPromise(Queue.unbounded<RuntimeEvent>());
+    const executor = new PipelineExecutor(
+      {
+        name: "scoped",
+        nodes: [{ kind: NodeKind.Ingress, name: "reader", run: () => FiberRef.get(currentNodeScope) }]
+      },
+      eventQueue
+    );
+
+    const result = await Effect.runPromise(executor.run());
+
+    expect(result.output).toEqual(Option.some({ pipelineName: "scoped", nodeName: "reader" }));
+  });
+
+  it("should set the scope for an effect with withNodeScope", async () => {
+    const scope = await Effect.runPromise(
+      FiberRef.get(currentNodeScope).pipe(withNodeScope({ pipelineName: "orders", nodeName: "count" }))
+    );
+
+    expect(Option.getOrThrow(scope)).toEqual({ pipelineName: "orders", nodeName: "count" });
+  });
+});
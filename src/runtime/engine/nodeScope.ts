@@ -0,0 +1,24 @@
+import { Effect, FiberRef, Option } from "effect";
+
+/**
+ * The pipeline and Node an Effect runs on behalf of.
+ */
+export interface NodeScope {
+  readonly pipelineName: string;
+  readonly nodeName: string;
+}
+
+/**
+ * The Node the executor is currently running. The executor sets it around
+ * every Node attempt, so services such as `StateStore` can keep each Node's
+ * data apart. `None` outside of an executor.
+ */
+export const currentNodeScope: FiberRef.FiberRef<Option.Option<NodeScope>> = FiberRef.unsafeMake(Option.none());
+
+/**
+ * Run an Effect as if the executor ran it for the given Node – e.g. to call a
+ * stateful Node's `run` in a test.
+ */
+export const withNodeScope = (scope: NodeScope) =>
+  <A, E, R>(effect: Effect.Effect<A, E, R>): Effect.Effect<A, E, R> =>
+    Effect.locally(effect, currentNodeScope, Option.some(scope));
@@ -0,0 +1,96 @@
+import { describe, it, expect } from "bun:test";
+import { Effect, TestClock, TestContext } from "effect";
+import { makeRateLimiter, rateLimitersLayer, resolveRateLimiter } from "./rateLimit";
+import { RateLimiterNotProvidedError } from "./errors";
+
+// Reserve `count` slots at once and return each caller's wait
+const reserveAll = (limiter: ReturnType<typeof makeRateLimiter>, count: number) =>
+  Effect.all(Array.from({ length: count }, () => limiter.reserve));
+
+const runTest = <A, E>(effect: Effect.Effect<A, E>) =>
+  Effect.runPromise(effect.pipe(Effect.provide(TestContext.TestContext)));
+
+describe("rate limiting", () => {
+  describe("token bucket", () => {
+    it("should let a burst through, then space reservations by the refill rate", async () => {
+      const limiter = makeRateLimiter("api", { limit: 2, interval: "1 second" });
+
+      expect(await runTest(reserveAll(limiter, 4))).toEqual([0, 0, 500, 1000]);
+    });
+
+    it("should refill over time up to the burst size", async () => {
+      const limiter = makeRateLimiter("api", { limit: 10, interval: "1 second", burst: 1 });
+
+      const waits = await runTest(
+        Effect.gen(function* (_) {
+          const first = yield* _(reserveAll(limiter, 2));
+          yield* _(TestClock.adjust("5 seconds"));
+          return [...first, ...(yield* _(reserveAll(limiter, 2)))];
+        })
+      );
+
+      expect(waits).toEqual([0, 100, 0, 100]);
+    });
+  });
+
+  describe("fixed window", () => {
+    it("should move reservations to the next window once one is full", async () => {
+      const limiter = makeRateLimiter("db", { limit: 2, interval: "1 second", algorithm: "fixed-window" });
+
+      expect(await runTest(reserveAll(limiter, 5))).toEqual([0, 0, 1000, 1000, 2000]);
+    });
+
+    it("should start a new window after idle ones", async () => {
+      const limiter = makeRateLimiter("db", { limit: 1, interval: "1 second", algorithm: "fixed-window" });
+
+      const waits = await runTest(
+        Effect.gen(function* (_) {
+          yield* _(limiter.reserve);
+          yield* _(TestClock.adjust("3500 millis"));
+          return yield* _(reserveAll(limiter, 2));
+        })
+      );
+
+      expect(waits).toEqual([0, 500]);
+    });
+  });
+
+  it("should reject a limit that is not positive", () => {
+    expect(() => makeRateLimiter("broken", { limit: 0, interval: "1 second" })).toThrow(
+      'Rate limiter "broken" needs a positive limit and interval'
+    );
+  });
+
+  describe("resolveRateLimiter", () => {
+    it("should keep one limiter per spec", async () => {
+      const spec = { limit: 1, interval: "1 second" } as const;
+
+      const own = new Map();
+
+      const [a, b, other] = await Effect.runPromise(
+        Effect.all([
+          resolveRateLimiter(spec, "node-a", own),
+          resolveRateLimiter(spec, "node-b", own),
+          resolveRateLimiter(spec, "node-a", new Map())
+        ])
+      );
+
+      expect(a).toBe(b);
+      expect(a.name).toBe("node-a");
+      expect(other).not.toBe(a);
+    });
+
+    it("should look named limiters up in the RateLimiters service", async () => {
+      const limiter = await Effect.runPromise(
+        resolveRateLimiter("shared", "node", new Map()).pipe(
+          Effect.provide(rateLimitersLayer({ shared: { limit: 5, interval: "1 second" } }))
+        )
+      );
+      const missing = await Effect.runPromise(Effect.flip(resolveRateLimiter("missing", "node", new Map())));
+
+      expect(limiter.name).toBe("shared");
+      expect(missing).toBeInstanceOf(RateLimiterNotProvidedError);
+      expect(missing).toMatchObject({ message: 'Rate limiter "missing" is not provided', nodeName: "node", limiterName: "missing" });
+    });
+  });
+});
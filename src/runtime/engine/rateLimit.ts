@@ -0,0 +1,132 @@
+import { Context, Duration, Effect, Layer, Option } from "effect";
+import type { RateLimitPolicy, RateLimitSpec } from "../../core/rateLimit";
+import { RateLimiterNotProvidedError } from "./errors";
+
+/**
+ * Hands out slots of a {@link RateLimitSpec} budget. Slots are reserved in
+ * order, so callers waiting on the same limiter are served first come, first
+ * served.
+ */
+export interface RateLimiter {
+  readonly name: string;
+  /**
+   * Reserve the next slot and return how many milliseconds the caller must
+   * wait before using it – `0` if it is free now.
+   */
+  readonly reserve: Effect.Effect<number>;
+}
+
+/**
+ * Named limiters shared by every Node – in one Pipe or across the deployments
+ * of a Cluster – whose `rateLimit` names them. Provide it with
+ * {@link rateLimitersLayer}.
+ */
+export class RateLimiters extends Context.Tag("RateLimiters")<RateLimiters, ReadonlyMap<string, RateLimiter>>() {}
+
+/**
+ * Create a limiter enforcing `spec` on the Effect clock.
+ */
+export function makeRateLimiter(name: string, spec: RateLimitSpec): RateLimiter {
+  const intervalMs = Duration.toMillis(Duration.decode(spec.interval));
+  if (!(spec.limit > 0) || !(intervalMs > 0)) {
+    throw new Error(`Rate limiter "${name}" needs a positive limit and interval`);
+  }
+
+  const reserve = spec.algorithm === "fixed-window"
+    ? fixedWindow(spec.limit, intervalMs)
+    : tokenBucket(spec.limit / intervalMs, spec.burst ?? spec.limit);
+
+  return {
+    name,
+    reserve: Effect.clockWith((clock) => Effect.sync(() => reserve(clock.unsafeCurrentTimeMillis())))
+  };
+}
+
+/**
+ * Tokens refill at `rate` per millisecond up to `capacity`. A reservation
+ * always takes a token, letting the balance go negative; the debt is the
+ * caller's wait.
+ */
+function tokenBucket(rate: number, capacity: number): (time: number) => number {
+  let tokens = capacity;
+  let updatedAt: number | undefined;
+
+  return (time) => {
+    tokens = Math.min(capacity, tokens + (time - (updatedAt ?? time)) * rate);
+    updatedAt = time;
+    tokens -= 1;
+    return tokens >= 0 ? 0 : Math.ceil(-tokens / rate);
+  };
+}
+
+/**
+ * Windows of `windowMs` start at the first reservation. Once a window is full,
+ * reservations move to the next one.
+ */
+function fixedWindow(limit: number, windowMs: number): (time: number) => number {
+  let windowStart: number | undefined;
+  let used = 0;
+
+  return (time) => {
+    if (windowStart === undefined || time >= windowStart + windowMs) {
+      // Align to the window the current time falls in, skipping idle windows
+      windowStart = windowStart === undefined
+        ? time
+        : windowStart + Math.floor((time - windowStart) / windowMs) * windowMs;
+      used = 0;
+    }
+    if (used >= limit) {
+      windowStart += windowMs;
+      used = 0;
+    }
+    used += 1;
+    return Math.max(windowStart - time, 0);
+  };
+}
+
+/**
+ * Build the {@link RateLimiters} service from named specs. Every Effect the
+ * layer is provided to shares the same budgets.
+ */
+export function rateLimitersLayer(specs: Readonly<Record<string, RateLimitSpec>>): Layer.Layer<RateLimiters> {
+  return Layer.sync(RateLimiters, () =>
+    new Map(Object.entries(specs).map(([name, spec]) => [name, makeRateLimiter(name, spec)]))
+  );
+}
+
+/**
+ * Find the limiter a policy refers to: for a spec the Node's own, kept in
+ * `own` – one per spec – so its budget lasts as long as the map; for a name
+ * the one from {@link RateLimiters}. Fails with a
+ * `RateLimiterNotProvidedError` if the name is not provided.
+ */
+export function resolveRateLimiter(
+  policy: RateLimitPolicy,
+  nodeName: string,
+  own: Map<RateLimitSpec, RateLimiter>
+): Effect.Effect<RateLimiter, RateLimiterNotProvidedError | Error> {
+  if (typeof policy !== "string") {
+    return Effect.try({
+      try: () => {
+        let limiter = own.get(policy);
+        if (!limiter) {
+          limiter = makeRateLimiter(nodeName, policy);
+          own.set(policy, limiter);
+        }
+        return limiter;
+      },
+      catch: (error) => error as Error
+    });
+  }
+
+  return Effect.flatMap(Effect.serviceOption(RateLimiters), (limiters) => {
+    const limiter = Option.flatMapNullable(limiters, (map) => map.get(policy));
+    return Option.isSome(limiter)
+      ? Effect.succeed(limiter.value)
+      : Effect.fail(new RateLimiterNotProvidedError({
+        message: `Rate limiter "${policy}" is not provided`,
+        nodeName,
+        limiterName: policy
+      }));
+  });
+}
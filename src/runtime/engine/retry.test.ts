@@ -0,0 +1,112 @@
+import { describe, it, expect } from "bun:test";
+import { Effect, Fiber, Schedule, TestClock, TestContext } from "effect";
+import { retryWithPolicy, toSchedule } from "./retry";
+
+// An Effect that fails `failures` times before succeeding with the attempt number
+const flaky = (failures: number) => {
+  let attempts = 0;
+  return {
+    effect: Effect.suspend(() => {
+      attempts += 1;
+      return attempts <= failures
+        ? Effect.fail(`failure ${attempts}`)
+        : Effect.succeed(attempts);
+    }),
+    attempts: () => attempts
+  };
+};
+
+describe("retry", () => {
+  describe("toSchedule", () => {
+    it("should return schedules unchanged", () => {
+      const schedule = Schedule.recurs(2);
+      expect(toSchedule(schedule)).toBe(schedule);
+    });
+
+    it("should recur maxAttempts - 1 times for a spec", async () => {
+      const { effect, attempts } = flaky(10);
+
+      await expect(
+        Effect.runPromise(Effect.retry(effect, toSchedule({ maxAttempts: 3 })))
+      ).rejects.toThrow("failure 3");
+      expect(attempts()).toBe(3);
+    });
+
+    it("should not retry when maxAttempts is 1", async () => {
+      const { effect, attempts } = flaky(10);
+
+      await expect(
+        Effect.runPromise(Effect.retry(effect, toSchedule({ maxAttempts: 1 })))
+      ).rejects.toThrow("failure 1");
+      expect(attempts()).toBe(1);
+    });
+
+    it("should wait between attempts when a delay is given", async () => {
+      const { effect, attempts } = flaky(2);
+
+      await Effect.runPromise(
+        Effect.gen(function* (_) {
+          const fiber = yield* _(Effect.fork(
+            Effect.retry(effect, toSchedule({ maxAttempts: 3, delay: "1 second", backoff: "fixed" }))
+          ));
+
+          yield* _(TestClock.adjust("500 millis"));
+          expect(attempts()).toBe(1);
+
+          yield* _(TestClock.adjust("2 seconds"));
+          const result = yield* _(Fiber.join(fiber));
+          expect(result).toBe(3);
+        }).pipe(Effect.provide(TestContext.TestContext))
+      );
+    });
+
+    it("should cap exponential delays at maxDelay", async () => {
+      const { effect, attempts } = flaky(3);
+
+      await Effect.runPromise(
+        Effect.gen(function* (_) {
+          const fiber = yield* _(Effect.fork(
+            Effect.retry(effect, toSchedule({ maxAttempts: 4, delay: "1 second", maxDelay: "1500 millis" }))
+          ));
+
+          // delays: 1s, 1.5s (capped from 2s), 1.5s (capped from 4s)
+          yield* _(TestClock.adjust("2500 millis"));
+          expect(attempts()).toBe(3);
+
+          yield* _(TestClock.adjust("1500 millis"));
+          expect(yield* _(Fiber.join(fiber))).toBe(4);
+        }).pipe(Effect.provide(TestContext.TestContext))
+      );
+    });
+  });
+
+  describe("retryWithPolicy", () => {
+    it("should report every retry with its attempt number and error", async () => {
+      const { effect } = flaky(2);
+      const retries: Array<[number, string]> = [];
+
+      const result = await Effect.runPromise(
+        retryWithPolicy(effect, { maxAttempts: 5 }, (attempt, error) =>
+          Effect.sync(() => { retries.push([attempt, error]); })
+        )
+      );
+
+      expect(result).toBe(3);
+      expect(retries).toEqual([[2, "failure 1"], [3, "failure 2"]]);
+    });
+
+    it("should not report a retry once the policy is exhausted", async () => {
+      const { effect } = flaky(10);
+      const retries: number[] = [];
+
+      await expect(
+        Effect.runPromise(
+          retryWithPolicy(effect, Schedule.recurs(1), (attempt) =>
+            Effect.sync(() => { retries.push(attempt); })
+          )
+        )
+      ).rejects.toThrow("failure 2");
+      expect(retries).toEqual([2]);
+    });
+  });
+});
@@ -0,0 +1,50 @@
+import { Duration, Effect, Schedule, ScheduleDecision } from "effect";
+import type { RetryPolicy, RetrySpec } from "../../core/retry";
+
+/**
+ * Translate a {@link RetryPolicy} into an Effect `Schedule`. Schedules are used
+ * as-is; a {@link RetrySpec} recurs `maxAttempts - 1` times with an optional
+ * fixed or exponential delay.
+ */
+export function toSchedule(policy: RetryPolicy): Schedule.Schedule<unknown, unknown> {
+  if (Schedule.isSchedule(policy)) {
+    return policy as Schedule.Schedule<unknown, unknown>;
+  }
+
+  const spec = policy as RetrySpec;
+  const retries = Schedule.recurs(Math.max(spec.maxAttempts - 1, 0));
+  if (spec.delay === undefined) {
+    return retries;
+  }
+
+  const delays: Schedule.Schedule<unknown> = spec.backoff === "fixed"
+    ? Schedule.spaced(spec.delay)
+    : Schedule.exponential(spec.delay);
+  const maxDelay = spec.maxDelay;
+  const capped = maxDelay === undefined
+    ? delays
+    : Schedule.modifyDelay(delays, (_, delay) => Duration.min(delay, Duration.decode(maxDelay)));
+
+  return Schedule.intersect(capped, retries);
+}
+
+/**
+ * Retry an Effect according to a {@link RetryPolicy}. Before each retry
+ * `onRetry` receives the number of the attempt about to start (the first
+ * retry is attempt 2) together with the error that triggered it.
+ */
+export function retryWithPolicy<A, E, R>(
+  effect: Effect.Effect<A, E, R>,
+  policy: RetryPolicy,
+  onRetry: (attempt: number, error: E) => Effect.Effect<void>
+): Effect.Effect<A, E, R> {
+  const schedule = toSchedule(policy).pipe(
+    Schedule.intersect(Schedule.identity<E>()),
+    Schedule.intersect(Schedule.count),
+    Schedule.onDecision(([[, error], retries], decision) =>
+      ScheduleDecision.isContinue(decision) ? onRetry(retries + 2, error) : Effect.void
+    )
+  );
+
+  return Effect.retry(effect, schedule);
+}
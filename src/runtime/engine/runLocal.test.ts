@@ -0,0 +1,47 @@
+import { describe, it, expect } from "bun:test";
+import { Effect, Queue } from "effect";
+import { runLocal, withRunLocals } from "./runLocal";
+import { PipelineExecutor } from "./executor";
+import { NodeKind, type Node } from "../../core/node";
+import type { RuntimeEvent } from "../../core/event";
+
+describe("runLocal", () => {
+  it("should create a fresh value on every read outside of an executor", async () => {
+    const counter = runLocal(() => ({ count: 0 }));
+
+    const counts = await Effect.runPromise(
+      Effect.all([Effect.map(counter.get, (c) => ++c.count), Effect.map(counter.get, (c) => ++c.count)])
+    );
+
+    expect(counts).toEqual([1, 1]);
+  });
+
+  it("should keep one value per run", async () => {
+    const counter = runLocal(() => ({ count: 0 }));
+    const count: Node<undefined, number> = {
+      kind: NodeKind.Ingress,
+      name: "count",
+      run: () => Effect.map(counter.get, (c) => ++c.count)
+    };
+    const twice: Node<number, number> = {
+      kind: NodeKind.Transform,
+      name: "twice",
+      run: () => Effect.map(counter.get, (c) => ++c.count)
+    };
+    const eventQueue = await Effect.runPromise(Queue.unbounded<RuntimeEvent>());
+    const executor = new PipelineExecutor({ name: "counting", nodes: [count, twice] }, eventQueue);
+
+    const results = await Effect.runPromise(Effect.all([executor.run(), executor.run()], { concurrency: "unbounded" }));
+
+    expect(results.map((result) => result.output)).toEqual([2, 2]);
+  });
+
+  it("should share the values of an enclosing run", async () => {
+    const counter = runLocal(() => ({ count: 0 }));
+    const bump = Effect.map(counter.get, (c) => ++c.count);
+
+    const counts = await Effect.runPromise(withRunLocals(Effect.all([bump, withRunLocals(bump)])));
+
+    expect(counts).toEqual([1, 2]);
+  });
+});
@@ -0,0 +1,44 @@
+import { Effect, FiberRef, Option } from "effect";
+
+/**
+ * A value a Node keeps for the length of one run – counters, items in
+ * flight – so concurrent runs of the same Node do not share it. Read it with
+ * `get`; the first read in a run creates it.
+ */
+export interface RunLocal<A> {
+  readonly get: Effect.Effect<A>;
+}
+
+/**
+ * The values of the run executing the current Node. The executor sets it for
+ * the length of every run; a Pipe run by a Node of another one – see
+ * `subPipeline` – shares its parent's. `None` outside of an executor.
+ */
+export const currentRunLocals: FiberRef.FiberRef<Option.Option<Map<RunLocal<unknown>, unknown>>> =
+  FiberRef.unsafeMake(Option.none());
+
+/**
+ * Declare a run-local value created by `initial`. Outside of an executor
+ * every read creates a fresh one.
+ */
+export function runLocal<A>(initial: () => A): RunLocal<A> {
+  const local: RunLocal<A> = {
+    get: Effect.map(FiberRef.get(currentRunLocals), (locals) => {
+      if (Option.isNone(locals)) {
+        return initial();
+      }
+      if (!locals.value.has(local)) {
+        locals.value.set(local, initial());
+      }
+      return locals.value.get(local) as A;
+    })
+  };
+  return local;
+}
+
+/**
+ * Give `effect` run-local values of its own, unless it already runs within a
+ * run that has them.
+ */
+export const withRunLocals = <A, E, R>(effect: Effect.Effect<A, E, R>): Effect.Effect<A, E, R> =>
+  Effect.locallyWith(effect, currentRunLocals, (locals) => Option.isSome(locals) ? locals : Option.some(new Map()));
@@ -0,0 +1,69 @@
+import { describe, it, expect } from "bun:test";
+import type { NodeTiming, RunOptions, RunResult } from "./runResult";
+
+describe("RunResult", () => {
+  const startedAt = new Date("2024-01-01T00:00:00Z");
+
+  const timings: NodeTiming[] = [
+    { nodeName: "source", startedAt, durationMs: 2 },
+    { nodeName: "sink", startedAt: new Date(startedAt.getTime() + 2), durationMs: 3 }
+  ];
+
+  it("should support a completed run", () => {
+    const result: RunResult = {
+      runId: "run-1",
+      pipelineName: "orders",
+      output: { id: 1 },
+      completed: true,
+      timings,
+      startedAt,
+      durationMs: 5
+    };
+
+    expect(result.completed).toBe(true);
+    expect(result.output).toEqual({ id: 1 });
+    expect(result.timings.map((timing) => timing.nodeName)).toEqual(["source", "sink"]);
+    expect(result.outputs).toBeUndefined();
+  });
+
+  it("should support a run whose item was dropped, with recorded outputs", () => {
+    const result: RunResult = {
+      runId: "run-2",
+      pipelineName: "orders",
+      output: undefined,
+      completed: false,
+      outputs: { source: { id: 2 } },
+      timings: timings.slice(0, 1),
+      startedAt,
+      durationMs: 2
+    };
+
+    expect(result.completed).toBe(false);
+    expect(result.output).toBeUndefined();
+    expect(result.outputs).toEqual({ source: { id: 2 } });
+  });
+
+  it("should be read-only", () => {
+    const result: RunResult = { runId: "run-3", pipelineName: "orders", output: 1, completed: true, timings, startedAt, durationMs: 5 };
+
+    const mutate = () => {
+      // @ts-expect-error results are read-only
+      result.completed = false;
+      // @ts-expect-error timings are read-only
+      result.timings.push(timings[0]!);
+    };
+
+    expect(mutate).toBeInstanceOf(Function);
+    expect(result.completed).toBe(true);
+  });
+});
+
+describe("RunOptions", () => {
+  it("should make every option optional", () => {
+    const none: RunOptions = {};
+    const given: RunOptions = { runId: "request-42", input: "hello" };
+
+    expect(none.runId).toBeUndefined();
+    expect(given).toEqual({ runId: "request-42", input: "hello" });
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * How long one Node took for the item of a run.
+ */
+export interface NodeTiming {
+  readonly nodeName: string;
+  readonly startedAt: Date;
+  readonly durationMs: number;
+}
+
+/**
+ * What `PipelineExecutor.run()` resolves with.
+ */
+export interface RunResult {
+  /**
+   * Identifies the run – given in `RunOptions`, or generated.
+   */
+  readonly runId: string;
+  readonly pipelineName: string;
+  /**
+   * Output of the last Node. When the Pipe forks, an object with the output of
+   * each branch that ran, keyed by branch name. `undefined` if the item was
+   * dropped or dead-lettered before the end.
+   */
+  readonly output: unknown;
+  /**
+   * `false` if the item was dropped or dead-lettered before the end.
+   */
+  readonly completed: boolean;
+  /**
+   * Output of every Node that completed, keyed by Node name. Only collected
+   * when the executor is created with `recordOutputs`, since outputs can be
+   * large.
+   */
+  readonly outputs?: Readonly<Record<string, unknown>>;
+  /**
+   * One entry per Node that ran, in the order they finished.
+   */
+  readonly timings: readonly NodeTiming[];
+  readonly startedAt: Date;
+  readonly durationMs: number;
+}
+
+export interface RunOptions {
+  /**
+   * Use this ID instead of generating one, e.g. to correlate the run with a
+   * request.
+   */
+  readonly runId?: string;
+  /**
+   * Input for the first Node. Leave it out for Pipes that start with an
+   * ingress; set it to run a Pipe of transforms on a value.
+   */
+  readonly input?: unknown;
+}
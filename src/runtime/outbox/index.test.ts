@@ -0,0 +1,11 @@
+import { describe, it, expect } from "bun:test";
+import * as outbox from "./index";
+
+describe("outbox index", () => {
+  it("should load the SQLite outbox and the relay without the Postgres nodes", () => {
+    expect(outbox.sqliteOutboxInsert).toBeFunction();
+    expect(outbox.sqliteOutboxStore).toBeFunction();
+    expect(outbox.outboxRelay).toBeFunction();
+    expect(outbox.httpDelivery).toBeFunction();
+  });
+});
@@ -0,0 +1,5 @@
+// postgresOutboxInsert and postgresOutboxStore are imported from "./postgres"
+// itself, so using the SQLite outbox and the relay does not load the Postgres
+// nodes
+export * from "./sqlite";
+export * from "./relay";
@@ -0,0 +1,129 @@
+import { describe, it, expect, afterAll } from "bun:test";
+import { Effect } from "effect";
+import { postgresOutboxInsert, postgresOutboxStore } from "./postgres";
+import { PostgresConnection } from "../../nodes/postgres/config";
+import { createInsertEgress, PostgresEgressError, type PostgresEgressNode } from "../../nodes/postgres/egress";
+import { postgresAvailable, postgresTestConnection } from "../../testing/postgres";
+
+const at = (ms: number) => new Date(ms);
+
+type Event = {
+  readonly event_type: string;
+  readonly data: { readonly id: number; readonly total: number };
+  readonly messageId: string;
+};
+
+describe.skipIf(!(await postgresAvailable()))("postgres outbox", () => {
+  // Rows of this run only, so runs against a shared database stay apart
+  const eventType = `outbox_test_${crypto.randomUUID()}`;
+  const messageIds: string[] = [];
+
+  const event = (id: number): Event => {
+    const messageId = crypto.randomUUID();
+    messageIds.push(messageId);
+    return { event_type: eventType, data: { id, total: id * 10 }, messageId };
+  };
+
+  const writer = (egress: PostgresEgressNode<Event> = createInsertEgress<Event>({ table: "pipeline.events", columns: ["event_type", "data"] })) =>
+    postgresOutboxInsert<Event>("save-event", {
+      egress,
+      messages: (record) => ({
+        id: record.messageId,
+        type: "event.created",
+        destination: "https://example.test/events",
+        payload: record.data
+      })
+    });
+
+  const run = <A, E>(effect: Effect.Effect<A, E, PostgresConnection>) =>
+    Effect.runPromise(effect.pipe(Effect.provide(postgresTestConnection)));
+
+  const rows = (ids: readonly string[]) =>
+    run(
+      Effect.flatMap(PostgresConnection, ({ sql }) =>
+        Effect.promise(async () => [
+          ...await sql`SELECT output_id, status, processed_at FROM pipeline.outputs WHERE output_id IN ${sql(ids)} ORDER BY id`
+        ])
+      )
+    );
+
+  const events = () =>
+    run(
+      Effect.flatMap(PostgresConnection, ({ sql }) =>
+        Effect.promise(async () => [...await sql`SELECT data FROM pipeline.events WHERE event_type = ${eventType} ORDER BY id`])
+      )
+    );
+
+  // Other pending rows of the table may be claimed along with this run's
+  const claimOwn = (ids: readonly string[], now: Date) =>
+    Effect.map(postgresOutboxStore().claim(1000, now, at(0)), (messages) => messages.filter((message) => ids.includes(message.id)));
+
+  afterAll(() =>
+    run(
+      Effect.flatMap(PostgresConnection, ({ sql }) =>
+        Effect.promise(async () => {
+          await sql`DELETE FROM pipeline.outputs WHERE output_id IN ${sql(messageIds)}`;
+          await sql`DELETE FROM pipeline.events WHERE event_type = ${eventType}`;
+        })
+      )
+    )
+  );
+
+  it("should write records and their messages together", async () => {
+    const [first, second] = [event(1), event(2)];
+    await run(writer().run([first, second]));
+
+    const messages = await run(claimOwn([first.messageId, second.messageId], at(1000)));
+
+    expect((await events()).map((row) => row.data)).toEqual(expect.arrayContaining([first.data, second.data]));
+    expect(messages).toEqual([
+      { id: first.messageId, type: "event.created", destination: "https://example.test/events", payload: { id: 1, total: 10 } },
+      { id: second.messageId, type: "event.created", destination: "https://example.test/events", payload: { id: 2, total: 20 } }
+    ]);
+  });
+
+  it("should ignore messages whose ID is already in the outbox", async () => {
+    const written = event(3);
+    await run(writer().run(written));
+    await run(claimOwn([written.messageId], at(1000)));
+
+    await run(writer().run(written));
+
+    expect((await rows([written.messageId])).map((row) => row.status)).toEqual(["processing"]);
+  });
+
+  it("should roll back the messages when the egress fails", async () => {
+    const failing: PostgresEgressNode<Event> = {
+      name: "failing",
+      description: "Fail every insert",
+      execute: () => Effect.fail(new PostgresEgressError({ message: "insert failed" }))
+    };
+    const lost = event(4);
+
+    const error = await run(Effect.flip(writer(failing).run(lost)));
+
+    expect(error.message).toBe("insert failed");
+    expect(await rows([lost.messageId])).toEqual([]);
+  });
+
+  it("should renew, complete and fail claimed rows", async () => {
+    const [delivered, undeliverable] = [event(5), event(6)];
+    const ids = [delivered.messageId, undeliverable.messageId];
+    await run(writer().run([delivered, undeliverable]));
+    await run(claimOwn(ids, at(1000)));
+
+    const store = postgresOutboxStore();
+    await run(store.renew(ids, at(2000)));
+    const renewed = await rows(ids);
+    await run(store.complete(delivered.messageId, at(3000)));
+    await run(store.fail(undeliverable.messageId, at(4000)));
+
+    expect(store.name).toBe("postgres-outbox:pipeline.outputs");
+    expect(renewed.map((row) => row.processed_at)).toEqual([at(2000), at(2000)]);
+    expect(await rows(ids)).toEqual([
+      { output_id: delivered.messageId, status: "processed", processed_at: at(3000) },
+      { output_id: undeliverable.messageId, status: "failed", processed_at: at(4000) }
+    ]);
+    expect(await run(claimOwn(ids, at(5000)))).toEqual([]);
+  });
+});
@@ -0,0 +1,160 @@
+import { Effect, Exit } from "effect";
+import type postgres from "postgres";
+import { NodeKind, type Node } from "../../core/node";
+import type { OutboxIntent, OutboxMessage, OutboxStore } from "../../core/outbox";
+import { PostgresConnection } from "../../nodes/postgres/config";
+import { createQueryIngress, type PostgresIngressError } from "../../nodes/postgres/ingress";
+import {
+  CommonEgressPatterns,
+  createInsertEgress,
+  createQueryEgress,
+  PostgresEgressError,
+  type PostgresEgressNode,
+  type WriteResult
+} from "../../nodes/postgres/egress";
+
+export interface PostgresOutboxInsertConfig<T, E = PostgresEgressError> {
+  /**
+   * Egress writing the records themselves, e.g. one from `createInsertEgress`.
+   */
+  readonly egress: PostgresEgressNode<T, E>;
+  /**
+   * The side effects each written record should cause.
+   */
+  readonly messages: (record: T) => OutboxIntent | readonly OutboxIntent[];
+}
+
+interface OutputRow {
+  readonly output_id: string;
+  readonly output_type: string;
+  readonly data: unknown;
+  readonly destination: string;
+}
+
+/**
+ * An Egress Node that runs a Postgres egress and writes the outbox messages
+ * `messages` derives from its records to `pipeline.outputs` in one
+ * transaction. If either write fails, both are rolled back. Messages whose ID
+ * is already in the table are left as they are.
+ *
+ * `output_id` is a UUID column, so given IDs must be UUIDs, and payloads go
+ * into the JSONB `data` column, which does not take `null` or `undefined`.
+ */
+export function postgresOutboxInsert<T, E = PostgresEgressError>(
+  name: string,
+  config: PostgresOutboxInsertConfig<T, E>
+): Node<T | T[], WriteResult, PostgresEgressError | E, PostgresConnection> {
+  const outputs = createInsertEgress({
+    table: "pipeline.outputs",
+    columns: ["output_id", "source_transformation_id", "output_type", "data", "destination", "status"],
+    onConflict: "ignore"
+  });
+
+  return {
+    kind: NodeKind.Egress,
+    name,
+    run: (input) =>
+      Effect.gen(function* (_) {
+        const records = Array.isArray(input) ? input : [input];
+        const connection = yield* _(PostgresConnection);
+        const rows = records.flatMap((record) =>
+          ([config.messages(record)].flat() as OutboxIntent[]).map((intent) => ({
+            output_id: intent.id ?? crypto.randomUUID(),
+            source_transformation_id: null,
+            output_type: intent.type,
+            data: connection.sql.json(intent.payload as postgres.JSONValue),
+            destination: intent.destination,
+            status: "pending"
+          }))
+        );
+
+        // Both writes run in this fiber on one reserved connection, so they
+        // see the caller's services and interruption; a failure rolls back
+        return yield* _(
+          Effect.acquireUseRelease(
+            Effect.tryPromise({
+              try: () => connection.sql.reserve(),
+              catch: (error) => transactionFailed(error, records)
+            }),
+            (reserved) =>
+              Effect.gen(function* (_) {
+                yield* _(query(reserved, "BEGIN", records));
+                const result = yield* _(
+                  Effect.zipLeft(config.egress.execute(records), outputs.execute(rows)).pipe(
+                    Effect.provideService(PostgresConnection, { sql: reserved, close: connection.close })
+                  )
+                );
+                yield* _(query(reserved, "COMMIT", records));
+                return result;
+              }),
+            (reserved, exit) =>
+              Effect.ensuring(
+                Exit.isSuccess(exit) ? Effect.void : Effect.ignore(query(reserved, "ROLLBACK", records)),
+                Effect.sync(() => reserved.release())
+              )
+          )
+        );
+      })
+  };
+}
+
+/**
+ * An outbox store over `pipeline.outputs`, created by
+ * `postgres/init/01-init.sql`. Claiming locks rows with
+ * `FOR UPDATE SKIP LOCKED`, so relays running side by side split the pending
+ * rows between them; finishing a row goes through
+ * `CommonEgressPatterns.updateOutputStatus()`.
+ */
+export function postgresOutboxStore(): OutboxStore<PostgresEgressError | PostgresIngressError, PostgresConnection> {
+  const table = "pipeline.outputs";
+  const updateStatus = CommonEgressPatterns.updateOutputStatus();
+  const renewLease = createQueryEgress<{ readonly id: string; readonly at: Date }>(
+    `UPDATE ${table} SET processed_at = $1 WHERE output_id = $2 AND status = 'processing'`,
+    ({ id, at }) => [at.toISOString(), id]
+  );
+
+  const finish = (status: "processed" | "failed") => (id: string, at: Date) =>
+    Effect.asVoid(updateStatus.execute([{ output_id: id, status, processed_at: at.toISOString() }]));
+
+  return {
+    name: `postgres-outbox:${table}`,
+    claim: (limit, now, staleBefore) =>
+      Effect.map(
+        createQueryIngress<OutputRow & { readonly id: number }>({
+          sql: `UPDATE ${table} SET status = 'processing', processed_at = $1
+                WHERE id IN (
+                  SELECT id FROM ${table}
+                  WHERE status = 'pending' OR (status = 'processing' AND processed_at < $2)
+                  ORDER BY id LIMIT $3
+                  FOR UPDATE SKIP LOCKED
+                )
+                RETURNING id, output_id, output_type, data, destination`,
+          parameters: [now.toISOString(), staleBefore.toISOString(), limit]
+        }).execute(),
+        (rows) => [...rows].sort((a, b) => a.id - b.id).map(fromRow)
+      ),
+    renew: (ids, at) => Effect.asVoid(renewLease.execute(ids.map((id) => ({ id, at })))),
+    complete: finish("processed"),
+    fail: finish("failed")
+  };
+}
+
+function query(sql: postgres.ReservedSql, statement: string, records: readonly unknown[]) {
+  return Effect.tryPromise({
+    try: () => sql.unsafe(statement),
+    catch: (error) => transactionFailed(error, records)
+  });
+}
+
+function transactionFailed(error: unknown, records: readonly unknown[]): PostgresEgressError {
+  return new PostgresEgressError({ message: `Outbox transaction failed: ${error}`, cause: error, data: records });
+}
+
+function fromRow(row: OutputRow): OutboxMessage {
+  return {
+    id: row.output_id,
+    type: row.output_type,
+    destination: row.destination,
+    payload: row.data
+  };
+}
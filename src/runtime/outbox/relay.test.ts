@@ -0,0 +1,204 @@
+import { describe, it, expect, afterEach } from "bun:test";
+import { Deferred, Effect, Fiber, FiberId, Queue } from "effect";
+import type { RuntimeEvent } from "../../core/event";
+import type { OutboxMessage, OutboxStore } from "../../core/outbox";
+import type { Pipe } from "../../core/pipe";
+import { PipelineExecutor } from "../engine/executor";
+import { NodeFailure } from "../engine/errors";
+import { httpDelivery, outboxRelay, OutboxDeliveryError, OutboxLeaseError } from "./relay";
+
+// An outbox kept in memory, recording what the relay marks and renews;
+// `settled` resolves once every message is marked
+const fakeOutbox = (messages: OutboxMessage[]) => {
+  const pending = [...messages];
+  const finished: string[] = [];
+  const renewed: string[][] = [];
+  const settled = Deferred.unsafeMake<void>(FiberId.none);
+  const mark = (entry: string) =>
+    Effect.suspend(() => {
+      finished.push(entry);
+      return Effect.asVoid(Effect.when(Deferred.succeed(settled, undefined), () => finished.length === messages.length));
+    });
+  const store: OutboxStore = {
+    name: "fake-outbox",
+    claim: (limit) => Effect.sync(() => pending.splice(0, limit)),
+    renew: (ids) => Effect.sync(() => void renewed.push([...ids])),
+    complete: (id) => mark(`processed ${id}`),
+    fail: (id) => mark(`failed ${id}`)
+  };
+  return { store, finished, renewed, settled };
+};
+
+const message = (id: string): OutboxMessage => ({
+  id,
+  type: "order.created",
+  destination: "https://example.test/orders",
+  payload: { id }
+});
+
+describe("outboxRelay", () => {
+  it("should deliver claimed messages and mark them processed or failed", async () => {
+    const { store, finished, settled } = fakeOutbox([message("a"), message("b"), message("c")]);
+    const attempts: string[] = [];
+    const eventQueue = await Effect.runPromise(Queue.unbounded<RuntimeEvent>());
+
+    await Effect.runPromise(
+      Effect.gen(function* (_) {
+        const relay = outboxRelay("relay", {
+          store,
+          deliver: (msg) =>
+            Effect.suspend(() => {
+              attempts.push(msg.id);
+              return msg.id === "b" ? Effect.fail(new Error("refused")) : Effect.void;
+            }),
+          retry: { maxAttempts: 2 },
+          pollInterval: "10 millis"
+        });
+        const executor = new PipelineExecutor(relay, eventQueue);
+
+        const fiber = yield* _(Effect.fork(executor.runStream()));
+        yield* _(Deferred.await(settled));
+        yield* _(executor.stop());
+        yield* _(Fiber.join(fiber));
+      })
+    );
+
+    expect(attempts).toEqual(["a", "b", "b", "c"]);
+    // Stages run side by side, so messages may be marked out of order
+    expect([...finished].sort()).toEqual(["failed b", "processed a", "processed c"]);
+  });
+
+  it("should renew the lease of every held row before each attempt", async () => {
+    const { store, renewed, settled } = fakeOutbox([message("a"), message("b")]);
+    const eventQueue = await Effect.runPromise(Queue.unbounded<RuntimeEvent>());
+    let failures = 1;
+
+    await Effect.runPromise(
+      Effect.gen(function* (_) {
+        const relay = outboxRelay("relay", {
+          store,
+          deliver: () => Effect.suspend(() => (failures-- > 0 ? Effect.fail(new Error("refused")) : Effect.void)),
+          retry: { maxAttempts: 2 },
+          pollInterval: "10 millis"
+        });
+        const executor = new PipelineExecutor(relay, eventQueue);
+
+        const fiber = yield* _(Effect.fork(executor.runStream()));
+        yield* _(Deferred.await(settled));
+        yield* _(executor.stop());
+        yield* _(Fiber.join(fiber));
+      })
+    );
+
+    // Two attempts for "a" while "b" waits, then one for "b" alone
+    expect(renewed.slice(0, 2)).toEqual([["a", "b"], ["a", "b"]]);
+    expect(renewed[2]).toContain("b");
+  });
+
+  it("should fail without retrying or marking the row when the lease cannot be renewed", async () => {
+    const { store, finished } = fakeOutbox([message("a")]);
+    const eventQueue = await Effect.runPromise(Queue.unbounded<RuntimeEvent>());
+    let deliveries = 0;
+
+    const error = await Effect.runPromise(
+      Effect.flip(
+        new PipelineExecutor(
+          outboxRelay("relay", {
+            store: { ...store, renew: () => Effect.fail(new Error("connection lost")) },
+            deliver: () => Effect.sync(() => void deliveries++),
+            retry: { maxAttempts: 3 }
+          }),
+          eventQueue
+        ).run()
+      )
+    );
+
+    expect(error).toBeInstanceOf(NodeFailure);
+    const cause = (error as NodeFailure<OutboxLeaseError>).cause;
+    expect(cause).toBeInstanceOf(OutboxLeaseError);
+    expect(cause.messageIds).toEqual(["a"]);
+    expect(deliveries).toBe(0);
+    expect(finished).toEqual([]);
+  });
+
+  it("should reject retries that can outlast the lease", () => {
+    const { store } = fakeOutbox([]);
+
+    expect(() =>
+      outboxRelay("relay", {
+        store,
+        leaseTimeout: "1 minute",
+        deliveryTimeout: "30 seconds",
+        retry: { maxAttempts: 5, delay: "10 seconds" }
+      })
+    ).toThrow('Outbox relay "relay": deliveryTimeout plus the longest retry delay must be shorter than leaseTimeout');
+    expect(() =>
+      outboxRelay("relay", {
+        store,
+        leaseTimeout: "1 minute",
+        retry: { maxAttempts: 5, delay: "10 seconds", maxDelay: "20 seconds" }
+      })
+    ).not.toThrow();
+  });
+
+  it("should carry the default delivery's error in the Pipe's error type", () => {
+    const { store } = fakeOutbox([]);
+
+    const relay: Pipe<OutboxDeliveryError | OutboxLeaseError> = outboxRelay("relay", { store });
+    // @ts-expect-error the default delivery can fail with OutboxDeliveryError
+    const unfailing: Pipe<never> = outboxRelay("relay", { store });
+
+    expect([relay, unfailing]).toHaveLength(2);
+  });
+
+  it("should drop one-shot runs when nothing is pending", async () => {
+    const { store } = fakeOutbox([]);
+    const eventQueue = await Effect.runPromise(Queue.unbounded<RuntimeEvent>());
+
+    const result = await Effect.runPromise(
+      new PipelineExecutor(outboxRelay("relay", { store, deliver: () => Effect.void }), eventQueue).run()
+    );
+
+    expect(result.completed).toBe(false);
+  });
+});
+
+describe("httpDelivery", () => {
+  let server: ReturnType<typeof Bun.serve> | undefined;
+
+  afterEach(() => {
+    server?.stop(true);
+    server = undefined;
+  });
+
+  it("should POST the payload with the message ID as idempotency key", async () => {
+    const requests: { method: string; key: string | null; type: string | null; body: unknown }[] = [];
+    server = Bun.serve({
+      port: 0,
+      fetch: async (request) => {
+        requests.push({
+          method: request.method,
+          key: request.headers.get("idempotency-key"),
+          type: request.headers.get("x-outbox-type"),
+          body: await request.json()
+        });
+        return new Response(null, { status: 204 });
+      }
+    });
+
+    await Effect.runPromise(httpDelivery()({ ...message("a"), destination: `http://localhost:${server.port}/orders` }));
+
+    expect(requests).toEqual([{ method: "POST", key: "a", type: "order.created", body: { id: "a" } }]);
+  });
+
+  it("should fail on responses outside 2xx", async () => {
+    server = Bun.serve({ port: 0, fetch: () => new Response("busy", { status: 503 }) });
+    const destination = `http://localhost:${server.port}/orders`;
+
+    const error = await Effect.runPromise(Effect.flip(httpDelivery()({ ...message("a"), destination })));
+
+    expect(error).toBeInstanceOf(OutboxDeliveryError);
+    expect(error.status).toBe(503);
+    expect(error.message).toBe(`Delivering a to ${destination} failed with status 503`);
+  });
+});
@@ -0,0 +1,240 @@
+import { Clock, Data, Duration, Effect, Schedule, Stream } from "effect";
+import { NodeKind } from "../../core/node";
+import type { Pipe } from "../../core/pipe";
+import type { RetrySpec } from "../../core/retry";
+import type { DeadLetterSink } from "../../core/deadLetter";
+import type { OutboxMessage, OutboxStore } from "../../core/outbox";
+import { Drop } from "../../core/drop";
+import { toSchedule } from "../engine/retry";
+
+export interface OutboxRelayOptions<E, R, DE, DR> {
+  readonly store: OutboxStore<E, R>;
+  /**
+   * Delivers one message. Defaults to `httpDelivery()`.
+   */
+  readonly deliver?: (message: OutboxMessage) => Effect.Effect<unknown, DE, DR>;
+  /**
+   * Most rows claimed per poll. Defaults to `10`.
+   */
+  readonly batchSize?: number;
+  /**
+   * How long to wait before polling again when nothing is pending. Defaults
+   * to 1 second.
+   */
+  readonly pollInterval?: Duration.DurationInput;
+  /**
+   * How long a claimed row may stay `processing` without its lease being
+   * renewed before another relay takes it over. Defaults to 5 minutes.
+   */
+  readonly leaseTimeout?: Duration.DurationInput;
+  /**
+   * Bounds every delivery attempt. Defaults to 30 seconds.
+   */
+  readonly deliveryTimeout?: Duration.DurationInput;
+  /**
+   * How failed deliveries are retried before the row is marked `failed`.
+   * Defaults to 5 attempts backing off from 1 second up to 1 minute.
+   */
+  readonly retry?: RetrySpec;
+}
+
+export interface HttpDeliveryOptions {
+  /**
+   * Extra headers sent with every request.
+   */
+  readonly headers?: Record<string, string>;
+}
+
+/**
+ * Raised when a destination does not accept a message.
+ */
+export class OutboxDeliveryError extends Data.TaggedError("OutboxDeliveryError")<{
+  readonly message: string;
+  readonly messageId: string;
+  /**
+   * HTTP status of the response, if one came back.
+   */
+  readonly status?: number;
+  readonly cause?: unknown;
+}> {}
+
+/**
+ * Raised when the relay cannot renew the lease of the rows it holds. Unlike a
+ * failed delivery it is neither retried nor marked `failed`: the relay fails,
+ * and its rows are claimed again once their lease has run out.
+ */
+export class OutboxLeaseError extends Data.TaggedError("OutboxLeaseError")<{
+  readonly message: string;
+  readonly messageIds: readonly string[];
+  readonly cause: unknown;
+}> {}
+
+/**
+ * Deliver messages by POSTing their payload as JSON to their destination URL.
+ * The message ID is sent as the `Idempotency-Key` header, so a destination
+ * can recognise a message delivered again after a relay lost track of it.
+ * Any status outside 2xx fails the delivery.
+ */
+export function httpDelivery(
+  options: HttpDeliveryOptions = {}
+): (message: OutboxMessage) => Effect.Effect<void, OutboxDeliveryError> {
+  return (message) =>
+    Effect.flatMap(
+      Effect.tryPromise({
+        try: (signal) =>
+          fetch(message.destination, {
+            method: "POST",
+            headers: {
+              "content-type": "application/json",
+              "idempotency-key": message.id,
+              "x-outbox-type": message.type,
+              ...options.headers
+            },
+            body: JSON.stringify(message.payload),
+            signal
+          }),
+        catch: (error) =>
+          new OutboxDeliveryError({
+            message: `Delivering ${message.id} to ${message.destination} failed: ${error}`,
+            messageId: message.id,
+            cause: error
+          })
+      }),
+      (response) =>
+        response.ok
+          ? Effect.void
+          : Effect.fail(new OutboxDeliveryError({
+            message: `Delivering ${message.id} to ${message.destination} failed with status ${response.status}`,
+            messageId: message.id,
+            status: response.status
+          }))
+    );
+}
+
+/**
+ * A streaming Pipe that delivers what egress Nodes left in an outbox. It
+ * claims pending rows in batches, hands each message to `deliver` – retried
+ * per `retry` – and marks it `processed`; a message whose retries run out is
+ * marked `failed` instead and the relay moves on.
+ *
+ * Before every delivery attempt the relay renews the lease of all rows it
+ * still holds, so a batch never outlives its `leaseTimeout` while it is being
+ * worked through. That only holds if an attempt and the wait before the next
+ * one fit in the lease: a `deliveryTimeout` plus longest `retry` delay of
+ * `leaseTimeout` or more is rejected. If renewing fails, the relay fails with
+ * an `OutboxLeaseError`.
+ *
+ * Delivery is at least once: a relay stopped between delivering a message and
+ * marking it leaves the row `processing`, and it is delivered again once its
+ * `leaseTimeout` has passed. Run the Pipe with `runStream()`, or deploy it
+ * with `stream: true`.
+ */
+export function outboxRelay<E, R>(
+  name: string,
+  options: OutboxRelayOptions<E, R, never, never> & { readonly deliver?: undefined }
+): Pipe<E | OutboxDeliveryError | OutboxLeaseError, R>;
+export function outboxRelay<E, R, DE, DR>(
+  name: string,
+  options: OutboxRelayOptions<E, R, DE, DR>
+): Pipe<E | DE | OutboxLeaseError, R | DR>;
+export function outboxRelay<E, R, DE, DR>(
+  name: string,
+  options: OutboxRelayOptions<E, R, DE, DR>
+): Pipe<E | DE | OutboxDeliveryError | OutboxLeaseError, R | DR> {
+  const { store } = options;
+  const deliver: (message: OutboxMessage) => Effect.Effect<unknown, DE | OutboxDeliveryError, DR> =
+    options.deliver ?? httpDelivery();
+  const batchSize = options.batchSize ?? 10;
+  const pollInterval = options.pollInterval ?? "1 second";
+  const leaseMs = Duration.toMillis(Duration.decode(options.leaseTimeout ?? "5 minutes"));
+  const deliveryTimeout = options.deliveryTimeout ?? "30 seconds";
+  const retry = options.retry ?? { maxAttempts: 5, delay: "1 second", maxDelay: "1 minute" };
+
+  if (Duration.toMillis(Duration.decode(deliveryTimeout)) + longestDelayMs(retry) >= leaseMs) {
+    throw new Error(`Outbox relay "${name}": deliveryTimeout plus the longest retry delay must be shorter than leaseTimeout`);
+  }
+
+  // Rows claimed by this relay and not yet marked
+  const held = new Set<string>();
+
+  const claim = (limit: number) =>
+    Effect.flatMap(Clock.currentTimeMillis, (now) =>
+      Effect.tap(store.claim(limit, new Date(now), new Date(now - leaseMs)), (messages) =>
+        Effect.sync(() => messages.forEach((message) => held.add(message.id)))
+      )
+    );
+
+  const renew = Effect.suspend(() => {
+    const ids = [...held];
+    return ids.length === 0
+      ? Effect.void
+      : Effect.flatMap(Clock.currentTimeMillis, (now) =>
+        Effect.mapError(store.renew(ids, new Date(now)), (cause) =>
+          new OutboxLeaseError({ message: `Outbox relay "${name}" could not renew its lease: ${cause}`, messageIds: ids, cause })
+        )
+      );
+  });
+
+  const release = (id: string) => Effect.sync(() => held.delete(id));
+
+  const poll = Effect.tap(claim(batchSize), (messages) =>
+    messages.length === 0 ? Effect.sleep(pollInterval) : Effect.void
+  );
+
+  // A lost lease fails the sink, so the relay fails instead of marking the row
+  const markFailed: DeadLetterSink<E | OutboxLeaseError, R, OutboxMessage> = {
+    name: `${name}-failed`,
+    send: (letter) =>
+      letter.error instanceof OutboxLeaseError
+        ? Effect.fail(letter.error)
+        : Effect.zipRight(
+          Effect.flatMap(Clock.currentTimeMillis, (now) => store.fail(letter.input.id, new Date(now))),
+          release(letter.input.id)
+        )
+  };
+
+  return {
+    name,
+    nodes: [
+      {
+        kind: NodeKind.Ingress,
+        name: `${name}-claim`,
+        run: () => Effect.map(claim(1), (messages) => messages[0] ?? Drop),
+        stream: () => Stream.flatMap(Stream.repeatEffect(poll), (messages) => Stream.fromIterable(messages))
+      },
+      {
+        kind: NodeKind.Transform,
+        name: `${name}-deliver`,
+        run: (message: OutboxMessage) => Effect.zipRight(renew, Effect.as(deliver(message), message)),
+        timeout: deliveryTimeout,
+        retry: Schedule.whileInput(toSchedule(retry), (error) => !(error instanceof OutboxLeaseError)),
+        deadLetter: markFailed
+      },
+      {
+        kind: NodeKind.Egress,
+        name: `${name}-complete`,
+        run: (message: OutboxMessage) =>
+          Effect.zipRight(
+            Effect.flatMap(Clock.currentTimeMillis, (now) => store.complete(message.id, new Date(now))),
+            release(message.id)
+          )
+      }
+    ]
+  };
+}
+
+/**
+ * The longest wait between two attempts `retry` allows – exponential delays
+ * double from `delay` until capped by `maxDelay`.
+ */
+function longestDelayMs(retry: RetrySpec): number {
+  if (retry.delay === undefined || retry.maxAttempts < 2) {
+    return 0;
+  }
+  const delayMs = Duration.toMillis(Duration.decode(retry.delay));
+  if (retry.backoff === "fixed") {
+    return delayMs;
+  }
+  const longest = delayMs * 2 ** (retry.maxAttempts - 2);
+  return retry.maxDelay === undefined ? longest : Math.min(longest, Duration.toMillis(Duration.decode(retry.maxDelay)));
+}
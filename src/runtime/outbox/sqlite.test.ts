@@ -0,0 +1,170 @@
+import { describe, it, expect, beforeEach, afterAll } from "bun:test";
+import { Database } from "bun:sqlite";
+import { unlinkSync, existsSync } from "fs";
+import { Effect, TestClock, TestContext } from "effect";
+import { sqliteOutboxInsert, sqliteOutboxStore } from "./sqlite";
+
+const at = (ms: number) => new Date(ms);
+
+interface Order {
+  readonly id: number;
+  readonly total: number;
+}
+
+describe("sqlite outbox", () => {
+  const testDbPath = "test-outbox.db";
+
+  const writer = sqliteOutboxInsert<Order>("save-order", {
+    dbPath: testDbPath,
+    table: "orders",
+    messages: (order) => ({
+      id: `order-${order.id}`,
+      type: "order.created",
+      destination: "https://example.test/orders",
+      payload: order
+    })
+  });
+
+  beforeEach(() => {
+    const db = new Database(testDbPath);
+    db.exec("DROP TABLE IF EXISTS orders");
+    db.exec("DROP TABLE IF EXISTS outbox");
+    db.exec("CREATE TABLE orders (id INTEGER PRIMARY KEY, total INTEGER NOT NULL)");
+    db.close();
+  });
+
+  afterAll(() => {
+    if (existsSync(testDbPath)) {
+      unlinkSync(testDbPath);
+    }
+  });
+
+  it("should write records and their messages together", async () => {
+    const result = await Effect.runPromise(writer.run([{ id: 1, total: 10 }, { id: 2, total: 20 }]));
+
+    expect(result.changes).toBe(2);
+    const messages = await Effect.runPromise(sqliteOutboxStore({ dbPath: testDbPath }).claim(10, at(0), at(0)));
+    expect(messages).toEqual([
+      { id: "order-1", type: "order.created", destination: "https://example.test/orders", payload: { id: 1, total: 10 } },
+      { id: "order-2", type: "order.created", destination: "https://example.test/orders", payload: { id: 2, total: 20 } }
+    ]);
+  });
+
+  it("should stamp messages with the time of the Clock", async () => {
+    await Effect.runPromise(
+      Effect.zipRight(TestClock.adjust("5 seconds"), writer.run({ id: 1, total: 10 })).pipe(Effect.provide(TestContext.TestContext))
+    );
+
+    const db = new Database(testDbPath);
+    const rows = db.prepare("SELECT output_id, created_at FROM outbox").all();
+    db.close();
+    expect(rows).toEqual([{ output_id: "order-1", created_at: 5000 }]);
+  });
+
+  it("should roll back the messages when the insert fails", async () => {
+    await Effect.runPromise(writer.run({ id: 1, total: 10 }));
+
+    const error = await Effect.runPromise(Effect.flip(writer.run([{ id: 2, total: 20 }, { id: 1, total: 30 }])));
+
+    expect(error.message).toStartWith("SQLite outbox error:");
+    const db = new Database(testDbPath);
+    const outbox = db.prepare("SELECT output_id FROM outbox").all();
+    const orders = db.prepare("SELECT id FROM orders").all();
+    db.close();
+    expect(outbox).toEqual([{ output_id: "order-1" }]);
+    expect(orders).toEqual([{ id: 1 }]);
+  });
+
+  it("should ignore messages whose ID is already in the outbox", async () => {
+    const replace = sqliteOutboxInsert<Order>("replace-order", {
+      dbPath: testDbPath,
+      table: "orders",
+      onConflict: "REPLACE",
+      messages: (order) => ({ id: `order-${order.id}`, type: "order.created", destination: "https://example.test/orders", payload: order })
+    });
+    const store = sqliteOutboxStore({ dbPath: testDbPath });
+
+    await Effect.runPromise(
+      Effect.gen(function* (_) {
+        yield* _(replace.run({ id: 1, total: 10 }));
+        yield* _(store.claim(1, at(1000), at(0)));
+        yield* _(store.complete("order-1", at(1100)));
+        yield* _(replace.run({ id: 1, total: 30 }));
+      })
+    );
+
+    const db = new Database(testDbPath);
+    const rows = db.prepare("SELECT output_id, data, status FROM outbox").all();
+    const orders = db.prepare("SELECT id, total FROM orders").all();
+    db.close();
+    expect(rows).toEqual([{ output_id: "order-1", data: JSON.stringify({ id: 1, total: 10 }), status: "processed" }]);
+    expect(orders).toEqual([{ id: 1, total: 30 }]);
+  });
+
+  it("should claim each row once until its lease goes stale", async () => {
+    await Effect.runPromise(writer.run([{ id: 1, total: 10 }, { id: 2, total: 20 }, { id: 3, total: 30 }]));
+    const store = sqliteOutboxStore({ dbPath: testDbPath });
+
+    const claimed = await Effect.runPromise(
+      Effect.all([
+        store.claim(2, at(1000), at(0)),
+        store.claim(2, at(1000), at(0)),
+        store.claim(2, at(2000), at(0)),
+        store.claim(2, at(3000), at(1500))
+      ])
+    );
+
+    expect(claimed.map((messages) => messages.map((message) => message.id))).toEqual([
+      ["order-1", "order-2"],
+      ["order-3"],
+      [],
+      ["order-1", "order-2"]
+    ]);
+  });
+
+  it("should not claim processed or failed rows again", async () => {
+    await Effect.runPromise(writer.run([{ id: 1, total: 10 }, { id: 2, total: 20 }]));
+    const store = sqliteOutboxStore({ dbPath: testDbPath });
+
+    const claimed = await Effect.runPromise(
+      Effect.gen(function* (_) {
+        yield* _(store.claim(2, at(1000), at(0)));
+        yield* _(store.complete("order-1", at(1100)));
+        yield* _(store.fail("order-2", at(1200)));
+        return yield* _(store.claim(2, at(9000), at(8000)));
+      })
+    );
+
+    expect(claimed).toEqual([]);
+    const db = new Database(testDbPath);
+    const rows = db.prepare("SELECT output_id, status, processed_at FROM outbox ORDER BY id").all();
+    db.close();
+    expect(rows).toEqual([
+      { output_id: "order-1", status: "processed", processed_at: 1100 },
+      { output_id: "order-2", status: "failed", processed_at: 1200 }
+    ]);
+  });
+
+  it("should renew the lease of rows still processing", async () => {
+    await Effect.runPromise(writer.run([{ id: 1, total: 10 }, { id: 2, total: 20 }]));
+    const store = sqliteOutboxStore({ dbPath: testDbPath });
+
+    const claimed = await Effect.runPromise(
+      Effect.gen(function* (_) {
+        yield* _(store.claim(2, at(1000), at(0)));
+        yield* _(store.complete("order-1", at(1100)));
+        yield* _(store.renew(["order-1", "order-2"], at(5000)));
+        return yield* _(store.claim(2, at(6000), at(4000)));
+      })
+    );
+
+    expect(claimed).toEqual([]);
+    const db = new Database(testDbPath);
+    const rows = db.prepare("SELECT output_id, status, processed_at FROM outbox ORDER BY id").all();
+    db.close();
+    expect(rows).toEqual([
+      { output_id: "order-1", status: "processed", processed_at: 1100 },
+      { output_id: "order-2", status: "processing", processed_at: 5000 }
+    ]);
+  });
+});
@@ -0,0 +1,180 @@
+import { Database } from "bun:sqlite";
+import { Clock, Effect } from "effect";
+import { NodeKind, type Node } from "../../core/node";
+import type { OutboxIntent, OutboxMessage, OutboxStore } from "../../core/outbox";
+import type { SqliteWriteResult } from "../../nodes/egress/sqlite";
+
+export interface SqliteOutboxConfig {
+  readonly dbPath: string;
+  /**
+   * Outbox table – created on first use, with the columns of
+   * `pipeline.outputs`. Defaults to `outbox`.
+   */
+  readonly outboxTable?: string;
+}
+
+export interface SqliteOutboxInsertConfig<T extends Record<string, any>> extends SqliteOutboxConfig {
+  /**
+   * Table the records are inserted into.
+   */
+  readonly table: string;
+  /**
+   * Columns to insert. Defaults to the keys of the first record.
+   */
+  readonly columns?: string[];
+  readonly onConflict?: "IGNORE" | "REPLACE" | "ABORT" | "FAIL" | "ROLLBACK";
+  /**
+   * The side effects each inserted record should cause.
+   */
+  readonly messages: (record: T) => OutboxIntent | readonly OutboxIntent[];
+}
+
+interface OutboxRow {
+  readonly id: number;
+  readonly output_id: string;
+  readonly output_type: string;
+  readonly data: string;
+  readonly destination: string;
+}
+
+const createOutboxTable = (db: Database, table: string) =>
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS ${table} (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      output_id TEXT NOT NULL UNIQUE,
+      output_type TEXT NOT NULL,
+      data TEXT NOT NULL,
+      destination TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'pending',
+      created_at INTEGER NOT NULL,
+      processed_at INTEGER
+    )
+  `);
+
+/**
+ * An Egress Node that inserts records like `sqliteInsert` and writes the
+ * outbox messages `messages` derives from them in the same transaction, so a
+ * record is never stored without its messages or the other way round. The
+ * outbox table lives in the same database and is created on first use.
+ */
+export function sqliteOutboxInsert<T extends Record<string, any>>(
+  name: string,
+  config: SqliteOutboxInsertConfig<T>
+): Node<T | T[], SqliteWriteResult, Error> {
+  const outboxTable = config.outboxTable ?? "outbox";
+
+  return {
+    kind: NodeKind.Egress,
+    name,
+    run: (input) =>
+      Effect.flatMap(Clock.currentTimeMillis, (now) => Effect.try({
+        try: () => {
+          const records = Array.isArray(input) ? input : [input];
+          const db = new Database(config.dbPath);
+
+          try {
+            createOutboxTable(db, outboxTable);
+            const columns = config.columns || Object.keys(records[0] ?? {});
+            const placeholders = columns.map(() => "?").join(", ");
+            const conflictClause = config.onConflict ? ` OR ${config.onConflict}` : "";
+            const insert = db.prepare(
+              `INSERT${conflictClause} INTO ${config.table} (${columns.join(", ")}) VALUES (${placeholders})`
+            );
+            const enqueue = db.prepare(
+              `INSERT INTO ${outboxTable} (output_id, output_type, data, destination, created_at) VALUES (?, ?, ?, ?, ?)
+               ON CONFLICT (output_id) DO NOTHING`
+            );
+
+            const result = db.transaction(() => {
+              let changes = 0;
+              let lastInsertRowid: number | undefined;
+              for (const record of records) {
+                const res = insert.run(...columns.map((col) => record[col]));
+                changes += res.changes;
+                lastInsertRowid = Number(res.lastInsertRowid);
+                for (const intent of [config.messages(record)].flat() as OutboxIntent[]) {
+                  enqueue.run(
+                    intent.id ?? crypto.randomUUID(),
+                    intent.type,
+                    JSON.stringify(intent.payload) ?? "null",
+                    intent.destination,
+                    now
+                  );
+                }
+              }
+              return { changes, lastInsertRowid };
+            })();
+
+            return { ...result, success: true };
+          } finally {
+            db.close();
+          }
+        },
+        catch: (error) => new Error(`SQLite outbox error: ${error}`)
+      }))
+  };
+}
+
+/**
+ * An outbox store over the table `sqliteOutboxInsert` writes to. Claiming is
+ * a single `UPDATE … RETURNING`, so it is atomic across processes sharing the
+ * database file.
+ */
+export function sqliteOutboxStore(config: SqliteOutboxConfig): OutboxStore<Error> {
+  const table = config.outboxTable ?? "outbox";
+
+  const withDb = <A>(use: (db: Database) => A): Effect.Effect<A, Error> =>
+    Effect.try({
+      try: () => {
+        const db = new Database(config.dbPath);
+
+        try {
+          createOutboxTable(db, table);
+          return use(db);
+        } finally {
+          db.close();
+        }
+      },
+      catch: (error) => new Error(`SQLite outbox error: ${error}`)
+    });
+
+  const finish = (status: "processed" | "failed") => (id: string, at: Date) =>
+    withDb((db) => {
+      db.prepare(`UPDATE ${table} SET status = ?, processed_at = ? WHERE output_id = ?`).run(status, at.getTime(), id);
+    });
+
+  return {
+    name: `sqlite-outbox:${table}`,
+    claim: (limit, now, staleBefore) =>
+      withDb((db) => {
+        const rows = db.prepare(
+          `UPDATE ${table} SET status = 'processing', processed_at = ?
+           WHERE id IN (
+             SELECT id FROM ${table}
+             WHERE status = 'pending' OR (status = 'processing' AND processed_at < ?)
+             ORDER BY id LIMIT ?
+           )
+           RETURNING id, output_id, output_type, data, destination`
+        ).all(now.getTime(), staleBefore.getTime(), limit) as OutboxRow[];
+        return rows.sort((a, b) => a.id - b.id).map(fromRow);
+      }),
+    renew: (ids, at) =>
+      withDb((db) => {
+        const placeholders = ids.map(() => "?").join(", ");
+        db.prepare(
+          `UPDATE ${table} SET processed_at = ? WHERE status = 'processing' AND output_id IN (${placeholders})`
+        ).run(at.getTime(), ...ids);
+      }),
+    complete: finish("processed"),
+    fail: finish("failed")
+  };
+}
+
+function fromRow(row: OutboxRow): OutboxMessage {
+  return {
+    id: row.output_id,
+    type: row.output_type,
+    destination: row.destination,
+    payload: JSON.parse(row.data)
+  };
+}
@@ -17,6 +17,11 @@ export const LoggingPlugin: Plugin = {
           : "clusterName" in event
           ? event.clusterName
           : "";
-      console.log(`[${timestamp}] ${event._tag}: ${name}`);
+      const detail = event._tag === "CircuitStateChanged"
+        ? ` (${event.from} → ${event.to})`
+        : event._tag === "DuplicateDropped"
+        ? ` (${event.key}, ${event.dropped} dropped)`
+        : "";
+      console.log(`[${timestamp}] ${event._tag}: ${name}${detail}`);
     })
 }; 
\ No newline at end of file
@@ -0,0 +1,15 @@
+import { describe, it, expect } from "bun:test";
+import { recordingFromPath } from "./fromPath";
+
+describe("recordingFromPath", () => {
+  it("should pick the store by file extension", () => {
+    expect(recordingFromPath("runs/failed.ndjson").name).toBe("ndjson-recording:runs/failed.ndjson");
+    expect(recordingFromPath("failed.JSONL").name).toBe("ndjson-recording:failed.JSONL");
+    expect(recordingFromPath("failed.db").name).toBe("sqlite-recording:recorded_steps");
+    expect(recordingFromPath("failed.sqlite").name).toBe("sqlite-recording:recorded_steps");
+  });
+
+  it("should reject other extensions", () => {
+    expect(() => recordingFromPath("failed.csv")).toThrow('Cannot tell the format of recording "failed.csv"');
+  });
+});
@@ -0,0 +1,23 @@
+import { extname } from "path";
+import type { RecordingStore } from "../../core/recording";
+import { ndjsonRecording } from "./ndjson";
+import { sqliteRecording } from "./sqlite";
+
+/**
+ * Pick the recording store for a file by its extension: `.ndjson` or `.jsonl`
+ * for NDJSON, `.db`, `.sqlite` or `.sqlite3` for SQLite. Throws for any other
+ * extension.
+ */
+export function recordingFromPath(path: string): RecordingStore<Error> {
+  switch (extname(path).toLowerCase()) {
+    case ".ndjson":
+    case ".jsonl":
+      return ndjsonRecording({ path });
+    case ".db":
+    case ".sqlite":
+    case ".sqlite3":
+      return sqliteRecording({ dbPath: path });
+    default:
+      throw new Error(`Cannot tell the format of recording "${path}": use .ndjson, .jsonl, .db or .sqlite`);
+  }
+}
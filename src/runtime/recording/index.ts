@@ -0,0 +1,6 @@
+export * from "./memory";
+export * from "./ndjson";
+export * from "./sqlite";
+export * from "./record";
+export * from "./replay";
+export * from "./fromPath";
@@ -0,0 +1,30 @@
+import { describe, it, expect } from "bun:test";
+import { Effect } from "effect";
+import { memoryRecording } from "./memory";
+import type { RecordedStep } from "../../core/recording";
+
+const step: RecordedStep = {
+  pipelineName: "orders",
+  nodeName: "enrich",
+  input: { id: 1 },
+  output: { id: 1, total: 10 },
+  recordedAt: new Date("2024-01-01T00:00:00Z")
+};
+
+describe("memoryRecording", () => {
+  it("should use a default name", () => {
+    expect(memoryRecording().name).toBe("memory-recording");
+    expect(memoryRecording("custom").name).toBe("custom");
+  });
+
+  it("should load steps in the order they were appended", async () => {
+    const recording = memoryRecording();
+    await Effect.runPromise(recording.append(step));
+    await Effect.runPromise(recording.append({ ...step, nodeName: "save", output: undefined, error: "Error: down" }));
+
+    const steps = await Effect.runPromise(recording.load());
+
+    expect(steps.map((s) => s.nodeName)).toEqual(["enrich", "save"]);
+    expect(recording.steps()).toEqual(steps);
+  });
+});
@@ -0,0 +1,26 @@
+import { Effect } from "effect";
+import type { RecordedStep, RecordingStore } from "../../core/recording";
+
+export interface MemoryRecordingStore extends RecordingStore {
+  /**
+   * Steps recorded so far.
+   */
+  readonly steps: () => readonly RecordedStep[];
+}
+
+/**
+ * A recording kept in process memory – for tests, or to replay a run in the
+ * process that recorded it.
+ */
+export function memoryRecording(name: string = "memory-recording"): MemoryRecordingStore {
+  const steps: RecordedStep[] = [];
+
+  return {
+    name,
+    append: (step) => Effect.sync(() => {
+      steps.push(step);
+    }),
+    load: () => Effect.sync(() => [...steps]),
+    steps: () => [...steps]
+  };
+}
@@ -0,0 +1,45 @@
+import { describe, it, expect, beforeEach, afterAll } from "bun:test";
+import { unlinkSync, existsSync, readFileSync } from "fs";
+import { Effect } from "effect";
+import { ndjsonRecording } from "./ndjson";
+import type { RecordedStep } from "../../core/recording";
+
+const step: RecordedStep = {
+  pipelineName: "orders",
+  nodeName: "enrich",
+  input: { id: 1 },
+  output: { id: 1, total: 10 },
+  recordedAt: new Date("2024-01-01T00:00:00Z")
+};
+
+describe("ndjsonRecording", () => {
+  const testPath = "test-recording.ndjson";
+
+  beforeEach(() => {
+    if (existsSync(testPath)) {
+      unlinkSync(testPath);
+    }
+  });
+
+  afterAll(() => {
+    if (existsSync(testPath)) {
+      unlinkSync(testPath);
+    }
+  });
+
+  it("should append one line per step and load them back", async () => {
+    const recording = ndjsonRecording({ path: testPath });
+    const failed: RecordedStep = { pipelineName: "orders", nodeName: "save", input: { id: 1 }, error: "Error: down", recordedAt: step.recordedAt };
+
+    await Effect.runPromise(Effect.all([recording.append(step), recording.append(failed)]));
+
+    expect(readFileSync(testPath, "utf8").trim().split("\n")).toHaveLength(2);
+    expect(await Effect.runPromise(recording.load())).toEqual([step, failed]);
+  });
+
+  it("should fail to load a recording that does not exist", async () => {
+    const error = await Effect.runPromise(Effect.flip(ndjsonRecording({ path: testPath }).load()));
+
+    expect(error.message).toBe(`NDJSON recording error: Error: ${testPath} does not exist`);
+  });
+});
@@ -0,0 +1,41 @@
+import { appendFileSync, existsSync, readFileSync } from "fs";
+import { Effect } from "effect";
+import type { RecordedStep, RecordingStore } from "../../core/recording";
+
+export interface NdjsonRecordingConfig {
+  /**
+   * File the steps are appended to, one JSON object per line.
+   */
+  readonly path: string;
+}
+
+/**
+ * A recording kept in an NDJSON file, easy to read and edit by hand. Inputs
+ * and outputs are stored as JSON, so they must be JSON-serialisable.
+ */
+export function ndjsonRecording(config: NdjsonRecordingConfig): RecordingStore<Error> {
+  return {
+    name: `ndjson-recording:${config.path}`,
+    append: (step) =>
+      Effect.try({
+        try: () => appendFileSync(config.path, `${JSON.stringify(step)}\n`),
+        catch: (error) => new Error(`NDJSON recording error: ${error}`)
+      }),
+    load: () =>
+      Effect.try({
+        try: () => {
+          if (!existsSync(config.path)) {
+            throw new Error(`${config.path} does not exist`);
+          }
+          return readFileSync(config.path, "utf8")
+            .split("\n")
+            .filter((line) => line.trim() !== "")
+            .map((line): RecordedStep => {
+              const step = JSON.parse(line);
+              return { ...step, recordedAt: new Date(step.recordedAt) };
+            });
+        },
+        catch: (error) => new Error(`NDJSON recording error: ${error}`)
+      })
+  };
+}
@@ -0,0 +1,69 @@
+import { describe, it, expect } from "bun:test";
+import { Effect, Queue, Stream } from "effect";
+import { NodeKind, type Node } from "../../core/node";
+import type { Pipe } from "../../core/pipe";
+import type { RuntimeEvent } from "../../core/event";
+import { Drop } from "../../core/drop";
+import { PipelineExecutor } from "../engine/executor";
+import { memoryRecording } from "./memory";
+import { recordPipe } from "./record";
+
+const read: Node<undefined, number> = {
+  kind: NodeKind.Ingress,
+  name: "read",
+  run: () => Effect.succeed(1),
+  stream: () => Stream.make(1, 2, 3)
+};
+
+const skipEven: Node<number, number> = {
+  kind: NodeKind.Transform,
+  name: "skip-even",
+  run: (n) => Effect.succeed(n % 2 === 0 ? Drop : n) as Effect.Effect<number>
+};
+
+const save: Node<number, string, Error> = {
+  kind: NodeKind.Egress,
+  name: "save",
+  run: (n) => n === 3 ? Effect.fail(new Error("disk full")) : Effect.succeed(`saved ${n}`)
+};
+
+const pipe: Pipe<Error> = { name: "numbers", nodes: [read, skipEven, save] };
+
+const steps = (recording: ReturnType<typeof memoryRecording>) =>
+  recording.steps().map(({ recordedAt: _, pipelineName: __, ...step }) => step);
+
+describe("recordPipe", () => {
+  it("should record each Node's input and output in a one-shot run", async () => {
+    const recording = memoryRecording();
+    const eventQueue = await Effect.runPromise(Queue.unbounded<RuntimeEvent>());
+
+    await Effect.runPromise(new PipelineExecutor(recordPipe(pipe, recording), eventQueue).run());
+
+    expect(steps(recording)).toEqual([
+      { nodeName: "read", input: undefined, output: 1 },
+      { nodeName: "skip-even", input: 1, output: 1 },
+      { nodeName: "save", input: 1, output: "saved 1" }
+    ]);
+    expect(recording.steps()[0]!.pipelineName).toBe("numbers");
+  });
+
+  it("should record streamed items, drops and failures", async () => {
+    const recording = memoryRecording();
+    const eventQueue = await Effect.runPromise(Queue.unbounded<RuntimeEvent>());
+
+    const exit = await Effect.runPromiseExit(new PipelineExecutor(recordPipe(pipe, recording), eventQueue).runStream());
+
+    expect(exit._tag).toBe("Failure");
+    const recorded = steps(recording);
+    expect(recorded.filter((step) => step.nodeName === "read").map((step) => step.output)).toEqual([1, 2, 3]);
+    expect(recorded).toContainEqual({ nodeName: "skip-even", input: 2, dropped: true });
+    expect(recorded).toContainEqual({ nodeName: "save", input: 3, error: "Error: disk full" });
+  });
+
+  it("should keep the Nodes' names and settings", () => {
+    const recorded = recordPipe({ ...pipe, nodes: [read, { ...skipEven, retry: { maxAttempts: 2 } }, save] }, memoryRecording());
+
+    expect(recorded.nodes.map((node) => node.name)).toEqual(["read", "skip-even", "save"]);
+    expect(recorded.nodes[1]!.retry).toEqual({ maxAttempts: 2 });
+  });
+});
@@ -0,0 +1,37 @@
+import { Clock, Effect, Stream } from "effect";
+import type { Pipe } from "../../core/pipe";
+import type { RecordedStep, RecordingStore } from "../../core/recording";
+import { isDrop } from "../../core/drop";
+import { mapNodes } from "../../pipes/mapNodes";
+
+type Outcome = Pick<RecordedStep, "output" | "dropped" | "error">;
+
+/**
+ * Wrap every Node of a Pipe so each call appends a {@link RecordedStep} – the
+ * Node's input and its output, drop or error – to `store`. Run the returned
+ * Pipe like the original, one-shot or streaming; an ingress records each item
+ * its source emits. Accumulating Nodes – windows, batches – are only recorded
+ * in one-shot runs, where they use `run`.
+ *
+ * A step that cannot be appended fails the Node with the store's error.
+ */
+export function recordPipe<E, R, E2, R2>(pipe: Pipe<E, R>, store: RecordingStore<E2, R2>): Pipe<E | E2, R | R2> {
+  return mapNodes(pipe, (node) => {
+    const append = (input: unknown, outcome: Outcome) =>
+      Effect.flatMap(Clock.currentTimeMillis, (now) =>
+        store.append({ pipelineName: pipe.name, nodeName: node.name, input, ...outcome, recordedAt: new Date(now) })
+      );
+    const completed = (output: unknown): Outcome => isDrop(output) ? { dropped: true } : { output };
+    const source = node.stream;
+
+    return {
+      ...node,
+      run: (input) =>
+        node.run(input).pipe(
+          Effect.tap((output) => append(input, completed(output))),
+          Effect.tapError((error) => append(input, { error: String(error) }))
+        ),
+      ...(source ? { stream: () => Stream.tap(source(), (output) => append(undefined, completed(output))) } : {})
+    };
+  });
+}
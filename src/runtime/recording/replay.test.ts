@@ -0,0 +1,111 @@
+import { describe, it, expect } from "bun:test";
+import { Effect, Queue } from "effect";
+import { NodeKind, type Node } from "../../core/node";
+import type { Pipe } from "../../core/pipe";
+import type { RuntimeEvent } from "../../core/event";
+import type { RecordedStep } from "../../core/recording";
+import { PipelineExecutor } from "../engine/executor";
+import { NodeFailure } from "../engine/errors";
+import { replayPipe, ReplayMismatchError } from "./replay";
+
+const recordedAt = new Date("2024-01-01T00:00:00Z");
+const step = (nodeName: string, input: unknown, outcome: Partial<RecordedStep>): RecordedStep =>
+  ({ pipelineName: "orders", nodeName, input, ...outcome, recordedAt });
+
+const recording: RecordedStep[] = [
+  step("read", undefined, { output: { id: 1 } }),
+  step("lookup", { id: 1 }, { output: { id: 1, price: 10 } }),
+  step("read", undefined, { output: { id: 2 } }),
+  step("lookup", { id: 2 }, { error: "Error: timeout" }),
+  step("lookup", { id: 2 }, { dropped: true })
+];
+
+// A Pipe whose ingress and lookup must not run during replays
+const orders = () => {
+  const calls: string[] = [];
+  const read: Node<undefined, { id: number }> = {
+    kind: NodeKind.Ingress,
+    name: "read",
+    run: () => Effect.sync(() => { calls.push("read"); return { id: 99 }; })
+  };
+  const lookup: Node<{ id: number }, { id: number; price: number }> = {
+    kind: NodeKind.Transform,
+    name: "lookup",
+    run: (order) => Effect.sync(() => { calls.push("lookup"); return { ...order, price: 0 }; })
+  };
+  const total: Node<{ id: number; price: number }, number> = {
+    kind: NodeKind.Egress,
+    name: "total",
+    run: (order) => Effect.succeed(order.price * 2)
+  };
+  const pipe: Pipe = { name: "orders", nodes: [read, lookup, total] };
+  return { pipe, calls };
+};
+
+const runOnce = (pipe: Pipe<any>) =>
+  Effect.flatMap(Queue.unbounded<RuntimeEvent>(), (queue) => new PipelineExecutor(pipe, queue).run());
+
+describe("replayPipe", () => {
+  it("should feed recorded ingress items one per run through the current Nodes", async () => {
+    const { pipe, calls } = orders();
+    const replayed = replayPipe(pipe, recording);
+
+    const results = await Effect.runPromise(Effect.all([runOnce(replayed), runOnce(replayed), runOnce(replayed)]));
+
+    expect(results.map((result) => result.output)).toEqual([0, 0, undefined]);
+    expect(results[2]!.completed).toBe(false);
+    expect(calls).toEqual(["lookup", "lookup"]);
+  });
+
+  it("should answer stubbed Nodes with their recorded outputs", async () => {
+    const { pipe, calls } = orders();
+    const replayed = replayPipe(pipe, recording, { stub: ["lookup"] });
+
+    const results = await Effect.runPromise(Effect.all([runOnce(replayed), runOnce(replayed)]));
+
+    expect(results.map((result) => result.output)).toEqual([20, undefined]);
+    expect(calls).toEqual([]);
+  });
+
+  it("should stream every recorded ingress item", async () => {
+    const { pipe } = orders();
+    const totals: number[] = [];
+    const replayed = replayPipe(
+      {
+        ...pipe,
+        nodes: [
+          ...pipe.nodes.slice(0, 2),
+          { kind: NodeKind.Egress, name: "total", run: (order: { price: number }) => Effect.sync(() => { totals.push(order.price); }) }
+        ]
+      },
+      recording
+    );
+    const eventQueue = await Effect.runPromise(Queue.unbounded<RuntimeEvent>());
+
+    await Effect.runPromise(new PipelineExecutor(replayed, eventQueue).runStream());
+
+    expect(totals).toEqual([0, 0]);
+  });
+
+  it("should fail a stubbed Node given an input the recording lacks", async () => {
+    const { pipe } = orders();
+    const replayed = replayPipe(pipe, [step("read", undefined, { output: { id: 3 } })], { stub: ["lookup"] });
+
+    const error = await Effect.runPromise(Effect.flip(runOnce(replayed)));
+
+    expect(error).toBeInstanceOf(NodeFailure);
+    const cause = (error as NodeFailure).cause;
+    expect(cause).toBeInstanceOf(ReplayMismatchError);
+    expect((cause as ReplayMismatchError).message).toBe('No recorded output of node "lookup" for input {"id":3}');
+  });
+
+  it("should reject recordings and stubs that do not fit the Pipe", () => {
+    const { pipe } = orders();
+
+    expect(() => replayPipe(pipe, [])).toThrow('Recording has no output of ingress "read"');
+    expect(() => replayPipe(pipe, recording, { stub: ["price"] }))
+      .toThrow('Cannot stub "price": pipeline "orders" has no such node');
+    expect(() => replayPipe({ ...pipe, nodes: pipe.nodes.slice(1) }, recording))
+      .toThrow('Replaying pipeline "orders" needs it to start with an ingress');
+  });
+});
@@ -0,0 +1,107 @@
+import { Data, Effect, Stream } from "effect";
+import { NodeKind, type Node } from "../../core/node";
+import type { Branch, Pipe } from "../../core/pipe";
+import type { RecordedStep } from "../../core/recording";
+import { Drop } from "../../core/drop";
+import { mapNodes } from "../../pipes/mapNodes";
+
+export interface ReplayOptions {
+  /**
+   * Nodes answered from the recording instead of running – e.g. ones calling
+   * services that are not reachable while debugging.
+   */
+  readonly stub?: readonly string[];
+}
+
+/**
+ * Raised by a stubbed Node given an input the recording has no (more)
+ * outputs for.
+ */
+export class ReplayMismatchError extends Data.TaggedError("ReplayMismatchError")<{
+  readonly message: string;
+  readonly nodeName: string;
+  readonly input: unknown;
+}> {}
+
+/**
+ * Rebuild a Pipe to run a recording through it. The ingress is replaced by
+ * one emitting what the recorded ingress emitted: all of it as a stream, or
+ * one item per one-shot run – then dropping once the recording is used up.
+ * The other Nodes run as they are now, so a fix can be checked against the
+ * exact items that failed.
+ *
+ * Nodes named in `stub` return their recorded output for the same input
+ * instead – matched by the input's JSON, and in recorded order when an input
+ * was seen more than once. A recorded drop is replayed as a drop.
+ *
+ * Throws if the Pipe does not start with an ingress, the recording has no
+ * ingress output, or a stubbed Node is not in the Pipe.
+ */
+export function replayPipe<E, R>(
+  pipe: Pipe<E, R>,
+  steps: readonly RecordedStep[],
+  options: ReplayOptions = {}
+): Pipe<E | ReplayMismatchError, R> {
+  const ingress = pipe.nodes[0];
+  if (ingress?.kind !== NodeKind.Ingress) {
+    throw new Error(`Replaying pipeline "${pipe.name}" needs it to start with an ingress`);
+  }
+
+  const items = steps.filter((step) => step.nodeName === ingress.name && "output" in step).map((step) => step.output);
+  if (items.length === 0) {
+    throw new Error(`Recording has no output of ingress "${ingress.name}"`);
+  }
+
+  const stubbed = new Set(options.stub ?? []);
+  const names = new Set(allNodes(pipe).map((node) => node.name));
+  for (const name of stubbed) {
+    if (!names.has(name)) {
+      throw new Error(`Cannot stub "${name}": pipeline "${pipe.name}" has no such node`);
+    }
+  }
+
+  let next = 0;
+  const source: Node<undefined, unknown> = {
+    kind: NodeKind.Ingress,
+    name: ingress.name,
+    run: () => Effect.sync(() => next < items.length ? items[next++] : Drop),
+    stream: () => Stream.fromIterable(items)
+  };
+
+  return mapNodes(pipe, (node): Node<any, any, E | ReplayMismatchError, R> =>
+    node === ingress ? source : stubbed.has(node.name) ? stub(node, steps) : node
+  );
+}
+
+function stub(node: Node<any, any, any, any>, steps: readonly RecordedStep[]): Node<any, any, ReplayMismatchError> {
+  // Recorded outcomes by input, consumed in order
+  const outcomes = new Map<string, RecordedStep[]>();
+  for (const step of steps) {
+    if (step.nodeName === node.name && step.error === undefined) {
+      const key = inputKey(step.input);
+      outcomes.set(key, [...(outcomes.get(key) ?? []), step]);
+    }
+  }
+
+  return {
+    kind: node.kind,
+    name: node.name,
+    run: (input) =>
+      Effect.suspend(() => {
+        const step = outcomes.get(inputKey(input))?.shift();
+        return step
+          ? Effect.succeed(step.dropped ? Drop : step.output)
+          : Effect.fail(new ReplayMismatchError({
+            message: `No recorded output of node "${node.name}" for input ${inputKey(input)}`,
+            nodeName: node.name,
+            input
+          }));
+      })
+  };
+}
+
+// Nodes of a Pipe or Branch, followed by those of its branches
+const allNodes = (segment: Pick<Branch<any, any>, "nodes" | "fork">): readonly Node<any, any, any, any>[] =>
+  [...segment.nodes, ...(segment.fork?.branches.flatMap(allNodes) ?? [])];
+
+const inputKey = (input: unknown): string => JSON.stringify(input) ?? "undefined";
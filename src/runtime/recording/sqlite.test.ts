@@ -0,0 +1,47 @@
+import { describe, it, expect, beforeEach, afterAll } from "bun:test";
+import { Database } from "bun:sqlite";
+import { unlinkSync, existsSync } from "fs";
+import { Effect } from "effect";
+import { sqliteRecording } from "./sqlite";
+import type { RecordedStep } from "../../core/recording";
+
+const recordedAt = new Date("2024-01-01T00:00:00Z");
+
+describe("sqliteRecording", () => {
+  const testDbPath = "test-recording.db";
+
+  beforeEach(() => {
+    const db = new Database(testDbPath);
+    db.exec("DROP TABLE IF EXISTS recorded_steps");
+    db.close();
+  });
+
+  afterAll(() => {
+    if (existsSync(testDbPath)) {
+      unlinkSync(testDbPath);
+    }
+  });
+
+  it("should load outputs, drops and errors back in order", async () => {
+    const recording = sqliteRecording({ dbPath: testDbPath });
+    const steps: RecordedStep[] = [
+      { pipelineName: "orders", nodeName: "read", input: undefined, output: { id: 1 }, recordedAt },
+      { pipelineName: "orders", nodeName: "filter", input: { id: 1 }, dropped: true, recordedAt },
+      { pipelineName: "orders", nodeName: "save", input: { id: 1 }, error: "Error: down", recordedAt },
+      { pipelineName: "orders", nodeName: "notify", input: null, output: null, recordedAt }
+    ];
+
+    await Effect.runPromise(Effect.forEach(steps, recording.append, { discard: true }));
+
+    expect(await Effect.runPromise(recording.load())).toEqual(steps);
+  });
+
+  it("should keep steps across store instances", async () => {
+    const step: RecordedStep = { pipelineName: "orders", nodeName: "read", input: undefined, output: 1, recordedAt };
+    await Effect.runPromise(sqliteRecording({ dbPath: testDbPath }).append(step));
+
+    const steps = await Effect.runPromise(sqliteRecording({ dbPath: testDbPath }).load());
+
+    expect(steps).toEqual([step]);
+  });
+});
@@ -0,0 +1,96 @@
+import { Database } from "bun:sqlite";
+import { Effect } from "effect";
+import type { RecordedStep, RecordingStore } from "../../core/recording";
+
+export interface SqliteRecordingConfig {
+  readonly dbPath: string;
+  /**
+   * Table holding one row per step – created on first use. Defaults to
+   * `recorded_steps`.
+   */
+  readonly table?: string;
+}
+
+interface StepRow {
+  readonly pipeline_name: string;
+  readonly node_name: string;
+  readonly input: string | null;
+  readonly output: string | null;
+  readonly dropped: number;
+  readonly error: string | null;
+  readonly recorded_at: number;
+}
+
+/**
+ * A recording kept in a SQLite table, handy to query when a run recorded many
+ * items. Inputs and outputs are stored as JSON text, so they must be
+ * JSON-serialisable.
+ */
+export function sqliteRecording(config: SqliteRecordingConfig): RecordingStore<Error> {
+  const table = config.table ?? "recorded_steps";
+
+  const withDb = <A>(use: (db: Database) => A): Effect.Effect<A, Error> =>
+    Effect.try({
+      try: () => {
+        const db = new Database(config.dbPath);
+
+        try {
+          db.exec(`
+            CREATE TABLE IF NOT EXISTS ${table} (
+              id INTEGER PRIMARY KEY AUTOINCREMENT,
+              pipeline_name TEXT NOT NULL,
+              node_name TEXT NOT NULL,
+              input TEXT,
+              output TEXT,
+              dropped INTEGER NOT NULL DEFAULT 0,
+              error TEXT,
+              recorded_at INTEGER NOT NULL
+            )
+          `);
+          return use(db);
+        } finally {
+          db.close();
+        }
+      },
+      catch: (error) => new Error(`SQLite recording error: ${error}`)
+    });
+
+  return {
+    name: `sqlite-recording:${table}`,
+    append: (step) =>
+      withDb((db) => {
+        db.prepare(
+          `INSERT INTO ${table} (pipeline_name, node_name, input, output, dropped, error, recorded_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?)`
+        ).run(
+          step.pipelineName,
+          step.nodeName,
+          JSON.stringify(step.input) ?? null,
+          "output" in step ? JSON.stringify(step.output) ?? null : null,
+          step.dropped ? 1 : 0,
+          step.error ?? null,
+          step.recordedAt.getTime()
+        );
+      }),
+    load: () =>
+      withDb((db) =>
+        (db.prepare(
+          `SELECT pipeline_name, node_name, input, output, dropped, error, recorded_at FROM ${table} ORDER BY id`
+        ).all() as StepRow[]).map(fromRow)
+      )
+  };
+}
+
+function fromRow(row: StepRow): RecordedStep {
+  return {
+    pipelineName: row.pipeline_name,
+    nodeName: row.node_name,
+    input: row.input === null ? undefined : JSON.parse(row.input),
+    ...(row.dropped
+      ? { dropped: true }
+      : row.error !== null
+      ? { error: row.error }
+      : { output: row.output === null ? undefined : JSON.parse(row.output) }),
+    recordedAt: new Date(row.recorded_at)
+  };
+}
@@ -0,0 +1,11 @@
+import { describe, it, expect } from "bun:test";
+import * as state from "./index";
+
+describe("state index", () => {
+  it("should load the backends without the Postgres nodes", () => {
+    expect(state.StateStore).toBeDefined();
+    expect(state.stateStoreLayer).toBeFunction();
+    expect(state.memoryStateBackend).toBeFunction();
+    expect(state.sqliteStateBackend).toBeFunction();
+  });
+});
@@ -0,0 +1,5 @@
+// postgresStateBackend is imported from "./postgres" itself, so using the
+// other backends does not load the Postgres nodes
+export * from "./stateStore";
+export * from "./memory";
+export * from "./sqlite";
@@ -0,0 +1,35 @@
+import { describe, it, expect } from "bun:test";
+import { Effect, Option } from "effect";
+import { memoryStateBackend } from "./memory";
+
+const at = (ms: number) => new Date(ms);
+
+describe("memoryStateBackend", () => {
+  it("should use a default name", () => {
+    expect(memoryStateBackend().name).toBe("memory-state");
+    expect(memoryStateBackend("custom").name).toBe("custom");
+  });
+
+  it("should keep values apart per namespace", async () => {
+    const backend = memoryStateBackend();
+    await Effect.runPromise(backend.put("a/one", "count", 1, undefined));
+    await Effect.runPromise(backend.put("a/two", "count", 2, undefined));
+
+    const value = await Effect.runPromise(backend.get("a/one", "count", at(0)));
+
+    expect(value).toEqual(Option.some(1));
+    expect(backend.entries()).toHaveLength(2);
+  });
+
+  it("should remove expired values when looked up", async () => {
+    const backend = memoryStateBackend();
+    await Effect.runPromise(backend.put("a/one", "count", 1, at(100)));
+
+    const before = await Effect.runPromise(backend.get("a/one", "count", at(99)));
+    const after = await Effect.runPromise(backend.get("a/one", "count", at(100)));
+
+    expect(before).toEqual(Option.some(1));
+    expect(after).toEqual(Option.none());
+    expect(backend.entries()).toHaveLength(0);
+  });
+});
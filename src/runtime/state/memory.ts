@@ -0,0 +1,44 @@
+import { Effect, Option } from "effect";
+import type { StateBackend } from "../../core/state";
+
+export interface StateEntry {
+  readonly namespace: string;
+  readonly key: string;
+  readonly value: unknown;
+  readonly expiresAt?: Date;
+}
+
+export interface MemoryStateBackend extends StateBackend {
+  /**
+   * Values currently held, including expired ones not yet looked up.
+   */
+  readonly entries: () => readonly StateEntry[];
+}
+
+/**
+ * A state backend that keeps values in process memory – for tests, and for
+ * state that may be lost on restart. Expired values are removed when looked up.
+ */
+export function memoryStateBackend(name: string = "memory-state"): MemoryStateBackend {
+  const values = new Map<string, StateEntry>();
+  const id = (namespace: string, key: string) => `${namespace}\u0000${key}`;
+
+  return {
+    name,
+    get: (namespace, key, now) => Effect.sync(() => {
+      const entry = values.get(id(namespace, key));
+      if (entry?.expiresAt && entry.expiresAt.getTime() <= now.getTime()) {
+        values.delete(id(namespace, key));
+        return Option.none();
+      }
+      return Option.map(Option.fromNullable(entry), (found) => found.value);
+    }),
+    put: (namespace, key, value, expiresAt) => Effect.sync(() => {
+      values.set(id(namespace, key), { namespace, key, value, ...(expiresAt ? { expiresAt } : {}) });
+    }),
+    delete: (namespace, key) => Effect.sync(() => {
+      values.delete(id(namespace, key));
+    }),
+    entries: () => [...values.values()]
+  };
+}
@@ -0,0 +1,78 @@
+import { describe, it, expect, afterAll } from "bun:test";
+import { Effect, Option } from "effect";
+import { postgresStateBackend } from "./postgres";
+import { PostgresConnection } from "../../nodes/postgres/config";
+import { postgresAvailable, postgresTestConnection } from "../../testing/postgres";
+
+const at = (ms: number) => new Date(ms);
+
+describe.skipIf(!(await postgresAvailable()))("postgresStateBackend", () => {
+  // Namespaces of this run only, so runs against a shared database stay apart
+  const prefix = `state-test-${crypto.randomUUID()}`;
+  const enrich = `${prefix}/enrich`;
+  const store = `${prefix}/store`;
+
+  const run = <A, E>(effect: Effect.Effect<A, E, PostgresConnection>) =>
+    Effect.runPromise(effect.pipe(Effect.provide(postgresTestConnection)));
+
+  const rows = (namespace: string) =>
+    run(
+      Effect.flatMap(PostgresConnection, ({ sql }) =>
+        Effect.promise(async () => [...await sql`SELECT key, value FROM pipeline.node_state WHERE namespace = ${namespace} ORDER BY key`])
+      )
+    );
+
+  afterAll(() =>
+    run(
+      Effect.flatMap(PostgresConnection, ({ sql }) =>
+        Effect.promise(() => sql`DELETE FROM pipeline.node_state WHERE namespace LIKE ${`${prefix}/%`}`)
+      )
+    )
+  );
+
+  it("should round-trip values through JSONB", async () => {
+    const backend = postgresStateBackend();
+    await run(backend.put(enrich, "cursor", { offset: 42, tags: ["a"] }, undefined));
+    await run(backend.put(enrich, "label", "open", undefined));
+    await run(backend.put(enrich, "paused", true, undefined));
+
+    const values = await run(
+      Effect.all([backend.get(enrich, "cursor", at(0)), backend.get(enrich, "label", at(0)), backend.get(enrich, "paused", at(0))])
+    );
+
+    expect(values).toEqual([Option.some({ offset: 42, tags: ["a"] }), Option.some("open"), Option.some(true)]);
+  });
+
+  it("should read null and undefined values back as null", async () => {
+    const backend = postgresStateBackend();
+    await run(backend.put(store, "none", undefined, undefined));
+
+    expect(await run(backend.get(store, "none", at(0)))).toEqual(Option.some(null));
+  });
+
+  it("should keep values across backend instances and apart per namespace", async () => {
+    await run(postgresStateBackend().put(enrich, "offset", 1, undefined));
+
+    const backend = postgresStateBackend();
+    const same = await run(backend.get(enrich, "offset", at(0)));
+    const other = await run(backend.get(store, "offset", at(0)));
+
+    expect(same).toEqual(Option.some(1));
+    expect(other).toEqual(Option.none());
+  });
+
+  it("should expire, replace and delete values", async () => {
+    const backend = postgresStateBackend();
+    await run(backend.put(store, "session", "open", at(100)));
+
+    const expired = await run(backend.get(store, "session", at(100)));
+    await run(backend.put(store, "session", "reopened", undefined));
+    const replaced = await run(backend.get(store, "session", at(100)));
+    await run(backend.delete(store, "session"));
+
+    expect(backend.name).toBe("postgres-state:pipeline.node_state");
+    expect(expired).toEqual(Option.none());
+    expect(replaced).toEqual(Option.some("reopened"));
+    expect((await rows(store)).map((row) => row.key)).not.toContain("session");
+  });
+});
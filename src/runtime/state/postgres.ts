@@ -0,0 +1,61 @@
+import { Effect, Option } from "effect";
+import type postgres from "postgres";
+import type { StateBackend } from "../../core/state";
+import { PostgresConnection } from "../../nodes/postgres/config";
+import { createQueryIngress, type PostgresIngressError } from "../../nodes/postgres/ingress";
+import { createQueryEgress, createUpsertEgress, type PostgresEgressError } from "../../nodes/postgres/egress";
+
+export interface PostgresStateConfig {
+  /**
+   * Table holding one row per namespace and key. Defaults to
+   * `pipeline.node_state`, created by `postgres/init/01-init.sql`.
+   */
+  readonly table?: string;
+}
+
+/**
+ * A state backend backed by a Postgres table, with values in a JSONB column;
+ * `null` and `undefined` are stored as SQL `NULL` and read back as `null`.
+ * Expired rows are ignored on lookup and replaced by the next write to their key.
+ */
+export function postgresStateBackend(
+  config: PostgresStateConfig = {}
+): StateBackend<PostgresEgressError | PostgresIngressError, PostgresConnection> {
+  const table = config.table ?? "pipeline.node_state";
+
+  const upsert = createUpsertEgress({
+    table,
+    columns: ["namespace", "key", "value", "expires_at"],
+    conflictColumns: ["namespace", "key"]
+  });
+  const remove = createQueryEgress<{ namespace: string; key: string }>(
+    `DELETE FROM ${table} WHERE namespace = $1 AND key = $2`,
+    ({ namespace, key }) => [namespace, key]
+  );
+
+  return {
+    name: `postgres-state:${table}`,
+    get: (namespace, key, now) =>
+      Effect.map(
+        createQueryIngress<{ value: unknown }>({
+          sql: `SELECT value FROM ${table} WHERE namespace = $1 AND key = $2 AND (expires_at IS NULL OR expires_at > $3)`,
+          parameters: [namespace, key, now.toISOString()]
+        }).execute(),
+        (rows) => Option.map(Option.fromNullable(rows[0]), (row) => row.value)
+      ),
+    put: (namespace, key, value, expiresAt) =>
+      Effect.flatMap(PostgresConnection, ({ sql }) =>
+        Effect.asVoid(
+          upsert.execute([
+            {
+              namespace,
+              key,
+              value: sql.json((value ?? null) as postgres.JSONValue),
+              expires_at: expiresAt?.toISOString() ?? null
+            }
+          ])
+        )
+      ),
+    delete: (namespace, key) => Effect.asVoid(remove.execute([{ namespace, key }]))
+  };
+}
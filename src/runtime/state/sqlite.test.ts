@@ -0,0 +1,59 @@
+import { describe, it, expect, beforeEach, afterAll } from "bun:test";
+import { Database } from "bun:sqlite";
+import { unlinkSync, existsSync } from "fs";
+import { Effect, Option } from "effect";
+import { sqliteStateBackend } from "./sqlite";
+
+const at = (ms: number) => new Date(ms);
+
+describe("sqliteStateBackend", () => {
+  const testDbPath = "test-state.db";
+
+  beforeEach(() => {
+    const db = new Database(testDbPath);
+    db.exec("DROP TABLE IF EXISTS node_state");
+    db.close();
+  });
+
+  afterAll(() => {
+    if (existsSync(testDbPath)) {
+      unlinkSync(testDbPath);
+    }
+  });
+
+  it("should round-trip values through JSON", async () => {
+    const backend = sqliteStateBackend({ dbPath: testDbPath });
+    await Effect.runPromise(backend.put("orders/enrich", "cursor", { offset: 42, tags: ["a"] }, undefined));
+
+    const value = await Effect.runPromise(backend.get("orders/enrich", "cursor", at(0)));
+
+    expect(value).toEqual(Option.some({ offset: 42, tags: ["a"] }));
+  });
+
+  it("should keep values across backend instances and apart per namespace", async () => {
+    await Effect.runPromise(sqliteStateBackend({ dbPath: testDbPath }).put("orders/enrich", "cursor", 1, undefined));
+
+    const backend = sqliteStateBackend({ dbPath: testDbPath });
+    const same = await Effect.runPromise(backend.get("orders/enrich", "cursor", at(0)));
+    const other = await Effect.runPromise(backend.get("orders/store", "cursor", at(0)));
+
+    expect(same).toEqual(Option.some(1));
+    expect(other).toEqual(Option.none());
+  });
+
+  it("should expire and delete values", async () => {
+    const backend = sqliteStateBackend({ dbPath: testDbPath });
+    await Effect.runPromise(backend.put("orders/enrich", "session", "open", at(100)));
+    await Effect.runPromise(backend.put("orders/enrich", "cursor", 1, undefined));
+
+    const expired = await Effect.runPromise(backend.get("orders/enrich", "session", at(100)));
+    await Effect.runPromise(backend.delete("orders/enrich", "cursor"));
+
+    const db = new Database(testDbPath);
+    const rows = db.query("SELECT * FROM node_state").all();
+    db.close();
+
+    expect(expired).toEqual(Option.none());
+    expect(rows).toEqual([]);
+  });
+});
@@ -0,0 +1,71 @@
+import { Database } from "bun:sqlite";
+import { Effect, Option } from "effect";
+import type { StateBackend } from "../../core/state";
+
+export interface SqliteStateConfig {
+  readonly dbPath: string;
+  /**
+   * Table holding one row per namespace and key – created on first use.
+   * Defaults to `node_state`.
+   */
+  readonly table?: string;
+}
+
+interface StateRow {
+  readonly value: string;
+  readonly expires_at: number | null;
+}
+
+/**
+ * A state backend backed by a SQLite table. Values are stored as JSON text, so
+ * they must be JSON-serialisable. Expired rows are removed when looked up.
+ */
+export function sqliteStateBackend(config: SqliteStateConfig): StateBackend<Error> {
+  const table = config.table ?? "node_state";
+
+  const withDb = <A>(use: (db: Database) => A): Effect.Effect<A, Error> =>
+    Effect.try({
+      try: () => {
+        const db = new Database(config.dbPath);
+
+        try {
+          db.exec(`
+            CREATE TABLE IF NOT EXISTS ${table} (
+              namespace TEXT NOT NULL,
+              key TEXT NOT NULL,
+              value TEXT NOT NULL,
+              expires_at INTEGER,
+              PRIMARY KEY (namespace, key)
+            )
+          `);
+          return use(db);
+        } finally {
+          db.close();
+        }
+      },
+      catch: (error) => new Error(`SQLite state error: ${error}`)
+    });
+
+  return {
+    name: `sqlite-state:${table}`,
+    get: (namespace, key, now) =>
+      withDb((db) => {
+        const row = db.prepare(`SELECT value, expires_at FROM ${table} WHERE namespace = ? AND key = ?`)
+          .get(namespace, key) as StateRow | null;
+        if (row && row.expires_at !== null && row.expires_at <= now.getTime()) {
+          db.prepare(`DELETE FROM ${table} WHERE namespace = ? AND key = ?`).run(namespace, key);
+          return Option.none();
+        }
+        return Option.map(Option.fromNullable(row), (found) => JSON.parse(found.value) as unknown);
+      }),
+    put: (namespace, key, value, expiresAt) =>
+      withDb((db) => {
+        db.prepare(`INSERT OR REPLACE INTO ${table} (namespace, key, value, expires_at) VALUES (?, ?, ?, ?)`)
+          .run(namespace, key, JSON.stringify(value) ?? "null", expiresAt?.getTime() ?? null);
+      }),
+    delete: (namespace, key) =>
+      withDb((db) => {
+        db.prepare(`DELETE FROM ${table} WHERE namespace = ? AND key = ?`).run(namespace, key);
+      })
+  };
+}
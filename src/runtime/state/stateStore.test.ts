@@ -0,0 +1,106 @@
+import { describe, it, expect } from "bun:test";
+import { Effect, Option, Queue, TestClock, TestContext } from "effect";
+import { NodeKind, type Node } from "../../core/node";
+import type { RuntimeEvent } from "../../core/event";
+import type { StateBackend } from "../../core/state";
+import { PipelineExecutor } from "../engine/executor";
+import { withNodeScope } from "../engine/nodeScope";
+import { StateStore, StateStoreError, stateStoreLayer } from "./stateStore";
+import { memoryStateBackend } from "./memory";
+
+// Counts the orders it has seen across runs
+const countOrders: Node<string, number, StateStoreError, StateStore> = {
+  kind: NodeKind.Transform,
+  name: "count-orders",
+  run: () =>
+    Effect.flatMap(StateStore, (state) =>
+      state.update<number>("orders", (count) => Option.getOrElse(count, () => 0) + 1)
+    )
+};
+
+describe("StateStore", () => {
+  it("should put, get and delete values", async () => {
+    const backend = memoryStateBackend();
+
+    const values = await Effect.runPromise(
+      Effect.gen(function* (_) {
+        const state = yield* _(StateStore);
+        yield* _(state.put("cursor", { offset: 42 }));
+        const stored = yield* _(state.get<{ offset: number }>("cursor"));
+        yield* _(state.delete("cursor"));
+        return [stored, yield* _(state.get("cursor"))];
+      }).pipe(Effect.provide(stateStoreLayer(backend)))
+    );
+
+    expect(values).toEqual([Option.some({ offset: 42 }), Option.none()]);
+  });
+
+  it("should forget values once their ttl passes", async () => {
+    const values = await Effect.runPromise(
+      Effect.gen(function* (_) {
+        const state = yield* _(StateStore);
+        yield* _(state.put("session", "open", { ttl: "1 minute" }));
+        const before = yield* _(state.get("session"));
+        yield* _(TestClock.adjust("1 minute"));
+        return [before, yield* _(state.get("session"))];
+      }).pipe(Effect.provide(stateStoreLayer(memoryStateBackend())), Effect.provide(TestContext.TestContext))
+    );
+
+    expect(values).toEqual([Option.some("open"), Option.none()]);
+  });
+
+  it("should not lose concurrent updates", async () => {
+    const total = await Effect.runPromise(
+      Effect.gen(function* (_) {
+        const state = yield* _(StateStore);
+        yield* _(Effect.forEach(
+          Array.from({ length: 20 }, (_, i) => i),
+          () => state.update<number>("total", (current) => Option.getOrElse(current, () => 0) + 1),
+          { concurrency: "unbounded" }
+        ));
+        return yield* _(state.get<number>("total"));
+      }).pipe(Effect.provide(stateStoreLayer(memoryStateBackend())))
+    );
+
+    expect(total).toEqual(Option.some(20));
+  });
+
+  it("should namespace values by pipeline and node", async () => {
+    const backend = memoryStateBackend();
+    const eventQueue = await Effect.runPromise(Queue.unbounded<RuntimeEvent>());
+    const executor = new PipelineExecutor({ name: "orders", nodes: [countOrders] }, eventQueue);
+
+    const outputs = await Effect.runPromise(
+      Effect.gen(function* (_) {
+        const first = yield* _(executor.run({ input: "o-1" }));
+        const second = yield* _(executor.run({ input: "o-2" }));
+        // The same key written for another node stays apart
+        const other = yield* _(countOrders.run("o-3").pipe(withNodeScope({ pipelineName: "refunds", nodeName: "count-orders" })));
+        return [first.output, second.output, other];
+      }).pipe(Effect.provide(stateStoreLayer(backend)))
+    );
+
+    expect(outputs).toEqual([1, 2, 1]);
+    expect(backend.entries().map(({ namespace, key, value }) => [namespace, key, value])).toEqual([
+      ["orders/count-orders", "orders", 2],
+      ["refunds/count-orders", "orders", 1]
+    ]);
+  });
+
+  it("should fail with a StateStoreError naming the backend", async () => {
+    const broken: StateBackend<Error> = {
+      name: "broken",
+      get: () => Effect.fail(new Error("disk full")),
+      put: () => Effect.fail(new Error("disk full")),
+      delete: () => Effect.fail(new Error("disk full"))
+    };
+
+    const error = await Effect.runPromise(
+      Effect.flip(Effect.flatMap(StateStore, (state) => state.get("cursor"))).pipe(Effect.provide(stateStoreLayer(broken)))
+    );
+
+    expect(error).toBeInstanceOf(StateStoreError);
+    expect(error.message).toBe("State backend broken failed: Error: disk full");
+    expect(error.backendName).toBe("broken");
+  });
+});
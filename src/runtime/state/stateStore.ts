@@ -0,0 +1,105 @@
+import { Clock, Context, Data, Duration, Effect, FiberRef, Layer, Option } from "effect";
+import type { StateBackend } from "../../core/state";
+import { currentNodeScope } from "../engine/nodeScope";
+
+export interface StateOptions {
+  /**
+   * How long the value is kept. Without it, the value never expires.
+   */
+  readonly ttl?: Duration.DurationInput;
+}
+
+/**
+ * Raised when the backend behind the `StateStore` fails.
+ */
+export class StateStoreError extends Data.TaggedError("StateStoreError")<{
+  readonly message: string;
+  readonly backendName: string;
+  readonly cause: unknown;
+}> {}
+
+/**
+ * Keyed state for stateful Nodes – counters, cursors, buffers – that outlives
+ * a run and can be inspected. A Node requires it through `R`:
+ *
+ * ```typescript
+ * run: (order) => Effect.flatMap(StateStore, (state) =>
+ *   state.update<number>("orders", (count) => Option.getOrElse(count, () => 0) + 1))
+ * ```
+ *
+ * Keys are namespaced by the pipeline and Node running the Effect, so Nodes
+ * cannot see each other's values; outside an executor all keys share one
+ * namespace. Provide it with {@link stateStoreLayer}.
+ */
+export class StateStore extends Context.Tag("StateStore")<StateStore, {
+  readonly get: <A = unknown>(key: string) => Effect.Effect<Option.Option<A>, StateStoreError>;
+  readonly put: (key: string, value: unknown, options?: StateOptions) => Effect.Effect<void, StateStoreError>;
+  /**
+   * Replace a value with `f` of the current one, returning the new value.
+   * Writes through one layer are serialised, so concurrent updates in a
+   * process do not lose each other's changes.
+   */
+  readonly update: <A>(
+    key: string,
+    f: (current: Option.Option<A>) => A,
+    options?: StateOptions
+  ) => Effect.Effect<A, StateStoreError>;
+  readonly delete: (key: string) => Effect.Effect<void, StateStoreError>;
+}>() {}
+
+/**
+ * Build the {@link StateStore} service on a backend. Every Effect the layer is
+ * provided to shares the backend's values.
+ */
+export function stateStoreLayer<E, R>(backend: StateBackend<E, R>): Layer.Layer<StateStore, never, R> {
+  return Layer.effect(
+    StateStore,
+    Effect.gen(function* (_) {
+      const context = yield* _(Effect.context<R>());
+      const writes = yield* _(Effect.makeSemaphore(1));
+
+      const call = <A>(effect: Effect.Effect<A, E, R>): Effect.Effect<A, StateStoreError> =>
+        effect.pipe(
+          Effect.provide(context),
+          Effect.mapError((cause) =>
+            new StateStoreError({
+              message: `State backend ${backend.name} failed: ${cause}`,
+              backendName: backend.name,
+              cause
+            })
+          )
+        );
+
+      const namespace = Effect.map(FiberRef.get(currentNodeScope), (scope) =>
+        Option.match(scope, { onNone: () => "", onSome: ({ pipelineName, nodeName }) => `${pipelineName}/${nodeName}` })
+      );
+
+      const get = <A>(key: string) =>
+        Effect.flatMap(Effect.zip(namespace, Clock.currentTimeMillis), ([ns, now]) =>
+          call(backend.get(ns, key, new Date(now)))
+        ) as Effect.Effect<Option.Option<A>, StateStoreError>;
+
+      const put = (key: string, value: unknown, options: StateOptions = {}) =>
+        Effect.flatMap(Effect.zip(namespace, Clock.currentTimeMillis), ([ns, now]) => {
+          const expiresAt = options.ttl === undefined
+            ? undefined
+            : new Date(now + Duration.toMillis(Duration.decode(options.ttl)));
+          return call(backend.put(ns, key, value, expiresAt));
+        });
+
+      return {
+        get,
+        put: (key, value, options) => writes.withPermits(1)(put(key, value, options)),
+        update: <A>(key: string, f: (current: Option.Option<A>) => A, options?: StateOptions) =>
+          writes.withPermits(1)(
+            Effect.flatMap(get<A>(key), (current) => {
+              const next = f(current);
+              return Effect.as(put(key, next, options), next);
+            })
+          ),
+        delete: (key) =>
+          writes.withPermits(1)(Effect.flatMap(namespace, (ns) => call(backend.delete(ns, key))))
+      };
+    })
+  );
+}
@@ -1,20 +1,27 @@
 // Semantic executor - bridges simple async/await API to Effect-native core
 // Provides the best of both worlds: simple API with Effect's power underneath
 
-import { Effect, Queue } from "effect";
+import { Duration, Effect, Queue } from "effect";
 import type { SemanticPipeline, SemanticNode, AsyncHandlerWithServices } from "./types";
 import type { Node } from "../core/node";
 import { NodeKind } from "../core/node";
 import type { Pipe } from "../core/pipe";
 import { PipelineExecutor } from "../runtime/engine/executor";
+import type { RunResult } from "../runtime/engine/runResult";
 import { createServiceRegistry, extractServicesForNode } from "./services";
+import { subPipeline } from "../pipes/subPipeline";
 import type { RuntimeEvent } from "../core/event";
 
 /**
  * Convert a semantic node to an Effect-native node.
  * This bridges the simple async/await API to Effect's powerful execution model.
  */
-function convertSemanticNode(semanticNode: SemanticNode, serviceRegistry: Record<string, any>): Node<any, any> {
+function convertSemanticNode(semanticNode: SemanticNode, serviceRegistry: Record<string, any>): Node<any, any, any> {
+  // Sub-pipelines run on their own executor so their events stay nested
+  if (semanticNode.pipeline) {
+    return subPipeline(convertSemanticPipeline(semanticNode.pipeline), { name: semanticNode.name });
+  }
+
   // Map semantic kinds to Effect-native kinds
   const nodeKind = semanticNode.kind === "ingress" ? NodeKind.Ingress
     : semanticNode.kind === "transform" ? NodeKind.Transform
@@ -63,7 +70,7 @@ function convertSemanticNode(semanticNode: SemanticNode, serviceRegistry: Record
  * Convert a semantic pipeline to an Effect-native pipeline.
  * This allows the semantic API to leverage the full power of the Effect runtime.
  */
-function convertSemanticPipeline(semanticPipeline: SemanticPipeline): Pipe {
+export function convertSemanticPipeline(semanticPipeline: SemanticPipeline): Pipe {
   // Create service registry for dependency injection
   const serviceRegistry = createServiceRegistry(semanticPipeline.services);
   
@@ -83,7 +90,8 @@ function convertSemanticPipeline(semanticPipeline: SemanticPipeline): Pipe {
  * This provides a simple Promise interface while leveraging Effect's capabilities.
  * 
  * @param semanticPipeline - The semantic pipeline to execute
- * @returns Promise that resolves when the pipeline completes successfully
+ * @param options - `recordOutputs` keeps every node's output in the result
+ * @returns Promise that resolves with the run's result once the pipeline completes
  * 
  * @example
  * ```typescript
@@ -93,18 +101,26 @@ function convertSemanticPipeline(semanticPipeline: SemanticPipeline): Pipe {
  *   .then(transformNode)
  *   .end(egressNode);
  * 
- * await run(pipeline);
+ * const { output, timings } = await run(pipeline);
  * ```
  */
-export async function run(semanticPipeline: SemanticPipeline): Promise<void> {
+export async function run(
+  semanticPipeline: SemanticPipeline,
+  options: { recordOutputs?: boolean } = {}
+): Promise<RunResult> {
   // Convert semantic pipeline to Effect-native pipeline
-  const effectPipeline = convertSemanticPipeline(semanticPipeline);
-  
+  return execute(convertSemanticPipeline(semanticPipeline), options.recordOutputs);
+}
+
+/**
+ * Execute an already converted pipeline on the Effect-native executor.
+ */
+async function execute(effectPipeline: Pipe, recordOutputs = false): Promise<RunResult> {
   // Create event queue for runtime events
   const eventQueue = await Effect.runPromise(Queue.unbounded<RuntimeEvent>());
   
   // Create Effect-native executor
-  const executor = new PipelineExecutor(effectPipeline, eventQueue);
+  const executor = new PipelineExecutor(effectPipeline, eventQueue, { recordOutputs });
   
   // Run the pipeline and convert back to Promise
   return Effect.runPromise(executor.run());
@@ -116,14 +132,14 @@ export async function run(semanticPipeline: SemanticPipeline): Promise<void> {
  * 
  * @param semanticPipeline - The semantic pipeline to execute
  * @param onError - Optional error handler function
- * @returns Promise that resolves when the pipeline completes
+ * @returns Promise that resolves with the run's result once the pipeline completes
  */
 export async function runWithErrorHandler(
   semanticPipeline: SemanticPipeline,
   onError?: (error: Error) => Promise<void> | void
-): Promise<void> {
+): Promise<RunResult> {
   try {
-    await run(semanticPipeline);
+    return await run(semanticPipeline);
   } catch (error) {
     if (onError && error instanceof Error) {
       await Promise.resolve(onError(error));
@@ -134,24 +150,18 @@ export async function runWithErrorHandler(
 
 /**
  * Run a semantic pipeline with timeout support.
- * Automatically cancels the pipeline if it takes too long.
+ * The executor interrupts every running node once the timeout elapses.
  * 
  * @param semanticPipeline - The semantic pipeline to execute
  * @param timeoutMs - Maximum time to wait in milliseconds
- * @returns Promise that resolves when the pipeline completes or rejects on timeout
+ * @returns Promise that resolves with the run's result, or rejects on timeout
  */
 export async function runWithTimeout(
   semanticPipeline: SemanticPipeline,
   timeoutMs: number
-): Promise<void> {
-  const timeoutPromise = new Promise<never>((_, reject) => {
-    setTimeout(() => {
-      reject(new Error(`Pipeline "${semanticPipeline.name}" timed out after ${timeoutMs}ms`));
-    }, timeoutMs);
+): Promise<RunResult> {
+  return execute({
+    ...convertSemanticPipeline(semanticPipeline),
+    timeout: Duration.millis(timeoutMs)
   });
-
-  return Promise.race([
-    run(semanticPipeline),
-    timeoutPromise
-  ]);
 } 
\ No newline at end of file
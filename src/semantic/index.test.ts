@@ -6,6 +6,7 @@ import {
   service, 
   pipeline, 
   run, 
+  runWithTimeout,
   concurrent 
 } from "./index";
 
@@ -32,6 +33,21 @@ describe("Semantic API Integration", () => {
       expect(captured).toEqual({ result: "HELLO" });
     });
 
+    it("should resolve with the run result", async () => {
+      const resultPipeline = pipeline("result-pipeline")
+        .start(ingress("start", () => ({ data: "hello" })))
+        .then(transform("process", (input: any) => input.data.toUpperCase()))
+        .end(egress("finish", (input: any) => `${input}!`));
+
+      const result = await run(resultPipeline, { recordOutputs: true });
+
+      expect(result.pipelineName).toBe("result-pipeline");
+      expect(result.output).toBe("HELLO!");
+      expect(result.outputs).toEqual({ start: { data: "hello" }, process: "HELLO", finish: "HELLO!" });
+      expect(result.timings.map((timing) => timing.nodeName)).toEqual(["start", "process", "finish"]);
+      expect(typeof result.runId).toBe("string");
+    });
+
     it("should handle async nodes", async () => {
       let captured: any = null;
 
@@ -136,6 +152,23 @@ describe("Semantic API Integration", () => {
 
       await expect(run(errorPipeline)).rejects.toThrow("Test error");
     });
+
+    it("should stop the pipeline when runWithTimeout elapses", async () => {
+      let finished = false;
+
+      const slowPipeline = pipeline("slow-pipeline")
+        .start(ingress("start", () => ({ data: "test" })))
+        .then(transform("slow", () => new Promise(resolve => setTimeout(resolve, 200))))
+        .end(egress("end", () => {
+          finished = true;
+        }));
+
+      await expect(runWithTimeout(slowPipeline, 20)).rejects.toThrow(
+        'Pipeline "slow-pipeline" timed out after 20ms'
+      );
+      await new Promise(resolve => setTimeout(resolve, 250));
+      expect(finished).toBe(false);
+    });
   });
 
   describe("Type Safety", () => {
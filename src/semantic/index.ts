@@ -16,6 +16,7 @@ export { service } from "./services";
 
 // Pipeline building
 export { pipeline } from "./pipeline";
+export { subPipeline } from "./subPipeline";
 
 // Pipeline execution
 export { 
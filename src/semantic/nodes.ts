@@ -81,15 +81,16 @@ export function transformWithServices<I, O, S = any>(
 
 /**
  * Create an egress node that ends a pipeline.
- * Egress nodes receive input and typically perform side effects.
+ * Egress nodes receive input and typically perform side effects. Whatever
+ * the handler returns becomes the `output` of the run's result.
  * 
  * @param name - Unique name for the node
  * @param handler - Async function that handles the final output
  */
-export function egress<I>(
+export function egress<I, O = void>(
   name: string,
-  handler: AsyncHandler<I, void> | AsyncHandlerWithServices<I, void>
-): SemanticNode<I, void> {
+  handler: AsyncHandler<I, O> | AsyncHandlerWithServices<I, O>
+): SemanticNode<I, O> {
   return {
     name,
     kind: "egress",
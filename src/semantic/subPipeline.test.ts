@@ -0,0 +1,43 @@
+import { describe, it, expect } from "bun:test";
+import { ingress, transform, transformWithServices, egress } from "./nodes";
+import { service } from "./services";
+import { pipeline } from "./pipeline";
+import { run } from "./executor";
+import { subPipeline } from "./subPipeline";
+
+describe("Semantic subPipeline()", () => {
+  const cleanUp = pipeline("clean-up")
+    .with(service("Words", { exclaim: (s: string) => `${s}!` }))
+    .start(ingress("unused-start", () => undefined))
+    .then(transform("trim", (s: string) => s.trim()))
+    .then(transformWithServices("exclaim", ["Words"], (s: string, { Words }: any) => Words.exclaim(s)))
+    .end(egress("unused-end", () => {}));
+
+  it("should create a transform node", () => {
+    const node = subPipeline(cleanUp);
+
+    expect(node.name).toBe("clean-up");
+    expect(node.kind).toBe("transform");
+    expect(node.pipeline).toBe(cleanUp);
+    expect(subPipeline(cleanUp, "tidy").name).toBe("tidy");
+  });
+
+  it("should run the middle steps when called directly", async () => {
+    expect(await subPipeline(cleanUp).handler("  hi ", {})).toBe("hi!");
+  });
+
+  it("should run inside a parent pipeline with its own services", async () => {
+    let captured: unknown;
+    const parent = pipeline("parent")
+      .start(ingress("start", () => " hello "))
+      .then(subPipeline(cleanUp))
+      .end(egress("end", (input: string) => {
+        captured = input;
+      }));
+
+    const result = await run(parent, { recordOutputs: true });
+
+    expect(captured).toBe("hello!");
+    expect(result.outputs?.["clean-up"]).toBe("hello!");
+  });
+});
@@ -0,0 +1,42 @@
+// Semantic sub-pipelines - reuse a whole pipeline as a single transform step
+
+import { Effect } from "effect";
+import type { SemanticNode, SemanticPipeline } from "./types";
+import { convertSemanticPipeline } from "./executor";
+import { subPipeline as effectSubPipeline } from "../pipes/subPipeline";
+
+/**
+ * Create a transform node that runs the steps of another semantic pipeline
+ * between its start and end nodes. The pipeline keeps its own services, and
+ * its events are reported nested under the parent run.
+ * 
+ * @param semanticPipeline - The pipeline whose middle steps to reuse
+ * @param name - Name of the node, defaults to the pipeline's name
+ * 
+ * @example
+ * ```typescript
+ * const cleanUp = pipeline("clean-up")
+ *   .start(ingress("unused", () => undefined))
+ *   .then(validate)
+ *   .then(normalize)
+ *   .end(egress("unused", () => {}));
+ * 
+ * const orders = pipeline("orders")
+ *   .start(readOrders)
+ *   .then(subPipeline(cleanUp))
+ *   .end(saveOrders);
+ * ```
+ */
+export function subPipeline<I = any, O = any>(
+  semanticPipeline: SemanticPipeline,
+  name: string = semanticPipeline.name
+): SemanticNode<I, O> {
+  const node = effectSubPipeline(convertSemanticPipeline(semanticPipeline), { name });
+
+  return {
+    name,
+    kind: "transform",
+    handler: (input: I) => Effect.runPromise(node.run(input) as Effect.Effect<O, Error>),
+    pipeline: semanticPipeline
+  };
+}
@@ -16,6 +16,8 @@ export interface SemanticNode<I = any, O = any> {
   readonly kind: "ingress" | "transform" | "egress";
   readonly handler: AsyncHandler<I, O> | AsyncHandlerWithServices<I, O>;
   readonly requiredServices?: readonly string[];
+  // Set on nodes created by subPipeline(); the pipeline runs nested under the parent run
+  readonly pipeline?: SemanticPipeline;
 }
 
 // Simplified pipeline that combines nodes and services
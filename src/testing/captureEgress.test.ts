@@ -0,0 +1,27 @@
+import { describe, it, expect } from "bun:test";
+import { Effect, TestClock, TestContext } from "effect";
+import { NodeKind } from "../core/node";
+import { captureEgress } from "./captureEgress";
+
+describe("captureEgress", () => {
+  it("should use a default name", () => {
+    expect(captureEgress().name).toBe("capture");
+    expect(captureEgress("saved").kind).toBe(NodeKind.Egress);
+  });
+
+  it("should keep inputs with their arrival time and pass them on", async () => {
+    const capture = captureEgress<number>();
+
+    const outputs = await Effect.runPromise(
+      Effect.gen(function* (_) {
+        const first = yield* _(capture.run(1));
+        yield* _(TestClock.adjust("1 second"));
+        return [first, yield* _(capture.run(2))];
+      }).pipe(Effect.provide(TestContext.TestContext))
+    );
+
+    expect(outputs).toEqual([1, 2]);
+    expect(capture.captured()).toEqual([1, 2]);
+    expect(capture.timeline()).toEqual([[0, 1], [1000, 2]]);
+  });
+});
@@ -0,0 +1,34 @@
+import { Clock, Effect } from "effect";
+import { NodeKind, type Node } from "../core/node";
+
+export interface CaptureEgress<T> extends Node<T, T> {
+  /**
+   * Inputs received so far, in order.
+   */
+  readonly captured: () => readonly T[];
+  /**
+   * Inputs received so far, each with the Effect clock's time in milliseconds
+   * when it arrived – e.g. to check when a window closed under the `TestClock`.
+   */
+  readonly timeline: () => readonly (readonly [number, T])[];
+}
+
+/**
+ * An Egress Node that keeps every input it receives and passes it on as its
+ * output, so one-shot runs resolve with it.
+ */
+export function captureEgress<T = unknown>(name: string = "capture"): CaptureEgress<T> {
+  const received: (readonly [number, T])[] = [];
+
+  return {
+    kind: NodeKind.Egress,
+    name,
+    run: (input) =>
+      Effect.map(Clock.currentTimeMillis, (now) => {
+        received.push([now, input]);
+        return input;
+      }),
+    captured: () => received.map(([, input]) => input),
+    timeline: () => [...received]
+  };
+}
@@ -0,0 +1,69 @@
+import { describe, it, expect } from "bun:test";
+import { Effect, Queue } from "effect";
+import type { RuntimeEvent } from "../core/event";
+import { assertEvents, EventAssertionError, eventsTagged, nodeEventTags, takeEvents } from "./events";
+
+const events: RuntimeEvent[] = [
+  { _tag: "PipelineStarted", pipelineName: "orders" },
+  { _tag: "NodeStarted", nodeName: "read" },
+  { _tag: "QueueDepth", nodeName: "read", depth: 1, capacity: 16 },
+  { _tag: "NodeCompleted", nodeName: "read" },
+  { _tag: "NodeStarted", nodeName: "save" },
+  { _tag: "NodeCompleted", nodeName: "save" },
+  { _tag: "PipelineCompleted", pipelineName: "orders" }
+];
+
+describe("takeEvents", () => {
+  it("should take every queued event", async () => {
+    const taken = await Effect.runPromise(
+      Effect.gen(function* (_) {
+        const queue = yield* _(Queue.unbounded<RuntimeEvent>());
+        yield* _(Queue.offerAll(queue, events));
+        return [yield* _(takeEvents(queue)), yield* _(takeEvents(queue))];
+      })
+    );
+
+    expect(taken).toEqual([events, []]);
+  });
+});
+
+describe("eventsTagged", () => {
+  it("should keep the events with a tag", () => {
+    expect(eventsTagged(events, "NodeStarted").map((event) => event.nodeName)).toEqual(["read", "save"]);
+  });
+});
+
+describe("nodeEventTags", () => {
+  it("should list a Node's event tags without queue depths", () => {
+    expect(nodeEventTags(events, "read")).toEqual(["NodeStarted", "NodeCompleted"]);
+  });
+});
+
+describe("assertEvents", () => {
+  it("should accept tags and patterns in order with other events between", () => {
+    expect(() =>
+      assertEvents(events, ["PipelineStarted", { _tag: "NodeCompleted", nodeName: "save" }, "PipelineCompleted"])
+    ).not.toThrow();
+  });
+
+  it("should throw when an event is missing or out of order", () => {
+    expect(() => assertEvents(events, [{ _tag: "NodeStarted", nodeName: "save" }, { _tag: "NodeStarted", nodeName: "read" }]))
+      .toThrow(EventAssertionError);
+    expect(() => assertEvents(events, ["NodeErrored"])).toThrow(
+      "Expected NodeErrored after event 0 of: PipelineStarted, NodeStarted, QueueDepth, NodeCompleted, NodeStarted, NodeCompleted, PipelineCompleted"
+    );
+  });
+
+  it("should compare nested fields deeply", () => {
+    const nested: RuntimeEvent[] = [
+      { _tag: "SubPipelineEvent", nodeName: "clean-up", event: { _tag: "NodeStarted", nodeName: "validate" } }
+    ];
+
+    expect(() =>
+      assertEvents(nested, [{ _tag: "SubPipelineEvent", event: { _tag: "NodeStarted", nodeName: "validate" } }])
+    ).not.toThrow();
+    expect(() =>
+      assertEvents(nested, [{ _tag: "SubPipelineEvent", event: { _tag: "NodeStarted", nodeName: "enrich" } }])
+    ).toThrow(EventAssertionError);
+  });
+});
@@ -0,0 +1,77 @@
+import { Chunk, Data, Effect, Equal, Queue, Utils } from "effect";
+import type { RuntimeEvent } from "../core/event";
+
+export type RuntimeEventTag = RuntimeEvent["_tag"];
+
+/**
+ * What an expected event looks like: just its tag, or its tag with the
+ * fields that must match – compared deeply, other fields ignored.
+ */
+export type EventPattern = RuntimeEventTag | { readonly _tag: RuntimeEventTag; readonly [field: string]: unknown };
+
+/**
+ * Raised by {@link assertEvents} when the events do not match.
+ */
+export class EventAssertionError extends Data.TaggedError("EventAssertionError")<{
+  readonly message: string;
+  readonly events: readonly RuntimeEvent[];
+}> {}
+
+/**
+ * Take every event waiting in an executor's queue.
+ */
+export function takeEvents(queue: Queue.Queue<RuntimeEvent>): Effect.Effect<readonly RuntimeEvent[]> {
+  return Effect.map(Queue.takeAll(queue), Chunk.toArray);
+}
+
+/**
+ * The events with the given tag, typed as that event.
+ */
+export function eventsTagged<T extends RuntimeEventTag>(
+  events: readonly RuntimeEvent[],
+  tag: T
+): readonly Extract<RuntimeEvent, { readonly _tag: T }>[] {
+  return events.filter((event): event is Extract<RuntimeEvent, { readonly _tag: T }> => event._tag === tag);
+}
+
+/**
+ * The tags of the events concerning one Node, in order. `QueueDepth` events
+ * are left out since their number depends on scheduling.
+ */
+export function nodeEventTags(events: readonly RuntimeEvent[], nodeName: string): readonly RuntimeEventTag[] {
+  return events
+    .filter((event) => "nodeName" in event && event.nodeName === nodeName && event._tag !== "QueueDepth")
+    .map((event) => event._tag);
+}
+
+/**
+ * Throw an {@link EventAssertionError} unless events matching `expected`
+ * occur in this order. Other events may come between them.
+ */
+export function assertEvents(events: readonly RuntimeEvent[], expected: readonly EventPattern[]): void {
+  let position = 0;
+  for (const pattern of expected) {
+    const found = events.findIndex((event, index) => index >= position && matches(event, pattern));
+    if (found === -1) {
+      throw new EventAssertionError({
+        message: `Expected ${describe(pattern)} after event ${position} of: ${events.map((event) => event._tag).join(", ")}`,
+        events
+      });
+    }
+    position = found + 1;
+  }
+}
+
+function matches(event: RuntimeEvent, pattern: EventPattern): boolean {
+  if (typeof pattern === "string") {
+    return event._tag === pattern;
+  }
+  // Within a structural region `Equal` compares plain objects and arrays field by field
+  return Utils.structuralRegion(() =>
+    Object.entries(pattern).every(([field, value]) => Equal.equals((event as Record<string, unknown>)[field], value))
+  );
+}
+
+function describe(pattern: EventPattern): string {
+  return typeof pattern === "string" ? pattern : JSON.stringify(pattern);
+}
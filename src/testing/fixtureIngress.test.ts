@@ -0,0 +1,36 @@
+import { describe, it, expect } from "bun:test";
+import { Effect, Exit } from "effect";
+import { NodeKind, type Node } from "../core/node";
+import { pipeline } from "../pipes/builder";
+import { fixtureIngress } from "./fixtureIngress";
+import { captureEgress } from "./captureEgress";
+import { testPipe } from "./testPipe";
+
+describe("fixtureIngress", () => {
+  it("should hand out one item per one-shot run, then drop", async () => {
+    const capture = captureEgress<string>();
+    const pipe = { name: "letters", nodes: [fixtureIngress("letters", ["a", "b"]), capture] };
+
+    const runs = await Effect.runPromise(Effect.all([testPipe(pipe), testPipe(pipe), testPipe(pipe)]));
+
+    expect(runs.map((run) => Exit.isSuccess(run.exit) && run.exit.value?.completed)).toEqual([true, true, false]);
+    expect(capture.captured()).toEqual(["a", "b"]);
+  });
+
+  it("should stream every item, spaced on the clock", async () => {
+    const capture = captureEgress<string>();
+    const pipe = { name: "letters", nodes: [fixtureIngress("letters", ["a", "b", "c"], { spacing: "1 second" }), capture] };
+
+    await Effect.runPromise(testPipe(pipe, { stream: true, advance: "5 seconds" }));
+
+    expect(capture.timeline()).toEqual([[0, "a"], [1000, "b"], [2000, "c"]]);
+  });
+
+  it("should feed the next Node its items, without the Drop sentinel", () => {
+    const shout: Node<string, string> = { kind: NodeKind.Transform, name: "shout", run: (letter) => Effect.succeed(letter.toUpperCase()) };
+
+    const pipe = pipeline("letters").from(fixtureIngress("letters", ["a"])).through(shout).to(captureEgress<string>()).build();
+
+    expect(pipe.nodes.map((node) => node.name)).toEqual(["letters", "shout", "capture"]);
+  });
+});
@@ -0,0 +1,38 @@
+import { Duration, Effect, Stream } from "effect";
+import { NodeKind, type Node } from "../core/node";
+import { Drop } from "../core/drop";
+
+export interface FixtureIngressOptions {
+  /**
+   * Pause between streamed items, on the Effect clock – with the `TestClock`
+   * an item arrives each time the clock is moved on by this much.
+   */
+  readonly spacing?: Duration.DurationInput;
+}
+
+/**
+ * An Ingress Node fed from an array. In streaming runs it emits every item
+ * and ends; each one-shot run takes the next item, dropping once all are
+ * used up.
+ */
+export function fixtureIngress<T>(
+  name: string,
+  items: readonly T[],
+  options: FixtureIngressOptions = {}
+): Node<undefined, T | Drop> {
+  let next = 0;
+  const { spacing } = options;
+
+  return {
+    kind: NodeKind.Ingress,
+    name,
+    run: () => Effect.sync(() => next < items.length ? items[next++]! : Drop),
+    stream: () =>
+      spacing === undefined
+        ? Stream.fromIterable(items)
+        : Stream.fromIterable(items).pipe(
+          Stream.zipWithIndex,
+          Stream.mapEffect(([item, index]) => index === 0 ? Effect.succeed(item) : Effect.as(Effect.sleep(spacing), item))
+        )
+  };
+}
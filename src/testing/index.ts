@@ -0,0 +1,5 @@
+export * from "./fixtureIngress";
+export * from "./captureEgress";
+export * from "./events";
+export * from "./testPipe";
+export * from "./mockNode";
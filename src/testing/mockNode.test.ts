@@ -0,0 +1,71 @@
+import { describe, it, expect } from "bun:test";
+import { Cause, Effect, Exit, Option } from "effect";
+import { NodeKind, type Node } from "../core/node";
+import type { Pipe } from "../core/pipe";
+import { Drop } from "../core/drop";
+import { NodeFailure } from "../runtime/engine/errors";
+import { fixtureIngress } from "./fixtureIngress";
+import { captureEgress } from "./captureEgress";
+import { testPipe } from "./testPipe";
+import { mockNode, MockExhaustedError } from "./mockNode";
+
+const lookup: Node<number, string> = {
+  kind: NodeKind.Transform,
+  name: "lookup",
+  run: () => Effect.die("lookup must be mocked"),
+  retry: { maxAttempts: 3 }
+};
+
+const orders = (ids: number[]) => {
+  const capture = captureEgress<string>();
+  const pipe: Pipe = { name: "orders", nodes: [fixtureIngress("ids", ids), lookup, capture] };
+  return { pipe, capture };
+};
+
+describe("mockNode", () => {
+  it("should answer with the next output and record the inputs", async () => {
+    const { pipe, capture } = orders([1, 2, 3]);
+    const mock = mockNode<number, string>("lookup", ["one", Drop, "three"]);
+
+    await Effect.runPromise(testPipe(mock(pipe), { stream: true }));
+
+    expect(capture.captured()).toEqual(["one", "three"]);
+    expect(mock.calls()).toEqual([1, 2, 3]);
+  });
+
+  it("should answer from a function", async () => {
+    const { pipe, capture } = orders([1, 2]);
+
+    await Effect.runPromise(testPipe(mockNode("lookup", (id: number) => `order ${id}`)(pipe), { stream: true }));
+
+    expect(capture.captured()).toEqual(["order 1", "order 2"]);
+  });
+
+  it("should fail once its outputs run out, without retrying", async () => {
+    const { pipe } = orders([1, 2]);
+    const mock = mockNode("lookup", ["one"]);
+
+    const { exit } = await Effect.runPromise(testPipe(mock(pipe), { stream: true }));
+
+    const error = Exit.isFailure(exit) ? Option.getOrUndefined(Cause.failureOption(exit.cause)) : undefined;
+    expect(error).toBeInstanceOf(NodeFailure);
+    expect((error as NodeFailure).cause).toBeInstanceOf(MockExhaustedError);
+    expect(((error as NodeFailure).cause as MockExhaustedError).message).toBe('Mock of node "lookup" has no output left for call 2');
+    expect(mock.calls()).toEqual([1, 2]);
+  });
+
+  it("should stream the outputs of a mocked ingress", async () => {
+    const { pipe, capture } = orders([]);
+    const mocked = mockNode("lookup", (id: number) => `#${id}`)(mockNode("ids", [7, 8])(pipe));
+
+    await Effect.runPromise(testPipe(mocked, { stream: true }));
+
+    expect(capture.captured()).toEqual(["#7", "#8"]);
+  });
+
+  it("should throw for a Pipe without the Node", () => {
+    const { pipe } = orders([]);
+
+    expect(() => mockNode("price", [])(pipe)).toThrow('Cannot mock "price": pipeline "orders" has no such node');
+  });
+});
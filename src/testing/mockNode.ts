@@ -0,0 +1,77 @@
+import { Data, Effect, Stream } from "effect";
+import { NodeKind, type Node } from "../core/node";
+import type { Pipe } from "../core/pipe";
+import type { Drop } from "../core/drop";
+import { mapNodes } from "../pipes/mapNodes";
+
+/**
+ * Raised by a mock given more inputs than it has outputs for.
+ */
+export class MockExhaustedError extends Data.TaggedError("MockExhaustedError")<{
+  readonly message: string;
+  readonly nodeName: string;
+}> {}
+
+/**
+ * Swaps a mock in for the Node of the same name in any Pipe it is applied to,
+ * and remembers the inputs the mock was called with.
+ */
+export interface MockNode<I> {
+  <E, R>(pipe: Pipe<E, R>): Pipe<E | MockExhaustedError, R>;
+  readonly calls: () => readonly I[];
+}
+
+/**
+ * Mock the Node called `name`: each call answers with the next of `outputs`
+ * – failing with a `MockExhaustedError` once they run out – or with
+ * `outputs(input)`. `Drop` drops the item. A mocked Ingress streams all of
+ * its outputs. The mock keeps the Node's name and kind but none of its
+ * settings, so it is neither retried nor timed out.
+ *
+ * Applying the mock to a Pipe without such a Node throws.
+ */
+export function mockNode<I = any, O = unknown>(
+  name: string,
+  outputs: readonly (O | Drop)[] | ((input: I) => O | Drop)
+): MockNode<I> {
+  const calls: I[] = [];
+  let next = 0;
+
+  const answer = (input: I) =>
+    Effect.suspend(() => {
+      calls.push(input);
+      if (typeof outputs === "function") {
+        return Effect.succeed(outputs(input));
+      }
+      return next < outputs.length
+        ? Effect.succeed(outputs[next++]!)
+        : Effect.fail(new MockExhaustedError({
+          message: `Mock of node "${name}" has no output left for call ${calls.length}`,
+          nodeName: name
+        }));
+    });
+
+  const swap = <E, R>(pipe: Pipe<E, R>): Pipe<E | MockExhaustedError, R> => {
+    let found = false;
+    const mocked = mapNodes(pipe, (node): Node<any, any, E | MockExhaustedError, R> => {
+      if (node.name !== name) {
+        return node;
+      }
+      found = true;
+      return {
+        kind: node.kind,
+        name,
+        run: answer,
+        ...(node.kind === NodeKind.Ingress && typeof outputs !== "function"
+          ? { stream: () => Stream.fromIterable(outputs) }
+          : {})
+      };
+    });
+    if (!found) {
+      throw new Error(`Cannot mock "${name}": pipeline "${pipe.name}" has no such node`);
+    }
+    return mocked;
+  };
+
+  return Object.assign(swap, { calls: () => [...calls] });
+}
@@ -0,0 +1,22 @@
+import { describe, it, expect } from "bun:test";
+import { Effect } from "effect";
+import { postgresAvailable, postgresTestConnection } from "./postgres";
+import { PostgresConnection } from "../nodes/postgres/config";
+
+describe("postgresAvailable", () => {
+  it("should resolve whether or not the database is up", async () => {
+    expect(typeof await postgresAvailable()).toBe("boolean");
+  });
+});
+
+describe.skipIf(!(await postgresAvailable()))("postgresTestConnection", () => {
+  it("should connect to the test database", async () => {
+    const rows = await Effect.runPromise(
+      Effect.flatMap(PostgresConnection, ({ sql }) => Effect.promise(() => sql`SELECT current_database() AS name`)).pipe(
+        Effect.provide(postgresTestConnection)
+      )
+    );
+
+    expect(rows[0]?.name).toBe(process.env.POSTGRES_DATABASE ?? "pipeline_db");
+  });
+});
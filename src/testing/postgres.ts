@@ -0,0 +1,24 @@
+import { Effect, Layer } from "effect";
+import { PostgresConfigLive, PostgresConnectionLive } from "../nodes/postgres/config";
+
+/**
+ * A connection to the database tests against Postgres run on: the one of
+ * `docker-compose.yml`, unless the `POSTGRES_*` variables point elsewhere.
+ *
+ * Import it from `src/testing/postgres`, so the rest of the kit loads
+ * without the Postgres nodes.
+ */
+export const postgresTestConnection = PostgresConnectionLive.pipe(Layer.provide(PostgresConfigLive));
+
+/**
+ * Whether that database is up – see `bun run postgres:up` – for skipping
+ * tests that need it with `describe.skipIf(!(await postgresAvailable()))`.
+ */
+export const postgresAvailable = (): Promise<boolean> =>
+  Effect.runPromise(
+    Effect.scoped(Layer.build(postgresTestConnection)).pipe(
+      Effect.timeout("2 seconds"),
+      Effect.as(true),
+      Effect.orElseSucceed(() => false)
+    )
+  );
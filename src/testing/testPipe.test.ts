@@ -0,0 +1,54 @@
+import { describe, it, expect } from "bun:test";
+import { Cause, Effect, Exit, Option } from "effect";
+import { NodeKind, type Node } from "../core/node";
+import { NodeTimeoutError } from "../runtime/engine/errors";
+import { Reducers, tumblingWindow, type WindowAggregate } from "../nodes/transform/window";
+import { fixtureIngress } from "./fixtureIngress";
+import { captureEgress } from "./captureEgress";
+import { assertEvents } from "./events";
+import { testPipe } from "./testPipe";
+
+const double: Node<number, number> = {
+  kind: NodeKind.Transform,
+  name: "double",
+  run: (n) => Effect.succeed(n * 2)
+};
+
+describe("testPipe", () => {
+  it("should run a one-shot Pipe and collect its events", async () => {
+    const pipe = { name: "numbers", nodes: [fixtureIngress("numbers", [21]), double, captureEgress<number>()] };
+
+    const { exit, events } = await Effect.runPromise(testPipe(pipe));
+
+    expect(Exit.isSuccess(exit) && exit.value?.output).toBe(42);
+    assertEvents(events, ["PipelineStarted", { _tag: "NodeCompleted", nodeName: "double" }, "PipelineCompleted"]);
+  });
+
+  it("should report a failed run in its exit", async () => {
+    const slow: Node<number, number> = { ...double, name: "slow", run: () => Effect.never, timeout: "1 second" };
+    const pipe = { name: "numbers", nodes: [fixtureIngress("numbers", [1]), slow, captureEgress<number>()] };
+
+    const { exit, events } = await Effect.runPromise(testPipe(pipe, { advance: "1 second" }));
+
+    const error = Exit.isFailure(exit) ? Option.getOrUndefined(Cause.failureOption(exit.cause)) : undefined;
+    expect(error).toBeInstanceOf(NodeTimeoutError);
+    assertEvents(events, [{ _tag: "NodeTimedOut", nodeName: "slow", elapsedMs: 1000 }, "PipelineErrored"]);
+  });
+
+  it("should move the clock so windows close in streaming runs", async () => {
+    const capture = captureEgress<WindowAggregate<number>>();
+    const pipe = {
+      name: "clicks",
+      nodes: [
+        fixtureIngress("clicks", [1, 1, 1, 1], { spacing: "40 seconds" }),
+        tumblingWindow("per-minute", { size: "1 minute", reducer: Reducers.count<number>() }),
+        capture
+      ]
+    };
+
+    await Effect.runPromise(testPipe(pipe, { stream: true, advance: "5 minutes" }));
+
+    // The last window is flushed when the stream ends with its last item, at 120 seconds
+    expect(capture.timeline().map(([at, window]) => [at, window.value])).toEqual([[60000, 2], [120000, 1], [120000, 1]]);
+  });
+});
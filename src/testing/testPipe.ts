@@ -0,0 +1,54 @@
+import { Duration, Effect, Exit, Fiber, Queue, TestClock, TestContext } from "effect";
+import type { Pipe } from "../core/pipe";
+import type { RuntimeEvent } from "../core/event";
+import { PipelineExecutor, type ExecutorOptions } from "../runtime/engine/executor";
+import type { PipelineError } from "../runtime/engine/errors";
+import type { RunOptions, RunResult } from "../runtime/engine/runResult";
+import { takeEvents } from "./events";
+
+export interface TestPipeOptions extends RunOptions {
+  /**
+   * Run with `runStream()` instead of a one-shot `run()`.
+   */
+  readonly stream?: boolean;
+  /**
+   * How far to move the `TestClock` while the run is going, so timeouts,
+   * retry delays and windows play out at once. Without it the clock stands
+   * still.
+   */
+  readonly advance?: Duration.DurationInput;
+  readonly executor?: ExecutorOptions;
+}
+
+/**
+ * How a test run ended, with every event it emitted.
+ */
+export interface PipeTestRun<E> {
+  /**
+   * The `RunResult` of a one-shot run – `undefined` for a streaming one – or
+   * the error the run failed with.
+   */
+  readonly exit: Exit.Exit<RunResult | undefined, PipelineError<E>>;
+  readonly events: readonly RuntimeEvent[];
+}
+
+/**
+ * Run a Pipe on a fresh executor and event queue under the `TestContext`, so
+ * time is controlled by the `TestClock`. Never fails: the run's outcome is in
+ * `exit`. The Pipe's services `R` still need to be provided.
+ */
+export function testPipe<E, R>(pipe: Pipe<E, R>, options: TestPipeOptions = {}): Effect.Effect<PipeTestRun<E>, never, R> {
+  return Effect.gen(function* (_) {
+    const queue = yield* _(Queue.unbounded<RuntimeEvent>());
+    const executor = new PipelineExecutor(pipe, queue, options.executor);
+    const run = options.stream ? Effect.as(executor.runStream(), undefined) : executor.run(options);
+
+    const fiber = yield* _(Effect.fork(Effect.exit(run)));
+    if (options.advance !== undefined) {
+      yield* _(TestClock.adjust(options.advance));
+    }
+    const exit = yield* _(Fiber.join(fiber));
+
+    return { exit, events: yield* _(takeEvents(queue)) };
+  }).pipe(Effect.provide(TestContext.TestContext));
+}